@@ -7,8 +7,11 @@ import 'package:cloud_firestore/cloud_firestore.dart';
 import 'dart:io' show Platform;
 import 'package:sign_in_with_apple/sign_in_with_apple.dart' show SignInWithApple, AppleIDCredential, AppleIDAuthorizationScopes, SignInWithAppleAuthorizationException;
 import 'dart:async';
+import 'dart:convert';
+import 'package:http/http.dart' as http;
 
 class AuthService extends ChangeNotifier {
+  static const String _baseUrl = 'https://genz-video-api-56249782826.asia-east1.run.app/api/v1';
   final FirebaseAuth _auth = FirebaseAuth.instance;
   final FirebaseFirestore _firestore = FirebaseFirestore.instance;
   final GoogleSignIn _googleSignIn = GoogleSignIn();
@@ -348,12 +351,29 @@ class AuthService extends ChangeNotifier {
       await user.updateDisplayName(displayName);
       await user.updatePhotoURL(photoURL);
       
+      // Display names are moderated, so they go through the API
+      if (displayName != null) {
+        final token = await user.getIdToken();
+        final response = await http.put(
+          Uri.parse('$_baseUrl/users/${user.uid}'),
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': 'Bearer $token',
+          },
+          body: json.encode({'displayName': displayName}),
+        );
+        if (response.statusCode != 200) {
+          throw Exception('Failed to update profile: ${response.statusCode}');
+        }
+      }
+
       // Update Firestore document
-      await _firestore.collection('users').doc(user.uid).update({
-        if (displayName != null) 'displayName': displayName,
-        if (photoURL != null) 'photoURL': photoURL,
-        'updatedAt': FieldValue.serverTimestamp(),
-      });
+      if (photoURL != null) {
+        await _firestore.collection('users').doc(user.uid).update({
+          'photoURL': photoURL,
+          'updatedAt': FieldValue.serverTimestamp(),
+        });
+      }
       
       notifyListeners();
     } catch (e) {
@@ -409,6 +429,7 @@ class AuthService extends ChangeNotifier {
       'uid': user.uid,
       'email': user.email,
       'displayName': displayName,
+      'displayNameLower': displayName.toLowerCase(),
       'photoURL': photoURL ?? user.photoURL,
       'isAnonymous': user.isAnonymous,
       'createdAt': FieldValue.serverTimestamp(),
@@ -3,6 +3,16 @@ import dotenv from 'dotenv';
 // Load environment variables as early as possible
 dotenv.config();
 
+// Accepts plain byte counts or sizes like "100MB" / "1.5GB"
+const parseByteSize = (value: string): number => {
+  const match = /^(\d+(?:\.\d+)?)\s*(B|KB|MB|GB)?$/i.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid byte size: ${value}`);
+  }
+  const units: Record<string, number> = { B: 1, KB: 1024, MB: 1024 ** 2, GB: 1024 ** 3 };
+  return Math.floor(Number(match[1]) * (units[(match[2] || 'B').toUpperCase()] || 1));
+};
+
 export const config = {
   // Server Configuration
   port: parseInt(process.env['PORT'] || '8080', 10),
@@ -11,6 +21,9 @@ export const config = {
   apiUrl: process.env['API_URL'] || 'http://localhost:8080',
   environment: process.env['NODE_ENV'] || 'development',
   corsOrigins: process.env['CORS_ORIGINS']?.split(',') || ['http://localhost:3000'],
+  // Proxies in front of the app (Cloud Run's front end is one). req.ip is read
+  // from X-Forwarded-For only this many hops back, since clients can set the rest.
+  trustProxyHops: parseInt(process.env['TRUST_PROXY_HOPS'] || '1', 10),
 
   // Firebase Configuration
   firebase: {
@@ -56,18 +69,142 @@ export const config = {
     jwtSecret: process.env['JWT_SECRET'] || 'fallback-secret-change-in-production',
     apiKeyHeader: process.env['API_KEY_HEADER'] || 'x-api-key',
     apiKeys: process.env['API_KEYS']?.split(',') || [],
+    cursorSecret: process.env['CURSOR_SECRET'] || process.env['JWT_SECRET'] || 'fallback-secret-change-in-production',
   },
 
   // Cache Configuration
   cache: {
     ttl: parseInt(process.env['CACHE_TTL'] || '300', 10), // 5 minutes
     maxKeys: parseInt(process.env['CACHE_MAX_KEYS'] || '1000', 10),
+    // Cross-instance recompute lock used by getOrCompute
+    lockTtlMs: parseInt(process.env['CACHE_LOCK_TTL_MS'] || '5000', 10),
+    lockWaitMs: parseInt(process.env['CACHE_LOCK_WAIT_MS'] || '2000', 10),
   },
 
   // File Upload
   upload: {
     maxFileSize: process.env['MAX_FILE_SIZE'] || '100MB',
-    allowedTypes: process.env['ALLOWED_FILE_TYPES']?.split(',') || ['video/mp4', 'video/mov', 'video/avi'],
+    maxFileSizeBytes: parseByteSize(process.env['MAX_FILE_SIZE'] || '100MB'),
+    // Uploads only feed the video pipeline, so non-video types are dropped
+    allowedTypes: (process.env['ALLOWED_FILE_TYPES']?.split(',') || ['video/mp4', 'video/mov', 'video/avi'])
+      .map(type => type.trim())
+      .filter(type => type.startsWith('video/')),
+    sessionTtlMinutes: parseInt(process.env['UPLOAD_SESSION_TTL_MINUTES'] || '60', 10),
+  },
+
+  // Object Storage
+  storage: {
+    backend: process.env['STORAGE_BACKEND'] || 'gcs',
+    bucket: process.env['STORAGE_BUCKET'] || '',
+    localRoot: process.env['LOCAL_STORAGE_ROOT'] || './.local-storage',
+  },
+
+  // Video Processing
+  processing: {
+    transcoder: process.env['TRANSCODER'] || 'ffmpeg',
+    ffmpegPath: process.env['FFMPEG_PATH'] || 'ffmpeg',
+    ffprobePath: process.env['FFPROBE_PATH'] || 'ffprobe',
+    concurrency: parseInt(process.env['PROCESSING_CONCURRENCY'] || '1', 10),
+    maxAttempts: parseInt(process.env['PROCESSING_MAX_ATTEMPTS'] || '3', 10),
+    retryBackoffMs: parseInt(process.env['PROCESSING_RETRY_BACKOFF_MS'] || '30000', 10),
+    sweepIntervalMs: parseInt(process.env['PROCESSING_SWEEP_INTERVAL_MS'] || '300000', 10), // 5 minutes
+    staleAfterMs: parseInt(process.env['PROCESSING_STALE_AFTER_MS'] || '1800000', 10), // 30 minutes
+  },
+
+  // Danmu Segments
+  danmuSegments: {
+    durationSeconds: parseInt(process.env['DANMU_SEGMENT_SECONDS'] || '60', 10),
+    maxItems: parseInt(process.env['DANMU_SEGMENT_MAX_ITEMS'] || '500', 10),
+    // Segments are invalidated on every change, so this only bounds memory
+    cacheTtl: parseInt(process.env['DANMU_SEGMENT_CACHE_TTL'] || '86400', 10),
+  },
+
+  // Danmu Streaming
+  danmuStream: {
+    heartbeatMs: parseInt(process.env['DANMU_STREAM_HEARTBEAT_MS'] || '25000', 10),
+    // Client reconnect delay sent in the SSE retry field
+    retryMs: parseInt(process.env['DANMU_STREAM_RETRY_MS'] || '3000', 10),
+    maxConnectionsPerVideo: parseInt(process.env['DANMU_STREAM_MAX_CONNECTIONS_PER_VIDEO'] || '5000', 10),
+  },
+
+  // View Counting
+  views: {
+    // A viewer adds at most one view per video in this window
+    dedupeWindowSeconds: parseInt(process.env['VIEW_DEDUPE_WINDOW_SECONDS'] || '1800', 10), // 30 minutes
+    minWatchSeconds: parseFloat(process.env['VIEW_MIN_WATCH_SECONDS'] || '3'),
+    flushIntervalMs: parseInt(process.env['VIEW_FLUSH_INTERVAL_MS'] || '10000', 10),
+    flushBatchSize: parseInt(process.env['VIEW_FLUSH_BATCH_SIZE'] || '200', 10),
+  },
+
+  // Creator Analytics
+  analytics: {
+    rollupIntervalMs: parseInt(process.env['ANALYTICS_ROLLUP_INTERVAL_MS'] || '3600000', 10), // 1 hour
+    // Days recounted per run, so yesterday is finalized after midnight UTC
+    rollupDays: parseInt(process.env['ANALYTICS_ROLLUP_DAYS'] || '2', 10),
+    maxDays: parseInt(process.env['ANALYTICS_MAX_DAYS'] || '90', 10),
+    cacheTtl: parseInt(process.env['ANALYTICS_CACHE_TTL'] || '300', 10), // 5 minutes
+  },
+
+  // Highlight Detection
+  highlights: {
+    maxEventsPerSignal: parseInt(process.env['HIGHLIGHTS_MAX_EVENTS_PER_SIGNAL'] || '20000', 10),
+    maxHighlights: parseInt(process.env['HIGHLIGHTS_MAX_HIGHLIGHTS'] || '5', 10),
+    minSignalEvents: parseInt(process.env['HIGHLIGHTS_MIN_SIGNAL_EVENTS'] || '10', 10),
+    cacheTtl: parseInt(process.env['HIGHLIGHTS_CACHE_TTL'] || '300', 10), // 5 minutes
+  },
+
+  // Text Moderation
+  textModeration: {
+    // Providers run in this order on every user-written text
+    providers: process.env['TEXT_MODERATION_PROVIDERS']?.split(',') || ['lexicon', 'links'],
+    // More links than this in one text is held for review
+    maxLinks: parseInt(process.env['TEXT_MODERATION_MAX_LINKS'] || '2', 10),
+    // Optional external classifier, enabled by adding 'external' to the providers
+    externalUrl: process.env['TEXT_MODERATION_EXTERNAL_URL'] || '',
+    externalApiKey: process.env['TEXT_MODERATION_EXTERNAL_API_KEY'] || '',
+    externalTimeoutMs: parseInt(process.env['TEXT_MODERATION_EXTERNAL_TIMEOUT_MS'] || '1500', 10),
+    externalHoldThreshold: parseFloat(process.env['TEXT_MODERATION_EXTERNAL_HOLD_THRESHOLD'] || '0.7'),
+    externalRejectThreshold: parseFloat(process.env['TEXT_MODERATION_EXTERNAL_REJECT_THRESHOLD'] || '0.95'),
+  },
+
+  // Push Delivery
+  push: {
+    // 'fcm', or 'recording' to log pushes instead of sending them
+    transport: process.env['PUSH_TRANSPORT'] || 'fcm',
+    intervalMs: parseInt(process.env['PUSH_INTERVAL_MS'] || '15000', 10),
+    batchSize: parseInt(process.env['PUSH_BATCH_SIZE'] || '100', 10),
+    maxAttempts: parseInt(process.env['PUSH_MAX_ATTEMPTS'] || '5', 10),
+    retryBackoffMs: parseInt(process.env['PUSH_RETRY_BACKOFF_MS'] || '60000', 10),
+    // How long a worker owns a notification before another may pick it up
+    leaseMs: parseInt(process.env['PUSH_LEASE_MS'] || '120000', 10),
+  },
+
+  // Username Rules
+  usernames: {
+    changeCooldownDays: parseInt(process.env['USERNAME_CHANGE_COOLDOWN_DAYS'] || '30', 10),
+    redirectGraceDays: parseInt(process.env['USERNAME_REDIRECT_GRACE_DAYS'] || '14', 10),
+  },
+
+  // APAC markets that get their own trending buckets
+  supportedRegions: process.env['SUPPORTED_REGIONS']?.split(',') || ['HK', 'TW', 'SG', 'MY', 'JP', 'KR', 'TH', 'PH', 'ID', 'VN'],
+
+  // Trending Computation
+  trending: {
+    intervalMs: parseInt(process.env['TRENDING_INTERVAL_MS'] || '600000', 10), // 10 minutes
+    windowHours: parseInt(process.env['TRENDING_WINDOW_HOURS'] || '48', 10),
+    halfLifeHours: parseInt(process.env['TRENDING_HALF_LIFE_HOURS'] || '6', 10),
+    maxEventsPerSource: parseInt(process.env['TRENDING_MAX_EVENTS'] || '20000', 10),
+  },
+
+  // Search
+  search: {
+    provider: process.env['SEARCH_PROVIDER'] || 'memory',
+    reindexIntervalMs: parseInt(process.env['SEARCH_REINDEX_INTERVAL_MS'] || '900000', 10), // 15 minutes
+  },
+
+  // Background Jobs
+  jobs: {
+    enabled: process.env['JOBS_ENABLED'] !== 'false',
   },
 
   // Database Connection Pool
@@ -0,0 +1,42 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { accessService, Role } from '../services/access.service';
+import { asyncHandler } from '../middleware/error.middleware';
+
+export class AdminController {
+  // Grant a role by setting the user's custom claims
+  public grantRole = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const actorId = req.user!.uid;
+    const { userId } = req.params;
+    const { role } = req.body;
+
+    const access = await accessService.grantRole(actorId, userId as string, role as Role);
+
+    return res.json({
+      success: true,
+      data: {
+        userId,
+        ...access,
+        // Existing ID tokens keep their old claims until the client refreshes them
+        effectiveOnTokenRefresh: true,
+      },
+    });
+  });
+
+  // Revoke a role from the user's custom claims
+  public revokeRole = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const actorId = req.user!.uid;
+    const { userId, role } = req.params;
+
+    const access = await accessService.revokeRole(actorId, userId as string, role as Role);
+
+    return res.json({
+      success: true,
+      data: {
+        userId,
+        ...access,
+        effectiveOnTokenRefresh: true,
+      },
+    });
+  });
+}
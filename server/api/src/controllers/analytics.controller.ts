@@ -0,0 +1,58 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { firebaseService } from '../services/firebase.service';
+import { AnalyticsReport, analyticsService, reportToCsv } from '../services/analytics.service';
+import { asyncHandler } from '../middleware/error.middleware';
+import { ForbiddenError, NotFoundError } from '../utils/errors';
+
+const DEFAULT_DAYS = 28;
+
+export class AnalyticsController {
+  // Daily totals across all of the signed-in creator's videos, plus follower growth
+  public getOverview = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { days = DEFAULT_DAYS, format = 'json' } = req.query;
+    const userId = req.user!.uid;
+
+    const report = await analyticsService.getCreatorOverview(userId, Number(days));
+
+    if (format === 'csv') {
+      return this.sendCsv(res, `analytics-${userId}`, report);
+    }
+    return res.json({
+      success: true,
+      data: report,
+    });
+  });
+
+  // Daily series, retention curve and traffic sources for one video; owner or admin only
+  public getVideoAnalytics = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { videoId } = req.params;
+    const { days = DEFAULT_DAYS, format = 'json' } = req.query;
+
+    const videoDoc = await firebaseService.getFirestore().collection('videos').doc(videoId as string).get();
+    if (!videoDoc.exists) {
+      throw new NotFoundError('Video');
+    }
+    if (videoDoc.data()?.['userId'] !== req.user?.uid && !req.user?.roles?.includes('admin')) {
+      throw new ForbiddenError('You can only view analytics for your own videos');
+    }
+
+    const report = await analyticsService.getVideoReport(videoId as string, Number(days));
+
+    if (format === 'csv') {
+      return this.sendCsv(res, `analytics-${videoId}`, report);
+    }
+    return res.json({
+      success: true,
+      data: report,
+    });
+  });
+
+  private sendCsv(res: Response, name: string, report: AnalyticsReport) {
+    res.set({
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${name}-${report.range.from}-${report.range.to}.csv"`,
+    });
+    return res.send(reportToCsv(report));
+  }
+}
@@ -1,13 +1,22 @@
 import { Response } from 'express';
 import { AuthenticatedRequest } from '../middleware/auth.middleware';
 import { firebaseService } from '../services/firebase.service';
-import { cacheService } from '../services/cache.service';
+import { cacheService, cacheTags } from '../services/cache.service';
 import { FieldValue } from '../services/firebase.service';
 import { logger } from '../utils/logger';
 import { NotFoundError, ForbiddenError, ValidationError } from '../utils/errors';
 import { asyncHandler } from '../middleware/error.middleware';
+import { paginateQuery } from '../utils/pagination';
+import { interactionSettingsService } from '../services/interactionSettings.service';
+import { extractMentions, notificationService } from '../services/notification.service';
+import { usernameService } from '../services/username.service';
+import { moderationService } from '../services/moderation.service';
 import { v4 as uuidv4 } from 'uuid';
 
+// Hidden comments stay visible to their author only; removed ones to nobody
+const isVisibleTo = (commentData: Record<string, any>, viewerId: string | undefined): boolean =>
+  commentData['status'] !== 'removed' && (commentData['status'] !== 'hidden' || commentData['userId'] === viewerId);
+
 export class CommentController {
   private get firestore() {
     return firebaseService.getFirestore();
@@ -15,99 +24,86 @@ export class CommentController {
   // Get comments for a video
   public getComments = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { videoId } = req.params;
-    const { page = 1, limit = 20, sort = 'date', order = 'desc' } = req.query;
+    const { page = 1, limit = 20, sort = 'date', order = 'desc', cursor } = req.query;
     const userId = req.user?.uid;
 
-    const cacheKey = `comments:${videoId}:${sort}:${order}:${page}:${limit}`;
-    const cachedComments = await cacheService.get(cacheKey);
-    
-    if (cachedComments) {
-      return res.json({
-        success: true,
-        data: cachedComments,
-        cached: true
-      });
-    }
-
-    // Validate video exists
     if (!videoId) {
       throw new ValidationError('Video ID is required');
-    }    const videoDoc = await this.firestore.collection('videos').doc(videoId).get();
-    if (!videoDoc.exists) {
-      throw new NotFoundError('Video not found');
-    }
-
-    // Query comments
-    let query = this.firestore
-      .collection('comments')
-      .where('videoId', '==', videoId)
-      .where('parentId', '==', null);
-
-    // Apply sorting
-    if (sort === 'likes') {
-      query = query.orderBy('likeCount', order as any);
-    } else {
-      query = query.orderBy('createdAt', order as any);
     }
 
-    const pageNum = Number(page);
-    const limitNum = Number(limit);
-    const offset = (pageNum - 1) * limitNum;
-
-    const commentsSnapshot = await query.offset(offset).limit(limitNum).get();
-
-    // Get user data for all comments
-    const comments = await Promise.all(
-      commentsSnapshot.docs.map(async (doc: any) => {
-        const commentData = doc.data();
-        let userData = null;
-        let isLiked = false;        // Get user data
-        try {
-          const userDoc = await this.firestore.collection('users').doc(commentData['userId']).get();
-          userData = userDoc.data();
-        } catch (error) {
-          logger.warn(`Failed to get user data for comment ${doc.id}`, error);
-        }
-
-        // Check if current user liked this comment
-        if (userId) {
-          const likeDoc = await this.firestore
-            .collection('comment_likes')
-            .doc(`${doc.id}_${userId}`)
-            .get();
-          isLiked = likeDoc.exists;
-        }
+    // isLiked is per viewer, so the viewer is part of the key
+    const cacheKey = `comments:${videoId}:${sort}:${order}:${cursor || page}:${limit}:${userId || 'anonymous'}`;
 
-        return {
-          id: doc.id,
-          content: commentData['content'],
-          likeCount: commentData['likeCount'] || 0,
-          replyCount: 0, // Will be calculated separately if needed
-          createdAt: commentData['createdAt'],
-          updatedAt: commentData['updatedAt'],
-          isLiked,
-          user: {
-            uid: userData?.['uid'] || commentData['userId'],
-            displayName: userData?.['displayName'] || 'Unknown User',
-            username: userData?.['username'],
-            profilePicture: userData?.['profilePicture'],
-          },
-        };
-      })
-    );
-
-    const result = {
-      comments,
-      pagination: {
-        page: pageNum,
-        limit: limitNum,
-        total: commentsSnapshot.size,
-        hasMore: commentsSnapshot.size === limitNum
+    const result = await cacheService.getOrCompute(cacheKey, 300, async () => { // 5 minutes
+      // Validate video exists
+      const videoDoc = await this.firestore.collection('videos').doc(videoId).get();
+      if (!videoDoc.exists) {
+        throw new NotFoundError('Video not found');
       }
-    };
 
-    // Cache the result
-    await cacheService.set(cacheKey, result, 300); // 5 minutes
+      // Query comments
+      const query = this.firestore
+        .collection('comments')
+        .where('videoId', '==', videoId)
+        .where('parentId', '==', null);
+
+      // Apply sorting
+      const sortField = sort === 'likes' ? 'likeCount' : 'createdAt';
+
+      const { docs, pagination } = await paginateQuery(query, {
+        scope: `comments:${videoId}:${sortField}:${order}`,
+        orderBy: [{ field: sortField, direction: order as any }],
+        limit: Number(limit),
+        page: Number(page),
+        cursor: cursor as string | undefined,
+        filter: doc => isVisibleTo(doc.data(), userId),
+      });
+
+      // Get user data for all comments
+      const comments = await Promise.all(
+        docs.map(async (doc: any) => {
+          const commentData = doc.data();
+          let userData = null;
+          let isLiked = false;        // Get user data
+          try {
+            const userDoc = await this.firestore.collection('users').doc(commentData['userId']).get();
+            userData = userDoc.data();
+          } catch (error) {
+            logger.warn(`Failed to get user data for comment ${doc.id}`, error);
+          }
+
+          // Check if current user liked this comment
+          if (userId) {
+            const likeDoc = await this.firestore
+              .collection('comment_likes')
+              .doc(`${doc.id}_${userId}`)
+              .get();
+            isLiked = likeDoc.exists;
+          }
+
+          return {
+            id: doc.id,
+            content: commentData['content'],
+            likeCount: commentData['likeCount'] || 0,
+            replyCount: 0, // Will be calculated separately if needed
+            createdAt: commentData['createdAt'],
+            updatedAt: commentData['updatedAt'],
+            isLiked,
+            user: {
+              uid: userData?.['uid'] || commentData['userId'],
+              displayName: userData?.['displayName'] || 'Unknown User',
+              username: userData?.['username'],
+              profilePicture: userData?.['profilePicture'],
+            },
+          };
+        })
+      );
+
+      return {
+        comments,
+        pagination
+      };
+    }, { staleTtl: 60, tags: [cacheTags.comments(videoId)] });
 
     return res.json({
       success: true,
@@ -118,92 +114,79 @@ export class CommentController {
   // Get replies for a comment
   public getReplies = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { commentId } = req.params;
-    const { page = 1, limit = 10 } = req.query;
+    const { page = 1, limit = 10, cursor } = req.query;
     const userId = req.user?.uid;
 
-    const cacheKey = `replies:${commentId}:${page}:${limit}`;
-    const cachedReplies = await cacheService.get(cacheKey);
-    
-    if (cachedReplies) {
-      return res.json({
-        success: true,
-        data: cachedReplies,
-        cached: true
-      });
-    }
-
-    // Validate comment exists
     if (!commentId) {
       throw new ValidationError('Comment ID is required');
-    }    const commentDoc = await this.firestore.collection('comments').doc(commentId).get();
-    if (!commentDoc.exists) {
-      throw new NotFoundError('Comment not found');
     }
 
-    const pageNum = Number(page);
-    const limitNum = Number(limit);
-    const offset = (pageNum - 1) * limitNum;
-
-    const repliesSnapshot = await this.firestore
-      .collection('comments')
-      .where('parentId', '==', commentId)
-      .orderBy('createdAt', 'asc')
-      .offset(offset)
-      .limit(limitNum)
-      .get();
-
-    const replies = await Promise.all(
-      repliesSnapshot.docs.map(async (doc: any) => {
-        const replyData = doc.data();
-        let userData = null;
-        let isLiked = false;
-
-        // Get user data
-        try {
-          const userDoc = await this.firestore.collection('users').doc(replyData['userId']).get();
-          userData = userDoc.data();
-        } catch (error) {
-          logger.warn(`Failed to get user data for reply ${doc.id}`, error);
-        }
-
-        // Check if current user liked this reply
-        if (userId) {
-          const likeDoc = await this.firestore
-            .collection('comment_likes')
-            .doc(`${doc.id}_${userId}`)
-            .get();
-          isLiked = likeDoc.exists;
-        }
-
-        return {
-          id: doc.id,
-          content: replyData['content'],
-          likeCount: replyData['likeCount'] || 0,
-          createdAt: replyData['createdAt'],
-          updatedAt: replyData['updatedAt'],
-          isLiked,
-          user: {
-            uid: userData?.['uid'] || replyData['userId'],
-            displayName: userData?.['displayName'] || 'Unknown User',
-            username: userData?.['username'],
-            profilePicture: userData?.['profilePicture'],
-          },
-        };
-      })
-    );
+    const cacheKey = `replies:${commentId}:${cursor || page}:${limit}:${userId || 'anonymous'}`;
 
-    const result = {
-      replies,
-      pagination: {
-        page: pageNum,
-        limit: limitNum,
-        total: repliesSnapshot.size,
-        hasMore: repliesSnapshot.size === limitNum
+    const result = await cacheService.getOrCompute(cacheKey, 300, async () => { // 5 minutes
+      // Validate comment exists
+      const commentDoc = await this.firestore.collection('comments').doc(commentId).get();
+      if (!commentDoc.exists) {
+        throw new NotFoundError('Comment not found');
       }
-    };
 
-    // Cache the result
-    await cacheService.set(cacheKey, result, 300); // 5 minutes
+      const { docs, pagination } = await paginateQuery(
+        this.firestore.collection('comments').where('parentId', '==', commentId),
+        {
+          scope: `replies:${commentId}`,
+          orderBy: [{ field: 'createdAt', direction: 'asc' }],
+          limit: Number(limit),
+          page: Number(page),
+          cursor: cursor as string | undefined,
+          filter: doc => isVisibleTo(doc.data(), userId),
+        }
+      );
+
+      const replies = await Promise.all(
+        docs.map(async (doc: any) => {
+          const replyData = doc.data();
+          let userData = null;
+          let isLiked = false;
+
+          // Get user data
+          try {
+            const userDoc = await this.firestore.collection('users').doc(replyData['userId']).get();
+            userData = userDoc.data();
+          } catch (error) {
+            logger.warn(`Failed to get user data for reply ${doc.id}`, error);
+          }
+
+          // Check if current user liked this reply
+          if (userId) {
+            const likeDoc = await this.firestore
+              .collection('comment_likes')
+              .doc(`${doc.id}_${userId}`)
+              .get();
+            isLiked = likeDoc.exists;
+          }
+
+          return {
+            id: doc.id,
+            content: replyData['content'],
+            likeCount: replyData['likeCount'] || 0,
+            createdAt: replyData['createdAt'],
+            updatedAt: replyData['updatedAt'],
+            isLiked,
+            user: {
+              uid: userData?.['uid'] || replyData['userId'],
+              displayName: userData?.['displayName'] || 'Unknown User',
+              username: userData?.['username'],
+              profilePicture: userData?.['profilePicture'],
+            },
+          };
+        })
+      );
+
+      return {
+        replies,
+        pagination
+      };
+    }, { staleTtl: 60, tags: [cacheTags.replies(commentId)] });
 
     return res.json({
       success: true,
@@ -233,7 +216,10 @@ export class CommentController {
       throw new NotFoundError('Video not found');
     }
 
+    const { status, heldForReview, verdict } = await interactionSettingsService.review('comments', videoId, videoDoc.data()!, userId, content);
+
     // If this is a reply, check if parent comment exists
+    let parentAuthorId: string | undefined;
     if (parentId) {
       const parentDoc = await this.firestore.collection('comments').doc(parentId).get();
       if (!parentDoc.exists) {
@@ -245,6 +231,7 @@ export class CommentController {
       if (parentData?.['parentId']) {
         throw new ValidationError('Cannot reply to a reply');
       }
+      parentAuthorId = parentData?.['userId'];
     }
 
     const commentId = uuidv4();
@@ -254,6 +241,8 @@ export class CommentController {
       userId,
       parentId: parentId || null,
       likeCount: 0,
+      status,
+      ...(heldForReview && { heldForReview }),
       createdAt: new Date(),
       updatedAt: new Date(),
     };    const batch = this.firestore.batch();
@@ -261,8 +250,8 @@ export class CommentController {
     // Create comment
     batch.set(this.firestore.collection('comments').doc(commentId), commentData);
 
-    // Update video comment count (only for top-level comments)
-    if (!parentId) {
+    // Update video comment count (only for visible top-level comments)
+    if (!parentId && status === 'active') {
       batch.update(this.firestore.collection('videos').doc(videoId), {
         commentCount: FieldValue.increment(1),
       });
@@ -270,12 +259,21 @@ export class CommentController {
 
     await batch.commit();
 
+    if (heldForReview) {
+      await moderationService.holdForReview({ type: 'comment', id: commentId }, verdict);
+    }
+
     // Clear relevant caches
-    await Promise.all([
-      cacheService.del(`comments:${videoId}:date:desc:1:20`),
-      cacheService.del(`video:${videoId}:${userId}`),
-      parentId && cacheService.del(`replies:${parentId}:1:10`),
-    ].filter(Boolean));
+    await cacheService.invalidateTags([
+      cacheTags.comments(videoId),
+      cacheTags.video(videoId),
+      ...(parentId ? [cacheTags.replies(parentId)] : []),
+    ]);
+
+    // Hidden comments only exist for their author, so nobody hears about them
+    if (status === 'active') {
+      await this.notifyCommentAudience(videoId, videoDoc.data()!['userId'], commentId, userId, content, parentId, parentAuthorId);
+    }
 
     // Get user info for response
     const userDoc = await this.firestore.collection('users').doc(userId).get();
@@ -286,6 +284,7 @@ export class CommentController {
       content,
       likeCount: 0,
       repliesCount: 0,
+      status,
       createdAt: commentData.createdAt,
       updatedAt: commentData.updatedAt,
       isLiked: false,
@@ -334,17 +333,38 @@ export class CommentController {
       throw new ForbiddenError('Comments can only be edited within 24 hours');
     }
 
-    await this.firestore.collection('comments').doc(commentId).update({
+    // Edits go through the same filters, so a comment can't be made to match after posting
+    const videoDoc = await this.firestore.collection('videos').doc(commentData?.['videoId']).get();
+    if (!videoDoc.exists) {
+      throw new NotFoundError('Video not found');
+    }
+    const review = await interactionSettingsService.review('comments', videoDoc.id, videoDoc.data()!, userId as string, content);
+    const { status, verdict } = review;
+    const heldForReview = review.heldForReview && (commentData?.['status'] || 'active') === 'active';
+
+    const batch = this.firestore.batch();
+    batch.update(this.firestore.collection('comments').doc(commentId), {
       content,
+      // An edit never un-hides a comment a moderator or filter already hid
+      ...(status === 'hidden' && { status }),
+      ...(heldForReview && { heldForReview }),
       updatedAt: new Date(),
     });
+    if (status === 'hidden' && commentData?.['status'] !== 'hidden' && !commentData?.['parentId']) {
+      batch.update(videoDoc.ref, { commentCount: FieldValue.increment(-1) });
+    }
+    await batch.commit();
+
+    if (heldForReview) {
+      await moderationService.holdForReview({ type: 'comment', id: commentId }, verdict);
+    }
 
     // Clear relevant caches
     const videoId = commentData?.['videoId'];
-    await Promise.all([
-      cacheService.del(`comments:${videoId}:date:desc:1:20`),
-      commentData?.['parentId'] && cacheService.del(`replies:${commentData['parentId']}:1:10`),
-    ].filter(Boolean));
+    await cacheService.invalidateTags([
+      cacheTags.comments(videoId),
+      ...(commentData?.['parentId'] ? [cacheTags.replies(commentData['parentId'])] : []),
+    ]);
 
     logger.info('Comment updated', { commentId, userId });
 
@@ -388,10 +408,13 @@ export class CommentController {
       
       repliesSnapshot.docs.forEach((doc: any) => batch.delete(doc.ref));
 
-      // Update video comment count
-      batch.update(this.firestore.collection('videos').doc(commentData?.['videoId']), {
-        commentCount: FieldValue.increment(-(1 + repliesSnapshot.size)),
-      });
+      // Only visible top-level comments are counted: held and hidden ones were
+      // taken off (or never added to) the count, and replies never add to it
+      if ((commentData?.['status'] || 'active') === 'active') {
+        batch.update(this.firestore.collection('videos').doc(commentData?.['videoId']), {
+          commentCount: FieldValue.increment(-1),
+        });
+      }
     }    // Delete comment likes
     const likesSnapshot = await this.firestore
       .collection('comment_likes')
@@ -404,11 +427,11 @@ export class CommentController {
 
     // Clear relevant caches
     const videoId = commentData?.['videoId'];
-    await Promise.all([
-      cacheService.del(`comments:${videoId}:date:desc:1:20`),
-      cacheService.del(`video:${videoId}:${userId}`),
-      commentData?.['parentId'] && cacheService.del(`replies:${commentData['parentId']}:1:10`),
-    ].filter(Boolean));
+    await cacheService.invalidateTags([
+      cacheTags.comments(videoId),
+      cacheTags.video(videoId),
+      ...(commentData?.['parentId'] ? [cacheTags.replies(commentData['parentId'])] : []),
+    ]);
 
     logger.info('Comment deleted', { commentId, userId });
 
@@ -470,10 +493,10 @@ export class CommentController {
     // Clear relevant caches
     const commentData = commentDoc.data();
     const videoId = commentData?.['videoId'];
-    await Promise.all([
-      cacheService.del(`comments:${videoId}:date:desc:1:20`),
-      commentData?.['parentId'] && cacheService.del(`replies:${commentData['parentId']}:1:10`),
-    ].filter(Boolean));
+    await cacheService.invalidateTags([
+      cacheTags.comments(videoId),
+      ...(commentData?.['parentId'] ? [cacheTags.replies(commentData['parentId'])] : []),
+    ]);
 
     logger.info('Comment like toggled', { commentId, userId, isLiked });
 
@@ -485,4 +508,50 @@ export class CommentController {
       },
     });
   });
+
+  // The video owner hears about top-level comments, the parent's author about
+  // replies, and anyone @mentioned gets a mention unless already notified above
+  private async notifyCommentAudience(
+    videoId: string,
+    videoOwnerId: string,
+    commentId: string,
+    authorId: string,
+    content: string,
+    parentId?: string,
+    parentAuthorId?: string
+  ): Promise<void> {
+    const actionUrl = `/videos/${videoId}?comment=${commentId}`;
+    const recipientId = parentId ? parentAuthorId : videoOwnerId;
+
+    if (recipientId) {
+      await notificationService.notify({
+        type: 'comment',
+        recipientId,
+        actorId: authorId,
+        groupKey: parentId ? `reply:comment:${parentId}` : `comment:video:${videoId}`,
+        excerpt: content,
+        videoId,
+        commentId,
+        actionUrl,
+      });
+    }
+
+    const resolved = await Promise.all(
+      extractMentions(content).map(username => usernameService.resolve(username).catch(() => null))
+    );
+    const mentionedIds = new Set(resolved.flatMap(match => (match ? [match.uid] : [])));
+
+    await Promise.all([...mentionedIds]
+      .filter(uid => uid !== recipientId)
+      .map(uid => notificationService.notify({
+        type: 'mention',
+        recipientId: uid,
+        actorId: authorId,
+        groupKey: `mention:comment:${commentId}`,
+        excerpt: content,
+        videoId,
+        commentId,
+        actionUrl,
+      })));
+  }
 }
@@ -1,105 +1,277 @@
 import { Response } from 'express';
 import { AuthenticatedRequest } from '../middleware/auth.middleware';
 import { firebaseService } from '../services/firebase.service';
-import { cacheService } from '../services/cache.service';
-import { NotFoundError, ForbiddenError, ValidationError } from '../utils/errors';
+import { cacheService, cacheTags } from '../services/cache.service';
+import { danmuStreamService, matchesFilter, parseStreamFilter, DanmuStreamEvent } from '../services/danmuStream.service';
+import { capSegment, segmentBounds, segmentCount, segmentEtag, segmentIndexFor } from '../services/danmuSegments';
+import { serializeDanmu, DanmuFormat, PortableDanmu } from '../services/danmuFormats';
+import { interactionSettingsService, ReviewResult } from '../services/interactionSettings.service';
+import { moderationService } from '../services/moderation.service';
+import { isTakenDown } from '../services/videoVisibility';
+import { config } from '../config';
+import { ApiError, NotFoundError, ForbiddenError, ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
 import { asyncHandler } from '../middleware/error.middleware';
 import { v4 as uuidv4 } from 'uuid';
 
+// Firestore caps a write batch at 500 operations
+const IMPORT_BATCH_SIZE = 500;
+// Imported danmu reviewed at once, so an external classifier isn't sent thousands of requests together
+const IMPORT_REVIEW_CONCURRENCY = 20;
+
+// Author summary shown next to each danmu, shared across videos
+const getDanmuAuthor = (userId: string) =>
+  cacheService.getOrCompute(`user:basic:${userId}`, 600, async () => {
+    const userDoc = await firebaseService.getFirestore().collection('users').doc(userId).get();
+    return userDoc.exists ? {
+      uid: userDoc.id,
+      displayName: userDoc.data()?.['displayName'] || 'Anonymous',
+      username: userDoc.data()?.['username'],
+    } : {
+      uid: userId,
+      displayName: 'Anonymous',
+      username: null,
+    };
+  }, { tags: [cacheTags.user(userId)] });
+
+const toResponseDanmu = (id: string, danmuData: Record<string, any>, user: Record<string, any>) => ({
+  id,
+  content: danmuData['content'],
+  timestamp: danmuData['timestamp'],
+  color: danmuData['color'] || '#FFFFFF',
+  size: danmuData['size'] || 'medium',
+  position: danmuData['position'] || 'scroll',
+  speed: danmuData['speed'] || 1,
+  likeCount: danmuData['likeCount'] || 0,
+  createdAt: danmuData['createdAt'],
+  user,
+});
+
+type ResponseDanmu = ReturnType<typeof toResponseDanmu>;
+
+interface DanmuSegment {
+  videoId: string;
+  segment: number;
+  start: number;
+  end: number;
+  danmu: ResponseDanmu[];
+  total: number;
+  // Set when the segment overflowed and only the top maxItems were kept
+  truncated: boolean;
+  etag: string;
+}
+
+// The count follows the video's duration, which processing fills in after upload,
+// so it is cached apart from the segments and dropped with the video's entries
+const loadSegmentCount = (videoId: string): Promise<number> => {
+  const { durationSeconds, cacheTtl } = config.danmuSegments;
+
+  return cacheService.getOrCompute(`danmu:segment-count:${videoId}`, cacheTtl, async () => {
+    const videoDoc = await firebaseService.getFirestore().collection('videos').doc(videoId).get();
+    if (!videoDoc.exists) {
+      throw new NotFoundError('Video');
+    }
+    return segmentCount(videoDoc.data()?.['duration'] || 0, durationSeconds);
+  }, { tags: [cacheTags.video(videoId)] });
+};
+
+// Segments are cached until a danmu inside them changes, so the stored copy and
+// its ETag can be served as-is. Callers check the index against loadSegmentCount
+// first so out-of-range segments are never computed or cached.
+const loadDanmuSegment = (videoId: string, segment: number): Promise<DanmuSegment> => {
+  const { durationSeconds, maxItems, cacheTtl } = config.danmuSegments;
+
+  return cacheService.getOrCompute(`danmu:segment:${videoId}:${segment}`, cacheTtl, async () => {
+    const firestore = firebaseService.getFirestore();
+    const { start, end } = segmentBounds(segment, durationSeconds);
+    const danmuSnapshot = await firestore
+      .collection('danmu')
+      .where('videoId', '==', videoId)
+      .where('timestamp', '>=', start)
+      .where('timestamp', '<', end)
+      .orderBy('timestamp', 'asc')
+      .get();
+
+    const visible = danmuSnapshot.docs
+      .map(doc => ({ id: doc.id, ...doc.data() } as Record<string, any> & { id: string; timestamp: number }))
+      .filter(danmuData => (danmuData['status'] || 'active') === 'active');
+    const kept = capSegment(visible, maxItems);
+
+    const danmu = await Promise.all(
+      kept.map(async danmuData => toResponseDanmu(danmuData.id, danmuData, await getDanmuAuthor(danmuData['userId'])))
+    );
+
+    return {
+      videoId,
+      segment,
+      start,
+      end,
+      danmu,
+      total: visible.length,
+      truncated: kept.length < visible.length,
+      etag: segmentEtag(danmu),
+    };
+  }, { tags: [cacheTags.danmuSegment(videoId, segment)], lock: true });
+};
+
 export class DanmuController {
   // Get danmu for a video
   public getDanmu = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { videoId } = req.params;
     const { timestamp, duration = 10 } = req.query;
 
-    const cacheKey = timestamp 
-      ? `danmu:${videoId}:${timestamp}:${duration}`
-      : `danmu:${videoId}:all`;
-    
-    const cachedDanmu = await cacheService.get(cacheKey);
-    if (cachedDanmu) {
+    // A window is answered from the segments it overlaps, so arbitrary
+    // timestamps still hit the shared segment cache
+    if (timestamp) {
+      const { durationSeconds } = config.danmuSegments;
+      const startTime = Math.max(0, Number(timestamp) - Number(duration) / 2);
+      const endTime = Number(timestamp) + Number(duration) / 2;
+
+      const count = await loadSegmentCount(videoId as string);
+      const first = segmentIndexFor(startTime, durationSeconds);
+      const last = Math.min(segmentIndexFor(endTime, durationSeconds), count - 1);
+      const segments = await Promise.all(
+        Array.from({ length: Math.max(0, last - first + 1) }, (_, i) => loadDanmuSegment(videoId as string, first + i))
+      );
+
+      const danmuList = segments
+        .flatMap(segment => segment.danmu)
+        .filter(danmu => danmu.timestamp >= startTime && danmu.timestamp <= endTime);
+
       return res.json({
         success: true,
-        data: cachedDanmu,
+        data: {
+          danmu: danmuList,
+          total: danmuList.length,
+          videoId,
+          timestamp: Number(timestamp),
+          duration: Number(duration),
+        },
       });
     }
 
+    const result = await cacheService.getOrCompute(`danmu:${videoId}:all`, 30, async () => {
+      const firestore = firebaseService.getFirestore();
+
+      const videoDoc = await firestore.collection('videos').doc(videoId as string).get();
+      if (!videoDoc.exists) {
+        throw new NotFoundError('Video');
+      }
+
+      const danmuSnapshot = await firestore
+        .collection('danmu')
+        .where('videoId', '==', videoId)
+        .orderBy('timestamp', 'asc')
+        .get();
+
+      const danmuList = await Promise.all(
+        danmuSnapshot.docs.filter(doc => (doc.data()['status'] || 'active') === 'active').map(async (doc) => {
+          const danmuData = doc.data();
+          return toResponseDanmu(doc.id, danmuData, await getDanmuAuthor(danmuData['userId']));
+        })
+      );
+
+      return {
+        danmu: danmuList,
+        total: danmuList.length,
+        videoId,
+      };
+    }, { staleTtl: 15, tags: [cacheTags.danmu(videoId as string)], lock: true });
+
+    return res.json({
+      success: true,
+      data: result,
+    });
+  });
+
+  // Get one fixed-length time segment of a video's danmu
+  public getDanmuSegment = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { videoId, segment } = req.params;
+
+    const count = await loadSegmentCount(videoId as string);
+    if (Number(segment) >= count) {
+      throw new NotFoundError('Danmu segment');
+    }
+
+    const { etag, ...data } = await loadDanmuSegment(videoId as string, Number(segment));
+
+    // Any danmu change yields a new ETag, so clients revalidate rather than expire.
+    // The count is folded in because nextSegment depends on it.
+    res.set({
+      'ETag': segmentEtag([etag, count]),
+      'Cache-Control': 'public, max-age=0, must-revalidate',
+    });
+
+    if (req.fresh) {
+      return res.status(304).end();
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        ...data,
+        segmentCount: count,
+        // Lets players prefetch while the current segment plays
+        nextSegment: data.segment + 1 < count ? data.segment + 1 : null,
+      },
+    });
+  });
+
+  // Stream danmu changes for a video as server-sent events
+  public streamDanmu = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { videoId } = req.params;
+    const filter = parseStreamFilter(req.query);
+
     const firestore = firebaseService.getFirestore();
-    
     const videoDoc = await firestore.collection('videos').doc(videoId as string).get();
     if (!videoDoc.exists) {
       throw new NotFoundError('Video');
     }
 
-    let query = firestore
-      .collection('danmu')
-      .where('videoId', '==', videoId);
-
-    if (timestamp) {
-      const startTime = Number(timestamp) - Number(duration) / 2;
-      const endTime = Number(timestamp) + Number(duration) / 2;
-      
-      query = query
-        .where('timestamp', '>=', Math.max(0, startTime))
-        .where('timestamp', '<=', endTime)
-        .orderBy('timestamp', 'asc');
-    } else {
-      query = query.orderBy('timestamp', 'asc');
+    if (danmuStreamService.connectionCount(videoId as string) >= config.danmuStream.maxConnectionsPerVideo) {
+      throw new ApiError(503, 'Too many viewers streaming this video, fall back to polling', 'STREAM_CAPACITY_REACHED');
     }
 
-    const danmuSnapshot = await query.get();
+    const write = (chunk: string) => {
+      res.write(chunk);
+      // Declared by compression's typings; missing when the route runs without it
+      res.flush?.();
+    };
 
-    const danmuList = await Promise.all(
-      danmuSnapshot.docs.map(async (doc) => {
-        const danmuData = doc.data();
-        
-        const userCacheKey = `user:basic:${danmuData['userId']}`;
-        let userData = await cacheService.get(userCacheKey);
-        
-        if (!userData) {
-          const userDoc = await firestore.collection('users').doc(danmuData['userId']).get();
-          userData = userDoc.exists ? {
-            uid: userDoc.id,
-            displayName: userDoc.data()?.['displayName'] || 'Anonymous',
-            username: userDoc.data()?.['username'],
-          } : {
-            uid: danmuData['userId'],
-            displayName: 'Anonymous',
-            username: null,
-          };
-          
-          await cacheService.set(userCacheKey, userData, 600);
-        }
+    res.status(200);
+    res.set({
+      'Content-Type': 'text/event-stream',
+      // no-transform keeps compression from buffering the stream
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
 
-        return {
-          id: doc.id,
-          content: danmuData['content'],
-          timestamp: danmuData['timestamp'],
-          color: danmuData['color'] || '#FFFFFF',
-          size: danmuData['size'] || 'medium',
-          position: danmuData['position'] || 'scroll',
-          speed: danmuData['speed'] || 1,
-          createdAt: danmuData['createdAt'],
-          user: userData,
-        };
-      })
-    );
+    // Subscribe before the client sees the stream open, so a danmu it posts right
+    // after connecting is not published ahead of the subscription
+    const unsubscribe = await danmuStreamService.subscribe(videoId as string, (event: DanmuStreamEvent) => {
+      if (!matchesFilter(event, filter)) {
+        return;
+      }
+      const payload = event.type === 'created' ? event.danmu : { id: event.danmuId };
+      write(`id: ${event.danmuId}:${event.type}\nevent: ${event.type}\ndata: ${JSON.stringify(payload)}\n\n`);
+    });
 
-    const result = {
-      danmu: danmuList,
-      total: danmuList.length,
-      videoId,
-      ...(timestamp && {
-        timestamp: Number(timestamp),
-        duration: Number(duration),
-      }),
-    };
+    if (req.destroyed) {
+      unsubscribe();
+      return;
+    }
 
-    await cacheService.set(cacheKey, result, 30);
+    res.flushHeaders();
+    write(`retry: ${config.danmuStream.retryMs}\n\n`);
 
-    return res.json({
-      success: true,
-      data: result,
+    // Comment lines keep proxies and load balancers from closing an idle stream
+    const heartbeat = setInterval(() => write(': ping\n\n'), config.danmuStream.heartbeatMs);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+      logger.debug('Danmu stream closed', { videoId, userId: req.user?.uid });
     });
   });
 
@@ -129,6 +301,11 @@ export class DanmuController {
       throw new ValidationError('Timestamp exceeds video duration');
     }
 
+    // A held danmu stays off the stream until a moderator reviews it
+    const { status, heldForReview, verdict } = await interactionSettingsService.review(
+      'danmu', videoId as string, videoData!, userId as string, content
+    );
+
     const danmuId = uuidv4();
     const danmuData = {
       content: content.trim(),
@@ -139,11 +316,15 @@ export class DanmuController {
       speed: Number(speed),
       videoId: videoId as string,
       userId: userId as string,
-      status: 'active',
+      status,
+      ...(heldForReview && { heldForReview }),
       createdAt: new Date(),
     };
 
     await firestore.collection('danmu').doc(danmuId).set(danmuData);
+    if (heldForReview) {
+      await moderationService.holdForReview({ type: 'danmu', id: danmuId }, verdict);
+    }
 
     const userDoc = await firestore.collection('users').doc(userId as string).get();
     const userData = userDoc.data();
@@ -156,6 +337,7 @@ export class DanmuController {
       size: danmuData.size,
       position: danmuData.position,
       speed: danmuData.speed,
+      status,
       createdAt: danmuData.createdAt,
       user: {
         uid: userId,
@@ -164,10 +346,18 @@ export class DanmuController {
       },
     };
 
-    await Promise.all([
-      cacheService.del(`danmu:${videoId}:all`),
-      cacheService.del(`danmu:${videoId}:${timestamp}:10`),
+    await cacheService.invalidateTags([
+      cacheTags.danmu(videoId as string),
+      cacheTags.danmuSegment(videoId as string, segmentIndexFor(danmuData.timestamp, config.danmuSegments.durationSeconds)),
     ]);
+    if (status === 'active') {
+      await danmuStreamService.publish({
+        type: 'created',
+        videoId: videoId as string,
+        danmuId,
+        danmu: responseDanmu,
+      });
+    }
 
     return res.status(201).json({
       success: true,
@@ -200,12 +390,12 @@ export class DanmuController {
     });
 
     const videoId = danmuData?.['videoId'];
-    const timestamp = danmuData?.['timestamp'];
-    
-    await Promise.all([
-      cacheService.del(`danmu:${videoId}:all`),
-      cacheService.del(`danmu:${videoId}:${timestamp}:10`),
+
+    await cacheService.invalidateTags([
+      cacheTags.danmu(videoId),
+      cacheTags.danmuSegment(videoId, segmentIndexFor(danmuData?.['timestamp'] || 0, config.danmuSegments.durationSeconds)),
     ]);
+    await danmuStreamService.publish({ type: 'deleted', videoId, danmuId: danmuId as string });
 
     return res.json({
       success: true,
@@ -223,107 +413,221 @@ export class DanmuController {
       throw new ForbiddenError('Moderator permissions required');
     }
 
+    await moderationService.hide({ type: 'danmu', id: danmuId as string }, userId as string, reason);
+
+    return res.json({
+      success: true,
+      message: 'Danmu hidden successfully',
+    });
+  });
+
+  // Export a video's danmu as Bilibili XML, ASS subtitles or JSON
+  public exportDanmu = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { videoId } = req.params;
+    const { format = 'json' } = req.query;
+    const userId = req.user?.uid;
+
     const firestore = firebaseService.getFirestore();
-    const danmuDoc = await firestore.collection('danmu').doc(danmuId as string).get();
+    const videoDoc = await firestore.collection('videos').doc(videoId as string).get();
+    const videoData = videoDoc.data();
 
-    if (!danmuDoc.exists) {
-      throw new NotFoundError('Danmu');
+    const hidden = (videoData?.['status'] && videoData['status'] !== 'published') || isTakenDown(videoData || {});
+    if (!videoDoc.exists || (hidden && videoData?.['userId'] !== userId)) {
+      throw new NotFoundError('Video');
     }
 
-    const danmuData = danmuDoc.data();
+    const danmuSnapshot = await firestore
+      .collection('danmu')
+      .where('videoId', '==', videoId)
+      .orderBy('timestamp', 'asc')
+      .get();
 
-    await firestore.collection('danmu').doc(danmuId as string).update({
-      status: 'hidden',
-      hiddenAt: new Date(),
-      hiddenBy: userId,
-      hiddenReason: reason || 'Content violation',
-    });
+    const danmu = danmuSnapshot.docs
+      .filter(doc => (doc.data()['status'] || 'active') === 'active')
+      .map(doc => {
+        const danmuData = doc.data();
+        return {
+          id: doc.id,
+          userId: danmuData['userId'],
+          content: danmuData['content'],
+          timestamp: danmuData['timestamp'],
+          color: danmuData['color'] || '#FFFFFF',
+          size: danmuData['size'] || 'medium',
+          position: danmuData['position'] || 'scroll',
+          speed: danmuData['speed'] || 1,
+          createdAt: danmuData['createdAt'],
+        };
+      });
 
-    const videoId = danmuData?.['videoId'];
-    const timestamp = danmuData?.['timestamp'];
-    
-    await Promise.all([
-      cacheService.del(`danmu:${videoId}:all`),
-      cacheService.del(`danmu:${videoId}:${timestamp}:10`),
-    ]);
+    const file = serializeDanmu(format as DanmuFormat, danmu, {
+      videoId: videoId as string,
+      title: videoData?.['title'] || videoId,
+    });
 
-    return res.json({
-      success: true,
-      message: 'Danmu hidden successfully',
+    res.set({
+      'Content-Type': file.contentType,
+      'Content-Disposition': `attachment; filename="${videoId}.${file.extension}"`,
     });
+    return res.send(file.body);
   });
 
-  // Get danmu statistics
-  public getDanmuStats = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  // Import danmu from another player's export; entries were parsed and
+  // validated by parseDanmuImport and importDanmuValidation
+  public importDanmu = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { videoId } = req.params;
-
-    const cacheKey = `danmu:stats:${videoId}`;
-    const cachedStats = await cacheService.get(cacheKey);
-    
-    if (cachedStats) {
-      return res.json({
-        success: true,
-        data: cachedStats,
-      });
-    }
+    const { format, danmu } = req.body as { format: DanmuFormat; danmu: PortableDanmu[] };
+    const userId = req.user?.uid;
 
     const firestore = firebaseService.getFirestore();
-    
     const videoDoc = await firestore.collection('videos').doc(videoId as string).get();
     if (!videoDoc.exists) {
       throw new NotFoundError('Video');
     }
 
     const videoData = videoDoc.data();
-    const videoDuration = videoData?.['duration'] || 0;
+    if (videoData?.['userId'] !== userId && !req.user?.roles?.includes('admin')) {
+      throw new ForbiddenError('You can only import danmu into your own videos');
+    }
 
-    const danmuSnapshot = await firestore
-      .collection('danmu')
-      .where('videoId', '==', videoId)
-      .where('status', '==', 'active')
-      .get();
+    const duration = videoData?.['duration'] || 0;
+    const outOfRange = danmu
+      .map((item, index) => ({ index, timestamp: Number(item.timestamp) }))
+      .filter(item => item.timestamp > duration);
+    if (outOfRange.length > 0) {
+      throw new ValidationError('Timestamp exceeds video duration', outOfRange.slice(0, 20));
+    }
 
-    const totalDanmu = danmuSnapshot.size;
-    const uniqueUsers = new Set(danmuSnapshot.docs.map(doc => doc.data()['userId'])).size;
-    
-    const densityMap: { [minute: number]: number } = {};
-    const maxMinute = Math.ceil(videoDuration / 60);
-    
-    for (let i = 0; i < maxMinute; i++) {
-      densityMap[i] = 0;
+    // Every entry passes the same checks as a live danmu before anything is written
+    const reviews: ReviewResult[] = [];
+    for (let offset = 0; offset < danmu.length; offset += IMPORT_REVIEW_CONCURRENCY) {
+      reviews.push(...await Promise.all(danmu.slice(offset, offset + IMPORT_REVIEW_CONCURRENCY).map((item, index) =>
+        interactionSettingsService.review('danmu', videoId as string, videoData!, userId as string, String(item.content))
+          .catch(error => {
+            throw error instanceof ApiError
+              ? new ApiError(error.statusCode, error.message, error.code, { index: offset + index })
+              : error;
+          })
+      )));
     }
 
-    danmuSnapshot.docs.forEach(doc => {
-      const timestamp = doc.data()['timestamp'];
-      const minute = Math.floor(timestamp / 60);
-      if (densityMap[minute] !== undefined) {
-        densityMap[minute]++;
-      }
-    });
+    const now = new Date();
+    const segments = new Set<number>();
+    const held: Array<{ danmuId: string; review: ReviewResult }> = [];
+
+    for (let offset = 0; offset < danmu.length; offset += IMPORT_BATCH_SIZE) {
+      const batch = firestore.batch();
+      danmu.slice(offset, offset + IMPORT_BATCH_SIZE).forEach((item, index) => {
+        const review = reviews[offset + index]!;
+        const danmuId = uuidv4();
+        const timestamp = Number(item.timestamp);
+        segments.add(segmentIndexFor(timestamp, config.danmuSegments.durationSeconds));
+        if (review.heldForReview) {
+          held.push({ danmuId, review });
+        }
+        batch.set(firestore.collection('danmu').doc(danmuId), {
+          content: String(item.content).trim(),
+          timestamp,
+          color: item.color || '#FFFFFF',
+          size: item.size || 'medium',
+          position: item.position || 'scroll',
+          speed: Math.min(4, Math.max(0.25, Number(item.speed) || 1)),
+          videoId: videoId as string,
+          userId: userId as string,
+          status: review.status,
+          ...(review.heldForReview && { heldForReview: true }),
+          importedFrom: format,
+          createdAt: now,
+        });
+      });
+      await batch.commit();
+    }
 
-    const peakMoments = Object.entries(densityMap)
-      .map(([minute, count]) => ({ minute: Number(minute), count }))
-      .sort((a, b) => b.count - a.count)
-      .slice(0, 5);
+    for (const { danmuId, review } of held) {
+      await moderationService.holdForReview({ type: 'danmu', id: danmuId }, review.verdict);
+    }
 
-    const colorStats: { [color: string]: number } = {};
-    danmuSnapshot.docs.forEach(doc => {
-      const color = doc.data()['color'] || '#FFFFFF';
-      colorStats[color] = (colorStats[color] || 0) + 1;
+    // Bulk imports skip the live stream; viewers pick them up from segments
+    await cacheService.invalidateTags([
+      cacheTags.danmu(videoId as string),
+      ...[...segments].map(segment => cacheTags.danmuSegment(videoId as string, segment)),
+    ]);
+
+    logger.info('Danmu imported', { videoId, userId, format, count: danmu.length });
+
+    return res.status(201).json({
+      success: true,
+      data: {
+        videoId,
+        format,
+        imported: danmu.length,
+        hidden: reviews.filter(review => review.status === 'hidden').length,
+      },
     });
+  });
 
-    const stats = {
-      videoId,
-      totalDanmu,
-      uniqueUsers,
-      averageDanmuPerMinute: videoDuration > 0 ? totalDanmu / (videoDuration / 60) : 0,
-      densityMap,
-      peakMoments,
-      colorDistribution: colorStats,
-      lastUpdated: new Date(),
-    };
+  // Get danmu statistics
+  public getDanmuStats = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { videoId } = req.params;
+
+    const cacheKey = `danmu:stats:${videoId}`;
+
+    const stats = await cacheService.getOrCompute(cacheKey, 300, async () => {
+      const firestore = firebaseService.getFirestore();
+
+      const videoDoc = await firestore.collection('videos').doc(videoId as string).get();
+      if (!videoDoc.exists) {
+        throw new NotFoundError('Video');
+      }
+
+      const videoData = videoDoc.data();
+      const videoDuration = videoData?.['duration'] || 0;
+
+      const danmuSnapshot = await firestore
+        .collection('danmu')
+        .where('videoId', '==', videoId)
+        .where('status', '==', 'active')
+        .get();
+
+      const totalDanmu = danmuSnapshot.size;
+      const uniqueUsers = new Set(danmuSnapshot.docs.map(doc => doc.data()['userId'])).size;
+
+      const densityMap: { [minute: number]: number } = {};
+      const maxMinute = Math.ceil(videoDuration / 60);
+
+      for (let i = 0; i < maxMinute; i++) {
+        densityMap[i] = 0;
+      }
+
+      danmuSnapshot.docs.forEach(doc => {
+        const timestamp = doc.data()['timestamp'];
+        const minute = Math.floor(timestamp / 60);
+        if (densityMap[minute] !== undefined) {
+          densityMap[minute]++;
+        }
+      });
+
+      const peakMoments = Object.entries(densityMap)
+        .map(([minute, count]) => ({ minute: Number(minute), count }))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, 5);
+
+      const colorStats: { [color: string]: number } = {};
+      danmuSnapshot.docs.forEach(doc => {
+        const color = doc.data()['color'] || '#FFFFFF';
+        colorStats[color] = (colorStats[color] || 0) + 1;
+      });
 
-    await cacheService.set(cacheKey, stats, 300);
+      return {
+        videoId,
+        totalDanmu,
+        uniqueUsers,
+        averageDanmuPerMinute: videoDuration > 0 ? totalDanmu / (videoDuration / 60) : 0,
+        densityMap,
+        peakMoments,
+        colorDistribution: colorStats,
+        lastUpdated: new Date(),
+      };
+    }, { staleTtl: 120, tags: [cacheTags.danmu(videoId as string)] });
 
     return res.json({
       success: true,
@@ -0,0 +1,63 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { Device, deviceService } from '../services/device.service';
+import { sessionService } from '../services/session.service';
+import { asyncHandler } from '../middleware/error.middleware';
+
+// Push tokens are credentials for reaching the device, so they are never echoed back
+const toResponseDevice = ({ token: _token, ...device }: Device) => device;
+
+export class DeviceController {
+  // List the signed-in user's registered devices, most recently seen first
+  public getDevices = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const devices = await deviceService.list(req.user!.uid);
+
+    return res.json({
+      success: true,
+      data: devices.map(toResponseDevice),
+    });
+  });
+
+  // Register a device for push notifications; re-registering a token refreshes it
+  public registerDevice = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { token, platform, appVersion, locale } = req.body;
+
+    const device = await deviceService.register(req.user!.uid, {
+      token,
+      platform,
+      ...(appVersion && { appVersion }),
+      ...(locale && { locale }),
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: toResponseDevice(device),
+    });
+  });
+
+  // Stop sending pushes to one device, e.g. on sign-out
+  public removeDevice = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { deviceId } = req.params;
+
+    await deviceService.remove(req.user!.uid, deviceId as string);
+
+    return res.json({
+      success: true,
+      data: { message: 'Device removed' },
+    });
+  });
+
+  // Sign out of every session and drop every push token
+  public revokeAllSessions = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { devicesRemoved } = await sessionService.revokeAll(req.user!.uid);
+
+    return res.json({
+      success: true,
+      data: {
+        devicesRemoved,
+        // The token used for this request is revoked as well
+        reauthenticate: true,
+      },
+    });
+  });
+}
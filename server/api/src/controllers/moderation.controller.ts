@@ -0,0 +1,77 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { moderationService, Report, ReportTargetType } from '../services/moderation.service';
+import { asyncHandler } from '../middleware/error.middleware';
+
+// Reporters only get their own report back, without the case internals
+const toResponseReport = ({ id, targetType, targetId, reason, status, createdAt }: Report) => ({
+  id,
+  targetType,
+  targetId,
+  reason,
+  status,
+  createdAt,
+});
+
+export class ModerationController {
+  // Report a video, comment, danmu or user; reporting the same item again is a no-op
+  public createReport = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { targetType, targetId, reason, details } = req.body;
+
+    const { report, created } = await moderationService.report(req.user!.uid, {
+      targetType,
+      targetId,
+      reason,
+      ...(details && { details }),
+    });
+
+    return res.status(created ? 201 : 200).json({
+      success: true,
+      data: toResponseReport(report),
+    });
+  });
+
+  // Open cases, highest priority first
+  public getQueue = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { limit = 20, cursor, targetType } = req.query;
+
+    const page = await moderationService.getQueue(
+      Number(limit),
+      cursor as string | undefined,
+      targetType as ReportTargetType | undefined
+    );
+
+    return res.json({
+      success: true,
+      data: {
+        cases: page.cases,
+        pagination: page.pagination,
+      },
+    });
+  });
+
+  // One case with its most recent reports
+  public getCase = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { caseId } = req.params;
+
+    const result = await moderationService.getCase(caseId as string);
+
+    return res.json({
+      success: true,
+      data: result,
+    });
+  });
+
+  // Resolve a case with hide, remove, warn, ban or dismiss
+  public actOnCase = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { caseId } = req.params;
+    const { action, reason } = req.body;
+
+    const resolved = await moderationService.act(caseId as string, req.user!.uid, { action, reason });
+
+    return res.json({
+      success: true,
+      data: resolved,
+    });
+  });
+}
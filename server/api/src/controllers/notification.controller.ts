@@ -0,0 +1,58 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { notificationService, StoredNotification } from '../services/notification.service';
+import { asyncHandler } from '../middleware/error.middleware';
+
+const toResponseNotification = (notification: StoredNotification) => ({
+  id: notification.id,
+  type: notification.type,
+  title: notification.title,
+  body: notification.body,
+  read: notification.read,
+  actorCount: notification.actorCount,
+  actorIds: notification.actorIds,
+  relatedUserId: notification.relatedUserId ?? null,
+  relatedVideoId: notification.relatedVideoId ?? null,
+  relatedCommentId: notification.relatedCommentId ?? null,
+  actionUrl: notification.actionUrl ?? null,
+  createdAt: notification.createdAt,
+  updatedAt: notification.updatedAt,
+});
+
+export class NotificationController {
+  // Get the signed-in user's inbox, most recently active first
+  public getNotifications = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.user!.uid;
+    const { limit = 20, cursor } = req.query;
+
+    const [page, unreadCount] = await Promise.all([
+      notificationService.list(userId, Number(limit), cursor as string | undefined),
+      notificationService.countUnread(userId),
+    ]);
+
+    return res.json({
+      success: true,
+      data: page.notifications.map(toResponseNotification),
+      unreadCount,
+      pagination: page.pagination,
+    });
+  });
+
+  // Mark the given notifications, or the whole inbox, as read
+  public markRead = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.user!.uid;
+    const { ids, all } = req.body;
+
+    const updated = all === true
+      ? await notificationService.markAllRead(userId)
+      : await notificationService.markRead(userId, ids as string[]);
+
+    return res.json({
+      success: true,
+      data: {
+        updated,
+        unreadCount: await notificationService.countUnread(userId),
+      },
+    });
+  });
+}
@@ -0,0 +1,73 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { firebaseService } from '../services/firebase.service';
+import { interactionSettingsService } from '../services/interactionSettings.service';
+import { asyncHandler } from '../middleware/error.middleware';
+import { ForbiddenError, NotFoundError } from '../utils/errors';
+
+const INTERACTION_FIELDS = ['allowComments', 'allowDanmu', 'blockedKeywords', 'blockedPatterns', 'filterAction'];
+
+const pickFields = (body: Record<string, any>): Record<string, any> =>
+  Object.fromEntries(Object.entries(body).filter(([field]) => INTERACTION_FIELDS.includes(field)));
+
+export class SettingsController {
+  // Get the signed-in creator's default comment and danmu settings
+  public getMyInteractionSettings = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.user!.uid;
+
+    const settings = await interactionSettingsService.getCreatorSettings(userId);
+
+    return res.json({
+      success: true,
+      data: settings,
+    });
+  });
+
+  // Update the creator defaults; omitted fields keep their current value
+  public updateMyInteractionSettings = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.user!.uid;
+
+    const settings = await interactionSettingsService.updateCreatorSettings(userId, pickFields(req.body));
+
+    return res.json({
+      success: true,
+      data: settings,
+    });
+  });
+
+  // Get a video's own overrides and the settings actually enforced on it
+  public getVideoInteractionSettings = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { videoId } = req.params;
+
+    await this.assertVideoOwner(videoId as string, req);
+    const settings = await interactionSettingsService.getVideoSettings(videoId as string);
+
+    return res.json({
+      success: true,
+      data: settings,
+    });
+  });
+
+  // Update a video's overrides; null clears one back to the creator default
+  public updateVideoInteractionSettings = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { videoId } = req.params;
+
+    await this.assertVideoOwner(videoId as string, req);
+    const settings = await interactionSettingsService.updateVideoSettings(videoId as string, pickFields(req.body));
+
+    return res.json({
+      success: true,
+      data: settings,
+    });
+  });
+
+  private async assertVideoOwner(videoId: string, req: AuthenticatedRequest): Promise<void> {
+    const videoDoc = await firebaseService.getFirestore().collection('videos').doc(videoId).get();
+    if (!videoDoc.exists) {
+      throw new NotFoundError('Video');
+    }
+    if (videoDoc.data()?.['userId'] !== req.user?.uid && !req.user?.roles?.includes('admin')) {
+      throw new ForbiddenError('You can only change settings on your own videos');
+    }
+  }
+}
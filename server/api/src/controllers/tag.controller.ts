@@ -0,0 +1,22 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { trendingService } from '../services/trending.service';
+import { asyncHandler } from '../middleware/error.middleware';
+
+export class TagController {
+  // Get trending hashtags, optionally for one region
+  public getTrendingTags = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { region, limit = 20 } = req.query;
+
+    const snapshot = await trendingService.getSnapshot(region as string | undefined);
+
+    return res.json({
+      success: true,
+      data: {
+        tags: snapshot.tags.slice(0, Number(limit)),
+        region: snapshot.bucket,
+        computedAt: snapshot.computedAt,
+      },
+    });
+  });
+}
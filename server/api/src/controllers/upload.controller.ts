@@ -0,0 +1,31 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { uploadService } from '../services/upload.service';
+import { asyncHandler } from '../middleware/error.middleware';
+
+export class UploadController {
+  // Open a signed resumable upload the client sends the file to directly
+  public createUpload = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.user?.uid;
+    const { filename, contentType, size } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+        code: 'AUTH_REQUIRED',
+      });
+    }
+
+    const session = await uploadService.createSession(userId, {
+      filename,
+      contentType,
+      size: Number(size),
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: session,
+    });
+  });
+}
@@ -1,10 +1,17 @@
 import { Response } from 'express';
 import { AuthenticatedRequest } from '../middleware/auth.middleware';
 import { firebaseService, FieldValue, FieldPath } from '../services/firebase.service';
-import { cacheService } from '../services/cache.service';
+import { cacheService, cacheTags } from '../services/cache.service';
 import { logger } from '../utils/logger';
 import { NotFoundError, ValidationError } from '../utils/errors';
 import { asyncHandler } from '../middleware/error.middleware';
+import { paginateQuery } from '../utils/pagination';
+import { followingFeedService } from '../services/followingFeed.service';
+import { usernameService, UsernameResolution, validateUsername } from '../services/username.service';
+import { notificationService } from '../services/notification.service';
+import { textModerationService } from '../services/textModeration.service';
+import { moderationService, userModerationRef } from '../services/moderation.service';
+import { isTakenDown } from '../services/videoVisibility';
 
 export class UserController {
   // Get user profile
@@ -16,64 +23,129 @@ export class UserController {
       throw new ValidationError('User ID is required');
     }
 
-    // Check cache first
+    // Check cache first. Only the public profile is shared between viewers.
     const cacheKey = `user:profile:${userId}`;
-    const cachedProfile = await cacheService.get(cacheKey);
-    
-    if (cachedProfile) {
-      logger.debug('User profile served from cache', { userId });
-      return res.json({
-        success: true,
-        data: cachedProfile,
-      });
+
+    const publicProfile = await cacheService.getOrCompute(cacheKey, 300, async () => { // 5 minutes
+      const firestore = firebaseService.getFirestore();
+      const userDoc = await firestore.collection('users').doc(userId).get();
+
+      if (!userDoc.exists) {
+        throw new NotFoundError('User');
+      }
+
+      return this.toPublicProfile(userDoc);
+    }, { staleTtl: 60, tags: [cacheTags.user(userId)] });
+
+    const profile = await this.withViewerFields(publicProfile, requestingUserId);
+
+    logger.info('User profile retrieved', { userId, requestingUserId });
+
+    return res.json({
+      success: true,
+      data: profile,
+    });
+  });
+
+  // Look up a profile by handle (deep links such as app://@alice)
+  public getProfileByUsername = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { username } = req.params;
+    const requestingUserId = req.user?.uid;
+
+    if (!username) {
+      throw new ValidationError('Username is required');
     }
 
+    const usernameLower = username.toLowerCase();
     const firestore = firebaseService.getFirestore();
-    const userDoc = await firestore.collection('users').doc(userId).get();
 
+    // Only the handle -> uid mapping is cached; the profile itself depends on the viewer
+    const cacheKey = `user:by-username:${usernameLower}`;
+    const resolution = await cacheService.getOrCompute<UsernameResolution>(cacheKey, 600, async () => { // 10 minutes
+      const resolved = await usernameService.resolve(username);
+
+      if (!resolved) {
+        throw new NotFoundError('User');
+      }
+
+      return resolved;
+    }, { tags: resolved => [cacheTags.user(resolved.uid)] });
+
+    const userDoc = await firestore.collection('users').doc(resolution.uid).get();
     if (!userDoc.exists) {
+      await cacheService.del(cacheKey);
       throw new NotFoundError('User');
     }
 
-    const userData = userDoc.data();
-    
-    // Filter sensitive information for non-owners
-    const profile = {
-      uid: userDoc.id,
-      displayName: userData?.['displayName'],
-      username: userData?.['username'],
-      bio: userData?.['bio'],
-      profilePicture: userData?.['profilePicture'],
-      followersCount: userData?.['followersCount'] || 0,
-      followingCount: userData?.['followingCount'] || 0,
-      videosCount: userData?.['videosCount'] || 0,
-      createdAt: userData?.['createdAt'],
-      isFollowing: false,
-      // Only show email and other sensitive data to the user themselves
-      ...(requestingUserId === userId && {
-        email: userData?.['email'],
-        emailVerified: userData?.['emailVerified'],
-        lastLoginAt: userData?.['lastLoginAt'],
-      }),
-    };
+    const profile = await this.withViewerFields(this.toPublicProfile(userDoc), requestingUserId, userDoc);
 
-    // Check if requesting user follows this user
-    if (requestingUserId && requestingUserId !== userId) {
-      const followDoc = await firestore
-        .collection('follows')
-        .doc(`${requestingUserId}_${userId}`)
-        .get();
-      profile.isFollowing = followDoc.exists;
+    return res.json({
+      success: true,
+      data: {
+        ...profile,
+        // Old handle during its grace period: clients should rewrite the link
+        ...(resolution.redirected && { redirectedFrom: username }),
+      },
+    });
+  });
+
+  // Search users by username or display name prefix
+  public searchUsers = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { q, limit = 10 } = req.query;
+
+    if (!q || typeof q !== 'string') {
+      throw new ValidationError('Search query is required');
     }
 
-    // Cache the result
-    await cacheService.set(cacheKey, profile, 300); // 5 minutes
+    // Allow "@alice" straight from a mention box
+    const prefix = q.replace(/^@/, '').trim().toLowerCase();
+    if (!prefix) {
+      throw new ValidationError('Search query is required');
+    }
 
-    logger.info('User profile retrieved', { userId, requestingUserId });
+    const limitNum = Number(limit);
+    const cacheKey = `user:search:${prefix}:${limitNum}`;
+
+    const result = await cacheService.getOrCompute(cacheKey, 60, async () => { // 1 minute
+      const firestore = firebaseService.getFirestore();
+      // Over-fetch each prefix range, then re-rank the union by popularity
+      const fetchSize = Math.min(limitNum * 3, 60);
+      const prefixQuery = (field: string) => firestore
+        .collection('users')
+        .where(field, '>=', prefix)
+        .where(field, '<', `${prefix}\uf8ff`)
+        .limit(fetchSize)
+        .get();
+
+      const [byUsername, byDisplayName] = await Promise.all([
+        prefixQuery('usernameLower'),
+        prefixQuery('displayNameLower'),
+      ]);
+
+      const matches = new Map<string, FirebaseFirestore.DocumentSnapshot>();
+      [...byUsername.docs, ...byDisplayName.docs].forEach(doc => matches.set(doc.id, doc));
+
+      const users = [...matches.values()]
+        .filter(doc => doc.get('isActive') !== false)
+        .sort((a, b) => {
+          // Exact handle hits first, then the more followed account
+          const aExact = a.get('usernameLower') === prefix ? 1 : 0;
+          const bExact = b.get('usernameLower') === prefix ? 1 : 0;
+          if (aExact !== bExact) return bExact - aExact;
+          return (b.get('followersCount') || 0) - (a.get('followersCount') || 0);
+        })
+        .slice(0, limitNum)
+        .map(doc => this.toPublicProfile(doc));
+
+      return {
+        users,
+        query: q,
+      };
+    });
 
     return res.json({
       success: true,
-      data: profile,
+      data: result,
     });
   });
 
@@ -95,7 +167,7 @@ export class UserController {
       });
     }
 
-    const { displayName, bio, profilePicture } = req.body;
+    const { displayName, bio, profilePicture, username } = req.body;
     const firestore = firebaseService.getFirestore();
 
     // Check if user exists
@@ -104,32 +176,81 @@ export class UserController {
       throw new NotFoundError('User');
     }
 
+    // Rejected text fails the whole update. Held text is kept aside in the
+    // server-only moderation document and only replaces the public profile once
+    // a moderator releases it; the rest of the update applies as usual.
+    const verdict = await textModerationService.enforce([
+      { field: 'display_name', text: displayName },
+      { field: 'username', text: username },
+      { field: 'bio', text: bio },
+    ]);
+    const held = verdict.outcome === 'hold';
+    const hasPending = userDoc.data()?.['heldForReview'] === true;
+
     // Update user document
     const updateData: any = {
       updatedAt: new Date(),
     };
+    const pendingProfile: Record<string, unknown> = {};
 
-    if (displayName !== undefined) updateData.displayName = displayName;
-    if (bio !== undefined) updateData.bio = bio;
+    const text = { displayName, username, bio };
+    (Object.keys(text) as Array<keyof typeof text>).forEach(field => {
+      if (text[field] === undefined) {
+        return;
+      }
+      if (held) {
+        pendingProfile[field] = text[field];
+      } else if (hasPending) {
+        // Newer allowed text replaces what was waiting for review
+        pendingProfile[field] = FieldValue.delete();
+      }
+    });
+    if (held) {
+      updateData.heldForReview = true;
+      if (username !== undefined) {
+        validateUsername(username);
+      }
+    } else {
+      if (displayName !== undefined) {
+        updateData.displayName = displayName;
+        updateData.displayNameLower = String(displayName).toLowerCase();
+      }
+      if (bio !== undefined) updateData.bio = bio;
+    }
     if (profilePicture !== undefined) updateData.profilePicture = profilePicture;
 
-    await firestore.collection('users').doc(userId).update(updateData);
+    // Handle changes go through the claim transaction, which writes the user doc itself
+    if (username !== undefined && !held) {
+      await usernameService.changeUsername(userId, username);
+    }
+
+    const batch = firestore.batch();
+    batch.update(firestore.collection('users').doc(userId), updateData);
+    if (Object.keys(pendingProfile).length > 0) {
+      batch.set(userModerationRef(userId), { pendingProfile }, { merge: true });
+    }
+    await batch.commit();
+    if (held) {
+      await moderationService.holdForReview({ type: 'user', id: userId }, verdict);
+    }
 
     // Clear cache
-    await cacheService.del(`user:profile:${userId}`);
+    await cacheService.invalidateTags([cacheTags.user(userId)]);
 
     logger.info('User profile updated', { userId, fields: Object.keys(updateData) });
 
     return res.json({
       success: true,
-      message: 'Profile updated successfully',
+      message: held
+        ? 'Profile updated; some changes will appear once they have been reviewed'
+        : 'Profile updated successfully',
     });
   });
 
   // Get user's videos
   public getUserVideos = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { userId } = req.params;
-    const { page = 1, limit = 20 } = req.query;
+    const { page = 1, limit = 20, cursor } = req.query;
     const requestingUserId = req.user?.uid;
 
     if (!userId) {
@@ -137,48 +258,43 @@ export class UserController {
     }
 
     const firestore = firebaseService.getFirestore();
+    const isOwner = requestingUserId === userId;
     
     // Check cache
-    const cacheKey = `user:videos:${userId}:${page}:${limit}`;
-    const cachedVideos = await cacheService.get(cacheKey);
-    
-    if (cachedVideos) {
-      return res.json({
-        success: true,
-        data: cachedVideos,
-      });
-    }
-
-    let query = firestore
-      .collection('videos')
-      .where('userId', '==', userId)
-      .orderBy('createdAt', 'desc');
-
-    // If not the user themselves, only show public videos
-    if (requestingUserId !== userId) {
-      query = query.where('visibility', '==', 'public');
-    }
-
-    const offset = (Number(page) - 1) * Number(limit);
-    const videosSnapshot = await query.offset(offset).limit(Number(limit)).get();
-
-    const videos = videosSnapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data(),
-    }));
+    const cacheKey = `user:videos:${userId}:${isOwner ? 'owner' : 'public'}:${cursor || page}:${limit}`;
+
+    const result = await cacheService.getOrCompute(cacheKey, 180, async () => { // 3 minutes
+      let query = firestore
+        .collection('videos')
+        .where('userId', '==', userId);
+
+      // If not the user themselves, only show public videos that finished processing
+      // and were not taken down
+      if (!isOwner) {
+        query = query
+          .where('visibility', '==', 'public')
+          .where('status', '==', 'published');
+      }
 
-    const result = {
-      videos,
-      pagination: {
-        page: Number(page),
+      const { docs, pagination } = await paginateQuery(query, {
+        scope: `user:videos:${userId}:${isOwner ? 'owner' : 'public'}`,
+        orderBy: [{ field: 'createdAt', direction: 'desc' }],
         limit: Number(limit),
-        total: videosSnapshot.size,
-        hasMore: videosSnapshot.size === Number(limit),
-      },
-    };
+        page: Number(page),
+        cursor: cursor as string | undefined,
+        filter: isOwner ? undefined : doc => !isTakenDown(doc.data()),
+      });
+
+      const videos = docs.map(doc => ({
+        id: doc.id,
+        ...doc.data(),
+      }));
 
-    // Cache result
-    await cacheService.set(cacheKey, result, 180); // 3 minutes
+      return {
+        videos,
+        pagination,
+      };
+    }, { tags: [cacheTags.userVideos(userId)] });
 
     return res.json({
       success: true,
@@ -244,10 +360,26 @@ export class UserController {
 
     // Clear relevant caches
     await Promise.all([
-      cacheService.del(`user:profile:${userId}`),
-      cacheService.del(`user:profile:${followerId}`),
+      cacheService.invalidateTags([
+        cacheTags.user(userId),
+        cacheTags.user(followerId),
+        cacheTags.followers(userId),
+        cacheTags.following(followerId),
+        cacheTags.followingFeed(followerId),
+      ]),
+      followingFeedService.invalidate(followerId),
     ]);
 
+    if (isFollowing) {
+      await notificationService.notify({
+        type: 'follow',
+        recipientId: userId,
+        actorId: followerId,
+        groupKey: 'follow',
+        actionUrl: `/users/${followerId}`,
+      });
+    }
+
     logger.info('Follow status updated', { followerId, userId, isFollowing });
 
     return res.json({
@@ -262,7 +394,7 @@ export class UserController {
   // Get user's followers
   public getFollowers = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { userId } = req.params;
-    const { page = 1, limit = 20 } = req.query;
+    const { page = 1, limit = 20, cursor } = req.query;
 
     if (!userId) {
       throw new ValidationError('User ID is required');
@@ -270,57 +402,46 @@ export class UserController {
 
     const firestore = firebaseService.getFirestore();
     
-    const cacheKey = `user:followers:${userId}:${page}:${limit}`;
-    const cachedFollowers = await cacheService.get(cacheKey);
-    
-    if (cachedFollowers) {
-      return res.json({
-        success: true,
-        data: cachedFollowers,
-      });
-    }
-
-    const offset = (Number(page) - 1) * Number(limit);
-    const followsSnapshot = await firestore
-      .collection('follows')
-      .where('followingId', '==', userId)
-      .orderBy('createdAt', 'desc')
-      .offset(offset)
-      .limit(Number(limit))
-      .get();
-
-    const followerIds = followsSnapshot.docs.map(doc => doc.data()['followerId']);
-    
-    // Get follower details
-    const followers = [];
-    if (followerIds.length > 0) {
-      const usersSnapshot = await firestore
-        .collection('users')
-        .where(FieldPath.documentId(), 'in', followerIds)
-        .get();
-
-      for (const userDoc of usersSnapshot.docs) {
-        const userData = userDoc.data();
-        followers.push({
-          uid: userDoc.id,
-          displayName: userData['displayName'],
-          username: userData['username'],
-          profilePicture: userData['profilePicture'],
-        });
+    const cacheKey = `user:followers:${userId}:${cursor || page}:${limit}`;
+
+    const result = await cacheService.getOrCompute(cacheKey, 300, async () => { // 5 minutes
+      const { docs, pagination } = await paginateQuery(
+        firestore.collection('follows').where('followingId', '==', userId),
+        {
+          scope: `user:followers:${userId}`,
+          orderBy: [{ field: 'createdAt', direction: 'desc' }],
+          limit: Number(limit),
+          page: Number(page),
+          cursor: cursor as string | undefined,
+        }
+      );
+
+      const followerIds = docs.map(doc => doc.data()['followerId']);
+
+      // Get follower details
+      const followers = [];
+      if (followerIds.length > 0) {
+        const usersSnapshot = await firestore
+          .collection('users')
+          .where(FieldPath.documentId(), 'in', followerIds)
+          .get();
+
+        for (const userDoc of usersSnapshot.docs) {
+          const userData = userDoc.data();
+          followers.push({
+            uid: userDoc.id,
+            displayName: userData['displayName'],
+            username: userData['username'],
+            profilePicture: userData['profilePicture'],
+          });
+        }
       }
-    }
 
-    const result = {
-      followers,
-      pagination: {
-        page: Number(page),
-        limit: Number(limit),
-        total: followsSnapshot.size,
-        hasMore: followsSnapshot.size === Number(limit),
-      },
-    };
-
-    await cacheService.set(cacheKey, result, 300); // 5 minutes
+      return {
+        followers,
+        pagination,
+      };
+    }, { tags: [cacheTags.followers(userId)] });
 
     return res.json({
       success: true,
@@ -331,7 +452,7 @@ export class UserController {
   // Get user's following
   public getFollowing = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { userId } = req.params;
-    const { page = 1, limit = 20 } = req.query;
+    const { page = 1, limit = 20, cursor } = req.query;
 
     if (!userId) {
       throw new ValidationError('User ID is required');
@@ -339,61 +460,96 @@ export class UserController {
 
     const firestore = firebaseService.getFirestore();
     
-    const cacheKey = `user:following:${userId}:${page}:${limit}`;
-    const cachedFollowing = await cacheService.get(cacheKey);
-    
-    if (cachedFollowing) {
-      return res.json({
-        success: true,
-        data: cachedFollowing,
-      });
-    }
-
-    const offset = (Number(page) - 1) * Number(limit);
-    const followsSnapshot = await firestore
-      .collection('follows')
-      .where('followerId', '==', userId)
-      .orderBy('createdAt', 'desc')
-      .offset(offset)
-      .limit(Number(limit))
-      .get();
-
-    const followingIds = followsSnapshot.docs.map(doc => doc.data()['followingId']);
-    
-    // Get following user details
-    const following = [];
-    if (followingIds.length > 0) {
-      const usersSnapshot = await firestore
-        .collection('users')
-        .where(FieldPath.documentId(), 'in', followingIds)
-        .get();
-
-      for (const userDoc of usersSnapshot.docs) {
-        const userData = userDoc.data();
-        following.push({
-          uid: userDoc.id,
-          displayName: userData['displayName'],
-          username: userData['username'],
-          profilePicture: userData['profilePicture'],
-        });
+    const cacheKey = `user:following:${userId}:${cursor || page}:${limit}`;
+
+    const result = await cacheService.getOrCompute(cacheKey, 300, async () => { // 5 minutes
+      const { docs, pagination } = await paginateQuery(
+        firestore.collection('follows').where('followerId', '==', userId),
+        {
+          scope: `user:following:${userId}`,
+          orderBy: [{ field: 'createdAt', direction: 'desc' }],
+          limit: Number(limit),
+          page: Number(page),
+          cursor: cursor as string | undefined,
+        }
+      );
+
+      const followingIds = docs.map(doc => doc.data()['followingId']);
+
+      // Get following user details
+      const following = [];
+      if (followingIds.length > 0) {
+        const usersSnapshot = await firestore
+          .collection('users')
+          .where(FieldPath.documentId(), 'in', followingIds)
+          .get();
+
+        for (const userDoc of usersSnapshot.docs) {
+          const userData = userDoc.data();
+          following.push({
+            uid: userDoc.id,
+            displayName: userData['displayName'],
+            username: userData['username'],
+            profilePicture: userData['profilePicture'],
+          });
+        }
       }
-    }
-
-    const result = {
-      following,
-      pagination: {
-        page: Number(page),
-        limit: Number(limit),
-        total: followsSnapshot.size,
-        hasMore: followsSnapshot.size === Number(limit),
-      },
-    };
 
-    await cacheService.set(cacheKey, result, 300); // 5 minutes
+      return {
+        following,
+        pagination,
+      };
+    }, { tags: [cacheTags.following(userId)] });
 
     return res.json({
       success: true,
       data: result,
     });
   });
+
+  private toPublicProfile(userDoc: FirebaseFirestore.DocumentSnapshot) {
+    const userData = userDoc.data();
+
+    return {
+      uid: userDoc.id,
+      displayName: userData?.['displayName'],
+      username: userData?.['username'],
+      bio: userData?.['bio'],
+      profilePicture: userData?.['profilePicture'],
+      followersCount: userData?.['followersCount'] || 0,
+      followingCount: userData?.['followingCount'] || 0,
+      videosCount: userData?.['videosCount'] || 0,
+      createdAt: userData?.['createdAt'],
+    };
+  }
+
+  // Adds what depends on who is asking: private fields for the owner, follow
+  // state for everyone else. The owner's document is read unless passed in.
+  private async withViewerFields(
+    profile: ReturnType<UserController['toPublicProfile']>,
+    requestingUserId?: string,
+    userDoc?: FirebaseFirestore.DocumentSnapshot
+  ) {
+    const userId = profile.uid;
+    const firestore = firebaseService.getFirestore();
+
+    // Only show email and other sensitive data to the user themselves
+    if (requestingUserId === userId) {
+      const userData = (userDoc ?? await firestore.collection('users').doc(userId).get()).data();
+      return {
+        ...profile,
+        isFollowing: false,
+        email: userData?.['email'],
+        emailVerified: userData?.['emailVerified'],
+        lastLoginAt: userData?.['lastLoginAt'],
+      };
+    }
+
+    // Check if requesting user follows this user
+    const isFollowing = requestingUserId
+      ? (await firestore.collection('follows').doc(`${requestingUserId}_${userId}`).get()).exists
+      : false;
+
+    return { ...profile, isFollowing };
+  }
 }
@@ -1,105 +1,180 @@
 import { Response } from 'express';
 import { AuthenticatedRequest } from '../middleware/auth.middleware';
 import { firebaseService, FieldValue } from '../services/firebase.service';
-import { cacheService } from '../services/cache.service';
+import { cacheService, cacheTags } from '../services/cache.service';
 import { logger } from '../utils/logger';
-import { NotFoundError, ForbiddenError, ValidationError } from '../utils/errors';
+import { ApiError, NotFoundError, ForbiddenError, ValidationError } from '../utils/errors';
 import { asyncHandler } from '../middleware/error.middleware';
+import { paginateQuery, encodeCursor, decodeCursor } from '../utils/pagination';
+import { rankingService } from '../services/ranking.service';
+import { followingFeedService } from '../services/followingFeed.service';
+import { trendingService } from '../services/trending.service';
+import { searchService } from '../services/search.service';
+import { SearchSort } from '../services/searchIndex';
+import { uploadService } from '../services/upload.service';
+import { assertTransition, videoProcessingService, VideoStatus } from '../services/videoProcessing.service';
+import { notificationService } from '../services/notification.service';
+import { viewCounterService } from '../services/viewCounter.service';
+import { highlightService } from '../services/highlights.service';
+import { textModerationService } from '../services/textModeration.service';
+import { moderationService } from '../services/moderation.service';
+import { isPubliclyVisible, isTakenDown } from '../services/videoVisibility';
 import { v4 as uuidv4 } from 'uuid';
 
 export class VideoController {
   // Get video feed
   public getFeed = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
-    const { page = 1, limit = 20, sort = 'date', order = 'desc' } = req.query;
+    const { page = 1, limit = 20, sort = 'date', order = 'desc', cursor } = req.query;
     const userId = req.user?.uid;
 
-    const cacheKey = `video:feed:${sort}:${order}:${page}:${limit}:${userId || 'anonymous'}`;
-    const cachedFeed = await cacheService.get(cacheKey);
-    
-    if (cachedFeed) {
-      logger.debug('Video feed served from cache');
-      return res.json({
-        success: true,
-        data: cachedFeed,
-      });
-    }
+    const cacheKey = `video:feed:${sort}:${order}:${cursor || page}:${limit}:${userId || 'anonymous'}`;
 
-    const firestore = firebaseService.getFirestore();
-    let query = firestore
-      .collection('videos')
-      .where('visibility', '==', 'public')
-      .where('status', '==', 'published');
-
-    // Apply sorting
-    switch (sort) {
-      case 'popular':
-        query = query.orderBy('likeCount', order as any);
-        break;
-      case 'views':
-        query = query.orderBy('viewCount', order as any);
-        break;
-      default:
-        query = query.orderBy('createdAt', order as any);
-    }
+    const result = await cacheService.getOrCompute(cacheKey, 300, async () => { // 5 minutes
+      if (sort === 'foryou') {
+        const forYou = await this.getForYouPage(userId, Number(limit), Number(page), cursor as string | undefined);
 
-    const offset = (Number(page) - 1) * Number(limit);
-    const videosSnapshot = await query
-      .offset(offset)
-      .limit(Number(limit))
-      .get();
+        logger.info('For You feed retrieved', { userId, limit: Number(limit), videoCount: forYou.videos.length });
 
-    const videos = await Promise.all(
-      videosSnapshot.docs.map(async (doc) => {
-        const videoData = doc.data();
-        
-        // Get user info
-        const userDoc = await firestore
-          .collection('users')
-          .doc(videoData['userId'])
-          .get();
-        
-        const userData = userDoc.exists ? userDoc.data() : null;
-
-        return {
-          id: doc.id,
-          title: videoData['title'],
-          description: videoData['description'],
-          thumbnailUrl: videoData['thumbnailUrl'],
-          videoUrl: videoData['videoUrl'],
-          duration: videoData['duration'],
-          viewCount: videoData['viewCount'] || 0,
-          likeCount: videoData['likeCount'] || 0,
-          commentCount: videoData['commentCount'] || 0,
-          tags: videoData['tags'] || [],
-          createdAt: videoData['createdAt'],
-          user: userData ? {
-            uid: userDoc.id,
-            displayName: userData['displayName'],
-            username: userData['username'],
-            profilePicture: userData['profilePicture'],
-          } : null,
-        };
-      })
-    );
+        return forYou;
+      }
 
-    const result = {
-      videos,
-      pagination: {
+      const query = firebaseService.getFirestore()
+        .collection('videos')
+        .where('visibility', '==', 'public')
+        .where('status', '==', 'published');
+
+      // Apply sorting
+      let sortField: string;
+      switch (sort) {
+        case 'popular':
+          sortField = 'likeCount';
+          break;
+        case 'views':
+          sortField = 'viewCount';
+          break;
+        default:
+          sortField = 'createdAt';
+      }
+
+      const { docs, pagination } = await paginateQuery(query, {
+        scope: `video:feed:${sortField}:${order}`,
+        orderBy: [{ field: sortField, direction: order as any }],
+        limit: Number(limit),
+        page: Number(page),
+        cursor: cursor as string | undefined,
+        filter: doc => !isTakenDown(doc.data()),
+      });
+
+      const videos = await Promise.all(
+        docs.map(doc => this.toFeedVideo(doc.id, doc.data()))
+      );
+
+      logger.info('Video feed retrieved', {
         page: Number(page),
         limit: Number(limit),
-        total: videosSnapshot.size,
-        hasMore: videosSnapshot.size === Number(limit),
-      },
-    };
+        videoCount: videos.length
+      });
 
-    // Cache the result
-    await cacheService.set(cacheKey, result, 300); // 5 minutes
+      return {
+        videos,
+        pagination,
+      };
+    }, { staleTtl: 60, tags: [cacheTags.videoLists()], lock: true });
 
-    logger.info('Video feed retrieved', { 
-      page: Number(page), 
-      limit: Number(limit), 
-      videoCount: videos.length 
+    return res.json({
+      success: true,
+      data: result,
     });
+  });
+
+  // Get recent videos from followed accounts
+  public getFollowingFeed = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { limit = 20, cursor } = req.query;
+    const userId = req.user?.uid;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+        code: 'AUTH_REQUIRED',
+      });
+    }
+
+    const cacheKey = `video:feed:following:${userId}:${cursor || 'first'}:${limit}`;
+
+    const result = await cacheService.getOrCompute(cacheKey, 60, async () => { // 1 minute
+      const { docs, pagination, followsTruncated } = await followingFeedService.getPage(
+        userId,
+        Number(limit),
+        cursor as string | undefined
+      );
+
+      const videos = await Promise.all(
+        docs.map(doc => this.toFeedVideo(doc.id, doc.data()))
+      );
+
+      logger.info('Following feed retrieved', { userId, limit: Number(limit), videoCount: videos.length });
+
+      return {
+        videos,
+        pagination,
+        followsTruncated,
+      };
+    }, { staleTtl: 30, tags: [cacheTags.followingFeed(userId)] });
+
+    return res.json({
+      success: true,
+      data: result,
+    });
+  });
+
+  // Get trending videos, optionally for one region
+  public getTrending = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { region, limit = 20, cursor } = req.query;
+    const scope = `video:trending:${region || 'global'}`;
+
+    const cacheKey = `${scope}:${cursor || 'first'}:${limit}`;
+    const start = cursor ? Number(decodeCursor(scope, cursor as string).values[0]) || 0 : 0;
+
+    const result = await cacheService.getOrCompute(cacheKey, 120, async () => { // 2 minutes
+      const snapshot = await trendingService.getSnapshot(region as string | undefined);
+      const entries = snapshot.videos.slice(start, start + Number(limit));
+
+      const firestore = firebaseService.getFirestore();
+      const docs = entries.length > 0
+        ? await firestore.getAll(...entries.map(entry => firestore.collection('videos').doc(entry.videoId)))
+        : [];
+
+      const scores = new Map(entries.map(entry => [entry.videoId, entry.score]));
+      // The snapshot can predate a video going private or being taken down
+      const videos = await Promise.all(
+        docs
+          .filter(doc => doc.exists && isPubliclyVisible(doc.data()!))
+          .map(async doc => ({
+            ...(await this.toFeedVideo(doc.id, doc.data()!)),
+            trendingScore: scores.get(doc.id) ?? 0,
+          }))
+      );
+
+      const end = start + entries.length;
+      const hasMore = end < snapshot.videos.length;
+      const lastEntry = entries[entries.length - 1];
+
+      return {
+        videos,
+        region: snapshot.bucket,
+        computedAt: snapshot.computedAt,
+        pagination: {
+          page: 1,
+          limit: Number(limit),
+          total: snapshot.videos.length,
+          hasMore,
+          nextCursor: hasMore && lastEntry
+            ? encodeCursor(scope, { values: [end], id: lastEntry.videoId })
+            : null,
+        },
+      };
+    }, { staleTtl: 60, tags: [cacheTags.videoLists()], lock: true });
 
     return res.json({
       success: true,
@@ -117,67 +192,77 @@ export class VideoController {
     }
 
     const cacheKey = `video:${videoId}:${userId || 'anonymous'}`;
-    const cachedVideo = await cacheService.get(cacheKey);
-    
-    if (cachedVideo) {
-      return res.json({
-        success: true,
-        data: cachedVideo,
-      });
-    }
 
-    const firestore = firebaseService.getFirestore();
-    const videoDoc = await firestore.collection('videos').doc(videoId).get();
-
-    if (!videoDoc.exists) {
-      throw new NotFoundError('Video');
-    }
+    const video = await cacheService.getOrCompute(cacheKey, 600, async () => { // 10 minutes
+      const firestore = firebaseService.getFirestore();
+      const videoDoc = await firestore.collection('videos').doc(videoId).get();
 
-    const videoData = videoDoc.data();
+      if (!videoDoc.exists) {
+        throw new NotFoundError('Video');
+      }
 
-    // Check visibility permissions
-    if (videoData?.['visibility'] === 'private' && videoData?.['userId'] !== userId) {
-      throw new ForbiddenError('This video is private');
-    }
+      const videoData = videoDoc.data();
 
-    // Get user info
-    const userDoc = await firestore
-      .collection('users')
-      .doc(videoData!['userId'])
-      .get();
-    
-    const userData = userDoc.exists ? userDoc.data() : null;
+      // Check visibility permissions
+      if (videoData?.['visibility'] === 'private' && videoData?.['userId'] !== userId) {
+        throw new ForbiddenError('This video is private');
+      }
 
-    const video = {
-      id: videoDoc.id,
-      title: videoData?.['title'],
-      description: videoData?.['description'],
-      thumbnailUrl: videoData?.['thumbnailUrl'],
-      videoUrl: videoData?.['videoUrl'],
-      duration: videoData?.['duration'],
-      viewCount: videoData?.['viewCount'] || 0,
-      likeCount: videoData?.['likeCount'] || 0,
-      commentCount: videoData?.['commentCount'] || 0,
-      tags: videoData?.['tags'] || [],
-      visibility: videoData?.['visibility'],
-      status: videoData?.['status'],
-      createdAt: videoData?.['createdAt'],
-      updatedAt: videoData?.['updatedAt'],
-      user: userData ? {
-        uid: userDoc.id,
-        displayName: userData['displayName'],
-        username: userData['username'],
-        profilePicture: userData['profilePicture'],
-      } : null,
-    };
+      // Only the owner can see a video before it is published or once it is taken down
+      if ((videoData?.['status'] !== 'published' || isTakenDown(videoData)) && videoData?.['userId'] !== userId) {
+        throw new NotFoundError('Video');
+      }
 
-    // Increment view count asynchronously (don't wait for it)
-    this.incrementViewCount(videoId, userId).catch(error => {
-      logger.error('Failed to increment view count', { videoId, userId, error });
+      // Get user info
+      const userDoc = await firestore
+        .collection('users')
+        .doc(videoData!['userId'])
+        .get();
+
+      const userData = userDoc.exists ? userDoc.data() : null;
+
+      const video = {
+        id: videoDoc.id,
+        title: videoData?.['title'],
+        description: videoData?.['description'],
+        thumbnailUrl: videoData?.['thumbnailUrl'],
+        videoUrl: videoData?.['videoUrl'],
+        hlsUrl: videoData?.['hlsUrl'] || null,
+        renditions: videoData?.['renditions'] || [],
+        resolution: videoData?.['resolution'] || null,
+        duration: videoData?.['duration'],
+        viewCount: videoData?.['viewCount'] || 0,
+        likeCount: videoData?.['likeCount'] || 0,
+        commentCount: videoData?.['commentCount'] || 0,
+        tags: videoData?.['tags'] || [],
+        visibility: videoData?.['visibility'],
+        status: videoData?.['status'],
+        moderationStatus: videoData?.['moderationStatus'] || null,
+        createdAt: videoData?.['createdAt'],
+        updatedAt: videoData?.['updatedAt'],
+        user: userData ? {
+          uid: userDoc.id,
+          displayName: userData['displayName'],
+          username: userData['username'],
+          profilePicture: userData['profilePicture'],
+        } : null,
+      };
+
+      return video;
+    }, {
+      staleTtl: 60,
+      tags: video => [cacheTags.video(videoId), ...(video.user ? [cacheTags.user(video.user.uid)] : [])],
     });
 
-    // Cache the result
-    await cacheService.set(cacheKey, video, 600); // 10 minutes
+    // The app's player does not send watch events yet, so opening a video still
+    // counts as a (deduplicated) view. Don't wait for it.
+    viewCounterService.recordOpen({
+      videoId,
+      viewerKey: userId ? `user:${userId}` : `ip:${req.ip}`,
+      userId,
+    }).catch(error => {
+      logger.error('Failed to count video open as a view', { videoId, userId, error });
+    });
 
     logger.info('Video retrieved', { videoId, userId });
 
@@ -194,10 +279,12 @@ export class VideoController {
       title,
       description,
       thumbnailUrl,
-      videoUrl,
+      uploadId,
       duration,
       tags = [],
       visibility = 'public',
+      region,
+      publishWhenReady = true,
     } = req.body;
 
     if (!userId) {
@@ -208,10 +295,18 @@ export class VideoController {
       });
     }
 
-    if (!title || !videoUrl) {
-      throw new ValidationError('Title and video URL are required');
+    if (!title || !uploadId) {
+      throw new ValidationError('Title and upload ID are required');
     }
 
+    // A held title or description keeps the video out of public view until a moderator releases it
+    const verdict = await textModerationService.enforce([
+      { field: 'video_title', text: title },
+      { field: 'video_description', text: description },
+    ]);
+
+    const upload = await uploadService.getCompletedUpload(uploadId, userId);
+
     const firestore = firebaseService.getFirestore();
     const videoId = uuidv4();
 
@@ -219,12 +314,25 @@ export class VideoController {
       title,
       description: description || '',
       thumbnailUrl: thumbnailUrl || '',
-      videoUrl,
+      videoUrl: uploadService.getPublicUrl(upload),
+      storagePath: upload.storagePath,
+      uploadId,
       duration: duration || 0,
       userId,
       tags: Array.isArray(tags) ? tags : [],
       visibility,
-      status: 'published',
+      region: region || null,
+      // Processing moves it on to ready and, unless held back, published
+      status: 'uploaded',
+      ...(verdict.outcome === 'hold' && { moderationStatus: 'hidden', heldForReview: true }),
+      publishWhenReady: publishWhenReady !== false,
+      processing: {
+        stage: 'queued',
+        progress: 0,
+        attempts: 0,
+        error: null,
+        updatedAt: new Date(),
+      },
       viewCount: 0,
       likeCount: 0,
       commentCount: 0,
@@ -232,23 +340,34 @@ export class VideoController {
       updatedAt: new Date(),
     };
 
-    const batch = firestore.batch();
-    
-    // Create video document
-    batch.set(firestore.collection('videos').doc(videoId), videoData);
-    
-    // Update user's video count
-    batch.update(firestore.collection('users').doc(userId), {
-      videosCount: FieldValue.increment(1),
+    await firestore.runTransaction(async (tx) => {
+      const uploadRef = firestore.collection('uploads').doc(uploadId);
+      const uploadDoc = await tx.get(uploadRef);
+
+      // Two requests racing on the same upload: only one gets to publish it
+      if (uploadDoc.data()?.['status'] !== 'pending') {
+        throw new ApiError(409, 'Upload has already been used', 'UPLOAD_ALREADY_USED');
+      }
+
+      // Create video document
+      tx.set(firestore.collection('videos').doc(videoId), videoData);
+
+      tx.update(uploadRef, { status: 'consumed', videoId, consumedAt: new Date() });
+
+      // Update user's video count
+      tx.update(firestore.collection('users').doc(userId), {
+        videosCount: FieldValue.increment(1),
+      });
     });
 
-    await batch.commit();
+    videoProcessingService.enqueue(videoId);
+
+    if (verdict.outcome === 'hold') {
+      await moderationService.holdForReview({ type: 'video', id: videoId }, verdict);
+    }
 
     // Clear relevant caches
-    await Promise.all([
-      cacheService.del(`user:profile:${userId}`),
-      cacheService.del(`user:videos:${userId}:*`),
-    ]);
+    await cacheService.invalidateTags([cacheTags.user(userId), cacheTags.userVideos(userId)]);
 
     logger.info('Video created', { videoId, userId, title });
 
@@ -256,7 +375,52 @@ export class VideoController {
       success: true,
       data: {
         id: videoId,
-        message: 'Video created successfully',
+        status: videoData.status,
+        message: 'Video created and queued for processing',
+      },
+    });
+  });
+
+  // Poll the processing pipeline for a video the caller owns
+  public getProcessingStatus = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { videoId } = req.params;
+    const userId = req.user?.uid;
+
+    if (!videoId) {
+      throw new ValidationError('Video ID is required');
+    }
+
+    const firestore = firebaseService.getFirestore();
+    const videoDoc = await firestore.collection('videos').doc(videoId).get();
+
+    if (!videoDoc.exists) {
+      throw new NotFoundError('Video');
+    }
+
+    const videoData = videoDoc.data()!;
+
+    if (videoData['userId'] !== userId) {
+      throw new ForbiddenError('You can only view processing status for your own videos');
+    }
+
+    const processing = videoData['processing'] || {};
+
+    return res.json({
+      success: true,
+      data: {
+        id: videoDoc.id,
+        status: videoData['status'],
+        stage: processing['stage'] || null,
+        progress: processing['progress'] ?? (videoData['status'] === 'published' ? 1 : 0),
+        attempts: processing['attempts'] || 0,
+        error: processing['error'] || null,
+        startedAt: processing['startedAt'] || null,
+        completedAt: processing['completedAt'] || null,
+        duration: videoData['duration'] || 0,
+        resolution: videoData['resolution'] || null,
+        thumbnailUrl: videoData['thumbnailUrl'] || '',
+        hlsUrl: videoData['hlsUrl'] || null,
+        renditions: videoData['renditions'] || [],
       },
     });
   });
@@ -284,7 +448,19 @@ export class VideoController {
       throw new ForbiddenError('You can only edit your own videos');
     }
 
-    const { title, description, thumbnailUrl, tags, visibility } = req.body;
+    const { title, description, thumbnailUrl, tags, visibility, status } = req.body;
+
+    // Releases a video the creator held back after processing. Checked before any
+    // write so a video that cannot be published yet is left untouched.
+    const publishing = status === 'published' && videoData?.['status'] !== 'published';
+    if (publishing) {
+      assertTransition((videoData?.['status'] || 'uploaded') as VideoStatus, 'published');
+    }
+
+    const verdict = await textModerationService.enforce([
+      { field: 'video_title', text: title },
+      { field: 'video_description', text: description },
+    ]);
 
     const updateData: any = {
       updatedAt: new Date(),
@@ -296,12 +472,30 @@ export class VideoController {
     if (tags !== undefined) updateData.tags = Array.isArray(tags) ? tags : [];
     if (visibility !== undefined) updateData.visibility = visibility;
 
-    await firestore.collection('videos').doc(videoId).update(updateData);
+    // Held text takes the video out of public view; a moderator's own decision is left alone
+    const heldForReview = verdict.outcome === 'hold' && !isTakenDown(videoData!);
+    if (heldForReview) {
+      updateData.moderationStatus = 'hidden';
+      updateData.heldForReview = true;
+    }
+
+    // Publishing writes the edits with the status change, so a refused publish changes nothing
+    if (publishing) {
+      await videoProcessingService.publish(videoId, updateData);
+    } else {
+      await firestore.collection('videos').doc(videoId).update(updateData);
+      this.syncSearchIndex(videoId, { ...videoData, ...updateData });
+    }
+
+    if (heldForReview) {
+      await moderationService.holdForReview({ type: 'video', id: videoId }, verdict);
+    }
 
     // Clear caches
-    await Promise.all([
-      cacheService.del(`video:${videoId}:*`),
-      cacheService.del(`user:videos:${userId}:*`),
+    await cacheService.invalidateTags([
+      cacheTags.video(videoId),
+      cacheTags.userVideos(userId!),
+      cacheTags.videoLists(),
     ]);
 
     logger.info('Video updated', { videoId, userId, fields: Object.keys(updateData) });
@@ -367,11 +561,16 @@ export class VideoController {
 
     await batch.commit();
 
+    this.syncSearchIndex(videoId, null);
+
     // Clear caches
-    await Promise.all([
-      cacheService.del(`video:${videoId}:*`),
-      cacheService.del(`user:videos:${videoData?.['userId']}:*`),
-      cacheService.del(`user:profile:${videoData?.['userId']}`),
+    await cacheService.invalidateTags([
+      cacheTags.video(videoId),
+      cacheTags.userVideos(videoData?.['userId']),
+      cacheTags.user(videoData?.['userId']),
+      cacheTags.videoLists(),
+      cacheTags.comments(videoId),
+      cacheTags.danmu(videoId),
     ]);
 
     logger.info('Video deleted', { videoId, userId });
@@ -382,9 +581,49 @@ export class VideoController {
     });
   });
 
+  // Record a watch event from the player; views are deduplicated per viewer
+  public recordView = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { videoId } = req.params;
+    const { watchedSeconds, completion = 0, loops = 0, source, replayedFrom } = req.body;
+    const userId = req.user?.uid;
+
+    if (!videoId) {
+      throw new ValidationError('Video ID is required');
+    }
+
+    const { counted } = await viewCounterService.record({
+      videoId,
+      viewerKey: userId ? `user:${userId}` : `ip:${req.ip}`,
+      userId,
+      watchedSeconds,
+      completion,
+      loops,
+      source,
+      replayedFrom,
+    });
+
+    return res.status(202).json({
+      success: true,
+      data: { counted },
+    });
+  });
+
+  // Heatmap and hot-moment windows from danmu, rewinds and like positions
+  public getHighlights = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { videoId } = req.params;
+
+    const report = await highlightService.getHighlights(videoId as string, req.user?.uid);
+
+    return res.json({
+      success: true,
+      data: report,
+    });
+  });
+
   // Toggle like on video
   public toggleLike = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { videoId } = req.params;
+    const { positionSeconds } = req.body;
     const userId = req.user?.uid;
 
     if (!videoId) {
@@ -424,6 +663,7 @@ export class VideoController {
       batch.set(firestore.collection('likes').doc(likeDocId), {
         userId,
         videoId,
+        ...(positionSeconds !== undefined && { positionSeconds }),
         createdAt: new Date(),
       });
       batch.update(firestore.collection('videos').doc(videoId), {
@@ -435,7 +675,18 @@ export class VideoController {
     await batch.commit();
 
     // Clear video cache
-    await cacheService.del(`video:${videoId}:*`);
+    await cacheService.invalidateTags([cacheTags.video(videoId)]);
+
+    if (isLiked) {
+      await notificationService.notify({
+        type: 'like',
+        recipientId: videoDoc.data()!['userId'],
+        actorId: userId,
+        groupKey: `like:video:${videoId}`,
+        videoId,
+        actionUrl: `/videos/${videoId}`,
+      });
+    }
 
     logger.info('Video like toggled', { videoId, userId, isLiked });
 
@@ -450,136 +701,67 @@ export class VideoController {
 
   // Search videos
   public searchVideos = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
-    const { q: query, page = 1, limit = 20, tags, sort = 'relevance' } = req.query;
+    const { q = '', page = 1, limit = 20, tags, sort = 'relevance', cursor } = req.query;
+    const query = typeof q === 'string' ? q : '';
 
-    if (!query || typeof query !== 'string') {
-      throw new ValidationError('Search query is required');
+    if (!query && !tags) {
+      throw new ValidationError('Search query or tags are required');
     }
 
-    const cacheKey = `video:search:${query}:${tags || ''}:${sort}:${page}:${limit}`;
-    const cachedResults = await cacheService.get(cacheKey);
-    
-    if (cachedResults) {
-      return res.json({
-        success: true,
-        data: cachedResults,
+    const scope = `video:search:${query}:${tags || ''}:${sort}`;
+    const cacheKey = `${scope}:${cursor || page}:${limit}`;
+
+    const result = await cacheService.getOrCompute(cacheKey, 300, async () => { // 5 minutes
+      const limitNum = Number(limit);
+      const offset = cursor
+        ? Number(decodeCursor(scope, cursor as string).values[0]) || 0
+        : (Number(page) - 1) * limitNum;
+
+      const { hits, total } = await searchService.search({
+        text: query,
+        tags: typeof tags === 'string' ? tags.split(',').map(tag => tag.trim()) : undefined,
+        sort: sort as SearchSort,
+        offset,
+        limit: limitNum,
       });
-    }
 
-    const firestore = firebaseService.getFirestore();
-    
-    // Basic text search (would be better with Algolia or Elasticsearch in production)
-    let searchQuery = firestore
-      .collection('videos')
-      .where('visibility', '==', 'public')
-      .where('status', '==', 'published');
-
-    // For now, we'll do a simple title search
-    // In production, you'd want to use a proper search service
-    const searchResults = await searchQuery.get();
-
-    const queryLower = query.toLowerCase();
-    let filteredVideos = searchResults.docs.filter(doc => {
-      const data = doc.data();
-      const title = data['title']?.toLowerCase() || '';
-      const description = data['description']?.toLowerCase() || '';
-      const videoTags = data['tags'] || [];
-      
-      // Check title and description
-      const matchesText = title.includes(queryLower) || description.includes(queryLower);
-      
-      // Check tags if specified
-      let matchesTags = true;
-      if (tags && typeof tags === 'string') {
-        const requestedTags = tags.split(',').map(tag => tag.trim().toLowerCase());
-        matchesTags = requestedTags.some(tag => 
-          videoTags.some((videoTag: string) => videoTag.toLowerCase().includes(tag))
-        );
-      }
-      
-      return matchesText && matchesTags;
-    });
-
-    // Apply sorting
-    filteredVideos = filteredVideos.sort((a, b) => {
-      const aData = a.data();
-      const bData = b.data();
-      
-      switch (sort) {
-        case 'date':
-          return new Date(bData['createdAt']).getTime() - new Date(aData['createdAt']).getTime();
-        case 'views':
-          return (bData['viewCount'] || 0) - (aData['viewCount'] || 0);
-        case 'likes':
-          return (bData['likeCount'] || 0) - (aData['likeCount'] || 0);
-        default: // relevance
-          // Simple relevance scoring based on title match
-          const aTitle = aData['title']?.toLowerCase() || '';
-          const bTitle = bData['title']?.toLowerCase() || '';
-          const aScore = aTitle.includes(queryLower) ? 2 : 1;
-          const bScore = bTitle.includes(queryLower) ? 2 : 1;
-          return bScore - aScore;
-      }
-    });
-
-    // Apply pagination
-    const offset = (Number(page) - 1) * Number(limit);
-    const paginatedVideos = filteredVideos.slice(offset, offset + Number(limit));
-
-    // Get video details with user info
-    const videos = await Promise.all(
-      paginatedVideos.map(async (doc) => {
-        const videoData = doc.data();
-        
-        // Get user info
-        const userDoc = await firestore
-          .collection('users')
-          .doc(videoData['userId'])
-          .get();
-        
-        const userData = userDoc.exists ? userDoc.data() : null;
-
-        return {
-          id: doc.id,
-          title: videoData['title'],
-          description: videoData['description'],
-          thumbnailUrl: videoData['thumbnailUrl'],
-          videoUrl: videoData['videoUrl'],
-          duration: videoData['duration'],
-          viewCount: videoData['viewCount'] || 0,
-          likeCount: videoData['likeCount'] || 0,
-          commentCount: videoData['commentCount'] || 0,
-          tags: videoData['tags'] || [],
-          createdAt: videoData['createdAt'],
-          user: userData ? {
-            uid: userDoc.id,
-            displayName: userData['displayName'],
-            username: userData['username'],
-            profilePicture: userData['profilePicture'],
-          } : null,
-        };
-      })
-    );
-
-    const result = {
-      videos,
-      query,
-      pagination: {
-        page: Number(page),
-        limit: Number(limit),
-        total: filteredVideos.length,
-        hasMore: offset + Number(limit) < filteredVideos.length,
-      },
-    };
-
-    // Cache results
-    await cacheService.set(cacheKey, result, 300); // 5 minutes
+      const firestore = firebaseService.getFirestore();
+      const docs = hits.length > 0
+        ? await firestore.getAll(...hits.map(hit => firestore.collection('videos').doc(hit.id)))
+        : [];
+
+      // Get video details with user info. The index can lag a video going
+      // private or being taken down, so visibility is checked on the stored doc.
+      const videos = await Promise.all(
+        docs
+          .filter(doc => doc.exists && isPubliclyVisible(doc.data()!))
+          .map(doc => this.toFeedVideo(doc.id, doc.data()!))
+      );
+
+      const end = offset + hits.length;
+      const hasMore = end < total;
+      const lastHit = hits[hits.length - 1];
+
+      logger.info('Video search performed', {
+        query,
+        resultsCount: videos.length,
+        totalMatches: total
+      });
 
-    logger.info('Video search performed', { 
-      query, 
-      resultsCount: videos.length,
-      totalMatches: filteredVideos.length 
-    });
+      return {
+        videos,
+        query,
+        pagination: {
+          page: Number(page),
+          limit: limitNum,
+          total,
+          hasMore,
+          nextCursor: hasMore && lastHit
+            ? encodeCursor(scope, { values: [end], id: lastHit.id })
+            : null,
+        },
+      };
+    }, { staleTtl: 60, tags: [cacheTags.videoLists()] });
 
     return res.json({
       success: true,
@@ -683,35 +865,88 @@ export class VideoController {
     });
   });
 
-  // Private method to increment view count
-  private async incrementViewCount(videoId: string, userId?: string): Promise<void> {
-    try {
-      const firestore = firebaseService.getFirestore();
-      
-      // Simple view tracking - in production you might want to implement
-      // more sophisticated view counting with rate limiting
-      await firestore.collection('videos').doc(videoId).update({
-        viewCount: FieldValue.increment(1),
-      });
+  // Ranked list is cached per user so paging through it stays stable while ranking evolves
+  private async getForYouPage(userId: string | undefined, limit: number, page: number, cursor?: string) {
+    const scope = `video:feed:foryou:${userId || 'anonymous'}`;
+    const rankingKey = `video:foryou:${userId || 'anonymous'}`;
 
-      // Optionally track user views for analytics
-      if (userId) {
-        const viewDoc = firestore
-          .collection('views')
-          .doc(`${userId}_${videoId}`);
-        
-        await viewDoc.set({
-          userId,
-          videoId,
-          viewedAt: new Date(),
-        }, { merge: true });
-      }
+    const rankedIds = await cacheService.getOrCompute(rankingKey, 900, async () => { // 15 minutes
+      const ranked = await rankingService.rankForUser(userId);
+      return ranked.map(video => video.id);
+    });
 
-      // Clear cache
-      await cacheService.del(`video:${videoId}:*`);
-      
-    } catch (error) {
-      logger.error('Failed to increment view count', { videoId, userId, error });
+    let start = page > 1 ? (page - 1) * limit : 0;
+    if (cursor) {
+      const { values, id } = decodeCursor(scope, cursor);
+      const lastIndex = rankedIds.indexOf(id);
+      // Fall back to the recorded offset if the ranking was rebuilt without that video
+      start = lastIndex !== -1 ? lastIndex + 1 : Number(values[0]) || 0;
     }
+
+    const pageIds = rankedIds.slice(start, start + limit);
+    const firestore = firebaseService.getFirestore();
+    const docs = pageIds.length > 0
+      ? await firestore.getAll(...pageIds.map(id => firestore.collection('videos').doc(id)))
+      : [];
+
+    // The ranking is cached for minutes, so videos made private or taken down
+    // since then are dropped here rather than served until it expires
+    const videos = await Promise.all(
+      docs
+        .filter(doc => doc.exists && isPubliclyVisible(doc.data()!))
+        .map(doc => this.toFeedVideo(doc.id, doc.data()!))
+    );
+
+    const end = start + pageIds.length;
+    const hasMore = end < rankedIds.length;
+    const lastId = pageIds[pageIds.length - 1];
+
+    return {
+      videos,
+      pagination: {
+        page: Math.floor(start / limit) + 1,
+        limit,
+        total: rankedIds.length,
+        hasMore,
+        nextCursor: hasMore && lastId ? encodeCursor(scope, { values: [end], id: lastId }) : null,
+      },
+    };
+  }
+
+  // Index updates must never fail the write that triggered them
+  private syncSearchIndex(videoId: string, videoData: Record<string, any> | null): void {
+    searchService.syncVideo(videoId, videoData).catch(error => {
+      logger.error('Failed to sync search index', { videoId, error });
+    });
+  }
+
+  private async toFeedVideo(id: string, videoData: Record<string, any>) {
+    // Get user info
+    const userDoc = await firebaseService.getFirestore()
+      .collection('users')
+      .doc(videoData['userId'])
+      .get();
+
+    const userData = userDoc.exists ? userDoc.data() : null;
+
+    return {
+      id,
+      title: videoData['title'],
+      description: videoData['description'],
+      thumbnailUrl: videoData['thumbnailUrl'],
+      videoUrl: videoData['videoUrl'],
+      duration: videoData['duration'],
+      viewCount: videoData['viewCount'] || 0,
+      likeCount: videoData['likeCount'] || 0,
+      commentCount: videoData['commentCount'] || 0,
+      tags: videoData['tags'] || [],
+      createdAt: videoData['createdAt'],
+      user: userData ? {
+        uid: userDoc.id,
+        displayName: userData['displayName'],
+        username: userData['username'],
+        profilePicture: userData['profilePicture'],
+      } : null,
+    };
   }
 }
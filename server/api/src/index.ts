@@ -10,12 +10,19 @@ import { config } from './config';
 import routes from './routes';
 import { firebaseService } from './services/firebase.service';
 import { cacheService } from './services/cache.service';
+import { danmuStreamService } from './services/danmuStream.service';
+import { searchService } from './services/search.service';
 import { logger } from './utils/logger';
 import { errorHandler, notFoundHandler } from './middleware/error.middleware';
+import { startJobs, stopJobs } from './jobs';
 import swaggerUi from 'swagger-ui-express';
 import swaggerJsdoc from 'swagger-jsdoc';
 import promMiddleware from 'express-prometheus-middleware';
 
+// prom-client registers its metrics globally, so every App in the process
+// shares one metrics middleware
+let metricsMiddleware: express.RequestHandler | null = null;
+
 export class App {
   public app: express.Application;
   private port: number;
@@ -104,7 +111,7 @@ export class App {
     this.app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
     // Trust proxy for Cloud Run
-    this.app.set('trust proxy', true);
+    this.app.set('trust proxy', config.trustProxyHops);
   }
   private initializeRoutes(): void {
     // Simple health check that responds immediately (critical for Cloud Run startup)
@@ -155,11 +162,12 @@ export class App {
   }
   private initializeMetrics(): void {
     // Prometheus metrics
-    this.app.use(promMiddleware({
+    metricsMiddleware ??= promMiddleware({
       metricsPath: '/metrics',
       collectDefaultMetrics: true,
       requestDurationBuckets: [0.1, 0.5, 1, 1.5, 2, 3, 5, 10],
-    }));
+    });
+    this.app.use(metricsMiddleware);
 
     // Custom metrics (commented out as they're not used)
     // const httpRequestsTotal = new promClient.Counter({
@@ -214,6 +222,8 @@ export class App {
         this.initializeServiceWithTimeout('Cache', () => cacheService.initialize(), 3000)
       ]);
       
+      startJobs();
+
       logger.info('Service initialization completed');
     } catch (error) {
       logger.warn('Service initialization had some failures, but server will continue running:', error);
@@ -240,6 +250,10 @@ export class App {
   }
 
   public shutdown(): void {
+    stopJobs();
+    void danmuStreamService.stop();
+    void searchService.stop();
+
     if (this.server) {
       this.server.close(() => {
         logger.info('Server closed');
@@ -263,7 +277,7 @@ process.on('SIGINT', () => {
 
 // Start application unless running in a test environment
 const app = new App();
-if (process.env.NODE_ENV !== 'test') {
+if (process.env['NODE_ENV'] !== 'test') {
   app.start().catch((error) => {
     logger.error('Failed to start application:', error);
     process.exit(1);
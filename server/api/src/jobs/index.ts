@@ -0,0 +1,48 @@
+import { config } from '../config';
+import { jobScheduler } from './scheduler';
+import { trendingService } from '../services/trending.service';
+import { searchService } from '../services/search.service';
+import { videoProcessingService } from '../services/videoProcessing.service';
+import { pushDeliveryService } from '../services/pushDelivery.service';
+import { viewCounterService } from '../services/viewCounter.service';
+import { analyticsService } from '../services/analytics.service';
+import { logger } from '../utils/logger';
+
+export const startJobs = (): void => {
+  if (!config.jobs.enabled) {
+    logger.info('Background jobs disabled');
+    return;
+  }
+
+  jobScheduler.schedule('trending', config.trending.intervalMs, async () => {
+    await trendingService.recompute();
+  }, { exclusive: true });
+
+  // Safety net for sync messages missed while Redis was unreachable
+  jobScheduler.schedule('search-reindex', config.search.reindexIntervalMs, async () => {
+    await searchService.rebuild();
+  });
+
+  jobScheduler.schedule('video-processing-sweep', config.processing.sweepIntervalMs, async () => {
+    await videoProcessingService.recoverStalled();
+  });
+
+  jobScheduler.schedule('view-flush', config.views.flushIntervalMs, async () => {
+    await viewCounterService.flush();
+  });
+
+  jobScheduler.schedule('analytics-rollup', config.analytics.rollupIntervalMs, async () => {
+    await analyticsService.rollup();
+  }, { exclusive: true });
+
+  jobScheduler.schedule('push-delivery', config.push.intervalMs, async () => {
+    await pushDeliveryService.deliverPending();
+  });
+};
+
+export const stopJobs = (): void => {
+  jobScheduler.stopAll();
+  videoProcessingService.stop();
+};
+
+export { jobScheduler };
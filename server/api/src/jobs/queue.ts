@@ -0,0 +1,106 @@
+import { logger } from '../utils/logger';
+
+export interface JobQueueOptions {
+  concurrency: number;
+  maxAttempts: number;
+  // Delay before the first retry; doubles on each further attempt
+  retryBackoffMs: number;
+}
+
+interface QueuedJob<T> {
+  key: string;
+  payload: T;
+  attempt: number;
+}
+
+// In-process work queue keyed by job id. A key that is already waiting, running,
+// or scheduled for retry is not queued twice.
+export class JobQueue<T> {
+  private waiting: QueuedJob<T>[] = [];
+  private active = new Set<string>();
+  private retries = new Map<string, NodeJS.Timeout>();
+  private idleWaiters: Array<() => void> = [];
+  private stopped = false;
+
+  constructor(
+    private readonly name: string,
+    private readonly handler: (payload: T, attempt: number) => Promise<void>,
+    private readonly options: JobQueueOptions
+  ) {}
+
+  // `attempt` lets work resumed from elsewhere keep counting towards maxAttempts
+  public enqueue(key: string, payload: T, attempt: number = 1): boolean {
+    if (this.stopped || this.has(key)) {
+      return false;
+    }
+
+    this.waiting.push({ key, payload, attempt });
+    this.pump();
+    return true;
+  }
+
+  public has(key: string): boolean {
+    return this.active.has(key) || this.retries.has(key) || this.waiting.some(job => job.key === key);
+  }
+
+  public get size(): number {
+    return this.waiting.length + this.active.size + this.retries.size;
+  }
+
+  // Resolves once nothing is waiting, running, or scheduled for retry
+  public onIdle(): Promise<void> {
+    if (this.size === 0) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.idleWaiters.push(resolve));
+  }
+
+  public stop(): void {
+    this.stopped = true;
+    this.waiting = [];
+    this.retries.forEach(timer => clearTimeout(timer));
+    this.retries.clear();
+    this.notifyIdle();
+  }
+
+  private pump(): void {
+    while (!this.stopped && this.active.size < this.options.concurrency && this.waiting.length > 0) {
+      const job = this.waiting.shift()!;
+      this.active.add(job.key);
+      void this.run(job);
+    }
+  }
+
+  private async run(job: QueuedJob<T>): Promise<void> {
+    try {
+      await this.handler(job.payload, job.attempt);
+    } catch (error) {
+      if (job.attempt < this.options.maxAttempts && !this.stopped) {
+        const delay = this.options.retryBackoffMs * 2 ** (job.attempt - 1);
+        logger.warn(`Queue ${this.name} job ${job.key} failed, retrying`, { attempt: job.attempt, delay });
+
+        const timer = setTimeout(() => {
+          this.retries.delete(job.key);
+          this.waiting.push({ ...job, attempt: job.attempt + 1 });
+          this.pump();
+        }, delay).unref();
+        this.retries.set(job.key, timer);
+      } else {
+        logger.error(`Queue ${this.name} job ${job.key} failed permanently`, error);
+      }
+    } finally {
+      this.active.delete(job.key);
+      this.pump();
+      this.notifyIdle();
+    }
+  }
+
+  private notifyIdle(): void {
+    if (this.size > 0) {
+      return;
+    }
+    const waiters = this.idleWaiters;
+    this.idleWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+}
@@ -0,0 +1,91 @@
+import { cacheService } from '../services/cache.service';
+import { logger } from '../utils/logger';
+
+export interface ScheduleOptions {
+  // Run on one instance per interval instead of on every instance
+  exclusive?: boolean;
+}
+
+interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<void>;
+  exclusive: boolean;
+  timer: NodeJS.Timeout | null;
+  running: boolean;
+}
+
+class JobScheduler {
+  private static instance: JobScheduler;
+  private jobs = new Map<string, ScheduledJob>();
+
+  private constructor() {}
+
+  public static getInstance(): JobScheduler {
+    if (!JobScheduler.instance) {
+      JobScheduler.instance = new JobScheduler();
+    }
+    return JobScheduler.instance;
+  }
+
+  public schedule(name: string, intervalMs: number, run: () => Promise<void>, options: ScheduleOptions = {}): void {
+    if (this.jobs.has(name)) {
+      logger.warn(`Job ${name} is already scheduled`);
+      return;
+    }
+
+    const job: ScheduledJob = { name, intervalMs, run, exclusive: options.exclusive === true, timer: null, running: false };
+    // Don't keep the process alive just for background work
+    job.timer = setInterval(() => this.execute(job), intervalMs).unref();
+    this.jobs.set(name, job);
+
+    logger.info(`Scheduled job ${name}`, { intervalMs });
+
+    // Run once right away so data is warm after a cold start
+    setImmediate(() => this.execute(job));
+  }
+
+  public async runNow(name: string): Promise<void> {
+    const job = this.jobs.get(name);
+    if (!job) {
+      throw new Error(`Unknown job: ${name}`);
+    }
+    await this.execute(job);
+  }
+
+  public stopAll(): void {
+    this.jobs.forEach(job => {
+      if (job.timer) {
+        clearInterval(job.timer);
+      }
+    });
+    this.jobs.clear();
+  }
+
+  private async execute(job: ScheduledJob): Promise<void> {
+    // Skip a tick rather than overlap a slow run
+    if (job.running) {
+      logger.debug(`Job ${job.name} still running, skipping tick`);
+      return;
+    }
+
+    job.running = true;
+    const start = Date.now();
+
+    try {
+      // Slightly shorter than the interval so the next tick anywhere can claim it
+      if (job.exclusive && !(await cacheService.acquireLease(`job:${job.name}`, Math.max(1000, job.intervalMs - 1000)))) {
+        logger.debug(`Job ${job.name} ran on another instance this interval, skipping tick`);
+        return;
+      }
+      await job.run();
+      logger.info(`Job ${job.name} completed`, { durationMs: Date.now() - start });
+    } catch (error) {
+      logger.error(`Job ${job.name} failed`, error);
+    } finally {
+      job.running = false;
+    }
+  }
+}
+
+export const jobScheduler = JobScheduler.getInstance();
@@ -1,5 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
+import type { DecodedIdToken } from 'firebase-admin/auth';
 import { firebaseService } from '../services/firebase.service';
+import { accessService, Tier } from '../services/access.service';
+import { sessionService } from '../services/session.service';
 import { logger } from '../utils/logger';
 import { ApiError } from '../utils/errors';
 
@@ -12,10 +15,39 @@ export interface AuthenticatedRequest extends Request {
     emailVerified?: boolean | undefined;
     provider?: string | undefined;
     roles?: string[] | undefined;
+    tier?: Tier | undefined;
     [key: string]: any;
   };
 }
 
+// Roles and tier come from custom claims, or the user document when the token has none
+const buildRequestUser = async (decodedToken: DecodedIdToken): Promise<NonNullable<AuthenticatedRequest['user']>> => {
+  const access = await accessService.resolve(decodedToken.uid, decodedToken);
+
+  return {
+    uid: decodedToken.uid,
+    email: decodedToken.email,
+    name: decodedToken['name'],
+    picture: decodedToken.picture,
+    emailVerified: decodedToken.email_verified,
+    provider: decodedToken.firebase.sign_in_provider,
+    roles: access.roles,
+    tier: access.tier,
+  };
+};
+
+// Verifies the ID token and rejects sessions revoked since it was issued,
+// e.g. after POST /me/sessions/revoke-all from a user whose phone was stolen
+const verifyRequestToken = async (token: string): Promise<DecodedIdToken> => {
+  const decodedToken = await firebaseService.verifyIdToken(token);
+
+  if (await sessionService.isRevoked(decodedToken.uid, decodedToken.auth_time)) {
+    throw new ApiError(401, 'Session has been revoked, please sign in again', 'TOKEN_REVOKED');
+  }
+
+  return decodedToken;
+};
+
 export const authenticateToken = async (
   req: AuthenticatedRequest,
   res: Response,
@@ -26,21 +58,12 @@ export const authenticateToken = async (
     const token = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : null;
 
     if (!token) {
-      throw new ApiError(401, 'Authentication token required');
+      throw new ApiError(401, 'Authentication token required', 'AUTH_FAILED');
     }
 
     // Verify the Firebase ID token
-    const decodedToken = await firebaseService.verifyIdToken(token);
-      // Extract user information
-    req.user = {
-      uid: decodedToken.uid,
-      email: decodedToken.email,
-      name: decodedToken['name'],
-      picture: decodedToken.picture,
-      emailVerified: decodedToken.email_verified,
-      provider: decodedToken.firebase.sign_in_provider,
-      roles: ['user'], // Default role
-    };
+    const decodedToken = await verifyRequestToken(token);
+    req.user = await buildRequestUser(decodedToken);
 
     logger.debug('User authenticated successfully', {
       uid: req.user.uid,
@@ -55,7 +78,7 @@ export const authenticateToken = async (
       res.status(error.statusCode).json({
         success: false,
         error: error.message,
-        code: 'AUTH_FAILED',
+        code: error.code,
       });
     } else {
       res.status(401).json({
@@ -78,15 +101,8 @@ export const optionalAuth = async (
 
     if (token) {
       try {
-        const decodedToken = await firebaseService.verifyIdToken(token);        req.user = {
-          uid: decodedToken.uid,
-          email: decodedToken.email,
-          name: decodedToken['name'],
-          picture: decodedToken.picture,
-          emailVerified: decodedToken.email_verified,
-          provider: decodedToken.firebase.sign_in_provider,
-          roles: ['user'], // Default role
-        };
+        const decodedToken = await verifyRequestToken(token);
+        req.user = await buildRequestUser(decodedToken);
       } catch (tokenError) {
         logger.warn('Optional auth token invalid', tokenError);
         // Continue without user context
@@ -1,57 +1,41 @@
-import rateLimit from 'express-rate-limit';
-import { Request, Response } from 'express';
+import rateLimit, { RateLimitInfo, RateLimitRequestHandler } from 'express-rate-limit';
+import { NextFunction, Request, Response } from 'express';
 import { config } from '../config';
-import { cacheService } from '../services/cache.service';
+import { AuthenticatedRequest } from './auth.middleware';
+import { Tier } from '../services/access.service';
+import { SlidingWindowStore } from '../services/rateLimitStore';
 import { logger } from '../utils/logger';
 
-// Create a rate limiter store using Redis/cache
-const createCacheStore = () => {
-  return {
-    async incr(key: string): Promise<{ totalHits: number; resetTime?: Date }> {
-      const current = await cacheService.get<number>(key) || 0;
-      const newValue = current + 1;
-      await cacheService.set(key, newValue, config.rateLimit.windowMs / 1000);
-      
-      return {
-        totalHits: newValue,
-        resetTime: new Date(Date.now() + config.rateLimit.windowMs),
-      };
-    },
+// express-rate-limit records its verdict on `req.rateLimit`
+type RateLimitedRequest = AuthenticatedRequest & { rateLimit?: RateLimitInfo };
 
-    async decrement(key: string): Promise<void> {
-      const current = await cacheService.get<number>(key) || 0;
-      if (current > 0) {
-        await cacheService.set(key, current - 1, config.rateLimit.windowMs / 1000);
-      }
-    },
-
-    async resetKey(key: string): Promise<void> {
-      await cacheService.del(key);
-    },
-  };
+// Seconds until the oldest hit leaves the window, i.e. when the next request fits
+const retryAfterSeconds = (req: RateLimitedRequest, windowMs: number): number => {
+  const resetTime = req.rateLimit?.resetTime;
+  const remainingMs = resetTime ? resetTime.getTime() - Date.now() : windowMs;
+  return Math.max(1, Math.ceil(remainingMs / 1000));
 };
 
 // Generate rate limit key based on IP and user
-const generateKey = (req: Request): string => {
-  const user = (req as any).user;
-  if (user?.uid) {
-    return `rate_limit:user:${user.uid}`;
+const generateKey = (req: AuthenticatedRequest): string => {
+  if (req.user?.uid) {
+    return `user:${req.user.uid}`;
   }
-  return `rate_limit:ip:${req.ip}`;
+  return `ip:${req.ip}`;
 };
 
 // Basic rate limiter
 export const basicRateLimit = rateLimit({
   windowMs: config.rateLimit.windowMs,
-  max: config.rateLimit.max,
+  limit: config.rateLimit.max,
   standardHeaders: config.rateLimit.standardHeaders,
   legacyHeaders: config.rateLimit.legacyHeaders,
   keyGenerator: generateKey,
-  store: createCacheStore(),
-  handler: (req: Request, res: Response) => {
+  store: new SlidingWindowStore({ prefix: 'rate_limit:basic:' }),
+  handler: (req: RateLimitedRequest, res: Response) => {
     logger.warn('Rate limit exceeded', {
       ip: req.ip,
-      userId: (req as any).user?.uid,
+      userId: req.user?.uid,
       path: req.path,
       method: req.method,
     });
@@ -60,7 +44,7 @@ export const basicRateLimit = rateLimit({
       success: false,
       error: 'Too many requests, please try again later',
       code: 'RATE_LIMIT_EXCEEDED',
-      retryAfter: Math.ceil(config.rateLimit.windowMs / 1000),
+      retryAfter: retryAfterSeconds(req, config.rateLimit.windowMs),
     });
   },
 });
@@ -68,15 +52,15 @@ export const basicRateLimit = rateLimit({
 // Strict rate limiter for sensitive operations
 export const strictRateLimit = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 10, // 10 requests per window
+  limit: 10, // 10 requests per window
   standardHeaders: true,
   legacyHeaders: false,
   keyGenerator: generateKey,
-  store: createCacheStore(),
-  handler: (req: Request, res: Response) => {
+  store: new SlidingWindowStore({ prefix: 'rate_limit:strict:' }),
+  handler: (req: RateLimitedRequest, res: Response) => {
     logger.warn('Strict rate limit exceeded', {
       ip: req.ip,
-      userId: (req as any).user?.uid,
+      userId: req.user?.uid,
       path: req.path,
       method: req.method,
     });
@@ -85,7 +69,7 @@ export const strictRateLimit = rateLimit({
       success: false,
       error: 'Too many sensitive operations, please try again later',
       code: 'STRICT_RATE_LIMIT_EXCEEDED',
-      retryAfter: 15 * 60, // 15 minutes
+      retryAfter: retryAfterSeconds(req, 15 * 60 * 1000),
     });
   },
 });
@@ -93,15 +77,15 @@ export const strictRateLimit = rateLimit({
 // Upload rate limiter
 export const uploadRateLimit = rateLimit({
   windowMs: 60 * 60 * 1000, // 1 hour
-  max: 20, // 20 uploads per hour
+  limit: 20, // 20 uploads per hour
   standardHeaders: true,
   legacyHeaders: false,
   keyGenerator: generateKey,
-  store: createCacheStore(),
-  handler: (req: Request, res: Response) => {
+  store: new SlidingWindowStore({ prefix: 'rate_limit:upload:' }),
+  handler: (req: RateLimitedRequest, res: Response) => {
     logger.warn('Upload rate limit exceeded', {
       ip: req.ip,
-      userId: (req as any).user?.uid,
+      userId: req.user?.uid,
       path: req.path,
     });
 
@@ -109,7 +93,7 @@ export const uploadRateLimit = rateLimit({
       success: false,
       error: 'Upload quota exceeded, please try again later',
       code: 'UPLOAD_RATE_LIMIT_EXCEEDED',
-      retryAfter: 60 * 60, // 1 hour
+      retryAfter: retryAfterSeconds(req, 60 * 60 * 1000),
     });
   },
 });
@@ -117,15 +101,15 @@ export const uploadRateLimit = rateLimit({
 // API rate limiter for external integrations
 export const apiRateLimit = rateLimit({
   windowMs: 60 * 1000, // 1 minute
-  max: 60, // 60 requests per minute
+  limit: 60, // 60 requests per minute
   standardHeaders: true,
   legacyHeaders: false,
   keyGenerator: (req: Request) => {
     const apiKey = req.headers['x-api-key'] as string;
-    return apiKey ? `rate_limit:api:${apiKey}` : `rate_limit:ip:${req.ip}`;
+    return apiKey ? `key:${apiKey}` : `ip:${req.ip}`;
   },
-  store: createCacheStore(),
-  handler: (req: Request, res: Response) => {
+  store: new SlidingWindowStore({ prefix: 'rate_limit:api:' }),
+  handler: (req: RateLimitedRequest, res: Response) => {
     logger.warn('API rate limit exceeded', {
       ip: req.ip,
       apiKey: req.headers['x-api-key'],
@@ -137,40 +121,47 @@ export const apiRateLimit = rateLimit({
       success: false,
       error: 'API rate limit exceeded',
       code: 'API_RATE_LIMIT_EXCEEDED',
-      retryAfter: 60,
+      retryAfter: retryAfterSeconds(req, 60 * 1000),
     });
   },
 });
 
-// Dynamic rate limiter based on user tier
-export const dynamicRateLimit = (req: Request, res: Response, next: any) => {
-  const user = (req as any).user;
-  let maxRequests = config.rateLimit.max;
+// Dynamic rate limiter based on user tier. One limiter per tier, built on first
+// use, so each keeps its own sliding window and the store is not recreated per request.
+// Mounted after authenticateToken, which is where the tier comes from.
+const tierMultipliers: Record<Tier, number> = {
+  free: 1,
+  premium: 2,
+  pro: 5,
+};
 
-  // Adjust rate limit based on user tier
-  if (user?.tier === 'premium') {
-    maxRequests = maxRequests * 2;
-  } else if (user?.tier === 'pro') {
-    maxRequests = maxRequests * 5;
+const tierLimiters = new Map<Tier, RateLimitRequestHandler>();
+
+const getTierLimiter = (tier: Tier): RateLimitRequestHandler => {
+  let limiter = tierLimiters.get(tier);
+  if (!limiter) {
+    limiter = rateLimit({
+      windowMs: config.rateLimit.windowMs,
+      limit: config.rateLimit.max * tierMultipliers[tier],
+      standardHeaders: true,
+      legacyHeaders: false,
+      keyGenerator: generateKey,
+      store: new SlidingWindowStore({ prefix: `rate_limit:tier:${tier}:` }),
+      handler: (req: RateLimitedRequest, res: Response) => {
+        res.status(429).json({
+          success: false,
+          error: 'Rate limit exceeded for your tier',
+          code: 'TIER_RATE_LIMIT_EXCEEDED',
+          tier,
+          retryAfter: retryAfterSeconds(req, config.rateLimit.windowMs),
+        });
+      },
+    });
+    tierLimiters.set(tier, limiter);
   }
+  return limiter;
+};
 
-  const dynamicLimiter = rateLimit({
-    windowMs: config.rateLimit.windowMs,
-    max: maxRequests,
-    standardHeaders: true,
-    legacyHeaders: false,
-    keyGenerator: generateKey,
-    store: createCacheStore(),
-    handler: (_req: Request, res: Response) => {
-      res.status(429).json({
-        success: false,
-        error: 'Rate limit exceeded for your tier',
-        code: 'TIER_RATE_LIMIT_EXCEEDED',
-        tier: user?.tier || 'free',
-        retryAfter: Math.ceil(config.rateLimit.windowMs / 1000),
-      });
-    },
-  });
-
-  dynamicLimiter(req, res, next);
+export const dynamicRateLimit = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  getTierLimiter(req.user?.tier ?? 'free')(req, res, next);
 };
@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { validationResult } from 'express-validator';
 import { ValidationError } from '../utils/errors';
+import { isDanmuFormat, parseDanmu } from '../services/danmuFormats';
 
 export const handleValidationErrors = (
   req: Request,
@@ -21,3 +22,19 @@ export const handleValidationErrors = (
 
   next();
 };
+
+// Turns an uploaded danmu file ({ format, data }) into body.danmu so the
+// importDanmuValidation field rules can check each entry
+export const parseDanmuImport = (
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): void => {
+  const { format, data } = req.body || {};
+
+  if (isDanmuFormat(format)) {
+    req.body.danmu = parseDanmu(format, data);
+  }
+
+  next();
+};
@@ -3,9 +3,17 @@ import { VideoController } from '../controllers/video.controller';
 import { UserController } from '../controllers/user.controller';
 import { CommentController } from '../controllers/comment.controller';
 import { DanmuController } from '../controllers/danmu.controller';
-import { authenticateToken, optionalAuth } from '../middleware/auth.middleware';
-import { handleValidationErrors } from '../middleware/validation.middleware';
-import { basicRateLimit, strictRateLimit, uploadRateLimit } from '../middleware/rateLimiter.middleware';
+import { TagController } from '../controllers/tag.controller';
+import { UploadController } from '../controllers/upload.controller';
+import { AdminController } from '../controllers/admin.controller';
+import { SettingsController } from '../controllers/settings.controller';
+import { NotificationController } from '../controllers/notification.controller';
+import { DeviceController } from '../controllers/device.controller';
+import { AnalyticsController } from '../controllers/analytics.controller';
+import { ModerationController } from '../controllers/moderation.controller';
+import { authenticateToken, optionalAuth, requireAdmin, requireModerator } from '../middleware/auth.middleware';
+import { handleValidationErrors, parseDanmuImport } from '../middleware/validation.middleware';
+import { basicRateLimit, dynamicRateLimit, strictRateLimit, uploadRateLimit } from '../middleware/rateLimiter.middleware';
 import {
   createVideoValidation,
   updateVideoValidation,
@@ -13,9 +21,29 @@ import {
   createCommentValidation,
   updateCommentValidation,
   createDanmuValidation,
+  danmuStreamValidation,
+  danmuSegmentValidation,
+  exportDanmuValidation,
+  importDanmuValidation,
   paginationValidation,
   searchValidation,
+  uploadValidation,
   likeValidation,
+  recordViewValidation,
+  analyticsValidation,
+  trendingValidation,
+  userSearchValidation,
+  usernameParamValidation,
+  grantRoleValidation,
+  revokeRoleValidation,
+  creatorInteractionSettingsValidation,
+  videoInteractionSettingsValidation,
+  markNotificationsReadValidation,
+  registerDeviceValidation,
+  deviceIdValidation,
+  createReportValidation,
+  moderationQueueValidation,
+  moderationActionValidation,
 } from '../validators';
 
 const router = Router();
@@ -25,6 +53,14 @@ const videoController = new VideoController();
 const userController = new UserController();
 const commentController = new CommentController();
 const danmuController = new DanmuController();
+const tagController = new TagController();
+const uploadController = new UploadController();
+const adminController = new AdminController();
+const settingsController = new SettingsController();
+const notificationController = new NotificationController();
+const deviceController = new DeviceController();
+const analyticsController = new AnalyticsController();
+const moderationController = new ModerationController();
 
 // Health check endpoint
 router.get('/health', (_req, res) => {
@@ -144,6 +180,22 @@ router.get('/videos/feed',
   videoController.getFeed
 );
 
+router.get('/videos/feed/following',
+  authenticateToken,
+  dynamicRateLimit,
+  paginationValidation,
+  handleValidationErrors,
+  videoController.getFollowingFeed
+);
+
+router.get('/videos/trending',
+  basicRateLimit,
+  optionalAuth,
+  trendingValidation,
+  handleValidationErrors,
+  videoController.getTrending
+);
+
 // Mock feed endpoint for testing
 router.get('/videos/mock-feed',
   basicRateLimit,
@@ -160,12 +212,27 @@ router.get('/videos/search',
   videoController.searchVideos
 );
 
+router.get('/videos/:videoId/processing',
+  authenticateToken,
+  dynamicRateLimit,
+  videoController.getProcessingStatus
+);
+
 router.get('/videos/:videoId',
   basicRateLimit,
   optionalAuth,
   videoController.getVideo
 );
 
+// Upload routes
+router.post('/uploads',
+  uploadRateLimit,
+  authenticateToken,
+  uploadValidation,
+  handleValidationErrors,
+  uploadController.createUpload
+);
+
 router.post('/videos',
   uploadRateLimit,
   authenticateToken,
@@ -189,14 +256,52 @@ router.delete('/videos/:videoId',
 );
 
 router.post('/videos/:videoId/like',
-  basicRateLimit,
   authenticateToken,
+  dynamicRateLimit,
   likeValidation,
   handleValidationErrors,
   videoController.toggleLike
 );
 
+router.post('/videos/:videoId/views',
+  basicRateLimit,
+  optionalAuth,
+  recordViewValidation,
+  handleValidationErrors,
+  videoController.recordView
+);
+
+router.get('/videos/:videoId/highlights',
+  basicRateLimit,
+  optionalAuth,
+  videoController.getHighlights
+);
+
+// Tag routes
+router.get('/tags/trending',
+  basicRateLimit,
+  trendingValidation,
+  handleValidationErrors,
+  tagController.getTrendingTags
+);
+
 // User routes
+router.get('/users/search',
+  basicRateLimit,
+  optionalAuth,
+  userSearchValidation,
+  handleValidationErrors,
+  userController.searchUsers
+);
+
+router.get('/users/by-username/:username',
+  basicRateLimit,
+  optionalAuth,
+  usernameParamValidation,
+  handleValidationErrors,
+  userController.getProfileByUsername
+);
+
 router.get('/users/:userId',
   basicRateLimit,
   optionalAuth,
@@ -220,8 +325,8 @@ router.get('/users/:userId/videos',
 );
 
 router.post('/users/:userId/follow',
-  basicRateLimit,
   authenticateToken,
+  dynamicRateLimit,
   userController.toggleFollow
 );
 
@@ -259,8 +364,8 @@ router.get('/comments/:commentId/replies',
 );
 
 router.post('/videos/:videoId/comments',
-  basicRateLimit,
   authenticateToken,
+  dynamicRateLimit,
   createCommentValidation,
   handleValidationErrors,
   commentController.createComment
@@ -281,8 +386,8 @@ router.delete('/comments/:commentId',
 );
 
 router.post('/comments/:commentId/like',
-  basicRateLimit,
   authenticateToken,
+  dynamicRateLimit,
   commentController.toggleLike
 );
 
@@ -293,9 +398,42 @@ router.get('/videos/:videoId/danmu',
   danmuController.getDanmu
 );
 
-router.post('/videos/:videoId/danmu',
+router.get('/videos/:videoId/danmu/segments/:segment',
   basicRateLimit,
+  optionalAuth,
+  danmuSegmentValidation,
+  handleValidationErrors,
+  danmuController.getDanmuSegment
+);
+
+router.get('/videos/:videoId/danmu/export',
+  strictRateLimit,
+  optionalAuth,
+  exportDanmuValidation,
+  handleValidationErrors,
+  danmuController.exportDanmu
+);
+
+router.post('/videos/:videoId/danmu/import',
+  uploadRateLimit,
   authenticateToken,
+  parseDanmuImport,
+  importDanmuValidation,
+  handleValidationErrors,
+  danmuController.importDanmu
+);
+
+router.get('/videos/:videoId/danmu/stream',
+  basicRateLimit,
+  optionalAuth,
+  danmuStreamValidation,
+  handleValidationErrors,
+  danmuController.streamDanmu
+);
+
+router.post('/videos/:videoId/danmu',
+  authenticateToken,
+  dynamicRateLimit,
   createDanmuValidation,
   handleValidationErrors,
   danmuController.createDanmu
@@ -319,4 +457,149 @@ router.get('/videos/:videoId/danmu/stats',
   danmuController.getDanmuStats
 );
 
+// Comment and danmu settings
+router.get('/me/settings/interactions',
+  authenticateToken,
+  dynamicRateLimit,
+  settingsController.getMyInteractionSettings
+);
+
+router.put('/me/settings/interactions',
+  strictRateLimit,
+  authenticateToken,
+  creatorInteractionSettingsValidation,
+  handleValidationErrors,
+  settingsController.updateMyInteractionSettings
+);
+
+router.get('/videos/:videoId/settings/interactions',
+  authenticateToken,
+  dynamicRateLimit,
+  settingsController.getVideoInteractionSettings
+);
+
+router.put('/videos/:videoId/settings/interactions',
+  strictRateLimit,
+  authenticateToken,
+  videoInteractionSettingsValidation,
+  handleValidationErrors,
+  settingsController.updateVideoInteractionSettings
+);
+
+// Notification routes
+router.get('/notifications',
+  authenticateToken,
+  dynamicRateLimit,
+  paginationValidation,
+  handleValidationErrors,
+  notificationController.getNotifications
+);
+
+router.post('/notifications/read',
+  authenticateToken,
+  dynamicRateLimit,
+  markNotificationsReadValidation,
+  handleValidationErrors,
+  notificationController.markRead
+);
+
+// Device and session routes
+router.get('/me/devices',
+  authenticateToken,
+  dynamicRateLimit,
+  deviceController.getDevices
+);
+
+router.post('/me/devices',
+  authenticateToken,
+  dynamicRateLimit,
+  registerDeviceValidation,
+  handleValidationErrors,
+  deviceController.registerDevice
+);
+
+router.delete('/me/devices/:deviceId',
+  authenticateToken,
+  dynamicRateLimit,
+  deviceIdValidation,
+  handleValidationErrors,
+  deviceController.removeDevice
+);
+
+router.post('/me/sessions/revoke-all',
+  strictRateLimit,
+  authenticateToken,
+  deviceController.revokeAllSessions
+);
+
+// Creator analytics
+router.get('/me/analytics/overview',
+  authenticateToken,
+  dynamicRateLimit,
+  analyticsValidation,
+  handleValidationErrors,
+  analyticsController.getOverview
+);
+
+router.get('/videos/:videoId/analytics',
+  authenticateToken,
+  dynamicRateLimit,
+  analyticsValidation,
+  handleValidationErrors,
+  analyticsController.getVideoAnalytics
+);
+
+// Reports and moderation
+router.post('/reports',
+  strictRateLimit,
+  authenticateToken,
+  createReportValidation,
+  handleValidationErrors,
+  moderationController.createReport
+);
+
+router.get('/mod/queue',
+  authenticateToken,
+  dynamicRateLimit,
+  requireModerator,
+  moderationQueueValidation,
+  handleValidationErrors,
+  moderationController.getQueue
+);
+
+router.get('/mod/cases/:caseId',
+  authenticateToken,
+  dynamicRateLimit,
+  requireModerator,
+  moderationController.getCase
+);
+
+router.post('/mod/cases/:caseId/actions',
+  strictRateLimit,
+  authenticateToken,
+  requireModerator,
+  moderationActionValidation,
+  handleValidationErrors,
+  moderationController.actOnCase
+);
+
+// Admin routes
+router.post('/admin/users/:userId/roles',
+  strictRateLimit,
+  authenticateToken,
+  requireAdmin,
+  grantRoleValidation,
+  handleValidationErrors,
+  adminController.grantRole
+);
+
+router.delete('/admin/users/:userId/roles/:role',
+  strictRateLimit,
+  authenticateToken,
+  requireAdmin,
+  revokeRoleValidation,
+  handleValidationErrors,
+  adminController.revokeRole
+);
+
 export default router;
@@ -0,0 +1,128 @@
+import type { DocumentData, Firestore, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { firebaseService, FieldPath } from '../services/firebase.service';
+import { usernameSkeleton } from '../services/username.service';
+import { logger } from '../utils/logger';
+
+// Firestore rejects batches above 500 writes; each user can take two (profile and claim)
+const MAX_BATCH_WRITES = 500;
+const MAX_PAGE_SIZE = MAX_BATCH_WRITES / 2;
+
+export interface BackfillOptions {
+  dryRun: boolean;
+  pageSize: number;
+}
+
+export interface BackfillResult {
+  scanned: number;
+  updated: number;
+  // Legacy handles that now hold a `usernames` claim
+  claimed: number;
+  // Legacy handles already claimed by someone else, left for manual review
+  conflicts: number;
+}
+
+// Lowercased copies of the fields that handle lookups and user search query on
+export const searchFieldUpdates = (data: DocumentData): Record<string, string> => {
+  const updates: Record<string, string> = {};
+
+  const username = data['username'];
+  if (typeof username === 'string' && username && data['usernameLower'] !== username.toLowerCase()) {
+    updates['usernameLower'] = username.toLowerCase();
+  }
+
+  const displayName = data['displayName'];
+  if (typeof displayName === 'string' && displayName && data['displayNameLower'] !== displayName.toLowerCase()) {
+    updates['displayNameLower'] = displayName.toLowerCase();
+  }
+
+  return updates;
+};
+
+const legacyUsername = (data: DocumentData): string | undefined =>
+  typeof data['username'] === 'string' && data['username'] ? data['username'] : undefined;
+
+// Walks every user document in id order and fills in whatever the current schema expects
+export const backfillUsers = async (firestore: Firestore, options: BackfillOptions): Promise<BackfillResult> => {
+  const pageSize = Math.min(options.pageSize, MAX_PAGE_SIZE);
+  const result: BackfillResult = { scanned: 0, updated: 0, claimed: 0, conflicts: 0 };
+  // Claims made by this run, so duplicates across pages and dry runs are still caught
+  const claimedBy = new Map<string, string>();
+  const now = new Date();
+  let after: QueryDocumentSnapshot | undefined;
+
+  do {
+    let query = firestore.collection('users').orderBy(FieldPath.documentId()).limit(pageSize);
+    if (after) {
+      query = query.startAfter(after);
+    }
+
+    const snapshot = await query.get();
+    const claimRefs = [...new Set(snapshot.docs.flatMap(doc => legacyUsername(doc.data())?.toLowerCase() ?? []))]
+      .map(lower => firestore.collection('usernames').doc(lower));
+    const claims = new Map(
+      (claimRefs.length > 0 ? await firestore.getAll(...claimRefs) : [])
+        .filter(claim => claim.exists)
+        .map(claim => [claim.id, claim.get('uid') as string]),
+    );
+
+    const batch = firestore.batch();
+    let writes = 0;
+
+    snapshot.docs.forEach(doc => {
+      const data = doc.data();
+      const updates = searchFieldUpdates(data);
+      if (Object.keys(updates).length > 0) {
+        batch.update(doc.ref, updates);
+        result.updated++;
+        writes++;
+      }
+
+      const username = legacyUsername(data);
+      if (!username) {
+        return;
+      }
+
+      // Handles picked before claims existed were never checked against each other
+      const lower = username.toLowerCase();
+      const owner = claimedBy.get(lower) ?? claims.get(lower);
+      if (owner === undefined) {
+        batch.create(firestore.collection('usernames').doc(lower), {
+          uid: doc.id,
+          username,
+          skeleton: usernameSkeleton(username),
+          createdAt: now,
+        });
+        claimedBy.set(lower, doc.id);
+        result.claimed++;
+        writes++;
+      } else if (owner !== doc.id) {
+        result.conflicts++;
+        logger.warn('Legacy username is already claimed by another user', { uid: doc.id, username, owner });
+      }
+    });
+
+    if (writes > 0 && !options.dryRun) {
+      await batch.commit();
+    }
+
+    result.scanned += snapshot.size;
+    after = snapshot.size === pageSize ? snapshot.docs[snapshot.size - 1] : undefined;
+  } while (after);
+
+  return result;
+};
+
+if (require.main === module) {
+  const dryRun = process.argv.includes('--dry-run');
+
+  firebaseService.initialize()
+    .then(() => backfillUsers(firebaseService.getFirestore(), { dryRun, pageSize: MAX_PAGE_SIZE }))
+    .then(result => {
+      logger.info('User backfill finished', { ...result, dryRun });
+      process.exit(0);
+    })
+    .catch(error => {
+      logger.error('User backfill failed', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,187 @@
+import { config } from '../config';
+import { firebaseService, FieldValue } from './firebase.service';
+import { cacheService, cacheTags } from './cache.service';
+import { SessionService, sessionService } from './session.service';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+export const ROLES = ['user', 'moderator', 'admin'] as const;
+export type Role = typeof ROLES[number];
+
+export const TIERS = ['free', 'premium', 'pro'] as const;
+export type Tier = typeof TIERS[number];
+
+export interface UserAccess {
+  roles: Role[];
+  tier: Tier;
+}
+
+// roles/tier as mirrored on the user document, unvalidated. Only the API writes
+// them; database/firestore.rules rejects client writes to either field.
+export interface StoredAccess {
+  roles?: unknown;
+  tier?: unknown;
+}
+
+export interface AuditEntry {
+  action: string;
+  actorId: string;
+  targetId: string;
+  details: Record<string, any>;
+}
+
+export const isRole = (value: unknown): value is Role =>
+  typeof value === 'string' && (ROLES as readonly string[]).includes(value);
+
+export const isTier = (value: unknown): value is Tier =>
+  typeof value === 'string' && (TIERS as readonly string[]).includes(value);
+
+// Every signed-in account is at least a 'user', whatever the source says
+const normalizeRoles = (value: unknown): Role[] => {
+  const roles = Array.isArray(value) ? value.filter(isRole) : [];
+  return ['user', ...ROLES.filter(role => role !== 'user' && roles.includes(role))];
+};
+
+export interface AccessStore {
+  // Custom claims on the auth record; throws NotFoundError for unknown users
+  getClaims(uid: string): Promise<Record<string, any>>;
+  setClaims(uid: string, claims: Record<string, any>): Promise<void>;
+  getUserAccess(uid: string): Promise<StoredAccess | null>;
+  setUserAccess(uid: string, access: UserAccess): Promise<void>;
+  appendAudit(entry: AuditEntry): Promise<void>;
+}
+
+export class FirebaseAccessStore implements AccessStore {
+  private get firestore() {
+    return firebaseService.getFirestore();
+  }
+
+  public async getClaims(uid: string): Promise<Record<string, any>> {
+    try {
+      const user = await firebaseService.getUserByUid(uid);
+      return user.customClaims || {};
+    } catch (error: any) {
+      if (error?.code === 'auth/user-not-found') {
+        throw new NotFoundError('User');
+      }
+      throw error;
+    }
+  }
+
+  public async setClaims(uid: string, claims: Record<string, any>): Promise<void> {
+    await firebaseService.setCustomUserClaims(uid, claims);
+  }
+
+  public async getUserAccess(uid: string): Promise<StoredAccess | null> {
+    const doc = await this.firestore.collection('users').doc(uid).get();
+    if (!doc.exists) {
+      return null;
+    }
+    const data = doc.data()!;
+    return { roles: data['roles'], tier: data['tier'] };
+  }
+
+  public async setUserAccess(uid: string, access: UserAccess): Promise<void> {
+    await this.firestore.collection('users').doc(uid).set({
+      roles: access.roles,
+      tier: access.tier,
+      updatedAt: FieldValue.serverTimestamp(),
+    }, { merge: true });
+  }
+
+  public async appendAudit(entry: AuditEntry): Promise<void> {
+    await this.firestore.collection('auditLog').add({
+      ...entry,
+      createdAt: FieldValue.serverTimestamp(),
+    });
+  }
+}
+
+// Claims win field by field; the user document fills in whatever they lack
+const combineAccess = (claims: Record<string, any>, stored: StoredAccess | null): UserAccess => ({
+  roles: normalizeRoles(Array.isArray(claims['roles']) ? claims['roles'] : stored?.roles),
+  tier: isTier(claims['tier']) ? claims['tier'] : isTier(stored?.tier) ? stored!.tier as Tier : 'free',
+});
+
+const accessCacheKey = (uid: string): string => `user:access:${uid}`;
+
+// Resolves what a caller may do. Custom claims ride along in the ID token, so
+// granted users need no lookup; everyone else falls back to the user document,
+// cached briefly. Claims only change on the client's next token refresh, so a
+// grant can take up to an hour to reach tokens already issued. A revoke signs
+// the user out instead, since the old tokens still carry the role.
+export class AccessService {
+  constructor(
+    private readonly store: AccessStore,
+    private readonly sessions: SessionService = sessionService
+  ) {}
+
+  public async resolve(uid: string, claims: Record<string, any> = {}): Promise<UserAccess> {
+    if (Array.isArray(claims['roles']) && isTier(claims['tier'])) {
+      return combineAccess(claims, null);
+    }
+
+    let stored: StoredAccess | null = null;
+    try {
+      stored = await cacheService.getOrCompute(
+        accessCacheKey(uid),
+        config.cache.ttl,
+        () => this.store.getUserAccess(uid),
+        { tags: [cacheTags.user(uid)] }
+      );
+    } catch (error) {
+      // Fall back to the default access rather than rejecting the request
+      logger.warn('Failed to load user access, using defaults', { uid, error });
+    }
+
+    return combineAccess(claims, stored);
+  }
+
+  public async grantRole(actorId: string, uid: string, role: Role): Promise<UserAccess> {
+    return this.changeRoles(actorId, uid, role, 'grant');
+  }
+
+  public async revokeRole(actorId: string, uid: string, role: Role): Promise<UserAccess> {
+    if (role === 'user') {
+      throw new ValidationError('The user role cannot be revoked');
+    }
+    if (role === 'admin' && actorId === uid) {
+      throw new ValidationError('Admins cannot revoke their own admin role');
+    }
+    return this.changeRoles(actorId, uid, role, 'revoke');
+  }
+
+  private async changeRoles(actorId: string, uid: string, role: Role, change: 'grant' | 'revoke'): Promise<UserAccess> {
+    // Read around the cache: a stale entry here would be written back as the new state
+    const claims = await this.store.getClaims(uid);
+    const before = combineAccess(claims, await this.store.getUserAccess(uid));
+
+    const roles = change === 'grant'
+      ? normalizeRoles([...before.roles, role])
+      : before.roles.filter(existing => existing !== role);
+
+    if (roles.length === before.roles.length) {
+      return before;
+    }
+
+    // Roles and tier always travel together in claims so resolve() can skip the lookup
+    const after: UserAccess = { roles, tier: before.tier };
+    await this.store.setClaims(uid, { ...claims, roles: after.roles, tier: after.tier });
+    await this.store.setUserAccess(uid, after);
+    if (change === 'revoke') {
+      await this.sessions.revokeTokens(uid);
+    }
+    await this.store.appendAudit({
+      action: `role.${change}`,
+      actorId,
+      targetId: uid,
+      details: { role, before: before.roles, after: after.roles },
+    });
+    await cacheService.invalidateTags([cacheTags.user(uid)]);
+
+    logger.info('User roles changed', { actorId, uid, role, change });
+    return after;
+  }
+}
+
+export const accessService = new AccessService(new FirebaseAccessStore());
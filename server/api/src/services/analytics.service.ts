@@ -0,0 +1,425 @@
+import type { firestore } from 'firebase-admin';
+import { config } from '../config';
+import { firebaseService } from './firebase.service';
+import { cacheService, cacheTags } from './cache.service';
+import { RETENTION_POINTS, TRAFFIC_SOURCES, TrafficSource, dayKey } from './viewCounter.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type EngagementMetric = 'likes' | 'comments' | 'danmu';
+
+// Collections the rollup counts per video and day. Hidden comments and danmu
+// are only visible to their author, so they don't count as engagement.
+const ENGAGEMENT_SOURCES: Array<{ metric: EngagementMetric; collection: string; skipHidden: boolean }> = [
+  { metric: 'likes', collection: 'likes', skipHidden: false },
+  { metric: 'comments', collection: 'comments', skipHidden: true },
+  { metric: 'danmu', collection: 'danmu', skipHidden: true },
+];
+
+// One videoStats document: view counters come from the view flush, engagement
+// counts from the rollup
+export interface DailyVideoStats {
+  videoId: string;
+  date: string;
+  views: number;
+  uniqueViewers: number;
+  watchSeconds: number;
+  completions: number;
+  likes: number;
+  comments: number;
+  danmu: number;
+  retention: number[];
+  sources: Partial<Record<TrafficSource, number>>;
+}
+
+export interface DailyFollowerGrowth {
+  date: string;
+  newFollowers: number;
+}
+
+export interface AnalyticsStore {
+  // Events per video created in [start, end)
+  countEngagement(collection: string, skipHidden: boolean, start: Date, end: Date): Promise<Map<string, number>>;
+  // New follows per followed creator in [start, end)
+  countNewFollowers(start: Date, end: Date): Promise<Map<string, number>>;
+  // Both replace the day's counts: rows from an earlier run that are missing
+  // from `counts` are set to zero
+  saveEngagement(day: string, counts: Map<string, Record<EngagementMetric, number>>, at: Date): Promise<void>;
+  saveFollowerGrowth(day: string, counts: Map<string, number>, at: Date): Promise<void>;
+  getVideoStats(videoId: string, from: string, to: string): Promise<DailyVideoStats[]>;
+  getCreatorVideoStats(creatorId: string, from: string, to: string): Promise<DailyVideoStats[]>;
+  getFollowerGrowth(creatorId: string, from: string, to: string): Promise<DailyFollowerGrowth[]>;
+}
+
+// Older documents, and days with engagement but no views, lack some fields
+export const toDailyStats = (data: Record<string, any>): DailyVideoStats => {
+  const retention = data['retention'] || {};
+  return {
+    videoId: data['videoId'],
+    date: data['date'],
+    views: Number(data['views']) || 0,
+    uniqueViewers: Number(data['uniqueViewers']) || 0,
+    watchSeconds: Number(data['watchSeconds']) || 0,
+    completions: Number(data['completions']) || 0,
+    likes: Number(data['likes']) || 0,
+    comments: Number(data['comments']) || 0,
+    danmu: Number(data['danmu']) || 0,
+    retention: Array.from({ length: RETENTION_POINTS }, (_, index) => Number(retention[`r${index}`]) || 0),
+    sources: { ...(data['sources'] || {}) },
+  };
+};
+
+// Rollup sources and reports are read in pages of this size, to the end
+const PAGE_SIZE = 1000;
+const BATCH_SIZE = 500;
+
+export class FirestoreAnalyticsStore implements AnalyticsStore {
+  private get firestore() {
+    return firebaseService.getFirestore();
+  }
+
+  private async forEachDoc(
+    query: firestore.Query,
+    visit: (doc: firestore.QueryDocumentSnapshot) => void
+  ): Promise<void> {
+    let last: firestore.QueryDocumentSnapshot | undefined;
+    for (;;) {
+      const page = await (last ? query.startAfter(last) : query).limit(PAGE_SIZE).get();
+      page.docs.forEach(visit);
+      last = page.docs[page.size - 1];
+      if (page.size < PAGE_SIZE || !last) {
+        return;
+      }
+    }
+  }
+
+  private async commitSets(writes: Array<{ ref: firestore.DocumentReference; data: Record<string, unknown> }>): Promise<void> {
+    for (let i = 0; i < writes.length; i += BATCH_SIZE) {
+      const batch = this.firestore.batch();
+      writes.slice(i, i + BATCH_SIZE).forEach(({ ref, data }) => batch.set(ref, data, { merge: true }));
+      await batch.commit();
+    }
+  }
+
+  // Documents created in [start, end), oldest first
+  private createdBetween(collection: string, start: Date, end: Date): firestore.Query {
+    return this.firestore
+      .collection(collection)
+      .where('createdAt', '>=', start)
+      .where('createdAt', '<', end)
+      .orderBy('createdAt');
+  }
+
+  public async countEngagement(collection: string, skipHidden: boolean, start: Date, end: Date): Promise<Map<string, number>> {
+    const counts = new Map<string, number>();
+    await this.forEachDoc(this.createdBetween(collection, start, end).select('videoId', 'status'), doc => {
+      const videoId = doc.get('videoId');
+      if (videoId && !(skipHidden && doc.get('status') === 'hidden')) {
+        counts.set(videoId, (counts.get(videoId) || 0) + 1);
+      }
+    });
+    return counts;
+  }
+
+  public async countNewFollowers(start: Date, end: Date): Promise<Map<string, number>> {
+    const counts = new Map<string, number>();
+    await this.forEachDoc(this.createdBetween('follows', start, end).select('followingId'), doc => {
+      const creatorId = doc.get('followingId');
+      if (creatorId) {
+        counts.set(creatorId, (counts.get(creatorId) || 0) + 1);
+      }
+    });
+    return counts;
+  }
+
+  public async saveEngagement(day: string, counts: Map<string, Record<EngagementMetric, number>>, at: Date): Promise<void> {
+    // Videos whose likes, comments or danmu were all deleted since the last run
+    const stale: string[] = [];
+    await this.forEachDoc(
+      this.firestore.collection('videoStats').where('date', '==', day).select('videoId', 'likes', 'comments', 'danmu'),
+      doc => {
+        const videoId = doc.get('videoId');
+        const hadEngagement = ['likes', 'comments', 'danmu'].some(metric => Number(doc.get(metric)) > 0);
+        if (videoId && hadEngagement && !counts.has(videoId)) {
+          stale.push(videoId);
+        }
+      }
+    );
+
+    const zero: Record<EngagementMetric, number> = { likes: 0, comments: 0, danmu: 0 };
+    const videoIds = [...counts.keys(), ...stale];
+    if (videoIds.length === 0) {
+      return;
+    }
+
+    const videos = await this.firestore.getAll(...videoIds.map(id => this.firestore.collection('videos').doc(id)));
+    await this.commitSets(videos
+      .filter(doc => doc.exists)
+      .map(doc => ({
+        ref: this.firestore.collection('videoStats').doc(`${doc.id}_${day}`),
+        data: { videoId: doc.id, creatorId: doc.get('userId'), date: day, ...(counts.get(doc.id) ?? zero), rolledUpAt: at },
+      })));
+  }
+
+  public async saveFollowerGrowth(day: string, counts: Map<string, number>, at: Date): Promise<void> {
+    const stale: string[] = [];
+    await this.forEachDoc(
+      this.firestore.collection('creatorStats').where('date', '==', day).select('creatorId', 'newFollowers'),
+      doc => {
+        const creatorId = doc.get('creatorId');
+        if (creatorId && Number(doc.get('newFollowers')) > 0 && !counts.has(creatorId)) {
+          stale.push(creatorId);
+        }
+      }
+    );
+
+    await this.commitSets([...counts.entries(), ...stale.map((creatorId): [string, number] => [creatorId, 0])]
+      .map(([creatorId, newFollowers]) => ({
+        ref: this.firestore.collection('creatorStats').doc(`${creatorId}_${day}`),
+        data: { creatorId, date: day, newFollowers, rolledUpAt: at },
+      })));
+  }
+
+  public async getVideoStats(videoId: string, from: string, to: string): Promise<DailyVideoStats[]> {
+    const snapshot = await this.firestore
+      .collection('videoStats')
+      .where('videoId', '==', videoId)
+      .where('date', '>=', from)
+      .where('date', '<=', to)
+      .get();
+    return snapshot.docs.map(doc => toDailyStats(doc.data()));
+  }
+
+  public async getCreatorVideoStats(creatorId: string, from: string, to: string): Promise<DailyVideoStats[]> {
+    const rows: DailyVideoStats[] = [];
+    await this.forEachDoc(
+      this.firestore
+        .collection('videoStats')
+        .where('creatorId', '==', creatorId)
+        .where('date', '>=', from)
+        .where('date', '<=', to)
+        .orderBy('date'),
+      doc => rows.push(toDailyStats(doc.data()))
+    );
+    return rows;
+  }
+
+  public async getFollowerGrowth(creatorId: string, from: string, to: string): Promise<DailyFollowerGrowth[]> {
+    const snapshot = await this.firestore
+      .collection('creatorStats')
+      .where('creatorId', '==', creatorId)
+      .where('date', '>=', from)
+      .where('date', '<=', to)
+      .get();
+    return snapshot.docs.map(doc => ({ date: doc.get('date'), newFollowers: Number(doc.get('newFollowers')) || 0 }));
+  }
+}
+
+export interface AnalyticsDay {
+  date: string;
+  views: number;
+  uniqueViewers: number;
+  watchSeconds: number;
+  averageWatchSeconds: number;
+  completions: number;
+  likes: number;
+  comments: number;
+  danmu: number;
+  newFollowers?: number;
+}
+
+export interface AnalyticsReport {
+  range: { from: string; to: string; days: number };
+  totals: Omit<AnalyticsDay, 'date' | 'uniqueViewers'> & { completionRate: number };
+  series: AnalyticsDay[];
+  // Share of plays still watching at each tenth of the video
+  retention: Array<{ position: number; retained: number }>;
+  trafficSources: Array<{ source: TrafficSource; views: number; share: number }>;
+}
+
+export interface CreatorOverview extends AnalyticsReport {
+  topVideos: Array<{ videoId: string; views: number; watchSeconds: number; likes: number }>;
+}
+
+const round = (value: number, places: number = 2): number => {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+};
+
+const ratio = (part: number, whole: number): number => (whole > 0 ? round(part / whole, 4) : 0);
+
+// Oldest first, ending today (UTC)
+export const reportDays = (days: number, now: Date): string[] =>
+  Array.from({ length: days }, (_, index) => dayKey(new Date(now.getTime() - (days - 1 - index) * DAY_MS)));
+
+// Sums stats rows (one per video per day) into a gap-free daily report
+export const buildReport = (
+  days: string[],
+  rows: DailyVideoStats[],
+  followerGrowth?: DailyFollowerGrowth[]
+): AnalyticsReport => {
+  const byDay = new Map(days.map(date => [date, {
+    date, views: 0, uniqueViewers: 0, watchSeconds: 0, averageWatchSeconds: 0, completions: 0, likes: 0, comments: 0, danmu: 0,
+    ...(followerGrowth && { newFollowers: 0 }),
+  } as AnalyticsDay]));
+  const retention = new Array(RETENTION_POINTS).fill(0);
+  const sources = new Map<TrafficSource, number>();
+
+  rows.forEach(row => {
+    const day = byDay.get(row.date);
+    if (!day) {
+      return;
+    }
+    day.views += row.views;
+    day.uniqueViewers += row.uniqueViewers;
+    day.watchSeconds += row.watchSeconds;
+    day.completions += row.completions;
+    day.likes += row.likes;
+    day.comments += row.comments;
+    day.danmu += row.danmu;
+    row.retention.forEach((count, index) => {
+      retention[index] += count;
+    });
+    Object.entries(row.sources).forEach(([source, count]) => {
+      sources.set(source as TrafficSource, (sources.get(source as TrafficSource) || 0) + (count || 0));
+    });
+  });
+
+  followerGrowth?.forEach(({ date, newFollowers }) => {
+    const day = byDay.get(date);
+    if (day) {
+      day.newFollowers = newFollowers;
+    }
+  });
+
+  const series = [...byDay.values()].map(day => ({
+    ...day,
+    watchSeconds: round(day.watchSeconds, 1),
+    averageWatchSeconds: day.views > 0 ? round(day.watchSeconds / day.views, 1) : 0,
+  }));
+
+  const sum = (field: keyof AnalyticsDay) => series.reduce((total, day) => total + (Number(day[field]) || 0), 0);
+  const views = sum('views');
+  const watchSeconds = round(sum('watchSeconds'), 1);
+  const sourceViews = [...sources.values()].reduce((total, count) => total + count, 0);
+
+  return {
+    range: { from: days[0]!, to: days[days.length - 1]!, days: days.length },
+    totals: {
+      views,
+      watchSeconds,
+      averageWatchSeconds: views > 0 ? round(watchSeconds / views, 1) : 0,
+      completions: sum('completions'),
+      completionRate: ratio(sum('completions'), retention[0]),
+      likes: sum('likes'),
+      comments: sum('comments'),
+      danmu: sum('danmu'),
+      ...(followerGrowth && { newFollowers: sum('newFollowers') }),
+    },
+    series,
+    retention: retention.map((count, index) => ({ position: index * 10, retained: ratio(count, retention[0]) })),
+    trafficSources: TRAFFIC_SOURCES
+      .filter(source => sources.has(source))
+      .map(source => ({ source, views: sources.get(source)!, share: ratio(sources.get(source)!, sourceViews) })),
+  };
+};
+
+const CSV_COLUMNS: Array<keyof AnalyticsDay> = [
+  'date', 'views', 'uniqueViewers', 'watchSeconds', 'averageWatchSeconds', 'completions', 'likes', 'comments', 'danmu',
+];
+
+// The daily series as CSV; every value is a number or a YYYY-MM-DD date, so nothing needs quoting
+export const reportToCsv = (report: AnalyticsReport): string => {
+  const columns = report.series.some(day => day.newFollowers !== undefined)
+    ? [...CSV_COLUMNS, 'newFollowers' as const]
+    : CSV_COLUMNS;
+
+  return [
+    columns.join(','),
+    ...report.series.map(day => columns.map(column => day[column] ?? 0).join(',')),
+  ].join('\n') + '\n';
+};
+
+export interface AnalyticsOptions {
+  rollupDays: number;
+  cacheTtl: number;
+}
+
+export class AnalyticsService {
+  constructor(
+    private readonly store: AnalyticsStore,
+    private readonly options: AnalyticsOptions = config.analytics
+  ) {}
+
+  // Recounts likes, comments, danmu and new follows for the most recent days.
+  // Each run rewrites those days in full, so late or repeated runs are harmless.
+  public async rollup(now: Date = new Date()): Promise<{ days: string[]; videos: number; creators: number }> {
+    const days: string[] = [];
+    let videos = 0;
+    let creators = 0;
+
+    for (let offset = 0; offset < this.options.rollupDays; offset++) {
+      const day = dayKey(new Date(now.getTime() - offset * DAY_MS));
+      const start = new Date(`${day}T00:00:00.000Z`);
+      const end = new Date(start.getTime() + DAY_MS);
+
+      const counts = new Map<string, Record<EngagementMetric, number>>();
+      for (const { metric, collection, skipHidden } of ENGAGEMENT_SOURCES) {
+        const perVideo = await this.store.countEngagement(collection, skipHidden, start, end);
+        perVideo.forEach((count, videoId) => {
+          const entry = counts.get(videoId) || { likes: 0, comments: 0, danmu: 0 };
+          entry[metric] = count;
+          counts.set(videoId, entry);
+        });
+      }
+
+      const followers = await this.store.countNewFollowers(start, end);
+      await this.store.saveEngagement(day, counts, now);
+      await this.store.saveFollowerGrowth(day, followers, now);
+
+      days.push(day);
+      videos += counts.size;
+      creators += followers.size;
+    }
+
+    return { days, videos, creators };
+  }
+
+  public async getVideoReport(videoId: string, days: number, now: Date = new Date()): Promise<AnalyticsReport> {
+    const range = reportDays(days, now);
+
+    return cacheService.getOrCompute(`analytics:video:${videoId}:${range[0]}:${days}`, this.options.cacheTtl, async () => {
+      const rows = await this.store.getVideoStats(videoId, range[0]!, range[range.length - 1]!);
+      return buildReport(range, rows);
+    }, { tags: [cacheTags.video(videoId)] });
+  }
+
+  public async getCreatorOverview(creatorId: string, days: number, now: Date = new Date()): Promise<CreatorOverview> {
+    const range = reportDays(days, now);
+    const from = range[0]!;
+    const to = range[range.length - 1]!;
+
+    return cacheService.getOrCompute(`analytics:creator:${creatorId}:${from}:${days}`, this.options.cacheTtl, async () => {
+      const [rows, followerGrowth] = await Promise.all([
+        this.store.getCreatorVideoStats(creatorId, from, to),
+        this.store.getFollowerGrowth(creatorId, from, to),
+      ]);
+
+      const perVideo = new Map<string, { videoId: string; views: number; watchSeconds: number; likes: number }>();
+      rows.forEach(row => {
+        const entry = perVideo.get(row.videoId) || { videoId: row.videoId, views: 0, watchSeconds: 0, likes: 0 };
+        entry.views += row.views;
+        entry.watchSeconds = round(entry.watchSeconds + row.watchSeconds, 1);
+        entry.likes += row.likes;
+        perVideo.set(row.videoId, entry);
+      });
+
+      return {
+        ...buildReport(range, rows, followerGrowth),
+        topVideos: [...perVideo.values()].sort((a, b) => b.views - a.views || b.likes - a.likes).slice(0, 5),
+      };
+    }, { tags: [cacheTags.user(creatorId)] });
+  }
+}
+
+export const analyticsService = new AnalyticsService(new FirestoreAnalyticsStore());
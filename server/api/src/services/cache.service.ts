@@ -3,10 +3,95 @@ import NodeCache from 'node-cache';
 import { config } from '../config';
 import { logger } from '../utils/logger';
 
+export interface CacheSetOptions {
+  // Invalidating any of these tags drops the entry
+  tags?: string[];
+}
+
+// Tag names shared by the code that caches an entry and the code that invalidates it
+export const cacheTags = {
+  video: (videoId: string) => `video:${videoId}`,
+  // Feeds, search results and other multi-video listings
+  videoLists: () => 'video-lists',
+  user: (uid: string) => `user:${uid}`,
+  userVideos: (uid: string) => `user-videos:${uid}`,
+  followers: (uid: string) => `followers:${uid}`,
+  following: (uid: string) => `following:${uid}`,
+  followingFeed: (uid: string) => `following-feed:${uid}`,
+  comments: (videoId: string) => `comments:${videoId}`,
+  replies: (commentId: string) => `replies:${commentId}`,
+  danmu: (videoId: string) => `danmu:${videoId}`,
+  // One fixed time bucket of a video's danmu, see danmuSegments
+  danmuSegment: (videoId: string, segment: number) => `danmu-segment:${videoId}:${segment}`,
+};
+
+export interface GetOrComputeOptions<T> {
+  // How long past `ttl` a stale value may still be served while it refreshes
+  staleTtl?: number;
+  // Tags for the stored entry; a function sees the freshly computed value
+  tags?: string[] | ((value: T) => string[]);
+  // Also coalesce recomputes across instances with a Redis lock
+  lock?: boolean;
+}
+
+interface CacheEnvelope<T> {
+  value: T;
+  freshUntil: number;
+}
+
+const TAG_KEY_PREFIX = 'tag:';
+const LOCK_KEY_PREFIX = 'lock:';
+const LOCK_POLL_MS = 50;
+
+// Only the holder that set the token may release the lock
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+// Stores the entry and records it in each tag set. Tag sets are sorted sets
+// scored by each member's expiry, so members that expired on their own are
+// trimmed on the next write instead of piling up in long-lived tags such as
+// video-lists. A tag set lives as long as its longest-lived member so it never
+// expires before the keys it points to.
+// ARGV: ttl seconds, value, current time in ms
+const SET_WITH_TAGS_SCRIPT = `
+local ttl = tonumber(ARGV[1])
+local now = tonumber(ARGV[3])
+redis.call('SETEX', KEYS[1], ttl, ARGV[2])
+for i = 2, #KEYS do
+  redis.call('ZREMRANGEBYSCORE', KEYS[i], '-inf', now)
+  redis.call('ZADD', KEYS[i], now + ttl * 1000, KEYS[1])
+  if redis.call('TTL', KEYS[i]) < ttl then
+    redis.call('EXPIRE', KEYS[i], ttl)
+  end
+end
+return 1
+`;
+
+// Deletes every member of the given tag sets, then the sets themselves
+const INVALIDATE_TAGS_SCRIPT = `
+local deleted = 0
+for i = 1, #KEYS do
+  for _, member in ipairs(redis.call('ZRANGE', KEYS[i], 0, -1)) do
+    deleted = deleted + redis.call('DEL', member)
+  end
+  redis.call('DEL', KEYS[i])
+end
+return deleted
+`;
+
 class CacheService {
   private static instance: CacheService;
   private redisClient: Redis | null = null;
   private memoryCache: NodeCache;
+  // Memory-mode equivalent of the Redis tag sets
+  private memoryTags = new Map<string, Set<string>>();
+  private memoryKeyTags = new Map<string, Set<string>>();
+  // Loads in progress in this process, so concurrent misses share one
+  private inflight = new Map<string, Promise<any>>();
   private isRedisConnected = false;  private constructor() {
     // Initialize in-memory cache as fallback
     this.memoryCache = new NodeCache({
@@ -15,6 +100,10 @@ class CacheService {
       useClones: false,
     });
 
+    // Keep the tag index in step when entries leave the memory cache
+    this.memoryCache.on('del', (key: string) => this.untagMemoryKey(key));
+    this.memoryCache.on('expired', (key: string) => this.untagMemoryKey(key));
+
     // Only try Redis if not using memory-only mode
     if (config.redis.url !== 'memory://localhost') {
       // Initialize Redis asynchronously (don't await in constructor)
@@ -118,25 +207,149 @@ class CacheService {
     }
   }
 
-  public async set(key: string, value: any, ttl?: number): Promise<boolean> {
+  public async set(key: string, value: any, ttl?: number, options: CacheSetOptions = {}): Promise<boolean> {
     try {
       const serializedValue = JSON.stringify(value);
-      const expiration = ttl || config.cache.ttl;
+      const expiration = Math.ceil(ttl || config.cache.ttl);
+      const tags = [...new Set(options.tags || [])];
 
       // Try Redis first if available
       if (this.redisClient && this.isRedisConnected) {
-        await this.redisClient.setex(key, expiration, serializedValue);
+        if (tags.length === 0) {
+          await this.redisClient.setex(key, expiration, serializedValue);
+        } else {
+          await this.redisClient.eval(
+            SET_WITH_TAGS_SCRIPT,
+            tags.length + 1,
+            key,
+            ...tags.map(tag => TAG_KEY_PREFIX + tag),
+            expiration,
+            serializedValue,
+            Date.now()
+          );
+        }
         return true;
       }
 
       // Fallback to memory cache
-      return this.memoryCache.set(key, value, expiration);
+      const stored = this.memoryCache.set(key, value, expiration);
+      if (stored) {
+        this.tagMemoryKey(key, tags);
+      }
+      return stored;
     } catch (error) {
       logger.error(`Cache set error for key: ${key}`, error);
       return false;
     }
   }
 
+  // Read-through cache: returns the cached value, or runs `loader` once per key
+  // no matter how many callers miss at the same time. With `staleTtl`, an
+  // expired value keeps being served while a single refresh runs behind it.
+  public async getOrCompute<T>(
+    key: string,
+    ttl: number,
+    loader: () => Promise<T>,
+    options: GetOrComputeOptions<T> = {}
+  ): Promise<T> {
+    const entry = await this.get<CacheEnvelope<T>>(key);
+
+    if (entry && typeof entry === 'object' && 'freshUntil' in entry) {
+      if (Date.now() < entry.freshUntil) {
+        return entry.value;
+      }
+
+      // Stale but still within staleTtl: answer now, refresh in the background
+      this.compute(key, ttl, loader, options).catch(error => {
+        logger.warn(`Background cache refresh failed for key: ${key}`, error);
+      });
+      return entry.value;
+    }
+
+    return this.compute(key, ttl, loader, options);
+  }
+
+  private compute<T>(key: string, ttl: number, loader: () => Promise<T>, options: GetOrComputeOptions<T>): Promise<T> {
+    const existing = this.inflight.get(key);
+    if (existing) {
+      return existing;
+    }
+
+    const run = async (): Promise<T> => {
+      if (options.lock && this.redisClient && this.isRedisConnected) {
+        return this.computeWithLock(key, ttl, loader, options);
+      }
+      return this.load(key, ttl, loader, options);
+    };
+
+    const promise = run().finally(() => this.inflight.delete(key));
+    this.inflight.set(key, promise);
+    return promise;
+  }
+
+  private async load<T>(key: string, ttl: number, loader: () => Promise<T>, options: GetOrComputeOptions<T>): Promise<T> {
+    const value = await loader();
+    const staleTtl = options.staleTtl || 0;
+    const tags = typeof options.tags === 'function' ? options.tags(value) : options.tags;
+
+    if (value !== undefined) {
+      const envelope: CacheEnvelope<T> = { value, freshUntil: Date.now() + ttl * 1000 };
+      await this.set(key, envelope, ttl + staleTtl, tags ? { tags } : {});
+    }
+
+    return value;
+  }
+
+  private async computeWithLock<T>(key: string, ttl: number, loader: () => Promise<T>, options: GetOrComputeOptions<T>): Promise<T> {
+    const lockKey = LOCK_KEY_PREFIX + key;
+    const token = `${process.pid}:${Math.random().toString(36).slice(2)}`;
+    let acquired = false;
+
+    try {
+      acquired = (await this.redisClient!.set(lockKey, token, 'PX', config.cache.lockTtlMs, 'NX')) === 'OK';
+    } catch (error) {
+      logger.warn(`Cache lock error for key: ${key}`, error);
+    }
+
+    if (acquired) {
+      try {
+        return await this.load(key, ttl, loader, options);
+      } finally {
+        await this.redisClient?.eval(RELEASE_LOCK_SCRIPT, 1, lockKey, token).catch(() => undefined);
+      }
+    }
+
+    // Another instance is computing: wait for its result rather than duplicate the work
+    const deadline = Date.now() + config.cache.lockWaitMs;
+    while (Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, LOCK_POLL_MS));
+      const entry = await this.get<CacheEnvelope<T>>(key);
+      if (entry && Date.now() < entry.freshUntil) {
+        return entry.value;
+      }
+    }
+
+    // The holder is slow or gone; compute locally rather than fail the request
+    return this.load(key, ttl, loader, options);
+  }
+
+  // Claims `name` across instances for ttlMs without releasing it early, so
+  // the holder's work happens at most once per ttl cluster-wide. Without Redis
+  // there is nothing to coordinate with and the claim always succeeds.
+  public async acquireLease(name: string, ttlMs: number): Promise<boolean> {
+    if (!this.redisClient || !this.isRedisConnected) {
+      return true;
+    }
+    try {
+      const token = `${process.pid}:${Date.now()}`;
+      return (await this.redisClient.set(`${LOCK_KEY_PREFIX}lease:${name}`, token, 'PX', ttlMs, 'NX')) === 'OK';
+    } catch (error) {
+      // Better to run twice than not at all while Redis is flaky
+      logger.warn(`Cache lease error for: ${name}`, error);
+      return true;
+    }
+  }
+
   public async del(key: string): Promise<boolean> {
     try {
       // Try Redis first if available
@@ -153,6 +366,38 @@ class CacheService {
     }
   }
 
+  // Drops every entry that was set with any of the given tags
+  public async invalidateTags(tags: string[]): Promise<number> {
+    const unique = [...new Set(tags)];
+    if (unique.length === 0) {
+      return 0;
+    }
+
+    // Entries written while Redis was down live in memory, so clear both
+    let deleted = 0;
+    unique.forEach(tag => {
+      const keys = this.memoryTags.get(tag);
+      if (keys) {
+        deleted += this.memoryCache.del([...keys]);
+        this.memoryTags.delete(tag);
+      }
+    });
+
+    try {
+      if (this.redisClient && this.isRedisConnected) {
+        deleted += Number(await this.redisClient.eval(
+          INVALIDATE_TAGS_SCRIPT,
+          unique.length,
+          ...unique.map(tag => TAG_KEY_PREFIX + tag)
+        ));
+      }
+    } catch (error) {
+      logger.error(`Cache tag invalidation error for tags: ${unique.join(', ')}`, error);
+    }
+
+    return deleted;
+  }
+
   public async exists(key: string): Promise<boolean> {
     try {
       // Try Redis first if available
@@ -178,6 +423,8 @@ class CacheService {
 
       // Clear memory cache
       this.memoryCache.flushAll();
+      this.memoryTags.clear();
+      this.memoryKeyTags.clear();
       return true;
     } catch (error) {
       logger.error('Cache flush error', error);
@@ -209,6 +456,44 @@ class CacheService {
     return stats;
   }
 
+  // For callers that need atomic multi-command scripts of their own; null while
+  // Redis is unavailable so they can fall back to process-local state
+  public getRedisClient(): Redis | null {
+    return this.redisClient && this.isRedisConnected ? this.redisClient : null;
+  }
+
+  private tagMemoryKey(key: string, tags: string[]): void {
+    // A re-set replaces the entry's tags rather than adding to them
+    this.untagMemoryKey(key);
+    if (tags.length === 0) {
+      return;
+    }
+
+    this.memoryKeyTags.set(key, new Set(tags));
+    tags.forEach(tag => {
+      if (!this.memoryTags.has(tag)) {
+        this.memoryTags.set(tag, new Set());
+      }
+      this.memoryTags.get(tag)!.add(key);
+    });
+  }
+
+  private untagMemoryKey(key: string): void {
+    const tags = this.memoryKeyTags.get(key);
+    if (!tags) {
+      return;
+    }
+
+    tags.forEach(tag => {
+      const keys = this.memoryTags.get(tag);
+      keys?.delete(key);
+      if (keys && keys.size === 0) {
+        this.memoryTags.delete(tag);
+      }
+    });
+    this.memoryKeyTags.delete(key);
+  }
+
   public async disconnect(): Promise<void> {
     if (this.redisClient) {
       await this.redisClient.quit();
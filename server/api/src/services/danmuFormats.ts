@@ -0,0 +1,403 @@
+import { createHash } from 'crypto';
+import { toDate } from './ranking.service';
+import { ValidationError } from '../utils/errors';
+
+// Conversions between stored danmu and the formats other players and tools use.
+// Only the fields danmu share everywhere survive a round trip; anything the
+// target format can't express falls back to the createDanmu defaults.
+
+export const DANMU_FORMATS = ['bilibili-xml', 'ass', 'json'] as const;
+export type DanmuFormat = typeof DANMU_FORMATS[number];
+
+export interface PortableDanmu {
+  content: string;
+  timestamp: number;
+  color: string;
+  size: string;
+  position: string;
+  speed: number;
+}
+
+export interface ExportableDanmu extends PortableDanmu {
+  id: string;
+  userId: string;
+  createdAt: unknown;
+}
+
+export interface SerializedDanmu {
+  body: string;
+  contentType: string;
+  extension: string;
+}
+
+const DEFAULT_COLOR = '#FFFFFF';
+
+const round = (value: number, places: number): number => {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+};
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+// Bilibili XML: <d p="time,mode,fontsize,color,sendtime,pool,userhash,dmid">text</d>
+const BILIBILI_MODES: Record<string, number> = { scroll: 1, bottom: 4, top: 5 };
+const BILIBILI_FONT_SIZES: Record<string, number> = { small: 18, medium: 25, large: 36 };
+
+const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// fromCodePoint throws a RangeError past U+10FFFF; surrogates are not characters either
+const fromCharReference = (reference: string, code: number): string => {
+  if (!Number.isInteger(code) || code > 0x10FFFF || (code >= 0xD800 && code <= 0xDFFF)) {
+    throw new ValidationError(`Invalid character reference ${reference}`);
+  }
+  return String.fromCodePoint(code);
+};
+
+const unescapeXml = (text: string): string =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (reference, code) => fromCharReference(reference, Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (reference, code) => fromCharReference(reference, parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+
+// Bilibili stores a short hash of the sender rather than an account id
+const senderHash = (userId: string): string =>
+  createHash('sha1').update(userId).digest('hex').slice(0, 8);
+
+const toBilibiliXml = (danmu: ExportableDanmu[], videoId: string): string => {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<i>',
+    `  <chatid>${escapeXml(videoId)}</chatid>`,
+    `  <maxlimit>${danmu.length}</maxlimit>`,
+  ];
+
+  danmu.forEach(item => {
+    const p = [
+      round(item.timestamp, 5),
+      BILIBILI_MODES[item.position] ?? 1,
+      BILIBILI_FONT_SIZES[item.size] ?? 25,
+      /^#[0-9a-f]{6}$/i.test(item.color) ? parseInt(item.color.slice(1), 16) : 0xFFFFFF,
+      Math.floor(toDate(item.createdAt).getTime() / 1000),
+      0,
+      senderHash(item.userId),
+      item.id,
+    ].join(',');
+    lines.push(`  <d p="${escapeXml(p)}">${escapeXml(item.content)}</d>`);
+  });
+
+  lines.push('</i>', '');
+  return lines.join('\n');
+};
+
+const fromBilibiliXml = (xml: string): PortableDanmu[] => {
+  const items: PortableDanmu[] = [];
+  const pattern = /<d\s+p="([^"]*)"\s*>([\s\S]*?)<\/d>/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(xml)) !== null) {
+    const [time, mode, fontSize, color] = unescapeXml(match[1]!).split(',');
+    const modeNumber = Number(mode);
+    // 7 and 8 are positioned/scripted danmu with no equivalent here
+    if (modeNumber === 7 || modeNumber === 8) {
+      continue;
+    }
+
+    const size = Number(fontSize);
+    items.push({
+      content: unescapeXml(match[2]!).trim(),
+      timestamp: round(Number(time), 3),
+      color: `#${(Number(color) & 0xFFFFFF).toString(16).padStart(6, '0').toUpperCase()}`,
+      size: size <= 20 ? 'small' : size <= 30 ? 'medium' : 'large',
+      position: modeNumber === 4 ? 'bottom' : modeNumber === 5 ? 'top' : 'scroll',
+      speed: 1,
+    });
+  }
+
+  if (items.length === 0 && !/<i[\s>]/.test(xml)) {
+    throw new ValidationError('Not a Bilibili danmu XML document');
+  }
+  return items;
+};
+
+// ASS subtitles: each danmu becomes one Dialogue line; scrolling ones move right to left.
+const ASS_WIDTH = 1920;
+const ASS_HEIGHT = 1080;
+const ASS_FONT_SIZES: Record<string, number> = { small: 36, medium: 48, large: 64 };
+// Seconds a speed-1 danmu takes to cross the screen, and how long fixed ones stay
+const ASS_SCROLL_SECONDS = 8;
+const ASS_FIXED_SECONDS = 4;
+const ASS_LANE_GAP = 12;
+
+const assTime = (seconds: number): string => {
+  const centiseconds = Math.max(0, Math.round(seconds * 100));
+  const h = Math.floor(centiseconds / 360000);
+  const m = Math.floor(centiseconds / 6000) % 60;
+  const s = Math.floor(centiseconds / 100) % 60;
+  const cs = centiseconds % 100;
+  return `${h}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}.${String(cs).padStart(2, '0')}`;
+};
+
+const parseAssTime = (value: string): number => {
+  const match = /^(\d+):(\d{1,2}):(\d{1,2})(?:\.(\d{1,3}))?$/.exec(value.trim());
+  if (!match) {
+    return NaN;
+  }
+  const fraction = match[4] ? Number(`0.${match[4]}`) : 0;
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]) + fraction;
+};
+
+// ASS colours are &HBBGGRR
+const toAssColor = (hex: string): string => {
+  const rgb = /^#?([0-9a-f]{6})$/i.exec(hex)?.[1] || 'FFFFFF';
+  return `&H${rgb.slice(4, 6)}${rgb.slice(2, 4)}${rgb.slice(0, 2)}&`.toUpperCase();
+};
+
+const fromAssColor = (value: string): string => {
+  const bgr = value.replace(/^&H/i, '').replace(/&$/, '').padStart(6, '0').slice(-6);
+  return `#${bgr.slice(4, 6)}${bgr.slice(2, 4)}${bgr.slice(0, 2)}`.toUpperCase();
+};
+
+// Override blocks and line breaks would change how the text renders
+const escapeAssText = (text: string): string =>
+  text.replace(/\r?\n/g, ' ').replace(/\\/g, '＼').replace(/{/g, '｛').replace(/}/g, '｝');
+
+// Greedy lane assignment so danmu shown at the same time don't overlap
+class LaneAllocator {
+  private freeAt: number[];
+
+  constructor(lanes: number) {
+    this.freeAt = new Array(Math.max(1, lanes)).fill(-Infinity);
+  }
+
+  public take(start: number, busyUntil: number): number {
+    let lane = this.freeAt.findIndex(free => free <= start);
+    if (lane === -1) {
+      // Everything is busy: reuse whichever lane clears first
+      lane = this.freeAt.indexOf(Math.min(...this.freeAt));
+    }
+    this.freeAt[lane] = busyUntil;
+    return lane;
+  }
+}
+
+const toAss = (danmu: ExportableDanmu[], title: string): string => {
+  const laneHeight = ASS_FONT_SIZES['medium']! + ASS_LANE_GAP;
+  const lanes = Math.floor(ASS_HEIGHT / laneHeight);
+  const scrollLanes = new LaneAllocator(lanes);
+  const topLanes = new LaneAllocator(Math.floor(lanes / 2));
+  const bottomLanes = new LaneAllocator(Math.floor(lanes / 2));
+
+  const events = [...danmu]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map(item => {
+      const fontSize = ASS_FONT_SIZES[item.size] ?? ASS_FONT_SIZES['medium']!;
+      const text = escapeAssText(item.content);
+      const start = item.timestamp;
+      const overrides = [`\\c${toAssColor(item.color)}`, `\\fs${fontSize}`];
+      let end: number;
+
+      if (item.position === 'top' || item.position === 'bottom') {
+        end = start + ASS_FIXED_SECONDS;
+        const lane = (item.position === 'top' ? topLanes : bottomLanes).take(start, end);
+        const y = item.position === 'top'
+          ? lane * laneHeight
+          : ASS_HEIGHT - lane * laneHeight;
+        overrides.unshift(item.position === 'top' ? '\\an8' : '\\an2', `\\pos(${ASS_WIDTH / 2},${y})`);
+      } else {
+        const duration = ASS_SCROLL_SECONDS / clamp(item.speed || 1, 0.25, 4);
+        end = start + duration;
+        // Rough width, enough to keep the next danmu in this lane from catching up
+        const width = text.length * fontSize;
+        const entered = start + duration * (width / (ASS_WIDTH + width));
+        const y = scrollLanes.take(start, entered) * laneHeight;
+        overrides.unshift(`\\move(${ASS_WIDTH},${y},${-width},${y})`);
+      }
+
+      return `Dialogue: 0,${assTime(start)},${assTime(end)},Danmu,,0,0,0,,{${overrides.join('')}}${text}`;
+    });
+
+  return [
+    '[Script Info]',
+    `Title: ${escapeAssText(title)}`,
+    'ScriptType: v4.00+',
+    `PlayResX: ${ASS_WIDTH}`,
+    `PlayResY: ${ASS_HEIGHT}`,
+    'WrapStyle: 2',
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    `Style: Danmu,Sans,${ASS_FONT_SIZES['medium']},&H00FFFFFF,&H00FFFFFF,&H00000000,&H00000000,1,0,0,0,100,100,0,0,1,2,0,7,0,0,0,1`,
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+    ...events,
+    '',
+  ].join('\n');
+};
+
+const fromAss = (ass: string): PortableDanmu[] => {
+  const lines = ass.split(/\r?\n/);
+  const resY = Number(/^PlayResY:\s*(\d+)/m.exec(ass)?.[1]) || ASS_HEIGHT;
+  let columns: string[] | null = null;
+  let inEvents = false;
+  const items: PortableDanmu[] = [];
+
+  lines.forEach(line => {
+    const trimmed = line.trim();
+    if (/^\[.*\]$/.test(trimmed)) {
+      inEvents = trimmed.toLowerCase() === '[events]';
+      return;
+    }
+    if (!inEvents) {
+      return;
+    }
+    if (trimmed.startsWith('Format:')) {
+      columns = trimmed.slice('Format:'.length).split(',').map(column => column.trim().toLowerCase());
+      return;
+    }
+    if (!trimmed.startsWith('Dialogue:') || !columns) {
+      return;
+    }
+
+    // Text is the last column and may itself contain commas
+    const values = trimmed.slice('Dialogue:'.length).split(',');
+    const fields = values.slice(0, columns.length - 1).map(value => value.trim());
+    fields.push(values.slice(columns.length - 1).join(','));
+    const field = (name: string) => fields[columns!.indexOf(name)] ?? '';
+
+    const start = parseAssTime(field('start'));
+    const end = parseAssTime(field('end'));
+    const raw = field('text');
+    const overrides = (raw.match(/{[^}]*}/g) || []).join('');
+    const content = raw.replace(/{[^}]*}/g, '').replace(/\\[Nn]/g, ' ').replace(/\\h/g, ' ').trim();
+
+    if (!Number.isFinite(start) || content.length === 0) {
+      return;
+    }
+
+    let position = 'bottom';
+    if (/\\move\(/.test(overrides)) {
+      position = 'scroll';
+    } else if (/\\an[789]/.test(overrides)) {
+      position = 'top';
+    } else {
+      const y = Number(/\\pos\(\s*[-\d.]+\s*,\s*([-\d.]+)\s*\)/.exec(overrides)?.[1]);
+      if (Number.isFinite(y) && y < resY / 2) {
+        position = 'top';
+      }
+    }
+
+    const color = /\\1?c(&H[0-9a-f]{1,8}&?)/i.exec(overrides)?.[1];
+    const fontSize = Number(/\\fs([\d.]+)/.exec(overrides)?.[1]) * (ASS_HEIGHT / resY);
+    const duration = end - start;
+
+    items.push({
+      content,
+      timestamp: round(start, 3),
+      color: color ? fromAssColor(color) : DEFAULT_COLOR,
+      size: !Number.isFinite(fontSize) ? 'medium' : fontSize < 42 ? 'small' : fontSize < 56 ? 'medium' : 'large',
+      position,
+      speed: position === 'scroll' && duration > 0 ? round(clamp(ASS_SCROLL_SECONDS / duration, 0.25, 4), 2) : 1,
+    });
+  });
+
+  if (!columns) {
+    throw new ValidationError('Not an ASS subtitle file with an [Events] section');
+  }
+  return items;
+};
+
+const toJson = (danmu: ExportableDanmu[], videoId: string): string =>
+  JSON.stringify({
+    format: 'danmu',
+    version: 1,
+    videoId,
+    danmu: danmu.map(item => ({
+      content: item.content,
+      timestamp: item.timestamp,
+      color: item.color,
+      size: item.size,
+      position: item.position,
+      speed: item.speed,
+      createdAt: toDate(item.createdAt).toISOString(),
+    })),
+  }, null, 2);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Missing fields take the createDanmu default; a field of the wrong type becomes
+// a value the import validators reject rather than being coerced into a valid one
+const stringField = (value: unknown, fallback: string): string =>
+  value === undefined || value === null ? fallback : typeof value === 'string' ? value : '';
+
+const numberField = (value: unknown): number =>
+  typeof value === 'number' ? value : typeof value === 'string' ? Number(value) : NaN;
+
+// Accepts our own export or a bare array; fields are checked by the import validators
+const fromJson = (data: unknown): PortableDanmu[] => {
+  let parsed: unknown = data;
+  if (typeof data === 'string') {
+    try {
+      parsed = JSON.parse(data);
+    } catch {
+      throw new ValidationError('Danmu JSON could not be parsed');
+    }
+  }
+
+  const list = Array.isArray(parsed) ? parsed : isRecord(parsed) ? parsed['danmu'] : undefined;
+  if (!Array.isArray(list)) {
+    throw new ValidationError('Danmu JSON must be an array or an object with a danmu array');
+  }
+
+  return list.map((item: unknown) => {
+    const fields = isRecord(item) ? item : {};
+    return {
+      content: stringField(fields['content'], '').trim(),
+      timestamp: numberField(fields['timestamp']),
+      color: stringField(fields['color'], DEFAULT_COLOR),
+      size: stringField(fields['size'], 'medium'),
+      position: stringField(fields['position'], 'scroll'),
+      speed: fields['speed'] === undefined ? 1 : numberField(fields['speed']),
+    };
+  });
+};
+
+export const serializeDanmu = (
+  format: DanmuFormat,
+  danmu: ExportableDanmu[],
+  meta: { videoId: string; title: string }
+): SerializedDanmu => {
+  switch (format) {
+    case 'bilibili-xml':
+      return { body: toBilibiliXml(danmu, meta.videoId), contentType: 'application/xml; charset=utf-8', extension: 'xml' };
+    case 'ass':
+      return { body: toAss(danmu, meta.title), contentType: 'text/x-ssa; charset=utf-8', extension: 'ass' };
+    case 'json':
+      return { body: toJson(danmu, meta.videoId), contentType: 'application/json; charset=utf-8', extension: 'json' };
+  }
+};
+
+export const parseDanmu = (format: DanmuFormat, data: unknown): PortableDanmu[] => {
+  if (format === 'json') {
+    return fromJson(data);
+  }
+  if (typeof data !== 'string') {
+    throw new ValidationError(`${format} imports must send the file contents as a string`);
+  }
+  return format === 'ass' ? fromAss(data) : fromBilibiliXml(data);
+};
+
+export const isDanmuFormat = (value: unknown): value is DanmuFormat =>
+  typeof value === 'string' && (DANMU_FORMATS as readonly string[]).includes(value);
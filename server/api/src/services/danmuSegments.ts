@@ -0,0 +1,41 @@
+import { createHash } from 'crypto';
+import { toDate } from './ranking.service';
+
+// Danmu is served in fixed-length time buckets so every viewer of a video asks
+// for the same few cache keys, and players can prefetch the next bucket.
+
+export const segmentIndexFor = (timestamp: number, segmentSeconds: number): number =>
+  Math.max(0, Math.floor(timestamp / segmentSeconds));
+
+// Half-open: [start, end)
+export const segmentBounds = (segment: number, segmentSeconds: number): { start: number; end: number } => ({
+  start: segment * segmentSeconds,
+  end: (segment + 1) * segmentSeconds,
+});
+
+export const segmentCount = (durationSeconds: number, segmentSeconds: number): number =>
+  Math.max(1, Math.ceil(durationSeconds / segmentSeconds));
+
+export interface RankableDanmu {
+  timestamp: number;
+  likeCount?: number;
+  createdAt?: unknown;
+}
+
+// When a segment overflows, keep the most-liked danmu, newest first among
+// equals, then restore playback order
+export const capSegment = <T extends RankableDanmu>(items: T[], maxItems: number): T[] => {
+  if (items.length <= maxItems) {
+    return [...items].sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  const createdAt = (item: T) => toDate(item.createdAt).getTime();
+
+  return [...items]
+    .sort((a, b) => (b.likeCount ?? 0) - (a.likeCount ?? 0) || createdAt(b) - createdAt(a))
+    .slice(0, maxItems)
+    .sort((a, b) => a.timestamp - b.timestamp);
+};
+
+export const segmentEtag = (payload: unknown): string =>
+  `"${createHash('sha1').update(JSON.stringify(payload)).digest('base64url')}"`;
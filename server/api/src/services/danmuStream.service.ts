@@ -0,0 +1,191 @@
+import { EventEmitter } from 'events';
+import type Redis from 'ioredis';
+import { cacheService } from './cache.service';
+import { logger } from '../utils/logger';
+
+export type DanmuStreamEventType = 'created' | 'deleted' | 'hidden';
+
+export interface StreamedDanmu {
+  id: string;
+  content: string;
+  timestamp: number;
+  color: string;
+  size: string;
+  position: string;
+  speed: number;
+  createdAt: Date | string;
+  user: Record<string, any>;
+}
+
+export interface DanmuStreamEvent {
+  type: DanmuStreamEventType;
+  videoId: string;
+  danmuId: string;
+  // Only on 'created'; removals carry just the id
+  danmu?: StreamedDanmu;
+}
+
+export interface DanmuStreamFilter {
+  minSize?: DanmuSize;
+  // Lowercased; a created danmu containing any of them is not delivered
+  blockedKeywords?: string[];
+}
+
+export const DANMU_SIZES = ['small', 'medium', 'large'] as const;
+export type DanmuSize = typeof DANMU_SIZES[number];
+
+// Removals always pass so clients can clear anything they already rendered
+export const matchesFilter = (event: DanmuStreamEvent, filter: DanmuStreamFilter): boolean => {
+  if (event.type !== 'created' || !event.danmu) {
+    return true;
+  }
+
+  if (filter.minSize) {
+    const size = DANMU_SIZES.indexOf(event.danmu.size as DanmuSize);
+    if (size !== -1 && size < DANMU_SIZES.indexOf(filter.minSize)) {
+      return false;
+    }
+  }
+
+  if (filter.blockedKeywords && filter.blockedKeywords.length > 0) {
+    const content = event.danmu.content.toLowerCase();
+    if (filter.blockedKeywords.some(keyword => content.includes(keyword))) {
+      return false;
+    }
+  }
+
+  return true;
+};
+
+export const parseStreamFilter = (query: { minSize?: unknown; blocked?: unknown }): DanmuStreamFilter => {
+  const filter: DanmuStreamFilter = {};
+  if (typeof query.minSize === 'string' && (DANMU_SIZES as readonly string[]).includes(query.minSize)) {
+    filter.minSize = query.minSize as DanmuSize;
+  }
+  if (typeof query.blocked === 'string') {
+    const keywords = query.blocked
+      .split(',')
+      .map(keyword => keyword.trim().toLowerCase())
+      .filter(keyword => keyword.length > 0);
+    if (keywords.length > 0) {
+      filter.blockedKeywords = keywords;
+    }
+  }
+  return filter;
+};
+
+const channelFor = (videoId: string): string => `danmu:stream:${videoId}`;
+const CHANNEL_PREFIX = 'danmu:stream:';
+
+// Fans danmu changes out to every open stream. With Redis up, events go through
+// pub/sub so viewers connected to other instances see them too; each instance
+// only subscribes to the videos it has viewers for. Without Redis, delivery
+// stays in-process.
+export class DanmuStreamService {
+  private local = new EventEmitter();
+  private subscriber: Redis | null = null;
+  // Channel subscriptions by video, settled once Redis has confirmed them
+  private channels = new Map<string, Promise<void>>();
+
+  constructor(private readonly redis: () => Redis | null = () => cacheService.getRedisClient()) {
+    // One listener per open connection; thousands per popular video is expected
+    this.local.setMaxListeners(0);
+  }
+
+  public async publish(event: DanmuStreamEvent): Promise<void> {
+    const redis = this.redis();
+    if (redis) {
+      try {
+        await redis.publish(channelFor(event.videoId), JSON.stringify(event));
+        // Our own subscriber hears it back; without one, deliver here directly
+        if (this.subscriber) {
+          return;
+        }
+      } catch (error) {
+        logger.warn('Failed to publish danmu event, delivering locally only', { videoId: event.videoId, error });
+      }
+    }
+    this.local.emit(event.videoId, event);
+  }
+
+  // Resolves once the video's channel is live, so anything published after that
+  // reaches the listener. Returns the unsubscribe function.
+  public async subscribe(videoId: string, listener: (event: DanmuStreamEvent) => void): Promise<() => void> {
+    this.local.on(videoId, listener);
+
+    let ready = this.channels.get(videoId);
+    if (!ready) {
+      ready = this.subscribeChannel(videoId);
+      this.channels.set(videoId, ready);
+    }
+    await ready;
+
+    return () => {
+      this.local.off(videoId, listener);
+      if (this.local.listenerCount(videoId) === 0) {
+        this.channels.delete(videoId);
+        void this.subscriber?.unsubscribe(channelFor(videoId)).catch(() => undefined);
+      }
+    };
+  }
+
+  public connectionCount(videoId: string): number {
+    return this.local.listenerCount(videoId);
+  }
+
+  public async stop(): Promise<void> {
+    this.local.removeAllListeners();
+    this.channels.clear();
+    const subscriber = this.subscriber;
+    this.subscriber = null;
+    await subscriber?.quit().catch(() => undefined);
+  }
+
+  private async subscribeChannel(videoId: string): Promise<void> {
+    const subscriber = this.getSubscriber();
+    if (!subscriber) {
+      return;
+    }
+
+    try {
+      await subscriber.subscribe(channelFor(videoId));
+    } catch (error) {
+      // Let the next viewer try again
+      this.channels.delete(videoId);
+      logger.warn('Failed to subscribe to danmu channel', { videoId, error });
+    }
+  }
+
+  // A connection in subscriber mode can't run other commands, so it gets its own
+  private getSubscriber(): Redis | null {
+    if (this.subscriber) {
+      return this.subscriber;
+    }
+
+    const redis = this.redis();
+    if (!redis) {
+      return null;
+    }
+
+    const subscriber = redis.duplicate();
+    subscriber.on('message', (channel: string, message: string) => {
+      if (!channel.startsWith(CHANNEL_PREFIX)) {
+        return;
+      }
+      try {
+        const event = JSON.parse(message) as DanmuStreamEvent;
+        this.local.emit(event.videoId, event);
+      } catch (error) {
+        logger.warn('Dropping malformed danmu event', { channel, error });
+      }
+    });
+    subscriber.on('error', (error) => {
+      logger.warn('Danmu subscriber error', error);
+    });
+
+    this.subscriber = subscriber;
+    return subscriber;
+  }
+}
+
+export const danmuStreamService = new DanmuStreamService();
@@ -0,0 +1,164 @@
+import { createHash } from 'crypto';
+import { firebaseService, FieldValue } from './firebase.service';
+import { toDate } from './ranking.service';
+import { NotFoundError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+export const DEVICE_PLATFORMS = ['ios', 'android', 'web'] as const;
+export type DevicePlatform = typeof DEVICE_PLATFORMS[number];
+
+// Oldest devices are dropped past this, so forgotten installs don't pile up
+export const MAX_DEVICES_PER_USER = 10;
+
+export interface DeviceRegistration {
+  token: string;
+  // 'unknown' only for tokens carried over from the legacy deviceToken field
+  platform: DevicePlatform | 'unknown';
+  appVersion?: string;
+  locale?: string;
+}
+
+export interface Device extends DeviceRegistration {
+  id: string;
+  createdAt: Date;
+  lastSeenAt: Date;
+}
+
+export interface DeviceStore {
+  list(uid: string): Promise<Device[]>;
+  save(uid: string, device: Device): Promise<void>;
+  remove(uid: string, deviceIds: string[]): Promise<void>;
+  // Drops the token from any other account it was registered on
+  removeTokenFromOthers(token: string, uid: string): Promise<number>;
+  // Reads and clears the single deviceToken field older clients wrote
+  takeLegacyToken(uid: string): Promise<string | null>;
+}
+
+// The token decides the ID, so re-registering a device updates it in place
+export const deviceIdFor = (token: string): string =>
+  createHash('sha256').update(token).digest('base64url').slice(0, 20);
+
+const fromDoc = (id: string, data: Record<string, any>): Device => ({
+  id,
+  token: data['token'],
+  platform: data['platform'] || 'unknown',
+  ...(data['appVersion'] && { appVersion: data['appVersion'] }),
+  ...(data['locale'] && { locale: data['locale'] }),
+  createdAt: toDate(data['createdAt']),
+  lastSeenAt: toDate(data['lastSeenAt']),
+});
+
+export class FirestoreDeviceStore implements DeviceStore {
+  private get firestore() {
+    return firebaseService.getFirestore();
+  }
+
+  private devices(uid: string) {
+    return this.firestore.collection('users').doc(uid).collection('devices');
+  }
+
+  public async list(uid: string): Promise<Device[]> {
+    const snapshot = await this.devices(uid).get();
+    return snapshot.docs.map(doc => fromDoc(doc.id, doc.data()));
+  }
+
+  public async save(uid: string, device: Device): Promise<void> {
+    const { id, ...data } = device;
+    await this.devices(uid).doc(id).set(data);
+  }
+
+  public async remove(uid: string, deviceIds: string[]): Promise<void> {
+    const batch = this.firestore.batch();
+    deviceIds.forEach(id => batch.delete(this.devices(uid).doc(id)));
+    await batch.commit();
+  }
+
+  public async removeTokenFromOthers(token: string, uid: string): Promise<number> {
+    const snapshot = await this.firestore.collectionGroup('devices').where('token', '==', token).get();
+    const others = snapshot.docs.filter(doc => doc.ref.parent.parent?.id !== uid);
+    if (others.length === 0) {
+      return 0;
+    }
+
+    const batch = this.firestore.batch();
+    others.forEach(doc => batch.delete(doc.ref));
+    await batch.commit();
+    return others.length;
+  }
+
+  public async takeLegacyToken(uid: string): Promise<string | null> {
+    const ref = this.firestore.collection('users').doc(uid);
+    const doc = await ref.get();
+    const token = doc.get('deviceToken');
+    if (typeof token !== 'string') {
+      return null;
+    }
+    await ref.update({ deviceToken: FieldValue.delete() });
+    return token;
+  }
+}
+
+export class DeviceService {
+  constructor(private readonly store: DeviceStore) {}
+
+  public async list(uid: string): Promise<Device[]> {
+    const devices = await this.store.list(uid);
+    return devices.sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime());
+  }
+
+  public async register(uid: string, registration: DeviceRegistration, now: Date = new Date()): Promise<Device> {
+    const id = deviceIdFor(registration.token);
+    const current = await this.store.list(uid);
+    const previous = current.find(device => device.id === id);
+    const existing = current.filter(device => device.id !== id);
+
+    const device: Device = {
+      ...registration,
+      id,
+      createdAt: previous?.createdAt ?? now,
+      lastSeenAt: now,
+    };
+    await this.store.save(uid, device);
+
+    // A phone handed to someone else must stop receiving the old account's pushes
+    const moved = await this.store.removeTokenFromOthers(registration.token, uid);
+
+    // Carry the legacy single token over once, unless it is the one being registered
+    const legacy = await this.store.takeLegacyToken(uid);
+    if (legacy && deviceIdFor(legacy) !== id && !existing.some(other => other.token === legacy)) {
+      const carried: Device = { id: deviceIdFor(legacy), token: legacy, platform: 'unknown', createdAt: now, lastSeenAt: now };
+      await this.store.save(uid, carried);
+      existing.push(carried);
+    }
+
+    const overflow = existing
+      .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime())
+      .slice(MAX_DEVICES_PER_USER - 1);
+    if (overflow.length > 0) {
+      await this.store.remove(uid, overflow.map(other => other.id));
+    }
+
+    logger.info('Device registered', { uid, deviceId: id, platform: registration.platform, moved, evicted: overflow.length });
+    return device;
+  }
+
+  public async remove(uid: string, deviceId: string): Promise<void> {
+    const devices = await this.store.list(uid);
+    if (!devices.some(device => device.id === deviceId)) {
+      throw new NotFoundError('Device');
+    }
+    await this.store.remove(uid, [deviceId]);
+    logger.info('Device removed', { uid, deviceId });
+  }
+
+  public async removeAll(uid: string): Promise<number> {
+    const devices = await this.store.list(uid);
+    if (devices.length > 0) {
+      await this.store.remove(uid, devices.map(device => device.id));
+    }
+    await this.store.takeLegacyToken(uid);
+    return devices.length;
+  }
+}
+
+export const deviceService = new DeviceService(new FirestoreDeviceStore());
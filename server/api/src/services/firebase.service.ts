@@ -5,6 +5,7 @@ import { logger } from '../utils/logger';
 // Export commonly used Firebase utilities
 export const FieldValue = admin.firestore.FieldValue;
 export const FieldPath = admin.firestore.FieldPath;
+export const Timestamp = admin.firestore.Timestamp;
 
 class FirebaseService {
   private static instance: FirebaseService;
@@ -91,6 +92,19 @@ class FirebaseService {
     return admin.storage();
   }
 
+  public getMessaging() {
+    if (!this.initialized) {
+      throw new Error('Firebase not initialized');
+    }
+    
+    // Check if we're in mock mode
+    if (config.firebase.serviceAccountPath && config.firebase.serviceAccountPath.includes('service-account-key.json')) {
+      throw new Error('Firebase Messaging not available in mock mode');
+    }
+    
+    return admin.messaging();
+  }
+
   public async verifyIdToken(idToken: string) {
     try {
       const decodedToken = await this.getAuth().verifyIdToken(idToken);
@@ -121,6 +135,34 @@ class FirebaseService {
     }
   }
 
+  // Invalidates every refresh token issued to the user so each session has to sign in again
+  public async revokeRefreshTokens(uid: string) {
+    try {
+      await this.getAuth().revokeRefreshTokens(uid);
+    } catch (error) {
+      logger.error(`Failed to revoke refresh tokens for UID: ${uid}`, error);
+      throw error;
+    }
+  }
+
+  public async setUserDisabled(uid: string, disabled: boolean) {
+    try {
+      await this.getAuth().updateUser(uid, { disabled });
+    } catch (error) {
+      logger.error(`Failed to update disabled state for UID: ${uid}`, error);
+      throw error;
+    }
+  }
+
+  public async setCustomUserClaims(uid: string, claims: Record<string, any>) {
+    try {
+      await this.getAuth().setCustomUserClaims(uid, claims);
+    } catch (error) {
+      logger.error(`Failed to set custom claims for UID: ${uid}`, error);
+      throw error;
+    }
+  }
+
   public isInitialized(): boolean {
     return this.initialized;
   }
@@ -0,0 +1,194 @@
+import { firestore } from 'firebase-admin';
+import { firebaseService, FieldPath } from './firebase.service';
+import { cacheService, cacheTags } from './cache.service';
+import { encodeCursor, decodeCursor, CursorPayload, PaginationInfo } from '../utils/pagination';
+import { toDate } from './ranking.service';
+import { isTakenDown } from './videoVisibility';
+import { logger } from '../utils/logger';
+
+// Firestore rejects `in` filters with more than 30 values
+const IN_QUERY_LIMIT = 30;
+// Chunk queries run in waves so a huge follow list doesn't open hundreds of streams at once
+const CHUNK_CONCURRENCY = 10;
+const MAX_FOLLOWED_USERS = 5000;
+
+// The subset of a Firestore snapshot the merge and the controller read
+export type FeedDoc = Pick<firestore.QueryDocumentSnapshot, 'id' | 'get' | 'data'>;
+
+export interface FollowingFeedPage {
+  docs: FeedDoc[];
+  pagination: PaginationInfo;
+  // Set when the account follows more than MAX_FOLLOWED_USERS; the oldest follows are left out
+  followsTruncated: boolean;
+}
+
+export interface FollowedUserIds {
+  ids: string[];
+  truncated: boolean;
+}
+
+export interface FollowingFeedStore {
+  // Up to `max` followed accounts, newest follows first
+  getFollowedUserIds(userId: string, max: number): Promise<string[]>;
+  // Newest public, published videos by these authors after the cursor, newest first
+  getRecentVideos(authorIds: string[], limit: number, after: CursorPayload | null): Promise<FeedDoc[]>;
+  countVideos(authorIds: string[]): Promise<number>;
+}
+
+export class FirestoreFollowingFeedStore implements FollowingFeedStore {
+  private get firestore() {
+    return firebaseService.getFirestore();
+  }
+
+  public async getFollowedUserIds(userId: string, max: number): Promise<string[]> {
+    const snapshot = await this.firestore
+      .collection('follows')
+      .where('followerId', '==', userId)
+      .orderBy('createdAt', 'desc')
+      .limit(max)
+      .get();
+
+    return snapshot.docs.map(doc => doc.data()['followingId'] as string);
+  }
+
+  public async getRecentVideos(authorIds: string[], limit: number, after: CursorPayload | null): Promise<FeedDoc[]> {
+    let query = this.publishedBy(authorIds)
+      .orderBy('createdAt', 'desc')
+      .orderBy(FieldPath.documentId(), 'desc');
+
+    if (after) {
+      query = query.startAfter(...after.values, after.id);
+    }
+
+    // Videos taken down by moderators are read past, so the chunk still fills up
+    const docs: FeedDoc[] = [];
+    for (;;) {
+      const snapshot = await query.limit(limit).get();
+      docs.push(...snapshot.docs.filter(doc => !isTakenDown(doc.data())));
+      const last = snapshot.docs[snapshot.size - 1];
+      if (docs.length >= limit || snapshot.size < limit || !last) {
+        return docs.slice(0, limit);
+      }
+      query = query.startAfter(last);
+    }
+  }
+
+  public async countVideos(authorIds: string[]): Promise<number> {
+    return (await this.publishedBy(authorIds).count().get()).data().count;
+  }
+
+  private publishedBy(authorIds: string[]) {
+    return this.firestore
+      .collection('videos')
+      .where('userId', 'in', authorIds)
+      .where('visibility', '==', 'public')
+      .where('status', '==', 'published');
+  }
+}
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+const runInWaves = async <T, R>(items: T[], concurrency: number, fn: (item: T) => Promise<R>): Promise<R[]> => {
+  const results: R[] = [];
+  for (const wave of chunk(items, concurrency)) {
+    results.push(...await Promise.all(wave.map(fn)));
+  }
+  return results;
+};
+
+// Newest first, document ID breaks ties the same way the chunk queries order them
+const compareByRecency = (a: FeedDoc, b: FeedDoc): number => {
+  const diff = toDate(b.get('createdAt')).getTime() - toDate(a.get('createdAt')).getTime();
+  if (diff !== 0) return diff;
+  return a.id < b.id ? 1 : a.id > b.id ? -1 : 0;
+};
+
+export class FollowingFeedService {
+  constructor(
+    private readonly store: FollowingFeedStore,
+    private readonly maxFollowedUsers: number = MAX_FOLLOWED_USERS
+  ) {}
+
+  public async getFollowedUserIds(userId: string): Promise<FollowedUserIds> {
+    return cacheService.getOrCompute(`user:following-ids:${userId}`, 300, async () => { // 5 minutes
+      // One extra row tells a full list apart from a cut-off one
+      const ids = await this.store.getFollowedUserIds(userId, this.maxFollowedUsers + 1);
+      const truncated = ids.length > this.maxFollowedUsers;
+      if (truncated) {
+        logger.warn('Following feed truncated to the most recent follows', { userId, max: this.maxFollowedUsers });
+      }
+      return { ids: ids.slice(0, this.maxFollowedUsers), truncated };
+    }, { tags: [cacheTags.followingFeed(userId)] });
+  }
+
+  public async invalidate(userId: string): Promise<void> {
+    await cacheService.invalidateTags([cacheTags.followingFeed(userId)]);
+  }
+
+  // Fan-out on read: query each 30-author chunk for its newest `limit + 1` videos past
+  // the cursor, then merge. The merged head is exact because every chunk is sorted.
+  public async getPage(userId: string, limit: number, cursor?: string): Promise<FollowingFeedPage> {
+    const scope = `video:feed:following:${userId}`;
+    const { ids: followedIds, truncated } = await this.getFollowedUserIds(userId);
+
+    if (followedIds.length === 0) {
+      return {
+        docs: [],
+        pagination: { page: 1, limit, total: 0, hasMore: false, nextCursor: null },
+        followsTruncated: false,
+      };
+    }
+
+    const after = cursor ? decodeCursor(scope, cursor) : null;
+    const chunks = chunk(followedIds, IN_QUERY_LIMIT);
+
+    const [chunkResults, total] = await Promise.all([
+      runInWaves(chunks, CHUNK_CONCURRENCY, authorIds => this.store.getRecentVideos(authorIds, limit + 1, after)),
+      this.getTotal(userId, chunks),
+    ]);
+
+    const merged = chunkResults.flat().sort(compareByRecency);
+
+    const docs = merged.slice(0, limit);
+    const hasMore = merged.length > limit;
+    const lastDoc = docs[docs.length - 1];
+
+    logger.debug('Following feed merged', {
+      userId,
+      followedCount: followedIds.length,
+      chunks: chunks.length,
+      returned: docs.length,
+    });
+
+    return {
+      docs,
+      pagination: {
+        page: 1,
+        limit,
+        total,
+        hasMore,
+        nextCursor: hasMore && lastDoc
+          ? encodeCursor(scope, { values: [lastDoc.get('createdAt')], id: lastDoc.id })
+          : null,
+      },
+      followsTruncated: truncated,
+    };
+  }
+
+  // Counting costs one aggregation per chunk, so the total is shared by every
+  // page for a few minutes instead of being recounted on each request
+  private async getTotal(userId: string, chunks: string[][]): Promise<number> {
+    return cacheService.getOrCompute(`video:feed:following-total:${userId}`, 300, async () => { // 5 minutes
+      const counts = await runInWaves(chunks, CHUNK_CONCURRENCY, authorIds => this.store.countVideos(authorIds));
+      return counts.reduce((sum, count) => sum + count, 0);
+    }, { tags: [cacheTags.followingFeed(userId)] });
+  }
+}
+
+export const followingFeedService = new FollowingFeedService(new FirestoreFollowingFeedStore());
@@ -0,0 +1,289 @@
+import { config } from '../config';
+import { firebaseService } from './firebase.service';
+import { cacheService, cacheTags } from './cache.service';
+import { isPubliclyVisible } from './videoVisibility';
+import { NotFoundError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+export const HIGHLIGHT_SIGNALS = ['danmu', 'replays', 'likes'] as const;
+export type HighlightSignal = typeof HIGHLIGHT_SIGNALS[number];
+
+// How much each signal contributes once normalized. Danmu is the densest and
+// most deliberate reaction; a like's position is only when the tap happened.
+const SIGNAL_WEIGHTS: Record<HighlightSignal, number> = { danmu: 0.5, replays: 0.3, likes: 0.2 };
+
+// Short videos get one bin per second; longer ones are split into at most this many bins
+export const MAX_HEATMAP_BINS = 120;
+// Preview clip bounds, in seconds
+export const MIN_CLIP_SECONDS = 3;
+export const MAX_CLIP_SECONDS = 15;
+
+export interface HighlightVideo {
+  userId: string;
+  // Public, published and not taken down; anything else is for its creator only
+  publiclyVisible: boolean;
+  durationSeconds: number;
+}
+
+export interface MomentSignals {
+  // Danmu timestamps, seconds into the video
+  danmu: number[];
+  // Rewind counts by whole second
+  replays: Record<string, number>;
+  // Playback positions likes were given at
+  likes: number[];
+}
+
+export interface HighlightStore {
+  getVideo(videoId: string): Promise<HighlightVideo | null>;
+  getSignals(videoId: string): Promise<MomentSignals>;
+}
+
+export class FirestoreHighlightStore implements HighlightStore {
+  private get firestore() {
+    return firebaseService.getFirestore();
+  }
+
+  public async getVideo(videoId: string): Promise<HighlightVideo | null> {
+    const doc = await this.firestore.collection('videos').doc(videoId).get();
+    if (!doc.exists) {
+      return null;
+    }
+    const data = doc.data()!;
+    return {
+      userId: data['userId'],
+      publiclyVisible: isPubliclyVisible(data),
+      durationSeconds: Number(data['duration']) || 0,
+    };
+  }
+
+  public async getSignals(videoId: string): Promise<MomentSignals> {
+    const limit = config.highlights.maxEventsPerSignal;
+    const [danmuSnapshot, likesSnapshot, momentsDoc] = await Promise.all([
+      this.firestore
+        .collection('danmu')
+        .where('videoId', '==', videoId)
+        .where('status', '==', 'active')
+        .limit(limit)
+        .select('timestamp')
+        .get(),
+      this.firestore
+        .collection('likes')
+        .where('videoId', '==', videoId)
+        .limit(limit)
+        .select('positionSeconds')
+        .get(),
+      this.firestore.collection('videoMoments').doc(videoId).get(),
+    ]);
+
+    if (danmuSnapshot.size === limit || likesSnapshot.size === limit) {
+      logger.warn('Highlight signals truncated', { videoId, limit });
+    }
+
+    const positions = (docs: FirebaseFirestore.QueryDocumentSnapshot[], field: string): number[] => docs
+      .map(doc => doc.get(field))
+      .filter((value): value is number => typeof value === 'number' && value >= 0);
+
+    return {
+      danmu: positions(danmuSnapshot.docs, 'timestamp'),
+      // Likes from before positions were recorded have none
+      likes: positions(likesSnapshot.docs, 'positionSeconds'),
+      replays: { ...(momentsDoc.data()?.['replays'] || {}) },
+    };
+  }
+}
+
+export const binSecondsFor = (durationSeconds: number): number =>
+  Math.max(1, Math.ceil(durationSeconds / MAX_HEATMAP_BINS));
+
+// Counts weighted positions into fixed-width bins; positions past the end land in the last bin
+export const histogram = (positions: Array<[number, number]>, binSeconds: number, bins: number): number[] => {
+  const counts = new Array(bins).fill(0);
+  positions.forEach(([position, weight]) => {
+    const index = Math.min(Math.floor(position / binSeconds), bins - 1);
+    counts[index] += weight;
+  });
+  return counts;
+};
+
+// Gaussian smoothing. Near the edges the kernel is renormalized over the bins
+// that exist, so the first and last seconds aren't dragged towards zero.
+export const smooth = (values: number[], sigma: number): number[] => {
+  if (sigma <= 0) {
+    return [...values];
+  }
+  const radius = Math.ceil(sigma * 2);
+  const kernel = Array.from({ length: radius * 2 + 1 }, (_, index) => Math.exp(-((index - radius) ** 2) / (2 * sigma * sigma)));
+
+  return values.map((_, center) => {
+    let sum = 0;
+    let weight = 0;
+    for (let offset = -radius; offset <= radius; offset++) {
+      const value = values[center + offset];
+      if (value !== undefined) {
+        sum += value * kernel[offset + radius]!;
+        weight += kernel[offset + radius]!;
+      }
+    }
+    return sum / weight;
+  });
+};
+
+const normalize = (values: number[]): number[] => {
+  const max = Math.max(0, ...values);
+  return max > 0 ? values.map(value => value / max) : values.map(() => 0);
+};
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+export interface Highlight {
+  start: number;
+  end: number;
+  // Where the window peaks, for thumbnails
+  peak: number;
+  score: number;
+}
+
+// Windows where the combined score stands out: runs of bins above mean plus
+// one standard deviation, each widened or trimmed around its peak to a clip
+// length, strongest first without overlaps.
+export const detectHighlights = (
+  scores: number[],
+  binSeconds: number,
+  durationSeconds: number,
+  maxHighlights: number
+): Highlight[] => {
+  const mean = scores.reduce((sum, score) => sum + score, 0) / (scores.length || 1);
+  const deviation = Math.sqrt(scores.reduce((sum, score) => sum + (score - mean) ** 2, 0) / (scores.length || 1));
+  if (deviation === 0) {
+    return [];
+  }
+  const threshold = mean + deviation;
+
+  const candidates: Highlight[] = [];
+  let runStart = -1;
+  scores.forEach((score, index) => {
+    const above = score > threshold;
+    if (above && runStart < 0) {
+      runStart = index;
+    }
+    if (runStart >= 0 && (!above || index === scores.length - 1)) {
+      const runEnd = above ? index : index - 1;
+      let peakIndex = runStart;
+      for (let i = runStart; i <= runEnd; i++) {
+        if (scores[i]! > scores[peakIndex]!) {
+          peakIndex = i;
+        }
+      }
+      const peak = Math.min((peakIndex + 0.5) * binSeconds, durationSeconds);
+      const length = Math.min(Math.max((runEnd - runStart + 1) * binSeconds, MIN_CLIP_SECONDS), MAX_CLIP_SECONDS, durationSeconds);
+      const start = Math.min(Math.max(0, peak - length / 2), Math.max(0, durationSeconds - length));
+      candidates.push({ start: round(start), end: round(start + length), peak: round(peak), score: round(scores[peakIndex]!) });
+      runStart = -1;
+    }
+  });
+
+  const chosen: Highlight[] = [];
+  candidates
+    .sort((a, b) => b.score - a.score)
+    .forEach(candidate => {
+      if (chosen.length < maxHighlights && chosen.every(other => candidate.end <= other.start || candidate.start >= other.end)) {
+        chosen.push(candidate);
+      }
+    });
+  return chosen;
+};
+
+export interface HighlightReport {
+  videoId: string;
+  durationSeconds: number;
+  binSeconds: number;
+  // Combined, smoothed intensity per bin, 0-1, for the progress bar
+  heatmap: number[];
+  totals: Record<HighlightSignal, number>;
+  highlights: Highlight[];
+}
+
+export interface HighlightOptions {
+  maxHighlights: number;
+  // Below this many signal events the heatmap is returned without highlights
+  minSignalEvents: number;
+  cacheTtl: number;
+}
+
+export const buildHighlightReport = (
+  videoId: string,
+  durationSeconds: number,
+  signals: MomentSignals,
+  options: Pick<HighlightOptions, 'maxHighlights' | 'minSignalEvents'>
+): HighlightReport => {
+  const replayPositions = Object.entries(signals.replays)
+    .map(([second, count]): [number, number] => [Number(second) + 0.5, Number(count) || 0]);
+  const positioned: Record<HighlightSignal, Array<[number, number]>> = {
+    danmu: signals.danmu.map((position): [number, number] => [position, 1]),
+    replays: replayPositions,
+    likes: signals.likes.map((position): [number, number] => [position, 1]),
+  };
+
+  // Older uploads may not have a duration; fall back to the latest signal
+  const duration = durationSeconds > 0
+    ? durationSeconds
+    : Math.ceil(HIGHLIGHT_SIGNALS.reduce((latest, signal) =>
+      positioned[signal].reduce((max, [position]) => Math.max(max, position), latest), 1));
+  const binSeconds = binSecondsFor(duration);
+  const bins = Math.ceil(duration / binSeconds);
+  // Wider smoothing on per-second bins, where single reactions are noisy
+  const sigma = binSeconds === 1 ? 1.5 : 1;
+
+  const totals = Object.fromEntries(HIGHLIGHT_SIGNALS.map(signal =>
+    [signal, positioned[signal].reduce((sum, [, weight]) => sum + weight, 0)])) as Record<HighlightSignal, number>;
+
+  // Each signal is scaled to 0-1 before weighting so a busy danmu feed doesn't
+  // drown out the others; signals with no data hand their weight to the rest
+  const present = HIGHLIGHT_SIGNALS.filter(signal => totals[signal] > 0);
+  const totalWeight = present.reduce((sum, signal) => sum + SIGNAL_WEIGHTS[signal], 0);
+  const combined = new Array(bins).fill(0);
+  present.forEach(signal => {
+    const curve = normalize(smooth(histogram(positioned[signal], binSeconds, bins), sigma));
+    curve.forEach((value, index) => {
+      combined[index] += value * SIGNAL_WEIGHTS[signal] / totalWeight;
+    });
+  });
+
+  const heatmap = normalize(combined).map(round);
+  const events = present.reduce((sum, signal) => sum + totals[signal], 0);
+
+  return {
+    videoId,
+    durationSeconds: duration,
+    binSeconds,
+    heatmap,
+    totals,
+    highlights: events >= options.minSignalEvents
+      ? detectHighlights(heatmap, binSeconds, duration, options.maxHighlights)
+      : [],
+  };
+};
+
+// Hot moments for the player's progress bar and for auto-generated preview
+// clips, from danmu, rewinds and likes
+export class HighlightService {
+  constructor(
+    private readonly store: HighlightStore,
+    private readonly options: HighlightOptions = config.highlights
+  ) {}
+
+  public async getHighlights(videoId: string, viewerId?: string): Promise<HighlightReport> {
+    const video = await this.store.getVideo(videoId);
+    if (!video || (!video.publiclyVisible && video.userId !== viewerId)) {
+      throw new NotFoundError('Video');
+    }
+
+    return cacheService.getOrCompute(`highlights:${videoId}`, this.options.cacheTtl, async () => {
+      const signals = await this.store.getSignals(videoId);
+      return buildHighlightReport(videoId, video.durationSeconds, signals, this.options);
+    }, { staleTtl: 120, tags: [cacheTags.video(videoId), cacheTags.danmu(videoId)] });
+  }
+}
+
+export const highlightService = new HighlightService(new FirestoreHighlightStore());
@@ -1,5 +1,5 @@
 // Main services exports
-export { firebaseService, FieldValue, FieldPath } from './firebase.service';
+export { firebaseService, FieldValue, FieldPath, Timestamp } from './firebase.service';
 export { cacheService } from './cache.service';
 
 // Initialize Firebase on import
@@ -0,0 +1,324 @@
+import { firebaseService } from './firebase.service';
+import { cacheService, cacheTags } from './cache.service';
+import { ModerationVerdict, textModerationService } from './textModeration.service';
+import { ApiError, NotFoundError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+export type InteractionKind = 'comments' | 'danmu';
+
+// What happens to content that matches a blocked keyword or pattern
+export const FILTER_ACTIONS = ['reject', 'hide'] as const;
+export type FilterAction = typeof FILTER_ACTIONS[number];
+
+export interface InteractionSettings {
+  allowComments: boolean;
+  allowDanmu: boolean;
+  blockedKeywords: string[];
+  blockedPatterns: string[];
+  filterAction: FilterAction;
+}
+
+export type InteractionOverrides = Partial<InteractionSettings>;
+
+export const DEFAULT_INTERACTION_SETTINGS: InteractionSettings = {
+  allowComments: true,
+  allowDanmu: true,
+  blockedKeywords: [],
+  blockedPatterns: [],
+  filterAction: 'reject',
+};
+
+export const MAX_BLOCKED_KEYWORDS = 200;
+export const MAX_BLOCKED_PATTERNS = 20;
+export const MAX_PATTERN_LENGTH = 100;
+
+// Patterns run against every comment, so only shapes whose backtracking stays
+// near-quadratic in the comment length are accepted. Repeated groups, such as
+// (a+)+ or (a|a)*, and two open-ended repeats in a row, such as \w*\w*, are
+// what blow up, so a pattern gets one open-ended repeat and a few small bounded ones.
+const MAX_OPEN_REPEATS = 1;
+const MAX_BOUNDED_REPEAT_COMBINATIONS = 16;
+const QUANTIFIER = /^(?:[*+?]|\{(\d+)(,(\d*))?\})\??/;
+
+const backtrackingProblem = (pattern: string): string | null => {
+  let openRepeats = 0;
+  let boundedCombinations = 1;
+  let i = 0;
+
+  while (i < pattern.length) {
+    const char = pattern[i]!;
+    let isGroup = false;
+
+    if (char === '\\') {
+      if (/[1-9k]/.test(pattern[i + 1] ?? '')) {
+        return 'Patterns cannot use backreferences';
+      }
+      i += 2;
+    } else if (char === '[') {
+      i++;
+      while (i < pattern.length && pattern[i] !== ']') {
+        i += pattern[i] === '\\' ? 2 : 1;
+      }
+      i++;
+    } else if (char === '(') {
+      if (/^\(\?<?[=!]/.test(pattern.slice(i))) {
+        return 'Patterns cannot use lookarounds';
+      }
+      // Skip the (?: or (?<name> prefix; the group itself is checked at its ')'
+      const prefix = /^\((?:\?:|\?<[^>]*>)?/.exec(pattern.slice(i))!;
+      i += prefix[0].length;
+      continue;
+    } else if (char === ')') {
+      isGroup = true;
+      i++;
+    } else {
+      i++;
+    }
+
+    const quantifier = QUANTIFIER.exec(pattern.slice(i));
+    if (!quantifier) {
+      continue;
+    }
+    i += quantifier[0].length;
+
+    const [token, min, range, max] = quantifier;
+    if (isGroup && !token.startsWith('?')) {
+      return 'Patterns can repeat single characters and classes but not groups';
+    }
+    if (token.startsWith('*') || token.startsWith('+') || (range !== undefined && max === '')) {
+      openRepeats++;
+    } else if (token.startsWith('?')) {
+      boundedCombinations *= 2;
+    } else if (max !== undefined) {
+      boundedCombinations *= Math.max(1, Number(max) - Number(min) + 1);
+    }
+  }
+
+  if (openRepeats > MAX_OPEN_REPEATS || boundedCombinations > MAX_BOUNDED_REPEAT_COMBINATIONS) {
+    return 'Patterns can use one open-ended repeat (*, + or {n,}) and only a few optional or bounded ones';
+  }
+  return null;
+};
+
+// Returns why a creator-supplied pattern is unusable, or null when it is fine
+export const validatePattern = (pattern: string): string | null => {
+  if (pattern.length === 0 || pattern.length > MAX_PATTERN_LENGTH) {
+    return `Patterns must be 1-${MAX_PATTERN_LENGTH} characters`;
+  }
+  try {
+    new RegExp(pattern, 'iu');
+  } catch {
+    return 'Pattern is not a valid regular expression';
+  }
+  return backtrackingProblem(pattern);
+};
+
+const normalizeText = (text: string): string => text.normalize('NFKC').toLowerCase();
+
+const compiledPatterns = new Map<string, RegExp | null>();
+
+const compilePattern = (pattern: string): RegExp | null => {
+  if (!compiledPatterns.has(pattern)) {
+    // Stored patterns were validated on save; this only guards older data
+    compiledPatterns.set(pattern, validatePattern(pattern) === null ? new RegExp(pattern, 'iu') : null);
+  }
+  return compiledPatterns.get(pattern)!;
+};
+
+const unique = (values: string[]): string[] => [...new Set(values)];
+
+// Video overrides win for the switches and the action; blocked lists add up,
+// so a video can block more than its creator but never less
+export const mergeSettings = (
+  creator: InteractionOverrides | undefined,
+  video: InteractionOverrides | undefined
+): InteractionSettings => ({
+  allowComments: video?.allowComments ?? creator?.allowComments ?? DEFAULT_INTERACTION_SETTINGS.allowComments,
+  allowDanmu: video?.allowDanmu ?? creator?.allowDanmu ?? DEFAULT_INTERACTION_SETTINGS.allowDanmu,
+  blockedKeywords: unique([...(creator?.blockedKeywords || []), ...(video?.blockedKeywords || [])].map(normalizeText)),
+  blockedPatterns: unique([...(creator?.blockedPatterns || []), ...(video?.blockedPatterns || [])]),
+  filterAction: video?.filterAction ?? creator?.filterAction ?? DEFAULT_INTERACTION_SETTINGS.filterAction,
+});
+
+// The first keyword or pattern the text trips, if any
+export const findBlockedTerm = (text: string, settings: InteractionSettings): string | null => {
+  const normalized = normalizeText(text);
+
+  const keyword = settings.blockedKeywords.find(term => term.length > 0 && normalized.includes(term));
+  if (keyword) {
+    return keyword;
+  }
+
+  return settings.blockedPatterns.find(pattern => compilePattern(pattern)?.test(normalized)) ?? null;
+};
+
+// Only the fields these settings own; the rest of users.settings is untouched
+const pickOverrides = (source: Record<string, any> | undefined): InteractionOverrides => {
+  const overrides: InteractionOverrides = {};
+  if (!source) {
+    return overrides;
+  }
+  if (typeof source['allowComments'] === 'boolean') overrides.allowComments = source['allowComments'];
+  if (typeof source['allowDanmu'] === 'boolean') overrides.allowDanmu = source['allowDanmu'];
+  if (Array.isArray(source['blockedKeywords'])) overrides.blockedKeywords = source['blockedKeywords'];
+  if (Array.isArray(source['blockedPatterns'])) overrides.blockedPatterns = source['blockedPatterns'];
+  if (FILTER_ACTIONS.includes(source['filterAction'])) overrides.filterAction = source['filterAction'];
+  return overrides;
+};
+
+export interface ScreenResult {
+  // 'hidden' content is stored but only shown to its author
+  status: 'active' | 'hidden';
+  matched?: string;
+}
+
+export interface ReviewResult extends ScreenResult {
+  // Hidden because site-wide moderation held it, rather than by a creator filter
+  heldForReview: boolean;
+  verdict: ModerationVerdict;
+}
+
+class InteractionSettingsService {
+  private static instance: InteractionSettingsService;
+
+  private constructor() {}
+
+  public static getInstance(): InteractionSettingsService {
+    if (!InteractionSettingsService.instance) {
+      InteractionSettingsService.instance = new InteractionSettingsService();
+    }
+    return InteractionSettingsService.instance;
+  }
+
+  private get firestore() {
+    return firebaseService.getFirestore();
+  }
+
+  public async getCreatorSettings(uid: string): Promise<InteractionSettings> {
+    const userDoc = await this.firestore.collection('users').doc(uid).get();
+    return mergeSettings(pickOverrides(userDoc.data()?.['settings']), undefined);
+  }
+
+  public async updateCreatorSettings(uid: string, patch: InteractionOverrides): Promise<InteractionSettings> {
+    const update: Record<string, any> = { updatedAt: new Date() };
+    Object.entries(pickOverrides(patch)).forEach(([field, value]) => {
+      update[`settings.${field}`] = value;
+    });
+
+    const ref = this.firestore.collection('users').doc(uid);
+    const userDoc = await ref.get();
+    if (!userDoc.exists) {
+      throw new NotFoundError('User');
+    }
+    await ref.update(update);
+
+    // Every video of this creator caches settings under the user tag
+    await cacheService.invalidateTags([cacheTags.user(uid)]);
+    logger.info('Creator interaction settings updated', { uid, fields: Object.keys(update) });
+
+    return this.getCreatorSettings(uid);
+  }
+
+  public async getVideoSettings(videoId: string): Promise<{ overrides: InteractionOverrides; effective: InteractionSettings }> {
+    const videoDoc = await this.firestore.collection('videos').doc(videoId).get();
+    if (!videoDoc.exists) {
+      throw new NotFoundError('Video');
+    }
+
+    const overrides = pickOverrides(videoDoc.data()?.['interactionSettings']);
+    return { overrides, effective: await this.getEffectiveSettings(videoId, videoDoc.data()!) };
+  }
+
+  // null in the patch drops that override so the video inherits the creator's value
+  public async updateVideoSettings(
+    videoId: string,
+    patch: { [K in keyof InteractionSettings]?: InteractionSettings[K] | null }
+  ): Promise<{ overrides: InteractionOverrides; effective: InteractionSettings }> {
+    const ref = this.firestore.collection('videos').doc(videoId);
+    const videoDoc = await ref.get();
+    if (!videoDoc.exists) {
+      throw new NotFoundError('Video');
+    }
+
+    const overrides: Record<string, any> = { ...pickOverrides(videoDoc.data()?.['interactionSettings']) };
+    Object.entries(patch).forEach(([field, value]) => {
+      if (value === null) {
+        delete overrides[field];
+      } else if (value !== undefined) {
+        overrides[field] = value;
+      }
+    });
+
+    await ref.update({ interactionSettings: pickOverrides(overrides), updatedAt: new Date() });
+    await cacheService.invalidateTags([cacheTags.video(videoId)]);
+    logger.info('Video interaction settings updated', { videoId, fields: Object.keys(patch) });
+
+    return this.getVideoSettings(videoId);
+  }
+
+  public async getEffectiveSettings(videoId: string, videoData: Record<string, any>): Promise<InteractionSettings> {
+    const creatorId = videoData['userId'] as string;
+
+    return cacheService.getOrCompute(`interaction-settings:${videoId}`, 300, async () => {
+      const creatorDoc = await this.firestore.collection('users').doc(creatorId).get();
+      return mergeSettings(
+        pickOverrides(creatorDoc.data()?.['settings']),
+        pickOverrides(videoData['interactionSettings'])
+      );
+    }, { tags: [cacheTags.video(videoId), cacheTags.user(creatorId)] });
+  }
+
+  // Enforces the on/off switches and blocked lists for new or edited content.
+  // Creators are exempt on their own videos.
+  public async screen(
+    kind: InteractionKind,
+    videoId: string,
+    videoData: Record<string, any>,
+    authorId: string,
+    text: string
+  ): Promise<ScreenResult> {
+    if (videoData['userId'] === authorId) {
+      return { status: 'active' };
+    }
+
+    const settings = await this.getEffectiveSettings(videoId, videoData);
+
+    if (kind === 'comments' && !settings.allowComments) {
+      throw new ApiError(403, 'Comments are turned off for this video', 'COMMENTS_DISABLED');
+    }
+    if (kind === 'danmu' && !settings.allowDanmu) {
+      throw new ApiError(403, 'Danmu is turned off for this video', 'DANMU_DISABLED');
+    }
+
+    const matched = findBlockedTerm(text, settings);
+    if (!matched) {
+      return { status: 'active' };
+    }
+
+    if (settings.filterAction === 'reject') {
+      // The matched term stays server-side so filters can't be probed term by term
+      throw new ApiError(400, 'This content is blocked on this video', 'CONTENT_BLOCKED');
+    }
+
+    logger.info('Content auto-hidden by creator filter', { kind, videoId, authorId });
+    return { status: 'hidden', matched };
+  }
+
+  // Every check a comment or danmu goes through: site-wide text moderation
+  // first, then the creator's switches and filters. Held text is hidden like
+  // filtered text until a moderator reviews it.
+  public async review(
+    kind: InteractionKind,
+    videoId: string,
+    videoData: Record<string, any>,
+    authorId: string,
+    text: string
+  ): Promise<ReviewResult> {
+    const verdict = await textModerationService.enforce([{ field: kind === 'comments' ? 'comment' : 'danmu', text }]);
+    const screened = await this.screen(kind, videoId, videoData, authorId, text);
+    const heldForReview = verdict.outcome === 'hold' && screened.status === 'active';
+    return { ...screened, status: heldForReview ? 'hidden' : screened.status, heldForReview, verdict };
+  }
+}
+
+export const interactionSettingsService = InteractionSettingsService.getInstance();
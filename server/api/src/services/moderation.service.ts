@@ -0,0 +1,717 @@
+import { config } from '../config';
+import { firebaseService, FieldValue } from './firebase.service';
+import { cacheService, cacheTags } from './cache.service';
+import { AuditEntry } from './access.service';
+import { NotificationService, notificationService } from './notification.service';
+import { SessionService, sessionService } from './session.service';
+import { usernameService } from './username.service';
+import { searchService } from './search.service';
+import { danmuStreamService } from './danmuStream.service';
+import { segmentIndexFor } from './danmuSegments';
+import { toDate } from './ranking.service';
+import { paginateQuery, PaginationInfo } from '../utils/pagination';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+export const REPORT_TARGET_TYPES = ['video', 'comment', 'danmu', 'user'] as const;
+export type ReportTargetType = typeof REPORT_TARGET_TYPES[number];
+
+export const REPORT_REASONS = [
+  'spam', 'harassment', 'hate', 'violence', 'sexual', 'self_harm', 'misinformation', 'copyright', 'impersonation', 'other',
+] as const;
+export type ReportReason = typeof REPORT_REASONS[number];
+
+// Drives queue order: the most severe open reason first, then the number of open reports
+const REASON_SEVERITY: Record<ReportReason, number> = {
+  self_harm: 5,
+  hate: 4,
+  violence: 4,
+  sexual: 4,
+  harassment: 3,
+  misinformation: 2,
+  copyright: 2,
+  impersonation: 2,
+  spam: 1,
+  other: 1,
+};
+
+export const MODERATION_ACTIONS = ['hide', 'remove', 'warn', 'ban', 'dismiss'] as const;
+export type ModerationAction = typeof MODERATION_ACTIONS[number];
+
+export type ContentStatus = 'hidden' | 'removed';
+
+// Videos keep their processing status and are taken down through `moderationStatus`;
+// comments and danmu have always been hidden through `status`
+const statusFieldFor = (type: ReportTargetType): 'moderationStatus' | 'status' =>
+  type === 'video' ? 'moderationStatus' : 'status';
+
+export interface ReportTarget {
+  type: ReportTargetType;
+  id: string;
+}
+
+// What moderation needs to know about a reported item
+export interface TargetInfo {
+  ownerId: string;
+  status: string;
+  videoId?: string;
+  parentId?: string;
+  // Danmu position, for its cached segment
+  timestamp?: number;
+  // Hidden by automated text moderation until a moderator looks at it
+  heldForReview?: boolean;
+  // A held handle change; handles are claimed through usernameService on release
+  pendingUsername?: string;
+}
+
+// Held by the moderator whose action is being applied, so no one else acts
+// on the case meanwhile. It lapses on its own if that moderator's request dies.
+export interface CaseClaim {
+  moderatorId: string;
+  expiresAt: Date;
+}
+
+export interface ModerationCase {
+  id: string;
+  targetType: ReportTargetType;
+  targetId: string;
+  ownerId: string;
+  status: 'open' | 'resolved';
+  // Reports since the case was last resolved
+  openReports: number;
+  totalReports: number;
+  reasons: Partial<Record<ReportReason, number>>;
+  priority: number;
+  firstReportedAt: Date;
+  lastReportedAt: Date;
+  claim: CaseClaim | null;
+  resolution: {
+    action: ModerationAction;
+    moderatorId: string;
+    reason: string;
+    resolvedAt: Date;
+  } | null;
+}
+
+export interface Report {
+  id: string;
+  caseId: string;
+  reporterId: string;
+  targetType: ReportTargetType;
+  targetId: string;
+  reason: ReportReason;
+  details?: string;
+  status: 'open' | 'closed';
+  outcome?: ModerationAction;
+  createdAt: Date;
+}
+
+export interface NewReport {
+  targetType: ReportTargetType;
+  targetId: string;
+  reason: ReportReason;
+  details?: string | undefined;
+}
+
+export interface ModerationQueuePage {
+  cases: ModerationCase[];
+  pagination: PaginationInfo;
+}
+
+export const caseIdFor = (target: ReportTarget): string => `${target.type}_${target.id}`;
+
+export const priorityFor = (reasons: Partial<Record<ReportReason, number>>, openReports: number): number => {
+  const severity = Math.max(0, ...Object.entries(reasons)
+    .filter(([, count]) => (count || 0) > 0)
+    .map(([reason]) => REASON_SEVERITY[reason as ReportReason] || 0));
+  return severity * 100 + Math.min(openReports, 99);
+};
+
+export interface ModerationStore {
+  getTarget(target: ReportTarget): Promise<TargetInfo | null>;
+  getUser(uid: string): Promise<Record<string, any> | null>;
+  // Stores the report under a new id and folds it into its case in one step.
+  // A reporter with an open report on the same case gets that report back instead.
+  fileReport(
+    report: Omit<Report, 'id'>,
+    apply: (existing: ModerationCase | null) => ModerationCase
+  ): Promise<{ report: Report; created: boolean }>;
+  getCase(caseId: string): Promise<ModerationCase | null>;
+  listQueue(limit: number, cursor?: string, targetType?: ReportTargetType): Promise<ModerationQueuePage>;
+  listReports(caseId: string, limit: number): Promise<Report[]>;
+  // Claims an open case for one moderator until `expiresAt`. Throws
+  // ConflictError if it is resolved or someone holds an unexpired claim.
+  claimCase(caseId: string, claim: CaseClaim, now: Date): Promise<void>;
+  // Drops the claim if the moderator still holds it
+  releaseClaim(caseId: string, moderatorId: string): Promise<void>;
+  // Marks a case the resolving moderator has claimed as resolved and closes its
+  // open reports, returning them. Throws ConflictError if the claim was lost.
+  resolveCase(caseId: string, resolution: NonNullable<ModerationCase['resolution']>): Promise<Report[]>;
+  setContentStatus(target: ReportTarget, status: ContentStatus, moderatorId: string, reason: string, at: Date): Promise<void>;
+  // Makes held content visible again and returns it as released, or null if
+  // nothing was held. For accounts, that applies the held display name and
+  // bio; the handle is left to the caller.
+  releaseHold(target: ReportTarget): Promise<Record<string, any> | null>;
+  recordWarning(uid: string, at: Date): Promise<void>;
+  banUser(uid: string, moderatorId: string, reason: string, at: Date): Promise<void>;
+  appendAudit(entry: AuditEntry): Promise<void>;
+}
+
+const caseFromDoc = (id: string, data: Record<string, any>): ModerationCase => ({
+  ...(data as Omit<ModerationCase, 'id'>),
+  id,
+  reasons: data['reasons'] || {},
+  firstReportedAt: toDate(data['firstReportedAt']),
+  lastReportedAt: toDate(data['lastReportedAt']),
+  claim: data['claim'] ? { ...data['claim'], expiresAt: toDate(data['claim']['expiresAt']) } : null,
+  resolution: data['resolution']
+    ? { ...data['resolution'], resolvedAt: toDate(data['resolution']['resolvedAt']) }
+    : null,
+});
+
+const reportFromDoc = (id: string, data: Record<string, any>): Report => ({
+  ...(data as Omit<Report, 'id'>),
+  id,
+  createdAt: toDate(data['createdAt']),
+});
+
+// Held profile text and warning history sit beside the profile rather than in it:
+// user documents are readable by anyone, this subcollection only by the API
+export const userModerationRef = (uid: string) =>
+  firebaseService.getFirestore().collection('users').doc(uid).collection('private').doc('moderation');
+
+const TARGET_COLLECTIONS: Record<ReportTargetType, string> = {
+  video: 'videos',
+  comment: 'comments',
+  danmu: 'danmu',
+  user: 'users',
+};
+
+export class FirestoreModerationStore implements ModerationStore {
+  private get firestore() {
+    return firebaseService.getFirestore();
+  }
+
+  public async getTarget(target: ReportTarget): Promise<TargetInfo | null> {
+    const doc = await this.firestore.collection(TARGET_COLLECTIONS[target.type]).doc(target.id).get();
+    if (!doc.exists) {
+      return null;
+    }
+    const data = doc.data()!;
+    const pending = target.type === 'user' && data['heldForReview'] === true
+      ? (await userModerationRef(target.id).get()).get('pendingProfile')
+      : undefined;
+    return {
+      ownerId: target.type === 'user' ? doc.id : data['userId'],
+      status: data[statusFieldFor(target.type)] || 'active',
+      ...(data['videoId'] && { videoId: data['videoId'] }),
+      ...(data['parentId'] && { parentId: data['parentId'] }),
+      ...(typeof data['timestamp'] === 'number' && { timestamp: data['timestamp'] }),
+      ...(data['heldForReview'] === true && { heldForReview: true }),
+      ...(typeof pending?.['username'] === 'string' && { pendingUsername: pending['username'] }),
+    };
+  }
+
+  public async getUser(uid: string): Promise<Record<string, any> | null> {
+    const doc = await this.firestore.collection('users').doc(uid).get();
+    return doc.exists ? doc.data()! : null;
+  }
+
+  public async fileReport(
+    report: Omit<Report, 'id'>,
+    apply: (existing: ModerationCase | null) => ModerationCase
+  ): Promise<{ report: Report; created: boolean }> {
+    const caseRef = this.firestore.collection('moderationCases').doc(report.caseId);
+    const reportRef = this.firestore.collection('reports').doc();
+    const openByReporter = this.firestore
+      .collection('reports')
+      .where('caseId', '==', report.caseId)
+      .where('reporterId', '==', report.reporterId)
+      .where('status', '==', 'open')
+      .limit(1);
+
+    return this.firestore.runTransaction(async transaction => {
+      const [caseDoc, open] = await Promise.all([transaction.get(caseRef), transaction.get(openByReporter)]);
+
+      const existing = open.docs[0];
+      if (existing) {
+        return { report: reportFromDoc(existing.id, existing.data()), created: false };
+      }
+
+      const { id: _id, ...next } = apply(caseDoc.exists ? caseFromDoc(caseDoc.id, caseDoc.data()!) : null);
+      transaction.set(caseRef, next);
+      transaction.set(reportRef, report);
+      return { report: { ...report, id: reportRef.id }, created: true };
+    });
+  }
+
+  public async getCase(caseId: string): Promise<ModerationCase | null> {
+    const doc = await this.firestore.collection('moderationCases').doc(caseId).get();
+    return doc.exists ? caseFromDoc(doc.id, doc.data()!) : null;
+  }
+
+  public async listQueue(limit: number, cursor?: string, targetType?: ReportTargetType): Promise<ModerationQueuePage> {
+    let query = this.firestore.collection('moderationCases').where('status', '==', 'open');
+    if (targetType) {
+      query = query.where('targetType', '==', targetType);
+    }
+
+    const { docs, pagination } = await paginateQuery(query, {
+      scope: `moderation:queue:${targetType || 'all'}`,
+      orderBy: [
+        { field: 'priority', direction: 'desc' },
+        { field: 'firstReportedAt', direction: 'asc' },
+      ],
+      limit,
+      cursor,
+    });
+
+    return { cases: docs.map(doc => caseFromDoc(doc.id, doc.data())), pagination };
+  }
+
+  public async listReports(caseId: string, limit: number): Promise<Report[]> {
+    const snapshot = await this.firestore
+      .collection('reports')
+      .where('caseId', '==', caseId)
+      .orderBy('createdAt', 'desc')
+      .limit(limit)
+      .get();
+    return snapshot.docs.map(doc => reportFromDoc(doc.id, doc.data()));
+  }
+
+  public async claimCase(caseId: string, claim: CaseClaim, now: Date): Promise<void> {
+    const caseRef = this.firestore.collection('moderationCases').doc(caseId);
+
+    await this.firestore.runTransaction(async transaction => {
+      const caseDoc = await transaction.get(caseRef);
+      if (!caseDoc.exists || caseDoc.get('status') !== 'open') {
+        throw new ConflictError('This case has already been resolved');
+      }
+      const current = caseDoc.get('claim');
+      if (current && toDate(current['expiresAt']) > now) {
+        throw new ConflictError('Another moderator is acting on this case');
+      }
+
+      transaction.update(caseRef, { claim });
+    });
+  }
+
+  public async releaseClaim(caseId: string, moderatorId: string): Promise<void> {
+    const caseRef = this.firestore.collection('moderationCases').doc(caseId);
+
+    await this.firestore.runTransaction(async transaction => {
+      const caseDoc = await transaction.get(caseRef);
+      if (caseDoc.exists && caseDoc.get('claim.moderatorId') === moderatorId) {
+        transaction.update(caseRef, { claim: null });
+      }
+    });
+  }
+
+  public async resolveCase(caseId: string, resolution: NonNullable<ModerationCase['resolution']>): Promise<Report[]> {
+    const caseRef = this.firestore.collection('moderationCases').doc(caseId);
+    const openReports = this.firestore.collection('reports').where('caseId', '==', caseId).where('status', '==', 'open');
+
+    return this.firestore.runTransaction(async transaction => {
+      const [caseDoc, reports] = await Promise.all([transaction.get(caseRef), transaction.get(openReports)]);
+      if (!caseDoc.exists || caseDoc.get('status') !== 'open' || caseDoc.get('claim.moderatorId') !== resolution.moderatorId) {
+        throw new ConflictError('This case has already been resolved');
+      }
+
+      transaction.update(caseRef, { status: 'resolved', openReports: 0, reasons: {}, priority: 0, claim: null, resolution });
+      reports.docs.forEach(doc => transaction.update(doc.ref, { status: 'closed', outcome: resolution.action }));
+      return reports.docs.map(doc => reportFromDoc(doc.id, doc.data()));
+    });
+  }
+
+  // Soft-hides the item the same way hideDanmu always has: a status plus who,
+  // when and why, so it can be reviewed or restored later
+  public async setContentStatus(target: ReportTarget, status: ContentStatus, moderatorId: string, reason: string, at: Date): Promise<void> {
+    const ref = this.firestore.collection(TARGET_COLLECTIONS[target.type]).doc(target.id);
+    const statusField = statusFieldFor(target.type);
+    // A moderator's decision replaces any automated hold
+    const fields = status === 'hidden'
+      ? { [statusField]: status, heldForReview: false, hiddenAt: at, hiddenBy: moderatorId, hiddenReason: reason }
+      : { [statusField]: status, heldForReview: false, removedAt: at, removedBy: moderatorId, removedReason: reason };
+
+    await this.firestore.runTransaction(async transaction => {
+      const doc = await transaction.get(ref);
+      if (!doc.exists) {
+        throw new NotFoundError(target.type === 'danmu' ? 'Danmu' : 'Content');
+      }
+
+      transaction.update(ref, fields);
+      // Top-level comments count towards the video until they stop being visible
+      const wasVisible = !['hidden', 'removed'].includes(doc.get('status'));
+      if (target.type === 'comment' && wasVisible && !doc.get('parentId')) {
+        transaction.update(this.firestore.collection('videos').doc(doc.get('videoId')), {
+          commentCount: FieldValue.increment(-1),
+        });
+      }
+    });
+  }
+
+  public async releaseHold(target: ReportTarget): Promise<Record<string, any> | null> {
+    const ref = this.firestore.collection(TARGET_COLLECTIONS[target.type]).doc(target.id);
+
+    const released = await this.firestore.runTransaction(async transaction => {
+      const doc = await transaction.get(ref);
+      if (!doc.exists || doc.get('heldForReview') !== true) {
+        return false;
+      }
+
+      if (target.type === 'user') {
+        const privateRef = userModerationRef(target.id);
+        const pending = (await transaction.get(privateRef)).get('pendingProfile') || {};
+        transaction.update(ref, {
+          ...(typeof pending['displayName'] === 'string' && {
+            displayName: pending['displayName'],
+            displayNameLower: pending['displayName'].toLowerCase(),
+          }),
+          ...(typeof pending['bio'] === 'string' && { bio: pending['bio'] }),
+          heldForReview: false,
+          updatedAt: new Date(),
+        });
+        transaction.set(privateRef, { pendingProfile: FieldValue.delete() }, { merge: true });
+        return true;
+      }
+
+      transaction.update(ref, target.type === 'video'
+        ? { moderationStatus: FieldValue.delete(), heldForReview: false }
+        : { status: 'active', heldForReview: false });
+      if (target.type === 'comment' && !doc.get('parentId')) {
+        transaction.update(this.firestore.collection('videos').doc(doc.get('videoId')), {
+          commentCount: FieldValue.increment(1),
+        });
+      }
+      return true;
+    });
+
+    return released ? (await ref.get()).data() ?? null : null;
+  }
+
+  public async recordWarning(uid: string, at: Date): Promise<void> {
+    await userModerationRef(uid).set({ warningCount: FieldValue.increment(1), lastWarnedAt: at }, { merge: true });
+  }
+
+  public async banUser(uid: string, moderatorId: string, reason: string, at: Date): Promise<void> {
+    await this.firestore.collection('users').doc(uid).set({
+      status: 'banned',
+      bannedAt: at,
+      bannedBy: moderatorId,
+      banReason: reason,
+    }, { merge: true });
+    await firebaseService.setUserDisabled(uid, true);
+  }
+
+  public async appendAudit(entry: AuditEntry): Promise<void> {
+    await this.firestore.collection('auditLog').add({
+      ...entry,
+      createdAt: FieldValue.serverTimestamp(),
+    });
+  }
+}
+
+const DEFAULT_REASON = 'Content violation';
+// Reporter recorded on cases opened by automated moderation
+export const SYSTEM_REPORTER = 'system';
+const MAX_CASE_REPORTS = 50;
+// Long enough to apply any action, including a ban's session revocation
+const CLAIM_TTL_MS = 2 * 60 * 1000;
+
+const describeOutcome = (targetType: ReportTargetType, action: ModerationAction): string =>
+  action === 'dismiss'
+    ? `We reviewed the ${targetType} you reported and found it doesn't break our community guidelines.`
+    : `We reviewed the ${targetType} you reported and took action. Thanks for helping keep the community safe.`;
+
+// User reports flow into one case per reported item. Moderators work the open
+// cases by priority and close each with a single action, which is audited and
+// reported back to everyone who filed a report.
+export class ModerationService {
+  constructor(
+    private readonly store: ModerationStore,
+    private readonly notifications: NotificationService = notificationService,
+    private readonly sessions: SessionService = sessionService,
+    private readonly usernames: Pick<typeof usernameService, 'changeUsername'> = usernameService
+  ) {}
+
+  public async report(reporterId: string, input: NewReport, now: Date = new Date()): Promise<{ report: Report; created: boolean }> {
+    const target: ReportTarget = { type: input.targetType, id: input.targetId };
+    const info = await this.store.getTarget(target);
+    if (!info || info.status === 'removed' || info.status === 'deleted') {
+      throw new NotFoundError(input.targetType.charAt(0).toUpperCase() + input.targetType.slice(1));
+    }
+    if (info.ownerId === reporterId) {
+      throw new ValidationError('You cannot report your own content');
+    }
+
+    const caseId = caseIdFor(target);
+    const report: Omit<Report, 'id'> = {
+      caseId,
+      reporterId,
+      targetType: input.targetType,
+      targetId: input.targetId,
+      reason: input.reason,
+      ...(input.details && { details: input.details }),
+      status: 'open',
+      createdAt: now,
+    };
+
+    const result = await this.store.fileReport(report, existing => {
+      // A report on a resolved case starts a fresh review
+      const reopened = !existing || existing.status === 'resolved';
+      const reasons = reopened ? {} : { ...existing.reasons };
+      reasons[input.reason] = (reasons[input.reason] || 0) + 1;
+      const openReports = (reopened ? 0 : existing.openReports) + 1;
+
+      return {
+        id: caseId,
+        targetType: input.targetType,
+        targetId: input.targetId,
+        ownerId: info.ownerId,
+        status: 'open',
+        openReports,
+        totalReports: (existing?.totalReports || 0) + 1,
+        reasons,
+        priority: priorityFor(reasons, openReports),
+        firstReportedAt: reopened ? now : existing.firstReportedAt,
+        lastReportedAt: now,
+        // A moderator may be acting on the case as the report comes in
+        claim: existing?.claim ?? null,
+        resolution: existing?.resolution ?? null,
+      };
+    });
+
+    if (result.created) {
+      logger.info('Content reported', { caseId, reporterId, reason: input.reason });
+    }
+    return result;
+  }
+
+  public getQueue(limit: number, cursor?: string, targetType?: ReportTargetType): Promise<ModerationQueuePage> {
+    return this.store.listQueue(limit, cursor, targetType);
+  }
+
+  public async getCase(caseId: string): Promise<{ case: ModerationCase; reports: Report[] }> {
+    const item = await this.store.getCase(caseId);
+    if (!item) {
+      throw new NotFoundError('Case');
+    }
+    return { case: item, reports: await this.store.listReports(caseId, MAX_CASE_REPORTS) };
+  }
+
+  public async act(
+    caseId: string,
+    moderatorId: string,
+    input: { action: ModerationAction; reason?: string | undefined },
+    now: Date = new Date()
+  ): Promise<ModerationCase> {
+    const item = await this.store.getCase(caseId);
+    if (!item) {
+      throw new NotFoundError('Case');
+    }
+    if (item.status !== 'open') {
+      throw new ConflictError('This case has already been resolved');
+    }
+
+    const { action } = input;
+    const reason = input.reason || DEFAULT_REASON;
+    const target: ReportTarget = { type: item.targetType, id: item.targetId };
+
+    // Anything that can refuse the action is checked before the case is claimed,
+    // so a refused action leaves it as it was
+    let info: TargetInfo | null = null;
+    if (action === 'hide' || action === 'remove') {
+      if (target.type === 'user') {
+        throw new ValidationError('Accounts can be warned or banned, not hidden or removed');
+      }
+      info = await this.store.getTarget(target);
+      if (!info) {
+        throw new NotFoundError(target.type === 'danmu' ? 'Danmu' : 'Content');
+      }
+    }
+    if (action === 'ban') {
+      await this.assertBannable(item.ownerId);
+    }
+
+    // The claim lets one moderator at a time apply effects. The case is only
+    // resolved once they have all been applied; if one fails the claim is
+    // dropped and the case stays in the queue for another attempt.
+    await this.store.claimCase(caseId, { moderatorId, expiresAt: new Date(now.getTime() + CLAIM_TTL_MS) }, now);
+    try {
+      switch (action) {
+        case 'hide':
+        case 'remove':
+          await this.applyStatus(target, info!, action === 'hide' ? 'hidden' : 'removed', moderatorId, reason, now);
+          break;
+        case 'warn':
+          await this.store.recordWarning(item.ownerId, now);
+          await this.notifications.notify({
+            type: 'system',
+            recipientId: item.ownerId,
+            actorId: 'system',
+            groupKey: `warning:${caseId}:${now.getTime()}`,
+            title: 'Community guidelines warning',
+            body: `Your ${target.type} was reported and reviewed by our moderators: ${reason}. Repeated violations can lead to a ban.`,
+          }, now);
+          break;
+        case 'ban':
+          await this.store.banUser(item.ownerId, moderatorId, reason, now);
+          // Signs the account out everywhere; disabled accounts can't get new tokens
+          await this.sessions.revokeAll(item.ownerId);
+          break;
+        case 'dismiss': {
+          const held = await this.store.getTarget(target);
+          if (held?.heldForReview) {
+            const released = await this.store.releaseHold(target);
+            if (held.pendingUsername) {
+              await this.releaseUsername(target.id, held.pendingUsername);
+            }
+            await this.refreshCaches(target, held);
+            if (target.type === 'video' && released) {
+              searchService.syncVideo(target.id, released).catch(error => {
+                logger.error('Failed to sync search index', { videoId: target.id, error });
+              });
+            }
+          }
+          break;
+        }
+      }
+    } catch (error) {
+      await this.store.releaseClaim(caseId, moderatorId).catch(releaseError => {
+        logger.error('Failed to release moderation case claim', { caseId, moderatorId, error: releaseError });
+      });
+      throw error;
+    }
+
+    const resolution = { action, moderatorId, reason, resolvedAt: now };
+    const reports = await this.store.resolveCase(caseId, resolution);
+
+    await this.store.appendAudit({
+      action: `moderation.${action}`,
+      actorId: moderatorId,
+      targetId: target.id,
+      details: { targetType: target.type, caseId, ownerId: item.ownerId, reason, reports: reports.length },
+    });
+
+    await Promise.all(reports.filter(report => report.reporterId !== SYSTEM_REPORTER).map(report => this.notifications.notify({
+      type: 'system',
+      recipientId: report.reporterId,
+      actorId: 'system',
+      groupKey: `report:${report.id}`,
+      title: 'Update on your report',
+      body: describeOutcome(target.type, action),
+    }, now)));
+
+    logger.info('Moderation case resolved', { caseId, action, moderatorId, reports: reports.length });
+    return { ...item, status: 'resolved', openReports: 0, reasons: {}, priority: 0, claim: null, resolution };
+  }
+
+  // Hides one item outside the queue, as moderators do from the player
+  public async hide(target: ReportTarget, moderatorId: string, reason?: string, now: Date = new Date()): Promise<void> {
+    reason = reason || DEFAULT_REASON;
+    await this.setStatus(target, 'hidden', moderatorId, reason, now);
+    await this.store.appendAudit({
+      action: 'moderation.hide',
+      actorId: moderatorId,
+      targetId: target.id,
+      details: { targetType: target.type, reason },
+    });
+  }
+
+  // Queues content that automated moderation held back. Never throws: the
+  // write it came from has already been stored.
+  public async holdForReview(
+    target: ReportTarget,
+    verdict: { provider?: string | undefined; reason?: string | undefined; category?: ReportReason | undefined },
+    now: Date = new Date()
+  ): Promise<void> {
+    try {
+      await this.report(SYSTEM_REPORTER, {
+        targetType: target.type,
+        targetId: target.id,
+        reason: verdict.category || 'other',
+        details: [verdict.provider, verdict.reason].filter(Boolean).join(': '),
+      }, now);
+    } catch (error) {
+      logger.error('Failed to queue held content for review', { target, error });
+    }
+  }
+
+  private async setStatus(target: ReportTarget, status: ContentStatus, moderatorId: string, reason: string, now: Date): Promise<void> {
+    const info = await this.store.getTarget(target);
+    if (!info) {
+      throw new NotFoundError(target.type === 'danmu' ? 'Danmu' : 'Content');
+    }
+    await this.applyStatus(target, info, status, moderatorId, reason, now);
+  }
+
+  private async applyStatus(
+    target: ReportTarget,
+    info: TargetInfo,
+    status: ContentStatus,
+    moderatorId: string,
+    reason: string,
+    now: Date
+  ): Promise<void> {
+    await this.store.setContentStatus(target, status, moderatorId, reason, now);
+    await this.refreshCaches(target, info);
+
+    if (target.type === 'video') {
+      searchService.syncVideo(target.id, null).catch(error => {
+        logger.error('Failed to sync search index', { videoId: target.id, error });
+      });
+    }
+    if (target.type === 'danmu' && info.videoId) {
+      // Connected players drop removed danmu the same way as hidden ones
+      await danmuStreamService.publish({ type: 'hidden', videoId: info.videoId, danmuId: target.id });
+    }
+  }
+
+  private async refreshCaches(target: ReportTarget, info: TargetInfo): Promise<void> {
+    switch (target.type) {
+      case 'video':
+        await cacheService.invalidateTags([
+          cacheTags.video(target.id),
+          cacheTags.videoLists(),
+          cacheTags.userVideos(info.ownerId),
+        ]);
+        break;
+      case 'comment':
+        await cacheService.invalidateTags([
+          ...(info.videoId ? [cacheTags.comments(info.videoId), cacheTags.video(info.videoId)] : []),
+          ...(info.parentId ? [cacheTags.replies(info.parentId)] : []),
+        ]);
+        break;
+      case 'danmu':
+        if (info.videoId) {
+          await cacheService.invalidateTags([
+            cacheTags.danmu(info.videoId),
+            cacheTags.danmuSegment(info.videoId, segmentIndexFor(info.timestamp || 0, config.danmuSegments.durationSeconds)),
+          ]);
+        }
+        break;
+      case 'user':
+        await cacheService.invalidateTags([cacheTags.user(target.id)]);
+        break;
+    }
+  }
+
+  // The handle may have been taken, or the cooldown restarted, while it waited
+  private async releaseUsername(uid: string, username: string): Promise<void> {
+    try {
+      await this.usernames.changeUsername(uid, username);
+    } catch (error) {
+      logger.warn('Held username could not be claimed on release', { uid, username, error });
+    }
+  }
+
+  private async assertBannable(uid: string): Promise<void> {
+    const user = await this.store.getUser(uid);
+    const roles: unknown = user?.['roles'];
+    if (Array.isArray(roles) && (roles.includes('admin') || roles.includes('moderator'))) {
+      throw new ForbiddenError('Moderators and admins cannot be banned from the queue');
+    }
+  }
+}
+
+export const moderationService = new ModerationService(new FirestoreModerationStore());
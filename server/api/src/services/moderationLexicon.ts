@@ -0,0 +1,40 @@
+// Built-in terms for the lexicon moderation provider. Slurs are rejected
+// outright; profanity and self-harm baiting are held for a moderator, since
+// context (quoting, reclaiming, banter between friends) matters more there.
+// Terms are written plainly and normalized the same way as incoming text, so
+// leetspeak, accents and repeated letters are handled by the matcher, not here.
+
+export interface LexiconEntry {
+  term: string;
+  action: 'hold' | 'reject';
+  category: 'hate' | 'harassment' | 'self_harm' | 'sexual';
+}
+
+const entries = (action: LexiconEntry['action'], category: LexiconEntry['category'], terms: string[]): LexiconEntry[] =>
+  terms.map(term => ({ term, action, category }));
+
+export const DEFAULT_LEXICON: LexiconEntry[] = [
+  // Slurs
+  ...entries('reject', 'hate', [
+    'nigger', 'faggot', 'kike', 'chink', 'spic', 'wetback', 'gook', 'raghead', // en
+    '支那', '黑鬼', // zh
+    '쪽발이', // ko
+  ]),
+  ...entries('hold', 'hate', ['nigga', 'tranny', 'retard', 'retarded']),
+
+  // Self-harm baiting
+  ...entries('hold', 'self_harm', ['kys', 'kill yourself', 'go die', '去死', '死ね', '자살해']),
+
+  // Profanity
+  ...entries('hold', 'harassment', [
+    'fuck', 'motherfucker', 'shit', 'bitch', 'cunt', 'asshole', 'bastard', // en
+    'puta', 'puto', 'mierda', 'pendejo', 'cabron', 'gilipollas', // es
+    'putain', 'connard', 'salope', 'encule', // fr
+    'caralho', 'porra', 'foda-se', // pt
+    'scheisse', 'arschloch', 'fotze', // de
+    '傻逼', '他妈的', '操你妈', '肏', '屌你', '仆街', '干你娘', // zh (incl. Cantonese, Taiwanese)
+    'くたばれ', // ja
+    '씨발', '시발', '병신', '개새끼', '존나', // ko
+  ]),
+  ...entries('hold', 'sexual', ['whore', 'slut', '婊子']),
+];
@@ -0,0 +1,343 @@
+import { firebaseService } from './firebase.service';
+import { paginateQuery, PaginationInfo } from '../utils/pagination';
+import { logger } from '../utils/logger';
+
+export const NOTIFICATION_TYPES = ['like', 'comment', 'follow', 'mention', 'system'] as const;
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+// Which switch under users.settings.notifications silences each type
+const PREFERENCE_FOR: Record<NotificationType, string | null> = {
+  like: 'likes',
+  comment: 'comments',
+  follow: 'follows',
+  mention: 'mentions',
+  system: null,
+};
+
+// Only the most recent actors are kept on a group; actorCount keeps the total
+export const MAX_GROUP_ACTORS = 20;
+export const MAX_MENTIONS_PER_COMMENT = 10;
+
+const MENTION_PATTERN = /(?:^|[^a-zA-Z0-9_@])@([a-zA-Z0-9_]{3,30})/g;
+
+export interface StoredNotification {
+  id: string;
+  userId: string;
+  type: NotificationType;
+  // Unread notifications with the same key collapse into one entry
+  groupKey: string;
+  title: string;
+  body: string;
+  read: boolean;
+  actorIds: string[];
+  actorCount: number;
+  relatedUserId?: string;
+  relatedVideoId?: string;
+  relatedCommentId?: string;
+  actionUrl?: string;
+  sent: boolean;
+  // When the push worker may pick this up; null once delivery is settled
+  deliverAfter: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type NewNotification = Omit<StoredNotification, 'id'>;
+
+export interface NotificationEvent {
+  type: NotificationType;
+  recipientId: string;
+  actorId: string;
+  groupKey: string;
+  // Snippet of the comment text, used when the entry has a single actor
+  excerpt?: string;
+  videoId?: string;
+  commentId?: string;
+  actionUrl?: string;
+  // System notifications carry their own text instead of describing the actors
+  title?: string;
+  body?: string;
+}
+
+export interface NotificationPage {
+  notifications: StoredNotification[];
+  pagination: PaginationInfo;
+}
+
+export interface NotificationStore {
+  getUser(uid: string): Promise<Record<string, any> | null>;
+  // Runs `apply` against the recipient's open (unread) group and writes the
+  // result atomically: a new document when there is none, an update otherwise
+  upsertGroup(
+    userId: string,
+    groupKey: string,
+    apply: (existing: StoredNotification | null) => NewNotification | null
+  ): Promise<void>;
+  list(userId: string, limit: number, cursor?: string): Promise<NotificationPage>;
+  countUnread(userId: string): Promise<number>;
+  markRead(userId: string, ids: string[]): Promise<number>;
+  markAllRead(userId: string): Promise<number>;
+}
+
+const BATCH_SIZE = 500;
+
+const fromDoc = (id: string, data: Record<string, any>): StoredNotification => ({
+  ...(data as NewNotification),
+  id,
+  actorIds: Array.isArray(data['actorIds']) ? data['actorIds'] : [],
+  actorCount: typeof data['actorCount'] === 'number' ? data['actorCount'] : 1,
+  createdAt: data['createdAt']?.toDate?.() ?? data['createdAt'],
+  updatedAt: data['updatedAt']?.toDate?.() ?? data['updatedAt'],
+  deliverAfter: data['deliverAfter']?.toDate?.() ?? data['deliverAfter'] ?? null,
+});
+
+export class FirebaseNotificationStore implements NotificationStore {
+  private get firestore() {
+    return firebaseService.getFirestore();
+  }
+
+  private get collection() {
+    return this.firestore.collection('notifications');
+  }
+
+  public async getUser(uid: string): Promise<Record<string, any> | null> {
+    const doc = await this.firestore.collection('users').doc(uid).get();
+    return doc.exists ? doc.data()! : null;
+  }
+
+  public async upsertGroup(
+    userId: string,
+    groupKey: string,
+    apply: (existing: StoredNotification | null) => NewNotification | null
+  ): Promise<void> {
+    await this.firestore.runTransaction(async transaction => {
+      const snapshot = await transaction.get(
+        this.collection
+          .where('userId', '==', userId)
+          .where('groupKey', '==', groupKey)
+          .where('read', '==', false)
+          .limit(1)
+      );
+
+      const openDoc = snapshot.docs[0];
+      const next = apply(openDoc ? fromDoc(openDoc.id, openDoc.data()) : null);
+      if (!next) {
+        return;
+      }
+
+      // Merge so the push worker's delivery bookkeeping survives a regroup
+      transaction.set(openDoc ? openDoc.ref : this.collection.doc(), next, { merge: true });
+    });
+  }
+
+  // Ordered by createdAt, which never changes: a group picking up new actors
+  // mid-scroll would otherwise jump ahead of the cursor and be skipped or repeated
+  public async list(userId: string, limit: number, cursor?: string): Promise<NotificationPage> {
+    const { docs, pagination } = await paginateQuery(this.collection.where('userId', '==', userId), {
+      scope: `notifications:${userId}`,
+      orderBy: [{ field: 'createdAt', direction: 'desc' }],
+      limit,
+      cursor,
+    });
+
+    return {
+      notifications: docs.map(doc => fromDoc(doc.id, doc.data())),
+      pagination,
+    };
+  }
+
+  public async countUnread(userId: string): Promise<number> {
+    const snapshot = await this.collection
+      .where('userId', '==', userId)
+      .where('read', '==', false)
+      .count()
+      .get();
+    return snapshot.data().count;
+  }
+
+  public async markRead(userId: string, ids: string[]): Promise<number> {
+    const docs = await this.firestore.getAll(...ids.map(id => this.collection.doc(id)));
+    const owned = docs.filter(doc => doc.exists && doc.get('userId') === userId && doc.get('read') === false);
+    if (owned.length === 0) {
+      return 0;
+    }
+
+    const batch = this.firestore.batch();
+    owned.forEach(doc => batch.update(doc.ref, { read: true }));
+    await batch.commit();
+    return owned.length;
+  }
+
+  public async markAllRead(userId: string): Promise<number> {
+    let updated = 0;
+
+    // Each pass flips one batch, so the next query picks up where it left off
+    for (;;) {
+      const snapshot = await this.collection
+        .where('userId', '==', userId)
+        .where('read', '==', false)
+        .limit(BATCH_SIZE)
+        .get();
+
+      if (snapshot.empty) {
+        return updated;
+      }
+
+      const batch = this.firestore.batch();
+      snapshot.docs.forEach(doc => batch.update(doc.ref, { read: true }));
+      await batch.commit();
+      updated += snapshot.size;
+    }
+  }
+}
+
+// Missing switches count as on; notificationsEnabled: false silences everything but system messages
+export const wantsNotification = (user: Record<string, any>, type: NotificationType): boolean => {
+  const preference = PREFERENCE_FOR[type];
+  if (!preference) {
+    return true;
+  }
+
+  const settings = user['settings'] || {};
+  if (settings['notificationsEnabled'] === false) {
+    return false;
+  }
+  return settings['notifications']?.[preference] !== false;
+};
+
+// Usernames @mentioned in a piece of text, de-duplicated ignoring case. The
+// first spelling is kept so handles that predate usernameLower still resolve.
+export const extractMentions = (text: string): string[] => {
+  const usernames = new Map<string, string>();
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const username = match[1]!;
+    if (!usernames.has(username.toLowerCase())) {
+      usernames.set(username.toLowerCase(), username);
+    }
+    if (usernames.size >= MAX_MENTIONS_PER_COMMENT) {
+      break;
+    }
+  }
+  return [...usernames.values()];
+};
+
+const EXCERPT_LENGTH = 80;
+
+const excerpt = (text: string): string =>
+  text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH - 1)}…` : text;
+
+// "Bob liked your video" / "Bob and 23 others liked your video"
+export const describeNotification = (
+  type: NotificationType,
+  actorName: string,
+  actorCount: number,
+  options: { isReply?: boolean; excerpt?: string } = {}
+): { title: string; body: string } => {
+  const others = actorCount - 1;
+  const who = others > 0 ? `${actorName} and ${others} ${others === 1 ? 'other' : 'others'}` : actorName;
+  const quote = others === 0 && options.excerpt ? `: "${excerpt(options.excerpt)}"` : '';
+
+  switch (type) {
+    case 'like':
+      return { title: 'New like', body: `${who} liked your video` };
+    case 'comment':
+      return options.isReply
+        ? { title: 'New reply', body: `${who} replied to your comment${quote}` }
+        : { title: 'New comment', body: `${who} commented on your video${quote}` };
+    case 'follow':
+      return { title: 'New follower', body: `${who} started following you` };
+    case 'mention':
+      return { title: 'You were mentioned', body: `${who} mentioned you in a comment${quote}` };
+    default:
+      return { title: 'Notification', body: who };
+  }
+};
+
+const displayNameOf = (user: Record<string, any> | null): string =>
+  user?.['displayName'] || user?.['username'] || 'Someone';
+
+export class NotificationService {
+  constructor(private readonly store: NotificationStore) {}
+
+  // Records one activity for the recipient. Unread entries with the same group
+  // key are folded together, and an actor repeating themselves (like, unlike,
+  // like) is not counted twice. Failures are logged rather than thrown: a lost
+  // notification should never fail the action that caused it.
+  public async notify(event: NotificationEvent, now: Date = new Date()): Promise<boolean> {
+    const { type, recipientId, actorId, groupKey } = event;
+
+    if (recipientId === actorId) {
+      return false;
+    }
+
+    try {
+      const [recipient, actor] = await Promise.all([
+        this.store.getUser(recipientId),
+        this.store.getUser(actorId),
+      ]);
+
+      if (!recipient || !wantsNotification(recipient, type)) {
+        return false;
+      }
+
+      const isReply = groupKey.startsWith('reply:');
+
+      await this.store.upsertGroup(recipientId, groupKey, existing => {
+        const seen = existing?.actorIds.includes(actorId) ?? false;
+        const actorIds = [actorId, ...(existing?.actorIds || []).filter(id => id !== actorId)]
+          .slice(0, MAX_GROUP_ACTORS);
+        const actorCount = (existing?.actorCount ?? 0) + (seen ? 0 : 1);
+
+        const notification: NewNotification = {
+          userId: recipientId,
+          type,
+          groupKey,
+          ...(event.title !== undefined && event.body !== undefined
+            ? { title: event.title, body: event.body }
+            : describeNotification(type, displayNameOf(actor), actorCount, {
+              isReply,
+              ...(event.excerpt !== undefined && { excerpt: event.excerpt }),
+            })),
+          read: false,
+          actorIds,
+          actorCount,
+          relatedUserId: actorId,
+          // A group that was already pushed is not pushed again for each new actor
+          sent: existing?.sent ?? false,
+          deliverAfter: existing ? existing.deliverAfter : now,
+          createdAt: existing?.createdAt ?? now,
+          updatedAt: now,
+        };
+
+        if (event.videoId) notification.relatedVideoId = event.videoId;
+        if (event.commentId) notification.relatedCommentId = event.commentId;
+        if (event.actionUrl) notification.actionUrl = event.actionUrl;
+
+        return notification;
+      });
+
+      return true;
+    } catch (error) {
+      logger.error('Failed to record notification', { type, recipientId, actorId, groupKey, error });
+      return false;
+    }
+  }
+
+  public list(userId: string, limit: number, cursor?: string): Promise<NotificationPage> {
+    return this.store.list(userId, limit, cursor);
+  }
+
+  public countUnread(userId: string): Promise<number> {
+    return this.store.countUnread(userId);
+  }
+
+  public markRead(userId: string, ids: string[]): Promise<number> {
+    return this.store.markRead(userId, [...new Set(ids)]);
+  }
+
+  public markAllRead(userId: string): Promise<number> {
+    return this.store.markAllRead(userId);
+  }
+}
+
+export const notificationService = new NotificationService(new FirebaseNotificationStore());
@@ -0,0 +1,275 @@
+import { config } from '../config';
+import { firebaseService, FieldValue } from './firebase.service';
+import { createPushTransport, PushMessage, PushOutcome, PushTransport } from './pushTransport';
+import { toDate } from './ranking.service';
+import { logger } from '../utils/logger';
+
+// Firestore rejects `in` filters with more than 30 values
+const IN_QUERY_LIMIT = 30;
+
+export interface DueNotification {
+  id: string;
+  data: Record<string, any>;
+}
+
+export interface PushDeliveryStore {
+  // Unsent notifications whose deliverAfter has passed, oldest first
+  findDue(now: Date, limit: number): Promise<DueNotification[]>;
+  // Leases a due notification to this worker by pushing deliverAfter to
+  // `leaseUntil`; false when another worker got there first
+  claim(id: string, now: Date, leaseUntil: Date): Promise<boolean>;
+  update(id: string, patch: Record<string, any>): Promise<void>;
+  getUser(uid: string): Promise<Record<string, any> | null>;
+  // Tokens registered under users/{uid}/devices
+  getDeviceTokens(uid: string): Promise<string[]>;
+  removeDeviceTokens(uid: string, tokens: string[]): Promise<void>;
+}
+
+const isDue = (data: Record<string, any> | undefined, now: Date): boolean =>
+  Boolean(data) && data!['sent'] !== true && data!['deliverAfter'] != null
+  && toDate(data!['deliverAfter']).getTime() <= now.getTime();
+
+export class FirestorePushDeliveryStore implements PushDeliveryStore {
+  private get firestore() {
+    return firebaseService.getFirestore();
+  }
+
+  public async findDue(now: Date, limit: number): Promise<DueNotification[]> {
+    const snapshot = await this.firestore
+      .collection('notifications')
+      .where('sent', '==', false)
+      .where('deliverAfter', '<=', now)
+      .orderBy('deliverAfter', 'asc')
+      .limit(limit)
+      .get();
+    return snapshot.docs.map(doc => ({ id: doc.id, data: doc.data() }));
+  }
+
+  public async claim(id: string, now: Date, leaseUntil: Date): Promise<boolean> {
+    const ref = this.firestore.collection('notifications').doc(id);
+
+    return this.firestore.runTransaction(async (tx) => {
+      const doc = await tx.get(ref);
+      if (!isDue(doc.data(), now)) {
+        return false;
+      }
+      tx.update(ref, { deliverAfter: leaseUntil });
+      return true;
+    });
+  }
+
+  public async update(id: string, patch: Record<string, any>): Promise<void> {
+    await this.firestore.collection('notifications').doc(id).update(patch);
+  }
+
+  public async getUser(uid: string): Promise<Record<string, any> | null> {
+    const doc = await this.firestore.collection('users').doc(uid).get();
+    return doc.exists ? doc.data()! : null;
+  }
+
+  public async getDeviceTokens(uid: string): Promise<string[]> {
+    const snapshot = await this.firestore.collection('users').doc(uid).collection('devices').get();
+    return snapshot.docs.map(doc => doc.get('token')).filter((token): token is string => typeof token === 'string');
+  }
+
+  public async removeDeviceTokens(uid: string, tokens: string[]): Promise<void> {
+    const userRef = this.firestore.collection('users').doc(uid);
+    const tokenChunks: string[][] = [];
+    for (let i = 0; i < tokens.length; i += IN_QUERY_LIMIT) {
+      tokenChunks.push(tokens.slice(i, i + IN_QUERY_LIMIT));
+    }
+
+    const [userDoc, ...devices] = await Promise.all([
+      userRef.get(),
+      ...tokenChunks.map(chunk => userRef.collection('devices').where('token', 'in', chunk).get()),
+    ]);
+
+    const batch = this.firestore.batch();
+    devices.forEach(snapshot => snapshot.docs.forEach(doc => batch.delete(doc.ref)));
+    if (tokens.includes(userDoc.get('deviceToken'))) {
+      batch.update(userRef, { deviceToken: FieldValue.delete() });
+    }
+    await batch.commit();
+  }
+}
+
+const CLOCK_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const MINUTES_PER_DAY = 24 * 60;
+
+const parseClock = (value: unknown): number | null => {
+  const match = typeof value === 'string' ? CLOCK_PATTERN.exec(value) : null;
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+};
+
+// Minutes past local midnight in the user's timezone; unknown zones count as UTC
+const localMinutes = (now: Date, timeZone: string): number => {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-GB', { timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' })
+      .formatToParts(now);
+  } catch {
+    return now.getUTCHours() * 60 + now.getUTCMinutes();
+  }
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value || 0);
+  return part('hour') * 60 + part('minute');
+};
+
+// When the user's quiet hours end, or null if they are not in quiet hours now.
+// settings.quietHours is { start: 'HH:MM', end: 'HH:MM' } in settings.timezone
+// and may wrap past midnight (22:00-07:00).
+export const quietHoursEnd = (settings: Record<string, any> | undefined, now: Date): Date | null => {
+  const start = parseClock(settings?.['quietHours']?.['start']);
+  const end = parseClock(settings?.['quietHours']?.['end']);
+  if (start === null || end === null || start === end) {
+    return null;
+  }
+
+  const local = localMinutes(now, settings?.['timezone'] || 'UTC');
+  const quiet = start < end ? local >= start && local < end : local >= start || local < end;
+  if (!quiet) {
+    return null;
+  }
+
+  const minutesLeft = (end - local + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return new Date(now.getTime() - (now.getTime() % 60_000) + minutesLeft * 60_000);
+};
+
+const toPushMessage = (id: string, data: Record<string, any>): PushMessage => ({
+  title: data['title'] || 'Notification',
+  body: data['body'] || '',
+  data: {
+    notificationId: id,
+    type: String(data['type'] || 'system'),
+    ...(data['actionUrl'] && { actionUrl: String(data['actionUrl']) }),
+  },
+});
+
+export type DeliveryResult = 'sent' | 'retry' | 'failed' | 'deferred' | 'skipped';
+
+export interface PushDeliveryOptions {
+  batchSize: number;
+  maxAttempts: number;
+  // Delay before the first retry; doubles on each further attempt
+  retryBackoffMs: number;
+  leaseMs: number;
+}
+
+// Sends unsent notifications as push messages. Runs on a schedule; each run
+// leases a batch so several instances can share the work without double-sending.
+export class PushDeliveryService {
+  constructor(
+    private readonly store: PushDeliveryStore,
+    private readonly transport: PushTransport,
+    private readonly options: PushDeliveryOptions = config.push
+  ) {}
+
+  public async deliverPending(now: Date = new Date()): Promise<Record<DeliveryResult, number>> {
+    const counts: Record<DeliveryResult, number> = { sent: 0, retry: 0, failed: 0, deferred: 0, skipped: 0 };
+    const due = await this.store.findDue(now, this.options.batchSize);
+
+    for (const { id, data } of due) {
+      if (!await this.store.claim(id, now, new Date(now.getTime() + this.options.leaseMs))) {
+        continue;
+      }
+
+      try {
+        counts[await this.deliver(id, data, now)]++;
+      } catch (error) {
+        // Leave the lease in place; the notification comes back once it expires
+        logger.error('Push delivery crashed', { notificationId: id, error });
+        counts.retry++;
+      }
+    }
+
+    if (due.length > 0) {
+      logger.info('Push delivery run finished', counts);
+    }
+    return counts;
+  }
+
+  private async deliver(id: string, data: Record<string, any>, now: Date): Promise<DeliveryResult> {
+    // Already seen in the app; a push now would only be noise
+    if (data['read'] === true) {
+      await this.store.update(id, { deliverAfter: null, deliveryStatus: 'read' });
+      return 'skipped';
+    }
+
+    const userId = data['userId'] as string;
+    const user = await this.store.getUser(userId);
+
+    const resumeAt = quietHoursEnd(user?.['settings'], now);
+    if (resumeAt) {
+      await this.store.update(id, { deliverAfter: resumeAt });
+      return 'deferred';
+    }
+
+    // Older clients only ever wrote a single token on the user document
+    const tokens = [...new Set([
+      ...await this.store.getDeviceTokens(userId),
+      ...(typeof user?.['deviceToken'] === 'string' ? [user['deviceToken'] as string] : []),
+    ])];
+
+    if (tokens.length === 0) {
+      await this.store.update(id, { deliverAfter: null, deliveryStatus: 'no-devices' });
+      return 'skipped';
+    }
+
+    let outcomes: PushOutcome[];
+    try {
+      outcomes = await this.transport.send(tokens, toPushMessage(id, data));
+    } catch (error) {
+      const message = error instanceof Error && error.message ? error.message : 'send failed';
+      outcomes = tokens.map(token => ({ token, status: 'retry', error: message }));
+    }
+
+    const invalid = outcomes.filter(outcome => outcome.status === 'invalid').map(outcome => outcome.token);
+    if (invalid.length > 0) {
+      await this.store.removeDeviceTokens(userId, invalid);
+      logger.info('Removed invalid push tokens', { userId, count: invalid.length });
+    }
+
+    // One device is enough: retrying the rest would re-alert the ones that got it
+    if (outcomes.some(outcome => outcome.status === 'sent')) {
+      await this.store.update(id, {
+        sent: true,
+        sentAt: now,
+        deliverAfter: null,
+        deliveryStatus: 'sent',
+        deliveryError: null,
+      });
+      return 'sent';
+    }
+
+    const transient = outcomes.find(outcome => outcome.status === 'retry');
+    if (!transient) {
+      await this.store.update(id, { deliverAfter: null, deliveryStatus: 'no-devices' });
+      return 'skipped';
+    }
+
+    const attempts = (Number(data['deliveryAttempts']) || 0) + 1;
+    const error = 'error' in transient ? transient.error : 'unknown';
+
+    if (attempts >= this.options.maxAttempts) {
+      await this.store.update(id, {
+        deliverAfter: null,
+        deliveryStatus: 'failed',
+        deliveryAttempts: attempts,
+        deliveryError: error,
+      });
+      logger.warn('Push delivery failed permanently', { notificationId: id, attempts, error });
+      return 'failed';
+    }
+
+    await this.store.update(id, {
+      deliverAfter: new Date(now.getTime() + this.options.retryBackoffMs * 2 ** (attempts - 1)),
+      deliveryAttempts: attempts,
+      deliveryError: error,
+    });
+    return 'retry';
+  }
+}
+
+export const pushDeliveryService = new PushDeliveryService(
+  new FirestorePushDeliveryStore(),
+  createPushTransport(config.push.transport)
+);
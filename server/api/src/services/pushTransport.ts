@@ -0,0 +1,93 @@
+import { firebaseService } from './firebase.service';
+import { logger } from '../utils/logger';
+
+export interface PushMessage {
+  title: string;
+  body: string;
+  // FCM only carries string values in the data payload
+  data: Record<string, string>;
+}
+
+// Per-token outcome. 'invalid' tokens will never work again and should be
+// forgotten; 'retry' covers outages, throttling and anything else transient.
+export type PushOutcome =
+  | { token: string; status: 'sent' }
+  | { token: string; status: 'invalid' | 'retry'; error: string };
+
+// Adapter slot: FCM in production, the recording stand-in in tests and local runs
+export interface PushTransport {
+  readonly name: string;
+  send(tokens: string[], message: PushMessage): Promise<PushOutcome[]>;
+}
+
+const INVALID_TOKEN_CODES = new Set([
+  'messaging/registration-token-not-registered',
+  'messaging/invalid-registration-token',
+]);
+
+export class FcmPushTransport implements PushTransport {
+  public readonly name = 'fcm';
+
+  public async send(tokens: string[], message: PushMessage): Promise<PushOutcome[]> {
+    const response = await firebaseService.getMessaging().sendEachForMulticast({
+      tokens,
+      notification: { title: message.title, body: message.body },
+      data: message.data,
+    });
+
+    return response.responses.map((result, index): PushOutcome => {
+      const token = tokens[index]!;
+      if (result.success) {
+        return { token, status: 'sent' };
+      }
+      const code = result.error?.code || 'unknown';
+      return { token, status: INVALID_TOKEN_CODES.has(code) ? 'invalid' : 'retry', error: code };
+    });
+  }
+}
+
+// Records every push instead of sending it. Tokens listed in `invalidTokens`
+// are reported as unregistered, and `failNext` makes that many sends fail
+// transiently, so tests can drive cleanup and retries.
+export class RecordingPushTransport implements PushTransport {
+  public readonly name = 'recording';
+  public readonly sent: Array<{ token: string; message: PushMessage }> = [];
+  public readonly invalidTokens = new Set<string>();
+  public failNext = 0;
+
+  public async send(tokens: string[], message: PushMessage): Promise<PushOutcome[]> {
+    if (this.failNext > 0) {
+      this.failNext--;
+      return tokens.map(token => ({ token, status: 'retry', error: 'unavailable' }));
+    }
+
+    return tokens.map((token): PushOutcome => {
+      if (this.invalidTokens.has(token)) {
+        return { token, status: 'invalid', error: 'registration-token-not-registered' };
+      }
+      this.sent.push({ token, message });
+      logger.debug('Recorded push', { token, title: message.title });
+      return { token, status: 'sent' };
+    });
+  }
+}
+
+export type PushTransportFactory = () => PushTransport;
+
+const transports = new Map<string, PushTransportFactory>([
+  ['fcm', () => new FcmPushTransport()],
+  ['recording', () => new RecordingPushTransport()],
+]);
+
+// Other providers (APNs direct, a vendor SDK) register here and are selected with PUSH_TRANSPORT
+export const registerPushTransport = (name: string, factory: PushTransportFactory): void => {
+  transports.set(name, factory);
+};
+
+export const createPushTransport = (name: string): PushTransport => {
+  const factory = transports.get(name);
+  if (!factory) {
+    throw new Error(`Unknown push transport: ${name}`);
+  }
+  return factory();
+};
@@ -0,0 +1,288 @@
+import { firebaseService, Timestamp } from './firebase.service';
+import { isTakenDown } from './videoVisibility';
+import { logger } from '../utils/logger';
+
+export interface RankableVideo {
+  id: string;
+  userId: string;
+  tags: string[];
+  likeCount: number;
+  viewCount: number;
+  commentCount: number;
+  createdAt: Date;
+  // Raw document data, kept so callers can shape the response without a re-read
+  data: Record<string, any>;
+}
+
+export interface RankedVideo extends RankableVideo {
+  score: number;
+}
+
+export interface RankingDataSource {
+  getCandidateVideos(limit: number): Promise<RankableVideo[]>;
+  getVideosByIds(ids: string[]): Promise<RankableVideo[]>;
+  getLikedVideoIds(userId: string, limit: number): Promise<string[]>;
+  getViewedVideoIds(userId: string, limit: number): Promise<string[]>;
+  getFollowedUserIds(userId: string, limit: number): Promise<string[]>;
+}
+
+export interface RankingOptions {
+  candidateLimit: number;
+  signalLimit: number;
+  // Hours for a video's freshness boost to halve
+  freshnessHalfLifeHours: number;
+  // Max videos from the same creator allowed back to back
+  maxConsecutivePerCreator: number;
+  weights: {
+    follow: number;
+    tagAffinity: number;
+    engagement: number;
+    freshness: number;
+    seenPenalty: number;
+  };
+}
+
+const DEFAULT_OPTIONS: RankingOptions = {
+  candidateLimit: 300,
+  signalLimit: 200,
+  freshnessHalfLifeHours: 48,
+  maxConsecutivePerCreator: 2,
+  weights: {
+    follow: 3,
+    tagAffinity: 4,
+    engagement: 1,
+    freshness: 2,
+    seenPenalty: 0.3,
+  },
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Firestore timestamps, Dates and what they look like after JSON all come back as Dates
+export const toDate = (value: unknown): Date => {
+  if (value instanceof Date) return value;
+  if (value instanceof Timestamp) return value.toDate();
+  if (typeof value === 'string' || typeof value === 'number') return new Date(value);
+  return new Date(0);
+};
+
+export const toRankableVideo = (id: string, data: Record<string, any>): RankableVideo => ({
+  id,
+  userId: data['userId'],
+  tags: Array.isArray(data['tags']) ? data['tags'].map((tag: string) => String(tag).toLowerCase()) : [],
+  likeCount: data['likeCount'] || 0,
+  viewCount: data['viewCount'] || 0,
+  commentCount: data['commentCount'] || 0,
+  createdAt: toDate(data['createdAt']),
+  data,
+});
+
+export class FirestoreRankingDataSource implements RankingDataSource {
+  private get firestore() {
+    return firebaseService.getFirestore();
+  }
+
+  public async getCandidateVideos(limit: number): Promise<RankableVideo[]> {
+    const publicVideos = this.firestore
+      .collection('videos')
+      .where('visibility', '==', 'public')
+      .where('status', '==', 'published');
+
+    // Mix the newest uploads with the all-time most liked so cold users still get depth
+    const [recent, popular] = await Promise.all([
+      publicVideos.orderBy('createdAt', 'desc').limit(limit).get(),
+      publicVideos.orderBy('likeCount', 'desc').limit(Math.ceil(limit / 3)).get(),
+    ]);
+
+    const byId = new Map<string, RankableVideo>();
+    [...recent.docs, ...popular.docs]
+      .filter(doc => !isTakenDown(doc.data()))
+      .forEach(doc => byId.set(doc.id, toRankableVideo(doc.id, doc.data())));
+
+    return [...byId.values()];
+  }
+
+  public async getVideosByIds(ids: string[]): Promise<RankableVideo[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const refs = ids.map(id => this.firestore.collection('videos').doc(id));
+    const docs = await this.firestore.getAll(...refs);
+
+    return docs
+      .filter(doc => doc.exists)
+      .map(doc => toRankableVideo(doc.id, doc.data()!));
+  }
+
+  public async getLikedVideoIds(userId: string, limit: number): Promise<string[]> {
+    const snapshot = await this.firestore
+      .collection('likes')
+      .where('userId', '==', userId)
+      .orderBy('createdAt', 'desc')
+      .limit(limit)
+      .get();
+
+    return snapshot.docs.map(doc => doc.data()['videoId']);
+  }
+
+  public async getViewedVideoIds(userId: string, limit: number): Promise<string[]> {
+    const snapshot = await this.firestore
+      .collection('views')
+      .where('userId', '==', userId)
+      .orderBy('viewedAt', 'desc')
+      .limit(limit)
+      .get();
+
+    return snapshot.docs.map(doc => doc.data()['videoId']);
+  }
+
+  public async getFollowedUserIds(userId: string, limit: number): Promise<string[]> {
+    const snapshot = await this.firestore
+      .collection('follows')
+      .where('followerId', '==', userId)
+      .limit(limit)
+      .get();
+
+    return snapshot.docs.map(doc => doc.data()['followingId']);
+  }
+}
+
+export class RankingService {
+  private readonly options: RankingOptions;
+
+  constructor(
+    private readonly dataSource: RankingDataSource,
+    options: Partial<RankingOptions> = {}
+  ) {
+    this.options = {
+      ...DEFAULT_OPTIONS,
+      ...options,
+      weights: { ...DEFAULT_OPTIONS.weights, ...options.weights },
+    };
+  }
+
+  // Personalized ranking for signed-in users, trending order for everyone else
+  public async rankForUser(userId?: string, now: Date = new Date()): Promise<RankedVideo[]> {
+    const candidates = await this.dataSource.getCandidateVideos(this.options.candidateLimit);
+
+    if (!userId) {
+      return this.applyDiversity(this.rankTrending(candidates, now));
+    }
+
+    const { signalLimit } = this.options;
+    const [likedIds, viewedIds, followedIds] = await Promise.all([
+      this.dataSource.getLikedVideoIds(userId, signalLimit),
+      this.dataSource.getViewedVideoIds(userId, signalLimit),
+      this.dataSource.getFollowedUserIds(userId, signalLimit * 5),
+    ]);
+
+    // No history to personalize from yet
+    if (likedIds.length === 0 && viewedIds.length === 0 && followedIds.length === 0) {
+      return this.applyDiversity(this.rankTrending(candidates, now));
+    }
+
+    const tagAffinity = await this.buildTagAffinity(candidates, likedIds, viewedIds);
+    const followed = new Set(followedIds);
+    const liked = new Set(likedIds);
+    const seen = new Set(viewedIds);
+    const { weights } = this.options;
+
+    const ranked = candidates
+      .filter(video => video.userId !== userId && !liked.has(video.id))
+      .map(video => {
+        const affinity = video.tags.length > 0
+          ? video.tags.reduce((sum, tag) => sum + (tagAffinity.get(tag) || 0), 0) / video.tags.length
+          : 0;
+
+        let score =
+          weights.follow * (followed.has(video.userId) ? 1 : 0) +
+          weights.tagAffinity * affinity +
+          weights.engagement * this.engagementScore(video) +
+          weights.freshness * this.freshness(video, now);
+
+        if (seen.has(video.id)) {
+          score *= weights.seenPenalty;
+        }
+
+        return { ...video, score };
+      })
+      .sort((a, b) => b.score - a.score);
+
+    logger.debug('For You feed ranked', { userId, candidates: candidates.length, ranked: ranked.length });
+
+    return this.applyDiversity(ranked);
+  }
+
+  public rankTrending(videos: RankableVideo[], now: Date = new Date()): RankedVideo[] {
+    return videos
+      .map(video => {
+        const ageHours = Math.max(0, (now.getTime() - video.createdAt.getTime()) / HOUR_MS);
+        const interactions = video.likeCount * 2 + video.commentCount * 3 + video.viewCount * 0.1;
+        return { ...video, score: interactions / Math.pow(ageHours + 2, 1.5) };
+      })
+      .sort((a, b) => b.score - a.score);
+  }
+
+  // Greedy re-order: take the best remaining video that doesn't extend a creator streak
+  public applyDiversity<T extends RankableVideo>(ranked: T[]): T[] {
+    const { maxConsecutivePerCreator } = this.options;
+    const remaining = [...ranked];
+    const result: T[] = [];
+
+    while (remaining.length > 0) {
+      const streak = result.slice(-maxConsecutivePerCreator);
+      const blockedCreator = streak.length === maxConsecutivePerCreator &&
+        streak.every(video => video.userId === streak[0]?.userId)
+        ? streak[0]?.userId
+        : undefined;
+
+      const index = remaining.findIndex(video => video.userId !== blockedCreator);
+      const [next] = remaining.splice(index === -1 ? 0 : index, 1);
+      result.push(next!);
+    }
+
+    return result;
+  }
+
+  private async buildTagAffinity(
+    candidates: RankableVideo[],
+    likedIds: string[],
+    viewedIds: string[]
+  ): Promise<Map<string, number>> {
+    const known = new Map(candidates.map(video => [video.id, video]));
+    const missing = [...new Set([...likedIds, ...viewedIds])].filter(id => !known.has(id));
+    (await this.dataSource.getVideosByIds(missing)).forEach(video => known.set(video.id, video));
+
+    const counts = new Map<string, number>();
+    const addTags = (ids: string[], weight: number) => {
+      ids.forEach(id => {
+        known.get(id)?.tags.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + weight));
+      });
+    };
+
+    // Likes are a much stronger signal than a view
+    addTags(likedIds, 2);
+    addTags(viewedIds, 1);
+
+    const max = Math.max(0, ...counts.values());
+    if (max > 0) {
+      counts.forEach((count, tag) => counts.set(tag, count / max));
+    }
+
+    return counts;
+  }
+
+  private engagementScore(video: RankableVideo): number {
+    const interactions = video.likeCount * 2 + video.commentCount * 3 + video.viewCount * 0.1;
+    // Squash into 0..1 so a viral outlier can't drown out personal signals
+    return 1 - 1 / (1 + Math.log1p(interactions) / 5);
+  }
+
+  private freshness(video: RankableVideo, now: Date): number {
+    const ageHours = Math.max(0, (now.getTime() - video.createdAt.getTime()) / HOUR_MS);
+    return Math.pow(0.5, ageHours / this.options.freshnessHalfLifeHours);
+  }
+}
+
+export const rankingService = new RankingService(new FirestoreRankingDataSource());
@@ -0,0 +1,268 @@
+import { randomUUID } from 'crypto';
+import type Redis from 'ioredis';
+import type { ClientRateLimitInfo, IncrementResponse, Options, Store } from 'express-rate-limit';
+import { cacheService } from './cache.service';
+import { logger } from '../utils/logger';
+
+// Sliding-window log: every accepted hit is a timestamp, and a client is limited
+// by how many fall inside the trailing window. The whole read-prune-add cycle runs
+// as one Lua script so concurrent requests cannot both see the same count.
+// Rejected hits are not logged, otherwise a client that keeps retrying would push
+// its own window forward forever.
+//
+// KEYS[1] log key; ARGV: windowMs, limit (0 = unlimited), unique member.
+// Returns { count, resetAt } with resetAt in epoch milliseconds.
+const SLIDING_WINDOW_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local window = tonumber(ARGV[1])
+local limit = tonumber(ARGV[2])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+local count = redis.call('ZCARD', KEYS[1])
+if limit == 0 or count < limit then
+  redis.call('ZADD', KEYS[1], now, ARGV[3])
+  redis.call('PEXPIRE', KEYS[1], window)
+end
+count = count + 1
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+local resetAt = now + window
+if oldest[2] then
+  resetAt = tonumber(oldest[2]) + window
+end
+return { count, resetAt }
+`;
+
+// Same as above without recording a hit
+const PEEK_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local window = tonumber(ARGV[1])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+local count = redis.call('ZCARD', KEYS[1])
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+local resetAt = now + window
+if oldest[2] then
+  resetAt = tonumber(oldest[2]) + window
+end
+return { count, resetAt }
+`;
+
+export interface SlidingWindowStoreOptions {
+  // Namespaces this limiter's keys so two limiters never share a counter
+  prefix: string;
+  // Where to find Redis; returns null to use the in-memory log
+  redis?: () => Redis | null;
+  // Clock for the in-memory log, overridable in tests
+  now?: () => number;
+}
+
+// In-process equivalent of the Lua script. Node runs each call to completion,
+// so a plain array per key is already atomic within one instance.
+export class InMemorySlidingWindowLog {
+  private hits = new Map<string, number[]>();
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  public increment(key: string, windowMs: number, limit: number): ClientRateLimitInfo {
+    const now = this.now();
+    const log = this.prune(key, now, windowMs);
+
+    const count = log.length + 1;
+
+    if (limit === 0 || log.length < limit) {
+      log.push(now);
+      this.hits.set(key, log);
+    }
+
+    return { totalHits: count, resetTime: this.resetTime(log, now, windowMs) };
+  }
+
+  public get(key: string, windowMs: number): ClientRateLimitInfo | undefined {
+    const now = this.now();
+    const log = this.prune(key, now, windowMs);
+    if (log.length === 0) {
+      return undefined;
+    }
+    return { totalHits: log.length, resetTime: this.resetTime(log, now, windowMs) };
+  }
+
+  public decrement(key: string): void {
+    const log = this.hits.get(key);
+    log?.pop();
+    if (log && log.length === 0) {
+      this.hits.delete(key);
+    }
+  }
+
+  public reset(key: string): void {
+    this.hits.delete(key);
+  }
+
+  public clear(): void {
+    this.hits.clear();
+  }
+
+  // Drops every key whose newest hit has left the window
+  public sweep(windowMs: number): void {
+    const cutoff = this.now() - windowMs;
+    this.hits.forEach((log, key) => {
+      if ((log[log.length - 1] ?? 0) <= cutoff) {
+        this.hits.delete(key);
+      }
+    });
+  }
+
+  private prune(key: string, now: number, windowMs: number): number[] {
+    const log = this.hits.get(key) || [];
+    const cutoff = now - windowMs;
+    let expired = 0;
+    while (expired < log.length && log[expired]! <= cutoff) {
+      expired++;
+    }
+    if (expired > 0) {
+      log.splice(0, expired);
+    }
+    if (log.length === 0) {
+      this.hits.delete(key);
+    }
+    return log;
+  }
+
+  private resetTime(log: number[], now: number, windowMs: number): Date {
+    return new Date((log[0] ?? now) + windowMs);
+  }
+}
+
+// express-rate-limit store backed by the shared Redis connection when it is up,
+// and by a per-process log otherwise, mirroring how CacheService falls back.
+export class SlidingWindowStore implements Store {
+  public readonly prefix: string;
+  public readonly localKeys = false;
+  private windowMs = 60 * 1000;
+  private limit = 0;
+  private memory: InMemorySlidingWindowLog;
+  private sweepTimer: NodeJS.Timeout | null = null;
+  private readonly redis: () => Redis | null;
+  // Members this process added to each Redis log, oldest first. express-rate-limit
+  // hands decrement only the key, so this is how it takes back a hit of its own
+  // rather than whichever hit is newest across every instance.
+  private recorded = new Map<string, Array<{ member: string; at: number }>>();
+
+  constructor(options: SlidingWindowStoreOptions) {
+    this.prefix = options.prefix;
+    this.redis = options.redis || (() => cacheService.getRedisClient());
+    this.memory = new InMemorySlidingWindowLog(options.now);
+  }
+
+  public init(options: Options): void {
+    this.windowMs = options.windowMs;
+    // A per-request limit function can't be known here, so every hit is logged
+    this.limit = typeof options.limit === 'number' ? options.limit : 0;
+
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+    }
+    this.sweepTimer = setInterval(() => this.sweep(), this.windowMs).unref();
+  }
+
+  public async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+    const redis = this.redis();
+    if (redis) {
+      try {
+        const [count, resetAt] = await redis.eval(PEEK_SCRIPT, 1, this.prefix + key, this.windowMs) as [number, number];
+        return count > 0 ? { totalHits: count, resetTime: new Date(resetAt) } : undefined;
+      } catch (error) {
+        logger.error(`Rate limit lookup failed for key: ${this.prefix + key}`, error);
+      }
+    }
+    return this.memory.get(this.prefix + key, this.windowMs);
+  }
+
+  public async increment(key: string): Promise<IncrementResponse> {
+    const redis = this.redis();
+    if (redis) {
+      try {
+        const member = randomUUID();
+        const [count, resetAt] = await redis.eval(
+          SLIDING_WINDOW_SCRIPT,
+          1,
+          this.prefix + key,
+          this.windowMs,
+          this.limit,
+          member
+        ) as [number, number];
+        // The script only logs hits that fit under the limit
+        if (this.limit === 0 || count <= this.limit) {
+          const members = this.recorded.get(this.prefix + key) || [];
+          members.push({ member, at: Date.now() });
+          this.recorded.set(this.prefix + key, members);
+        }
+        return { totalHits: count, resetTime: new Date(resetAt) };
+      } catch (error) {
+        logger.error(`Rate limit increment failed for key: ${this.prefix + key}`, error);
+      }
+    }
+    return this.memory.increment(this.prefix + key, this.windowMs, this.limit);
+  }
+
+  public async decrement(key: string): Promise<void> {
+    const members = this.recorded.get(this.prefix + key);
+    const own = members?.pop();
+    if (members?.length === 0) {
+      this.recorded.delete(this.prefix + key);
+    }
+
+    const redis = this.redis();
+    if (own && redis) {
+      try {
+        await redis.zrem(this.prefix + key, own.member);
+      } catch (error) {
+        logger.error(`Rate limit decrement failed for key: ${this.prefix + key}`, error);
+      }
+      return;
+    }
+    this.memory.decrement(this.prefix + key);
+  }
+
+  public async resetKey(key: string): Promise<void> {
+    const redis = this.redis();
+    if (redis) {
+      try {
+        await redis.del(this.prefix + key);
+      } catch (error) {
+        logger.error(`Rate limit reset failed for key: ${this.prefix + key}`, error);
+      }
+    }
+    this.recorded.delete(this.prefix + key);
+    this.memory.reset(this.prefix + key);
+  }
+
+  // Only clears the local log; Redis keys expire with their window
+  public resetAll(): void {
+    this.recorded.clear();
+    this.memory.clear();
+  }
+
+  public shutdown(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+    this.recorded.clear();
+    this.memory.clear();
+  }
+
+  // Hits that left the window are gone from Redis too, so there is nothing to take back
+  private sweep(): void {
+    const cutoff = Date.now() - this.windowMs;
+    this.recorded.forEach((members, key) => {
+      const live = members.filter(({ at }) => at > cutoff);
+      if (live.length > 0) {
+        this.recorded.set(key, live);
+      } else {
+        this.recorded.delete(key);
+      }
+    });
+    this.memory.sweep(this.windowMs);
+  }
+}
@@ -0,0 +1,152 @@
+import type Redis from 'ioredis';
+import { config } from '../config';
+import { firebaseService } from './firebase.service';
+import { cacheService } from './cache.service';
+import { toDate } from './ranking.service';
+import { createSearchIndex, SearchDocument, SearchIndex, SearchQuery, SearchResult } from './searchIndex';
+import { isPubliclyVisible, isTakenDown } from './videoVisibility';
+import { logger } from '../utils/logger';
+
+export const toSearchDocument = (id: string, data: Record<string, any>): SearchDocument => ({
+  id,
+  title: data['title'] || '',
+  description: data['description'] || '',
+  tags: Array.isArray(data['tags']) ? data['tags'] : [],
+  createdAt: toDate(data['createdAt']).getTime(),
+  viewCount: data['viewCount'] || 0,
+  likeCount: data['likeCount'] || 0,
+});
+
+const SYNC_CHANNEL = 'search:sync';
+
+// Tells the other instances holding an in-process index about a write
+interface SyncMessage {
+  origin: string;
+  id: string;
+  doc: SearchDocument | null;
+}
+
+export type VideoLoader = () => Promise<SearchDocument[]>;
+
+const loadSearchableVideos: VideoLoader = async () => {
+  const snapshot = await firebaseService.getFirestore()
+    .collection('videos')
+    .where('visibility', '==', 'public')
+    .where('status', '==', 'published')
+    .select('title', 'description', 'tags', 'createdAt', 'viewCount', 'likeCount', 'moderationStatus')
+    .get();
+
+  return snapshot.docs
+    .filter(doc => !isTakenDown(doc.data()))
+    .map(doc => toSearchDocument(doc.id, doc.data()));
+};
+
+export class SearchService {
+  private ready: Promise<void> | null = null;
+  private subscriber: Redis | null = null;
+  private readonly origin = `${process.pid}:${Math.random().toString(36).slice(2)}`;
+
+  constructor(
+    private readonly index: SearchIndex = createSearchIndex(config.search.provider),
+    private readonly loadAll: VideoLoader = loadSearchableVideos,
+    private readonly redis: () => Redis | null = () => cacheService.getRedisClient()
+  ) {
+    logger.info(`Using ${this.index.name} search index`);
+  }
+
+  public async search(query: SearchQuery): Promise<SearchResult> {
+    await this.ensureReady();
+    return this.index.search(query);
+  }
+
+  // Keeps the index in step with a video write; drops videos that stop being public
+  public async syncVideo(id: string, data: Record<string, any> | null): Promise<void> {
+    const doc = data && isPubliclyVisible(data) ? toSearchDocument(id, data) : null;
+
+    if (this.ready) {
+      await this.apply(id, doc);
+    }
+    // Not bootstrapped here yet; the initial rebuild will pick this write up,
+    // but instances that already built their index still need to hear about it
+    await this.broadcast(id, doc);
+  }
+
+  public async rebuild(): Promise<void> {
+    const docs = await this.loadAll();
+    await this.index.replaceAll(docs);
+    this.ready = this.ready || Promise.resolve();
+
+    logger.info('Search index rebuilt', { provider: this.index.name, documents: docs.length });
+  }
+
+  public async stop(): Promise<void> {
+    const subscriber = this.subscriber;
+    this.subscriber = null;
+    await subscriber?.quit().catch(() => undefined);
+  }
+
+  private async apply(id: string, doc: SearchDocument | null): Promise<void> {
+    if (doc) {
+      await this.index.upsert(doc);
+    } else {
+      await this.index.remove(id);
+    }
+  }
+
+  private async broadcast(id: string, doc: SearchDocument | null): Promise<void> {
+    const redis = this.index.inProcess ? this.redis() : null;
+    if (!redis) {
+      return;
+    }
+    try {
+      const message: SyncMessage = { origin: this.origin, id, doc };
+      await redis.publish(SYNC_CHANNEL, JSON.stringify(message));
+    } catch (error) {
+      // The periodic rebuild catches other instances up
+      logger.warn('Failed to broadcast search index update', { videoId: id, error });
+    }
+  }
+
+  private ensureReady(): Promise<void> {
+    if (!this.ready) {
+      // Listen before loading so writes made during the rebuild aren't missed
+      this.listen();
+      this.ready = this.rebuild().catch(error => {
+        // Let the next request retry the bootstrap
+        this.ready = null;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+
+  // A connection in subscriber mode can't run other commands, so it gets its own
+  private listen(): void {
+    const redis = this.index.inProcess && !this.subscriber ? this.redis() : null;
+    if (!redis) {
+      return;
+    }
+
+    const subscriber = redis.duplicate();
+    subscriber.on('message', (_channel: string, raw: string) => {
+      try {
+        const message = JSON.parse(raw) as SyncMessage;
+        if (message.origin !== this.origin) {
+          void this.apply(message.id, message.doc);
+        }
+      } catch (error) {
+        logger.warn('Dropping malformed search sync message', { error });
+      }
+    });
+    subscriber.on('error', (error) => {
+      logger.warn('Search sync subscriber error', error);
+    });
+    subscriber.subscribe(SYNC_CHANNEL).catch(error => {
+      logger.warn('Failed to subscribe to search sync channel', { error });
+    });
+
+    this.subscriber = subscriber;
+  }
+}
+
+export const searchService = new SearchService();
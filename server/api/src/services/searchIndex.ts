@@ -0,0 +1,291 @@
+import { tokenize, normalizeText } from '../utils/tokenizer';
+
+export type SearchSort = 'relevance' | 'date' | 'views' | 'likes';
+
+export interface SearchDocument {
+  id: string;
+  title: string;
+  description: string;
+  tags: string[];
+  createdAt: number;
+  viewCount: number;
+  likeCount: number;
+}
+
+export interface SearchQuery {
+  text: string;
+  tags?: string[] | undefined;
+  sort?: SearchSort | undefined;
+  offset: number;
+  limit: number;
+}
+
+export interface SearchHit {
+  id: string;
+  score: number;
+}
+
+export interface SearchResult {
+  hits: SearchHit[];
+  total: number;
+}
+
+// Adapter slot: anything that can index and query videos (the built-in inverted
+// index, Algolia, Elasticsearch, ...) plugs in behind this interface
+export interface SearchIndex {
+  readonly name: string;
+  // Held in this process's memory, so writes must be broadcast to other instances
+  readonly inProcess?: boolean;
+  upsert(doc: SearchDocument): Promise<void>;
+  remove(id: string): Promise<void>;
+  replaceAll(docs: SearchDocument[]): Promise<void>;
+  search(query: SearchQuery): Promise<SearchResult>;
+  size(): Promise<number>;
+}
+
+type Field = 'title' | 'tags' | 'description';
+
+const FIELD_WEIGHTS: Record<Field, number> = {
+  title: 3,
+  tags: 2,
+  description: 1,
+};
+
+// Standard BM25 constants
+const K1 = 1.2;
+const B = 0.75;
+// Prefix expansions count for less than an exact term hit
+const PREFIX_DISCOUNT = 0.7;
+const MIN_PREFIX_LENGTH = 2;
+const MAX_PREFIX_EXPANSIONS = 50;
+
+interface IndexedDocument {
+  doc: SearchDocument;
+  // Weighted term frequency across fields (BM25F style)
+  termFrequencies: Map<string, number>;
+  length: number;
+  normalizedTags: string[];
+}
+
+export class InvertedSearchIndex implements SearchIndex {
+  public readonly name = 'inverted';
+  public readonly inProcess = true;
+
+  private documents = new Map<string, IndexedDocument>();
+  private postings = new Map<string, Set<string>>();
+  private totalLength = 0;
+  private sortedTerms: string[] | null = null;
+
+  public async upsert(doc: SearchDocument): Promise<void> {
+    this.removeSync(doc.id);
+
+    const termFrequencies = new Map<string, number>();
+    let length = 0;
+
+    const fields: Array<[Field, string]> = [
+      ['title', doc.title],
+      ['description', doc.description],
+      ['tags', doc.tags.join(' ')],
+    ];
+
+    fields.forEach(([field, text]) => {
+      tokenize(text).forEach(term => {
+        termFrequencies.set(term, (termFrequencies.get(term) || 0) + FIELD_WEIGHTS[field]);
+        length += FIELD_WEIGHTS[field];
+      });
+    });
+
+    termFrequencies.forEach((_tf, term) => {
+      if (!this.postings.has(term)) {
+        this.postings.set(term, new Set());
+        this.sortedTerms = null;
+      }
+      this.postings.get(term)!.add(doc.id);
+    });
+
+    this.documents.set(doc.id, {
+      doc,
+      termFrequencies,
+      length,
+      normalizedTags: doc.tags.map(tag => normalizeText(tag)),
+    });
+    this.totalLength += length;
+  }
+
+  public async remove(id: string): Promise<void> {
+    this.removeSync(id);
+  }
+
+  public async replaceAll(docs: SearchDocument[]): Promise<void> {
+    this.documents.clear();
+    this.postings.clear();
+    this.totalLength = 0;
+    this.sortedTerms = null;
+
+    for (const doc of docs) {
+      await this.upsert(doc);
+    }
+  }
+
+  public async size(): Promise<number> {
+    return this.documents.size;
+  }
+
+  public async search(query: SearchQuery): Promise<SearchResult> {
+    const queryTerms = [...new Set(tokenize(query.text))];
+    const scores = new Map<string, number>();
+
+    if (queryTerms.length > 0) {
+      const avgLength = this.totalLength / Math.max(1, this.documents.size);
+      const lastTerm = queryTerms[queryTerms.length - 1]!;
+
+      // Every term is required (AND semantics); the last one may also match as a
+      // prefix so results show up while the user is still typing
+      let candidates: Map<string, number> | null = null;
+
+      for (const term of queryTerms) {
+        const expansions = term === lastTerm ? this.expand(term) : [[term, 1] as [string, number]];
+        const termScores = new Map<string, number>();
+
+        expansions.forEach(([expanded, boost]) => {
+          const posting = this.postings.get(expanded);
+          if (!posting) return;
+
+          const idf = Math.log(1 + (this.documents.size - posting.size + 0.5) / (posting.size + 0.5));
+
+          posting.forEach(id => {
+            const indexed = this.documents.get(id)!;
+            const tf = indexed.termFrequencies.get(expanded) || 0;
+            const norm = tf + K1 * (1 - B + B * (indexed.length / avgLength));
+            const score = boost * idf * ((tf * (K1 + 1)) / norm);
+            termScores.set(id, Math.max(termScores.get(id) || 0, score));
+          });
+        });
+
+        if (candidates === null) {
+          candidates = termScores;
+        } else {
+          const next = new Map<string, number>();
+          candidates.forEach((score, id) => {
+            const termScore = termScores.get(id);
+            if (termScore !== undefined) {
+              next.set(id, score + termScore);
+            }
+          });
+          candidates = next;
+        }
+
+        if (candidates.size === 0) break;
+      }
+
+      candidates?.forEach((score, id) => scores.set(id, score));
+    }
+
+    const requiredTags = (query.tags || []).map(tag => normalizeText(tag)).filter(Boolean);
+
+    // A tags-only search browses every document carrying one of the tags
+    if (queryTerms.length === 0 && requiredTags.length > 0) {
+      this.documents.forEach((_indexed, id) => scores.set(id, 0));
+    }
+
+    // Like the search it replaced, a requested tag matches any tag containing it
+    const hits = [...scores.entries()]
+      .filter(([id]) => {
+        if (requiredTags.length === 0) return true;
+        const { normalizedTags } = this.documents.get(id)!;
+        return requiredTags.some(tag => normalizedTags.some(videoTag => videoTag.includes(tag)));
+      })
+      .map(([id, score]) => ({ id, score }));
+
+    this.sortHits(hits, query.sort || 'relevance');
+
+    return {
+      hits: hits.slice(query.offset, query.offset + query.limit),
+      total: hits.length,
+    };
+  }
+
+  private removeSync(id: string): void {
+    const existing = this.documents.get(id);
+    if (!existing) return;
+
+    existing.termFrequencies.forEach((_tf, term) => {
+      const posting = this.postings.get(term);
+      posting?.delete(id);
+      if (posting && posting.size === 0) {
+        this.postings.delete(term);
+        this.sortedTerms = null;
+      }
+    });
+
+    this.totalLength -= existing.length;
+    this.documents.delete(id);
+  }
+
+  private expand(term: string): Array<[string, number]> {
+    const expansions: Array<[string, number]> = [[term, 1]];
+    if ([...term].length < MIN_PREFIX_LENGTH) {
+      return expansions;
+    }
+
+    if (!this.sortedTerms) {
+      this.sortedTerms = [...this.postings.keys()].sort();
+    }
+
+    // Binary search for the first term >= prefix, then walk while it still matches
+    let low = 0;
+    let high = this.sortedTerms.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.sortedTerms[mid]! < term) low = mid + 1;
+      else high = mid;
+    }
+
+    for (let i = low; i < this.sortedTerms.length && expansions.length <= MAX_PREFIX_EXPANSIONS; i++) {
+      const candidate = this.sortedTerms[i]!;
+      if (!candidate.startsWith(term)) break;
+      if (candidate !== term) {
+        expansions.push([candidate, PREFIX_DISCOUNT]);
+      }
+    }
+
+    return expansions;
+  }
+
+  private sortHits(hits: SearchHit[], sort: SearchSort): void {
+    const docOf = (id: string) => this.documents.get(id)!.doc;
+
+    switch (sort) {
+      case 'date':
+        hits.sort((a, b) => docOf(b.id).createdAt - docOf(a.id).createdAt);
+        break;
+      case 'views':
+        hits.sort((a, b) => docOf(b.id).viewCount - docOf(a.id).viewCount);
+        break;
+      case 'likes':
+        hits.sort((a, b) => docOf(b.id).likeCount - docOf(a.id).likeCount);
+        break;
+      default:
+        hits.sort((a, b) => b.score - a.score);
+    }
+  }
+}
+
+export type SearchIndexFactory = () => SearchIndex;
+
+const providers = new Map<string, SearchIndexFactory>([
+  ['memory', () => new InvertedSearchIndex()],
+]);
+
+// External engines register themselves here and are selected with SEARCH_PROVIDER
+export const registerSearchIndexProvider = (name: string, factory: SearchIndexFactory): void => {
+  providers.set(name, factory);
+};
+
+export const createSearchIndex = (name: string): SearchIndex => {
+  const factory = providers.get(name);
+  if (!factory) {
+    throw new Error(`Unknown search provider: ${name}`);
+  }
+  return factory();
+};
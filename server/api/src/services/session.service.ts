@@ -0,0 +1,93 @@
+import { firebaseService } from './firebase.service';
+import { cacheService, cacheTags } from './cache.service';
+import { DeviceService, deviceService } from './device.service';
+import { logger } from '../utils/logger';
+
+export interface AuthState {
+  // Tokens first issued before this instant (epoch ms) are revoked
+  validAfterMs: number;
+  disabled: boolean;
+}
+
+export interface SessionStore {
+  // null when the account no longer exists
+  getAuthState(uid: string): Promise<AuthState | null>;
+  revokeRefreshTokens(uid: string): Promise<void>;
+}
+
+export class FirebaseSessionStore implements SessionStore {
+  public async getAuthState(uid: string): Promise<AuthState | null> {
+    try {
+      const user = await firebaseService.getUserByUid(uid);
+      return {
+        validAfterMs: user.tokensValidAfterTime ? Date.parse(user.tokensValidAfterTime) : 0,
+        disabled: user.disabled,
+      };
+    } catch (error) {
+      if (typeof error === 'object' && error !== null && 'code' in error && error.code === 'auth/user-not-found') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  public async revokeRefreshTokens(uid: string): Promise<void> {
+    await firebaseService.revokeRefreshTokens(uid);
+  }
+}
+
+// Short enough that a revoke reaches every instance quickly, long enough that
+// an active user costs one Auth lookup a minute rather than one per request
+const AUTH_STATE_TTL = 60;
+
+const authStateKey = (uid: string): string => `session:auth-state:${uid}`;
+
+export class SessionService {
+  constructor(
+    private readonly store: SessionStore,
+    private readonly devices: DeviceService
+  ) {}
+
+  // Mirrors verifyIdToken's checkRevoked, but against a cached copy of the
+  // account state. Lookup failures let the request through rather than locking
+  // everyone out during an Auth outage.
+  public async isRevoked(uid: string, authTimeSeconds: number): Promise<boolean> {
+    let state: AuthState | null;
+    try {
+      state = await cacheService.getOrCompute(
+        authStateKey(uid),
+        AUTH_STATE_TTL,
+        () => this.store.getAuthState(uid),
+        { tags: [cacheTags.user(uid)] }
+      );
+    } catch (error) {
+      logger.warn('Failed to check token revocation', { uid, error });
+      return false;
+    }
+
+    if (!state || state.disabled) {
+      return true;
+    }
+    return authTimeSeconds * 1000 < state.validAfterMs;
+  }
+
+  // Rejects every ID token issued so far, so the user has to sign in again and
+  // picks up current claims. Devices stay registered.
+  public async revokeTokens(uid: string): Promise<void> {
+    await this.store.revokeRefreshTokens(uid);
+    await cacheService.invalidateTags([cacheTags.user(uid)]);
+  }
+
+  // Signs the user out everywhere, this session included, and forgets their
+  // push tokens so a lost device stops receiving notifications too
+  public async revokeAll(uid: string): Promise<{ devicesRemoved: number }> {
+    await this.store.revokeRefreshTokens(uid);
+    const devicesRemoved = await this.devices.removeAll(uid);
+    await cacheService.invalidateTags([cacheTags.user(uid)]);
+
+    logger.info('All sessions revoked', { uid, devicesRemoved });
+    return { devicesRemoved };
+  }
+}
+
+export const sessionService = new SessionService(new FirebaseSessionStore(), deviceService);
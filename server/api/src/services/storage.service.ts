@@ -0,0 +1,182 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { config } from '../config';
+import { firebaseService } from './firebase.service';
+import { logger } from '../utils/logger';
+
+export interface ResumableUploadTarget {
+  uploadUrl: string;
+  method: 'POST' | 'PUT';
+  // Headers the client must send when opening the upload
+  headers: Record<string, string>;
+  expiresAt: Date;
+}
+
+export interface StoredObjectMetadata {
+  size: number;
+  contentType: string;
+}
+
+export interface StorageBackend {
+  readonly name: string;
+  createResumableUpload(objectPath: string, options: { contentType: string; expiresAt: Date }): Promise<ResumableUploadTarget>;
+  getMetadata(objectPath: string): Promise<StoredObjectMetadata | null>;
+  getPublicUrl(objectPath: string): string;
+  // Local path or URL a worker can read the object from
+  getReadUrl(objectPath: string, expiresAt: Date): Promise<string>;
+  writeObject(objectPath: string, data: Buffer | string, contentType: string): Promise<void>;
+  deleteObject(objectPath: string): Promise<void>;
+}
+
+export class GcsStorageBackend implements StorageBackend {
+  public readonly name = 'gcs';
+
+  private get bucket() {
+    const storage = firebaseService.getStorage();
+    return config.storage.bucket ? storage.bucket(config.storage.bucket) : storage.bucket();
+  }
+
+  public async createResumableUpload(
+    objectPath: string,
+    options: { contentType: string; expiresAt: Date }
+  ): Promise<ResumableUploadTarget> {
+    // V4 signed URL: the client POSTs here with x-goog-resumable: start to open the session
+    const [uploadUrl] = await this.bucket.file(objectPath).getSignedUrl({
+      version: 'v4',
+      action: 'resumable',
+      expires: options.expiresAt,
+      contentType: options.contentType,
+    });
+
+    return {
+      uploadUrl,
+      method: 'POST',
+      headers: {
+        'Content-Type': options.contentType,
+        'x-goog-resumable': 'start',
+      },
+      expiresAt: options.expiresAt,
+    };
+  }
+
+  public async getMetadata(objectPath: string): Promise<StoredObjectMetadata | null> {
+    const file = this.bucket.file(objectPath);
+    const [exists] = await file.exists();
+    if (!exists) {
+      return null;
+    }
+
+    const [metadata] = await file.getMetadata();
+    return {
+      size: Number(metadata.size || 0),
+      contentType: metadata.contentType || 'application/octet-stream',
+    };
+  }
+
+  public getPublicUrl(objectPath: string): string {
+    return `https://storage.googleapis.com/${this.bucket.name}/${encodeURI(objectPath)}`;
+  }
+
+  public async getReadUrl(objectPath: string, expiresAt: Date): Promise<string> {
+    const [url] = await this.bucket.file(objectPath).getSignedUrl({
+      version: 'v4',
+      action: 'read',
+      expires: expiresAt,
+    });
+    return url;
+  }
+
+  public async writeObject(objectPath: string, data: Buffer | string, contentType: string): Promise<void> {
+    await this.bucket.file(objectPath).save(data, { contentType, resumable: false });
+  }
+
+  public async deleteObject(objectPath: string): Promise<void> {
+    await this.bucket.file(objectPath).delete({ ignoreNotFound: true });
+  }
+}
+
+// Filesystem stand-in for tests and offline development. Content types live in a
+// sidecar file because the filesystem has nowhere else to keep them.
+export class LocalStorageBackend implements StorageBackend {
+  public readonly name = 'local';
+
+  constructor(private readonly root: string = config.storage.localRoot) {}
+
+  public async createResumableUpload(
+    objectPath: string,
+    options: { contentType: string; expiresAt: Date }
+  ): Promise<ResumableUploadTarget> {
+    const filePath = this.resolve(objectPath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    return {
+      uploadUrl: pathToFileURL(filePath).toString(),
+      method: 'PUT',
+      headers: { 'Content-Type': options.contentType },
+      expiresAt: options.expiresAt,
+    };
+  }
+
+  public async getMetadata(objectPath: string): Promise<StoredObjectMetadata | null> {
+    const filePath = this.resolve(objectPath);
+
+    try {
+      const stats = await fs.stat(filePath);
+      const contentType = await fs.readFile(`${filePath}.content-type`, 'utf8').catch(() => 'application/octet-stream');
+      return { size: stats.size, contentType: contentType.trim() };
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  public getPublicUrl(objectPath: string): string {
+    return pathToFileURL(this.resolve(objectPath)).toString();
+  }
+
+  public async getReadUrl(objectPath: string): Promise<string> {
+    return this.resolve(objectPath);
+  }
+
+  public async writeObject(objectPath: string, data: Buffer | string, contentType: string): Promise<void> {
+    const filePath = this.resolve(objectPath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+    await fs.writeFile(`${filePath}.content-type`, contentType);
+  }
+
+  public async deleteObject(objectPath: string): Promise<void> {
+    const filePath = this.resolve(objectPath);
+    await Promise.all([
+      fs.rm(filePath, { force: true }),
+      fs.rm(`${filePath}.content-type`, { force: true }),
+    ]);
+  }
+
+  private resolve(objectPath: string): string {
+    const root = path.resolve(this.root);
+    const filePath = path.resolve(root, objectPath);
+    // Object paths come from our own code, but never let one escape the root
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Object path escapes storage root: ${objectPath}`);
+    }
+    return filePath;
+  }
+}
+
+const createStorageBackend = (): StorageBackend => {
+  switch (config.storage.backend) {
+    case 'local':
+      logger.info('Using local filesystem storage backend', { root: config.storage.localRoot });
+      return new LocalStorageBackend();
+    case 'gcs':
+      return new GcsStorageBackend();
+    default:
+      throw new Error(`Unknown storage backend: ${config.storage.backend}`);
+  }
+};
+
+export const storageBackend = createStorageBackend();
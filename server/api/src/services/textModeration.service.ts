@@ -0,0 +1,324 @@
+import { config } from '../config';
+import { DEFAULT_LEXICON, LexiconEntry } from './moderationLexicon';
+import { ReportReason } from './moderation.service';
+import { ApiError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+export type ModerationOutcome = 'allow' | 'hold' | 'reject';
+
+// Where the text is going; some checks are stricter on short, highly visible fields
+export type TextField = 'comment' | 'danmu' | 'display_name' | 'username' | 'bio' | 'video_title' | 'video_description';
+
+export interface ModerationVerdict {
+  outcome: ModerationOutcome;
+  // Set for hold and reject: which provider decided, and why, for moderators
+  provider?: string;
+  reason?: string;
+  category?: ReportReason;
+}
+
+export interface TextContext {
+  field: TextField;
+}
+
+// Adapter slot: the built-in lexicon and link checks, or an external classifier
+export interface ModerationProvider {
+  readonly name: string;
+  check(text: string, context: TextContext): Promise<ModerationVerdict>;
+}
+
+const ALLOW: ModerationVerdict = { outcome: 'allow' };
+
+// Zero-width and other invisible characters used to split words past filters
+const INVISIBLE_CHARACTERS = /[\u00AD\u034F\u180E\u200B-\u200F\u202A-\u202E\u2060-\u2064\uFEFF]/g;
+
+const LEET: Record<string, string> = {
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '8': 'b',
+  '@': 'a', '$': 's', '!': 'i', '|': 'l', '+': 't',
+};
+
+// Scripts written without spaces between words, matched as substrings
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+// Strips invisible characters and compatibility forms so look-alikes compare equal
+const clean = (text: string): string => text.normalize('NFKC').replace(INVISIBLE_CHARACTERS, '');
+
+// Lowercases, drops accents from Latin letters, undoes leetspeak inside words,
+// squeezes letters repeated three or more times and rejoins spaced-out letters
+// ("f u c k"). Returns the words separated by single spaces.
+export const normalizeForModeration = (text: string): string => {
+  const words = (clean(text)
+    .normalize('NFKD')
+    .replace(/([a-zA-Z])\p{Mn}+/gu, '$1')
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/ß/g, 'ss')
+    .match(/[\p{L}\p{M}\p{N}@$!|+]+/gu) || [])
+    .map(word => (/\p{L}/u.test(word) ? word.replace(/[0-9@$!|+]/g, char => LEET[char] || char) : word))
+    .map(word => word.replace(/[^\p{L}\p{M}\p{N}]/gu, '').replace(/(\p{L})\1{2,}/gu, '$1'))
+    .filter(word => word.length > 0);
+
+  const joined: string[] = [];
+  let letters: string[] = [];
+  const flush = () => {
+    if (letters.length >= 3) {
+      joined.push(letters.join(''));
+    } else {
+      joined.push(...letters);
+    }
+    letters = [];
+  };
+  words.forEach(word => {
+    if (word.length === 1 && /\p{L}/u.test(word) && !UNSPACED_SCRIPT.test(word)) {
+      letters.push(word);
+    } else {
+      flush();
+      joined.push(word);
+    }
+  });
+  flush();
+
+  return joined.join(' ');
+};
+
+// Endings a listed word may carry and still match ("fucking", "bitches").
+// Rejected terms only take a plural, since a short slur plus a common ending
+// is often an everyday word ("spicy", "spices").
+const WORD_ENDINGS: Record<LexiconEntry['action'], string[]> = {
+  hold: ['', 's', 'es', 'ed', 'er', 'ers', 'ing', 'in', 'ty', 'y'],
+  reject: ['', 's'],
+};
+
+interface CompiledEntry extends LexiconEntry {
+  normalized: string;
+  unspaced: boolean;
+}
+
+export class LexiconProvider implements ModerationProvider {
+  public readonly name = 'lexicon';
+  private readonly entries: CompiledEntry[];
+
+  constructor(lexicon: LexiconEntry[] = DEFAULT_LEXICON) {
+    this.entries = lexicon
+      .map(entry => ({ ...entry, normalized: normalizeForModeration(entry.term), unspaced: UNSPACED_SCRIPT.test(entry.term) }))
+      .filter(entry => entry.normalized.length > 0)
+      // Rejections are checked first so a text with both is rejected
+      .sort((a, b) => (a.action === b.action ? 0 : a.action === 'reject' ? -1 : 1));
+  }
+
+  public async check(text: string): Promise<ModerationVerdict> {
+    const normalized = normalizeForModeration(text);
+    const words = normalized.split(' ');
+    const padded = ` ${normalized} `;
+    const compact = normalized.replace(/ /g, '');
+
+    const match = this.entries.find(entry => {
+      if (entry.unspaced) {
+        return compact.includes(entry.normalized.replace(/ /g, ''));
+      }
+      if (entry.normalized.includes(' ')) {
+        return padded.includes(` ${entry.normalized} `);
+      }
+      return words.some(word => word.startsWith(entry.normalized)
+        && WORD_ENDINGS[entry.action].includes(word.slice(entry.normalized.length)));
+    });
+
+    if (!match) {
+      return ALLOW;
+    }
+    return {
+      outcome: match.action,
+      provider: this.name,
+      reason: `Matched ${match.category} term "${match.term}"`,
+      category: match.category,
+    };
+  }
+}
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s]+|\b(?:[a-z0-9-]+\.)+(?:com|net|org|io|co|ly|gg|me|xyz|top|info|biz|ru|cn|link|click|shop|site|online|app|live|tv)\b(?:\/[^\s]*)?/gi;
+// "example dot com", "example[.]com"
+const OBFUSCATED_LINK = /\b[a-z0-9-]{2,}\s*(?:\[\.\]|\(\.\)|\[dot\]|\(dot\)|\s+dot\s+)\s*(?:com|net|org|io|gg|me|ly)\b/i;
+
+const SHORTENER_HOSTS = new Set(['bit.ly', 'tinyurl.com', 't.co', 'goo.gl', 'ow.ly', 'is.gd', 'cutt.ly', 'shorturl.at', 'rb.gy', 'tiny.cc']);
+const INVITE_HOSTS = new Set(['discord.gg', 't.me', 'wa.me', 'chat.whatsapp.com', 'line.me']);
+
+// Names, titles and danmu are too short for a link to be anything but promotion
+const LINK_FREE_FIELDS = new Set<TextField>(['display_name', 'username', 'danmu', 'video_title']);
+
+const hostOf = (link: string): string =>
+  link.replace(/^https?:\/\//i, '').split(/[/?#]/)[0]!.toLowerCase().replace(/^www\./, '');
+
+export class SpamLinkProvider implements ModerationProvider {
+  public readonly name = 'links';
+
+  constructor(private readonly maxLinks: number = config.textModeration.maxLinks) {}
+
+  public async check(text: string, context: TextContext): Promise<ModerationVerdict> {
+    const cleaned = clean(text);
+    const hold = (reason: string): ModerationVerdict => ({ outcome: 'hold', provider: this.name, reason, category: 'spam' });
+
+    if (OBFUSCATED_LINK.test(cleaned)) {
+      return hold('Disguised link');
+    }
+
+    const hosts = (cleaned.match(URL_PATTERN) || []).map(hostOf);
+    if (hosts.length === 0) {
+      return ALLOW;
+    }
+
+    const shortened = hosts.find(host => SHORTENER_HOSTS.has(host));
+    if (shortened) {
+      return hold(`Shortened link (${shortened})`);
+    }
+    const invite = hosts.find(host => INVITE_HOSTS.has(host));
+    if (invite) {
+      return hold(`Chat invite link (${invite})`);
+    }
+    if (LINK_FREE_FIELDS.has(context.field)) {
+      return hold(`Link in ${context.field.replace('_', ' ')}`);
+    }
+    if (hosts.length > this.maxLinks) {
+      return hold(`${hosts.length} links`);
+    }
+    return ALLOW;
+  }
+}
+
+export interface ExternalClassifierOptions {
+  url: string;
+  apiKey: string;
+  timeoutMs: number;
+  holdThreshold: number;
+  rejectThreshold: number;
+}
+
+const CLASSIFIER_CATEGORIES: ReportReason[] = ['spam', 'harassment', 'hate', 'violence', 'sexual', 'self_harm'];
+
+// Posts { text, field } to a classifier that answers { scores: { label: 0-1 } }
+// and acts on the highest score. An unreachable or slow classifier lets the
+// text through: the built-in checks and user reports still cover it.
+export class ExternalClassifierProvider implements ModerationProvider {
+  public readonly name = 'external';
+
+  constructor(private readonly options: ExternalClassifierOptions) {}
+
+  public async check(text: string, context: TextContext): Promise<ModerationVerdict> {
+    let scores: Record<string, number>;
+    try {
+      const response = await fetch(this.options.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.options.apiKey && { Authorization: `Bearer ${this.options.apiKey}` }),
+        },
+        body: JSON.stringify({ text, field: context.field }),
+        signal: AbortSignal.timeout(this.options.timeoutMs),
+      });
+      if (!response.ok) {
+        throw new Error(`Classifier responded with ${response.status}`);
+      }
+      scores = ((await response.json()) as { scores?: Record<string, number> }).scores || {};
+    } catch (error) {
+      logger.warn('External moderation classifier unavailable, allowing text', { field: context.field, error });
+      return ALLOW;
+    }
+
+    const [label, score] = Object.entries(scores).sort(([, a], [, b]) => b - a)[0] || ['', 0];
+    if (score < this.options.holdThreshold) {
+      return ALLOW;
+    }
+    return {
+      outcome: score >= this.options.rejectThreshold ? 'reject' : 'hold',
+      provider: this.name,
+      reason: `Classified as ${label} (${score.toFixed(2)})`,
+      category: (CLASSIFIER_CATEGORIES as string[]).includes(label) ? label as ReportReason : 'other',
+    };
+  }
+}
+
+export type ModerationProviderFactory = () => ModerationProvider;
+
+const providers = new Map<string, ModerationProviderFactory>([
+  ['lexicon', () => new LexiconProvider()],
+  ['links', () => new SpamLinkProvider()],
+  ['external', () => {
+    if (!config.textModeration.externalUrl) {
+      throw new Error('TEXT_MODERATION_EXTERNAL_URL is required for the external moderation provider');
+    }
+    return new ExternalClassifierProvider({
+      url: config.textModeration.externalUrl,
+      apiKey: config.textModeration.externalApiKey,
+      timeoutMs: config.textModeration.externalTimeoutMs,
+      holdThreshold: config.textModeration.externalHoldThreshold,
+      rejectThreshold: config.textModeration.externalRejectThreshold,
+    });
+  }],
+]);
+
+// Other classifiers (a vendor SDK, an in-house model) register here and are
+// added to the chain with TEXT_MODERATION_PROVIDERS
+export const registerModerationProvider = (name: string, factory: ModerationProviderFactory): void => {
+  providers.set(name, factory);
+};
+
+export const createModerationProvider = (name: string): ModerationProvider => {
+  const factory = providers.get(name);
+  if (!factory) {
+    throw new Error(`Unknown moderation provider: ${name}`);
+  }
+  return factory();
+};
+
+export interface TextInput {
+  field: TextField;
+  text: string | undefined | null;
+}
+
+// Runs user-written text through the provider chain before it is stored
+export class TextModerationService {
+  constructor(private readonly providers: ModerationProvider[]) {}
+
+  // A reject ends the review at once; otherwise the first hold is returned.
+  // A provider that throws is skipped so one broken check can't block posting.
+  public async review(inputs: TextInput[]): Promise<ModerationVerdict> {
+    let held: ModerationVerdict | null = null;
+
+    for (const { field, text } of inputs) {
+      if (!text || !text.trim()) {
+        continue;
+      }
+      for (const provider of this.providers) {
+        let verdict: ModerationVerdict;
+        try {
+          verdict = await provider.check(text, { field });
+        } catch (error) {
+          logger.error('Moderation provider failed', { provider: provider.name, field, error });
+          continue;
+        }
+        if (verdict.outcome === 'reject') {
+          return verdict;
+        }
+        if (verdict.outcome === 'hold' && !held) {
+          held = verdict;
+        }
+      }
+    }
+
+    return held || ALLOW;
+  }
+
+  // Like review, but rejected text fails the request. The reason stays in the
+  // logs so the lexicon can't be probed term by term.
+  public async enforce(inputs: TextInput[]): Promise<ModerationVerdict> {
+    const verdict = await this.review(inputs);
+    if (verdict.outcome === 'reject') {
+      logger.info('Text rejected by moderation', { fields: inputs.map(input => input.field), provider: verdict.provider, reason: verdict.reason });
+      throw new ApiError(400, 'This content breaks our community guidelines and can\'t be posted', 'CONTENT_REJECTED');
+    }
+    return verdict;
+  }
+}
+
+export const textModerationService = new TextModerationService(
+  config.textModeration.providers.map(name => createModerationProvider(name.trim()))
+);
@@ -0,0 +1,258 @@
+import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { config } from '../config';
+
+export interface ProbeResult {
+  durationSeconds: number;
+  width: number;
+  height: number;
+}
+
+export interface RenditionSpec {
+  name: string;
+  // Target length of the short edge, so portrait and landscape share one ladder
+  shortEdge: number;
+  videoBitrate: number;
+  audioBitrate: number;
+}
+
+export interface RenditionOutput {
+  spec: RenditionSpec;
+  width: number;
+  height: number;
+  // Peak bits per second, as advertised in the master playlist
+  bandwidth: number;
+  // Media playlist filename inside the output directory
+  playlist: string;
+}
+
+// Adapter slot: ffmpeg, a cloud transcoding service, or the fake used in tests.
+// Inputs are whatever StorageBackend.getReadUrl returns; outputs go to a local
+// directory the pipeline then copies into storage.
+export interface Transcoder {
+  readonly name: string;
+  probe(input: string): Promise<ProbeResult>;
+  createThumbnail(input: string, outputFile: string, atSeconds: number): Promise<void>;
+  createHlsRendition(
+    input: string,
+    outputDir: string,
+    rendition: { spec: RenditionSpec; width: number; height: number; durationSeconds: number },
+    onProgress: (fraction: number) => void
+  ): Promise<RenditionOutput>;
+}
+
+export const HLS_LADDER: RenditionSpec[] = [
+  { name: '1080p', shortEdge: 1080, videoBitrate: 5_000_000, audioBitrate: 128_000 },
+  { name: '720p', shortEdge: 720, videoBitrate: 2_800_000, audioBitrate: 128_000 },
+  { name: '480p', shortEdge: 480, videoBitrate: 1_400_000, audioBitrate: 96_000 },
+  { name: '360p', shortEdge: 360, videoBitrate: 800_000, audioBitrate: 64_000 },
+];
+
+const even = (value: number): number => Math.max(2, Math.round(value / 2) * 2);
+
+// Never upscale: keep the rungs at or below the source, but always at least the smallest
+export const selectRenditions = (probe: ProbeResult, ladder: RenditionSpec[] = HLS_LADDER) => {
+  const sourceShort = Math.min(probe.width, probe.height);
+  const fitting = ladder.filter(spec => spec.shortEdge <= sourceShort);
+  const chosen = fitting.length > 0 ? fitting : ladder.slice(-1);
+
+  return chosen.map(spec => {
+    const scale = Math.min(1, spec.shortEdge / sourceShort);
+    return { spec, width: even(probe.width * scale), height: even(probe.height * scale) };
+  });
+};
+
+export const buildMasterPlaylist = (renditions: Array<RenditionOutput & { uri: string }>): string => {
+  const lines = ['#EXTM3U', '#EXT-X-VERSION:3'];
+  [...renditions]
+    .sort((a, b) => b.bandwidth - a.bandwidth)
+    .forEach(rendition => {
+      lines.push(
+        `#EXT-X-STREAM-INF:BANDWIDTH=${rendition.bandwidth},RESOLUTION=${rendition.width}x${rendition.height},NAME="${rendition.spec.name}"`,
+        rendition.uri
+      );
+    });
+  return `${lines.join('\n')}\n`;
+};
+
+const run = (command: string, args: string[], onStdout?: (chunk: string) => void): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    let stdout = '';
+    let stderr = '';
+
+    child.stdout.on('data', (chunk: Buffer) => {
+      const text = chunk.toString();
+      stdout += text;
+      onStdout?.(text);
+    });
+    child.stderr.on('data', (chunk: Buffer) => {
+      // Only the tail is useful in an error message
+      stderr = (stderr + chunk.toString()).slice(-4000);
+    });
+    child.on('error', reject);
+    child.on('close', code => {
+      if (code === 0) {
+        resolve(stdout);
+      } else {
+        reject(new Error(`${path.basename(command)} exited with code ${code}: ${stderr.trim()}`));
+      }
+    });
+  });
+
+export class FfmpegTranscoder implements Transcoder {
+  public readonly name = 'ffmpeg';
+
+  constructor(
+    private readonly ffmpegPath: string = config.processing.ffmpegPath,
+    private readonly ffprobePath: string = config.processing.ffprobePath
+  ) {}
+
+  public async probe(input: string): Promise<ProbeResult> {
+    const output = await run(this.ffprobePath, [
+      '-v', 'error',
+      '-print_format', 'json',
+      '-show_format',
+      '-show_streams',
+      input,
+    ]);
+
+    const parsed = JSON.parse(output);
+    const video = (parsed.streams || []).find((stream: any) => stream.codec_type === 'video');
+    if (!video) {
+      throw new Error('No video stream found');
+    }
+
+    // Phones record landscape pixels and flag the orientation separately
+    const rotation = Math.abs(Number(video.tags?.rotate || video.side_data_list?.[0]?.rotation || 0)) % 180;
+    const [width, height] = rotation === 90
+      ? [Number(video.height), Number(video.width)]
+      : [Number(video.width), Number(video.height)];
+
+    return {
+      durationSeconds: Number(parsed.format?.duration || video.duration || 0),
+      width,
+      height,
+    };
+  }
+
+  public async createThumbnail(input: string, outputFile: string, atSeconds: number): Promise<void> {
+    await run(this.ffmpegPath, [
+      '-v', 'error',
+      '-ss', atSeconds.toFixed(2),
+      '-i', input,
+      '-frames:v', '1',
+      '-vf', 'scale=-2:720',
+      '-y', outputFile,
+    ]);
+  }
+
+  public async createHlsRendition(
+    input: string,
+    outputDir: string,
+    rendition: { spec: RenditionSpec; width: number; height: number; durationSeconds: number },
+    onProgress: (fraction: number) => void
+  ): Promise<RenditionOutput> {
+    const { spec, width, height, durationSeconds } = rendition;
+    await fs.mkdir(outputDir, { recursive: true });
+
+    await run(this.ffmpegPath, [
+      '-v', 'error',
+      '-i', input,
+      '-vf', `scale=${width}:${height}`,
+      '-c:v', 'libx264',
+      '-preset', 'veryfast',
+      '-b:v', String(spec.videoBitrate),
+      '-maxrate', String(Math.round(spec.videoBitrate * 1.07)),
+      '-bufsize', String(spec.videoBitrate * 2),
+      '-c:a', 'aac',
+      '-b:a', String(spec.audioBitrate),
+      '-hls_time', '6',
+      '-hls_playlist_type', 'vod',
+      '-hls_segment_filename', path.join(outputDir, 'segment_%04d.ts'),
+      '-progress', 'pipe:1',
+      '-y', path.join(outputDir, 'index.m3u8'),
+    ], chunk => {
+      const match = /out_time_ms=(\d+)/.exec(chunk);
+      if (match && durationSeconds > 0) {
+        // out_time_ms is actually microseconds
+        onProgress(Math.min(1, Number(match[1]) / 1_000_000 / durationSeconds));
+      }
+    });
+
+    return {
+      spec,
+      width,
+      height,
+      bandwidth: Math.round((spec.videoBitrate * 1.07) + spec.audioBitrate),
+      playlist: 'index.m3u8',
+    };
+  }
+}
+
+// Writes placeholder outputs without decoding anything. Probe results come from
+// the constructor so tests can exercise the rendition ladder.
+export class FakeTranscoder implements Transcoder {
+  public readonly name = 'fake';
+
+  constructor(
+    private readonly probeResult: ProbeResult = { durationSeconds: 30, width: 1080, height: 1920 },
+    private readonly failWith: Error | null = null
+  ) {}
+
+  public async probe(): Promise<ProbeResult> {
+    if (this.failWith) {
+      throw this.failWith;
+    }
+    return this.probeResult;
+  }
+
+  public async createThumbnail(_input: string, outputFile: string): Promise<void> {
+    await fs.mkdir(path.dirname(outputFile), { recursive: true });
+    await fs.writeFile(outputFile, Buffer.from('fake-jpeg'));
+  }
+
+  public async createHlsRendition(
+    _input: string,
+    outputDir: string,
+    rendition: { spec: RenditionSpec; width: number; height: number; durationSeconds: number },
+    onProgress: (fraction: number) => void
+  ): Promise<RenditionOutput> {
+    const { spec, width, height, durationSeconds } = rendition;
+    const segmentCount = Math.max(1, Math.ceil(durationSeconds / 6));
+    const lines = ['#EXTM3U', '#EXT-X-VERSION:3', '#EXT-X-TARGETDURATION:6', '#EXT-X-PLAYLIST-TYPE:VOD'];
+
+    await fs.mkdir(outputDir, { recursive: true });
+    for (let i = 0; i < segmentCount; i++) {
+      const segment = `segment_${String(i).padStart(4, '0')}.ts`;
+      await fs.writeFile(path.join(outputDir, segment), Buffer.from(`fake-segment-${i}`));
+      lines.push(`#EXTINF:${Math.min(6, durationSeconds - i * 6).toFixed(3)},`, segment);
+      onProgress((i + 1) / segmentCount);
+    }
+    lines.push('#EXT-X-ENDLIST');
+    await fs.writeFile(path.join(outputDir, 'index.m3u8'), `${lines.join('\n')}\n`);
+
+    return { spec, width, height, bandwidth: spec.videoBitrate + spec.audioBitrate, playlist: 'index.m3u8' };
+  }
+}
+
+export type TranscoderFactory = () => Transcoder;
+
+const transcoders = new Map<string, TranscoderFactory>([
+  ['ffmpeg', () => new FfmpegTranscoder()],
+  ['fake', () => new FakeTranscoder()],
+]);
+
+// Hosted transcoders register themselves here and are selected with TRANSCODER
+export const registerTranscoder = (name: string, factory: TranscoderFactory): void => {
+  transcoders.set(name, factory);
+};
+
+export const createTranscoder = (name: string): Transcoder => {
+  const factory = transcoders.get(name);
+  if (!factory) {
+    throw new Error(`Unknown transcoder: ${name}`);
+  }
+  return factory();
+};
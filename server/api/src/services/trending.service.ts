@@ -0,0 +1,298 @@
+import { config } from '../config';
+import { firebaseService } from './firebase.service';
+import { cacheService } from './cache.service';
+import { toDate } from './ranking.service';
+import { isPubliclyVisible } from './videoVisibility';
+import { logger } from '../utils/logger';
+
+export type EngagementType = 'view' | 'like' | 'comment' | 'danmu';
+
+export interface EngagementEvent {
+  videoId: string;
+  type: EngagementType;
+  at: Date;
+}
+
+export interface TrendingVideoEntry {
+  videoId: string;
+  score: number;
+}
+
+export interface TrendingTagEntry {
+  tag: string;
+  score: number;
+  videoCount: number;
+}
+
+export interface TrendingSnapshot {
+  bucket: string;
+  videos: TrendingVideoEntry[];
+  tags: TrendingTagEntry[];
+  computedAt: Date;
+}
+
+export const GLOBAL_BUCKET = 'global';
+
+// A comment says more about a video than a passing view does
+export const ENGAGEMENT_WEIGHTS: Record<EngagementType, number> = {
+  view: 1,
+  like: 4,
+  comment: 6,
+  danmu: 2,
+};
+
+const EVENT_SOURCES: Array<{ collection: string; timeField: string; type: EngagementType }> = [
+  { collection: 'views', timeField: 'viewedAt', type: 'view' },
+  { collection: 'likes', timeField: 'createdAt', type: 'like' },
+  { collection: 'comments', timeField: 'createdAt', type: 'comment' },
+  { collection: 'danmu', timeField: 'createdAt', type: 'danmu' },
+];
+
+const MAX_VIDEOS_PER_BUCKET = 200;
+const MAX_TAGS_PER_BUCKET = 50;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Sum of event weights, each halved for every `halfLifeHours` of age
+export const scoreEvents = (
+  events: EngagementEvent[],
+  now: Date,
+  halfLifeHours: number
+): Map<string, number> => {
+  const scores = new Map<string, number>();
+
+  events.forEach(event => {
+    const ageHours = Math.max(0, (now.getTime() - event.at.getTime()) / HOUR_MS);
+    const decayed = ENGAGEMENT_WEIGHTS[event.type] * Math.pow(0.5, ageHours / halfLifeHours);
+    scores.set(event.videoId, (scores.get(event.videoId) || 0) + decayed);
+  });
+
+  return scores;
+};
+
+export const buildSnapshots = (
+  scores: Map<string, number>,
+  videos: Map<string, EligibleVideo>,
+  computedAt: Date
+): TrendingSnapshot[] => {
+  const buckets = new Map<string, { videos: TrendingVideoEntry[]; tags: Map<string, TrendingTagEntry> }>();
+  const bucketFor = (name: string) => {
+    if (!buckets.has(name)) {
+      buckets.set(name, { videos: [], tags: new Map() });
+    }
+    return buckets.get(name)!;
+  };
+
+  scores.forEach((score, videoId) => {
+    const video = videos.get(videoId);
+    // Deleted, private or unpublished videos never trend
+    if (!video) return;
+
+    const targets = [GLOBAL_BUCKET, ...(video.region ? [video.region] : [])];
+    targets.forEach(name => {
+      const bucket = bucketFor(name);
+      bucket.videos.push({ videoId, score });
+
+      video.tags.forEach(rawTag => {
+        const tag = rawTag.toLowerCase();
+        const entry = bucket.tags.get(tag) || { tag, score: 0, videoCount: 0 };
+        entry.score += score;
+        entry.videoCount += 1;
+        bucket.tags.set(tag, entry);
+      });
+    });
+  });
+
+  return [...buckets.entries()].map(([bucket, data]) => ({
+    bucket,
+    videos: data.videos
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_VIDEOS_PER_BUCKET),
+    tags: [...data.tags.values()]
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_TAGS_PER_BUCKET),
+    computedAt,
+  }));
+};
+
+export interface EligibleVideo {
+  tags: string[];
+  region?: string | undefined;
+}
+
+export interface TrendingStore {
+  getSnapshot(bucket: string): Promise<TrendingSnapshot | null>;
+  // Engagement in the window, newest first, capped per source
+  loadEvents(since: Date, maxEventsPerSource: number): Promise<EngagementEvent[]>;
+  // Public, published videos among the ids; others never trend
+  loadEligibleVideos(ids: string[]): Promise<Map<string, EligibleVideo>>;
+  saveSnapshots(snapshots: TrendingSnapshot[]): Promise<void>;
+}
+
+export class FirestoreTrendingStore implements TrendingStore {
+  private get firestore() {
+    return firebaseService.getFirestore();
+  }
+
+  public async getSnapshot(bucket: string): Promise<TrendingSnapshot | null> {
+    const doc = await this.firestore.collection('trending').doc(bucket).get();
+    if (!doc.exists) {
+      return null;
+    }
+    const data = doc.data()!;
+    return {
+      bucket,
+      videos: data['videos'] || [],
+      tags: data['tags'] || [],
+      computedAt: toDate(data['computedAt']),
+    };
+  }
+
+  public async loadEvents(since: Date, maxEventsPerSource: number): Promise<EngagementEvent[]> {
+    const eventLists = await Promise.all(
+      EVENT_SOURCES.map(async ({ collection, timeField, type }) => {
+        const snapshot = await this.firestore
+          .collection(collection)
+          .where(timeField, '>=', since)
+          .orderBy(timeField, 'desc')
+          .limit(maxEventsPerSource)
+          .select('videoId', timeField)
+          .get();
+
+        if (snapshot.size === maxEventsPerSource) {
+          logger.warn('Trending event source truncated', { collection, limit: maxEventsPerSource });
+        }
+
+        return snapshot.docs
+          .filter(doc => doc.get('videoId'))
+          .map(doc => ({ videoId: doc.get('videoId'), type, at: toDate(doc.get(timeField)) }));
+      })
+    );
+    return eventLists.flat();
+  }
+
+  public async loadEligibleVideos(ids: string[]): Promise<Map<string, EligibleVideo>> {
+    const videos = new Map<string, EligibleVideo>();
+
+    // getAll accepts many refs, but keep each round trip modest
+    for (let i = 0; i < ids.length; i += 300) {
+      const refs = ids.slice(i, i + 300).map(id => this.firestore.collection('videos').doc(id));
+      const docs = await this.firestore.getAll(...refs);
+
+      docs.forEach(doc => {
+        const data = doc.data();
+        if (!data || !isPubliclyVisible(data)) {
+          return;
+        }
+        videos.set(doc.id, {
+          tags: Array.isArray(data['tags']) ? data['tags'] : [],
+          region: config.supportedRegions.includes(data['region']) ? data['region'] : undefined,
+        });
+      });
+    }
+
+    return videos;
+  }
+
+  public async saveSnapshots(snapshots: TrendingSnapshot[]): Promise<void> {
+    const batch = this.firestore.batch();
+    snapshots.forEach(snapshot => {
+      batch.set(this.firestore.collection('trending').doc(snapshot.bucket), snapshot);
+    });
+    await batch.commit();
+  }
+}
+
+const emptySnapshot = (bucket: string, computedAt: Date): TrendingSnapshot => ({
+  bucket,
+  videos: [],
+  tags: [],
+  computedAt,
+});
+
+export class TrendingService {
+  private inFlight: Promise<TrendingSnapshot[]> | null = null;
+
+  constructor(private readonly store: TrendingStore) {}
+
+  public async getSnapshot(region?: string): Promise<TrendingSnapshot> {
+    const bucket = region || GLOBAL_BUCKET;
+    const cacheKey = `trending:${bucket}`;
+
+    const cached = await cacheService.get<TrendingSnapshot>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const stored = await this.store.getSnapshot(bucket);
+    if (stored) {
+      await cacheService.set(cacheKey, stored, this.cacheTtlSeconds());
+      return stored;
+    }
+
+    // Nothing computed for this bucket yet (fresh deploy, or a region with no
+    // trending videos): answer empty now and let one instance build it
+    this.refreshInBackground();
+    return emptySnapshot(bucket, new Date());
+  }
+
+  // Concurrent callers share a single computation
+  public recompute(now: Date = new Date()): Promise<TrendingSnapshot[]> {
+    if (!this.inFlight) {
+      this.inFlight = this.compute(now).finally(() => {
+        this.inFlight = null;
+      });
+    }
+    return this.inFlight;
+  }
+
+  private refreshInBackground(): void {
+    if (this.inFlight) {
+      return;
+    }
+    // Shares the scheduled job's lease, so a burst of requests for an empty
+    // bucket starts at most one recompute across all instances per interval
+    cacheService.acquireLease('job:trending', Math.max(1000, config.trending.intervalMs - 1000))
+      .then(acquired => (acquired ? this.recompute() : undefined))
+      .catch(error => {
+        logger.error('Background trending recompute failed', error);
+      });
+  }
+
+  private async compute(now: Date): Promise<TrendingSnapshot[]> {
+    const { windowHours, halfLifeHours, maxEventsPerSource } = config.trending;
+    const since = new Date(now.getTime() - windowHours * HOUR_MS);
+
+    const events = await this.store.loadEvents(since, maxEventsPerSource);
+    const scores = scoreEvents(events, now, halfLifeHours);
+    const videos = await this.store.loadEligibleVideos([...scores.keys()]);
+    const snapshots = buildSnapshots(scores, videos, now);
+
+    // Every known bucket is written, so one with nothing trending is stored
+    // empty instead of going stale or being looked up again on each request
+    [GLOBAL_BUCKET, ...config.supportedRegions]
+      .filter(bucket => !snapshots.some(snapshot => snapshot.bucket === bucket))
+      .forEach(bucket => snapshots.push(emptySnapshot(bucket, now)));
+
+    await this.store.saveSnapshots(snapshots);
+
+    await Promise.all(
+      snapshots.map(snapshot =>
+        cacheService.set(`trending:${snapshot.bucket}`, snapshot, this.cacheTtlSeconds())
+      )
+    );
+
+    logger.info('Trending recomputed', {
+      events: events.length,
+      videos: scores.size,
+      buckets: snapshots.map(s => s.bucket),
+    });
+
+    return snapshots;
+  }
+
+  private cacheTtlSeconds(): number {
+    return Math.ceil((config.trending.intervalMs * 2) / 1000);
+  }
+}
+
+export const trendingService = new TrendingService(new FirestoreTrendingStore());
@@ -0,0 +1,176 @@
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config';
+import { firebaseService } from './firebase.service';
+import { storageBackend, StorageBackend } from './storage.service';
+import { toDate } from './ranking.service';
+import { ApiError, ForbiddenError, NotFoundError, ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+export type UploadStatus = 'pending' | 'consumed';
+
+export interface UploadSession {
+  id: string;
+  userId: string;
+  filename: string;
+  contentType: string;
+  size: number;
+  storagePath: string;
+  status: UploadStatus;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+export interface CreateUploadInput {
+  filename: string;
+  contentType: string;
+  size: number;
+}
+
+// Keeps the original name recognisable in the bucket without trusting it as a path
+export const sanitizeFilename = (filename: string): string => {
+  const base = filename.split(/[\\/]/).pop() || '';
+  const cleaned = base
+    .normalize('NFKC')
+    .replace(/[^a-zA-Z0-9._-]+/g, '_')
+    .replace(/^\.+/, '')
+    .slice(-100);
+  return cleaned || 'video';
+};
+
+export interface UploadStore {
+  create(uploadId: string, data: Record<string, unknown>): Promise<void>;
+  get(uploadId: string): Promise<Record<string, any> | null>;
+}
+
+export class FirestoreUploadStore implements UploadStore {
+  public async create(uploadId: string, data: Record<string, unknown>): Promise<void> {
+    await firebaseService.getFirestore().collection('uploads').doc(uploadId).set(data);
+  }
+
+  public async get(uploadId: string): Promise<Record<string, any> | null> {
+    const doc = await firebaseService.getFirestore().collection('uploads').doc(uploadId).get();
+    return doc.exists ? doc.data()! : null;
+  }
+}
+
+const toUploadSession = (id: string, data: Record<string, any>): UploadSession => ({
+  id,
+  userId: data['userId'],
+  filename: data['filename'],
+  contentType: data['contentType'],
+  size: data['size'],
+  storagePath: data['storagePath'],
+  status: data['status'],
+  createdAt: toDate(data['createdAt']),
+  expiresAt: toDate(data['expiresAt']),
+});
+
+export class UploadService {
+  private static instance: UploadService;
+
+  constructor(
+    private readonly storage: StorageBackend = storageBackend,
+    private readonly store: UploadStore = new FirestoreUploadStore()
+  ) {}
+
+  public static getInstance(): UploadService {
+    if (!UploadService.instance) {
+      UploadService.instance = new UploadService();
+    }
+    return UploadService.instance;
+  }
+
+  public async createSession(userId: string, input: CreateUploadInput, now: Date = new Date()) {
+    const { allowedTypes, maxFileSizeBytes, maxFileSize, sessionTtlMinutes } = config.upload;
+
+    if (!allowedTypes.includes(input.contentType)) {
+      throw new ValidationError('Content type is not allowed', { allowedTypes });
+    }
+
+    if (input.size > maxFileSizeBytes) {
+      throw new ValidationError(`File size must not exceed ${maxFileSize}`);
+    }
+
+    const uploadId = uuidv4();
+    const storagePath = `uploads/${userId}/${uploadId}/${sanitizeFilename(input.filename)}`;
+    const expiresAt = new Date(now.getTime() + sessionTtlMinutes * 60 * 1000);
+
+    const target = await this.storage.createResumableUpload(storagePath, {
+      contentType: input.contentType,
+      expiresAt,
+    });
+
+    await this.store.create(uploadId, {
+      userId,
+      filename: input.filename,
+      contentType: input.contentType,
+      size: input.size,
+      storagePath,
+      backend: this.storage.name,
+      status: 'pending',
+      createdAt: now,
+      expiresAt,
+    });
+
+    logger.info('Upload session created', { uploadId, userId, size: input.size });
+
+    return {
+      uploadId,
+      uploadUrl: target.uploadUrl,
+      method: target.method,
+      headers: target.headers,
+      expiresAt: target.expiresAt,
+    };
+  }
+
+  // Checks that `uploadId` belongs to `userId` and its object landed in storage
+  // as declared. The caller still has to flip the status inside its own write.
+  public async getCompletedUpload(uploadId: string, userId: string, now: Date = new Date()): Promise<UploadSession> {
+    const data = await this.store.get(uploadId);
+    if (!data) {
+      throw new NotFoundError('Upload');
+    }
+
+    const upload = toUploadSession(uploadId, data);
+
+    if (upload.userId !== userId) {
+      throw new ForbiddenError('You can only publish your own uploads');
+    }
+
+    if (upload.status !== 'pending') {
+      throw new ApiError(409, 'Upload has already been used', 'UPLOAD_ALREADY_USED');
+    }
+
+    if (upload.expiresAt.getTime() <= now.getTime()) {
+      throw new ApiError(410, 'Upload session has expired', 'UPLOAD_EXPIRED');
+    }
+
+    const stored = await this.storage.getMetadata(upload.storagePath);
+    if (!stored) {
+      throw new ApiError(409, 'Upload has not finished', 'UPLOAD_INCOMPLETE');
+    }
+
+    if (stored.size !== upload.size) {
+      throw new ValidationError('Uploaded file size does not match the upload session', {
+        expected: upload.size,
+        received: stored.size,
+      });
+    }
+
+    // A signed GCS URL pins the declared type, but other backends take whatever was sent
+    if (stored.contentType !== upload.contentType) {
+      throw new ValidationError('Uploaded file type does not match the upload session', {
+        expected: upload.contentType,
+        received: stored.contentType,
+      });
+    }
+
+    return upload;
+  }
+
+  public getPublicUrl(upload: UploadSession): string {
+    return this.storage.getPublicUrl(upload.storagePath);
+  }
+}
+
+export const uploadService = UploadService.getInstance();
@@ -0,0 +1,197 @@
+import { config } from '../config';
+import { firebaseService, FieldValue } from './firebase.service';
+import { cacheService, cacheTags } from './cache.service';
+import { toDate } from './ranking.service';
+import { ApiError, ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+const USERNAME_PATTERN = /^[a-zA-Z0-9_]{3,30}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Handles that would let someone impersonate staff or collide with app routes
+const RESERVED_USERNAMES = [
+  'admin', 'administrator', 'root', 'system', 'support', 'help', 'helpdesk',
+  'moderator', 'mod', 'staff', 'official', 'team', 'security', 'api', 'app',
+  'www', 'mail', 'about', 'settings', 'login', 'logout', 'signup', 'register',
+  'me', 'null', 'undefined', 'anonymous', 'everyone', 'here', 'notifications',
+  'search', 'explore', 'trending', 'foryou', 'following', 'genz', 'genzvideo',
+];
+
+// Characters that render like a Latin letter in the app font. Only real
+// look-alikes belong here: folding distinct letters would block ordinary handles.
+const CONFUSABLE_CHARS: Record<string, string> = {
+  '0': 'o', '1': 'l',
+  'а': 'a', 'е': 'e', 'о': 'o', 'р': 'p', 'с': 'c', 'у': 'y', 'х': 'x', 'і': 'i',
+  'ј': 'j', 'ѕ': 's', 'к': 'k', 'м': 'm', 'н': 'h', 'т': 't', 'в': 'b',
+  'α': 'a', 'ο': 'o', 'ρ': 'p', 'ν': 'v', 'τ': 't', 'ι': 'i', 'κ': 'k', 'χ': 'x',
+};
+
+export interface UsernameResolution {
+  uid: string;
+  // Set when the handle was released by a rename and still points at its old owner
+  redirected: boolean;
+}
+
+// Reduces a handle to the form two look-alike handles share
+export const usernameSkeleton = (username: string): string =>
+  [...username.normalize('NFKC').toLowerCase()]
+    .map(char => CONFUSABLE_CHARS[char] ?? char)
+    .join('')
+    .replace(/_/g, '');
+
+const RESERVED_SKELETONS = new Set(RESERVED_USERNAMES.map(usernameSkeleton));
+
+export const validateUsername = (username: string): void => {
+  if (!USERNAME_PATTERN.test(username)) {
+    throw new ValidationError('Username must be 3-30 characters and contain only letters, numbers, and underscores');
+  }
+
+  if (RESERVED_SKELETONS.has(usernameSkeleton(username))) {
+    throw new ValidationError('This username is reserved');
+  }
+};
+
+const isExpiredRedirect = (claim: Record<string, any>, now: Date): boolean =>
+  Boolean(claim['redirectTo']) && toDate(claim['expiresAt']).getTime() <= now.getTime();
+
+class UsernameService {
+  private static instance: UsernameService;
+
+  private constructor() {}
+
+  public static getInstance(): UsernameService {
+    if (!UsernameService.instance) {
+      UsernameService.instance = new UsernameService();
+    }
+    return UsernameService.instance;
+  }
+
+  // Claims `requested` for `uid` and turns the previous handle into a temporary redirect
+  public async changeUsername(uid: string, requested: string, now: Date = new Date()): Promise<{ username: string; previous: string | null }> {
+    validateUsername(requested);
+
+    const firestore = firebaseService.getFirestore();
+    const lower = requested.toLowerCase();
+    const skeleton = usernameSkeleton(requested);
+    const { changeCooldownDays, redirectGraceDays } = config.usernames;
+
+    const previous = await firestore.runTransaction(async (tx) => {
+      const userRef = firestore.collection('users').doc(uid);
+      const claimRef = firestore.collection('usernames').doc(lower);
+
+      const [userDoc, claimDoc, similarClaims, legacyOwners] = await Promise.all([
+        tx.get(userRef),
+        tx.get(claimRef),
+        tx.get(firestore.collection('usernames').where('skeleton', '==', skeleton).limit(10)),
+        tx.get(firestore.collection('users').where('usernameLower', '==', lower).limit(1)),
+      ]);
+
+      if (!userDoc.exists) {
+        throw new NotFoundError('User');
+      }
+
+      const userData = userDoc.data()!;
+      const currentLower: string | null = userData['usernameLower'] || userData['username']?.toLowerCase() || null;
+      const currentUsername: string | null = userData['username'] || null;
+
+      // Only the capitalisation changed: same claim, no cooldown
+      if (currentLower === lower) {
+        tx.update(userRef, { username: requested, updatedAt: now });
+        tx.set(claimRef, { uid, username: requested, skeleton, updatedAt: now }, { merge: true });
+        return currentUsername;
+      }
+
+      const lastChange = userData['usernameChangedAt'] ? toDate(userData['usernameChangedAt']) : null;
+      if (lastChange) {
+        const nextAllowed = lastChange.getTime() + changeCooldownDays * DAY_MS;
+        if (nextAllowed > now.getTime()) {
+          throw new ApiError(429, 'Username was changed too recently', 'USERNAME_CHANGE_COOLDOWN', {
+            retryAfter: Math.ceil((nextAllowed - now.getTime()) / 1000),
+            nextChangeAt: new Date(nextAllowed),
+          });
+        }
+      }
+
+      if (claimDoc.exists) {
+        const claim = claimDoc.data()!;
+        if (claim['uid'] !== uid && !isExpiredRedirect(claim, now)) {
+          throw new ConflictError('Username is already taken');
+        }
+      }
+
+      const legacyOwner = legacyOwners.docs[0];
+      if (legacyOwner && legacyOwner.id !== uid) {
+        throw new ConflictError('Username is already taken');
+      }
+
+      const lookalike = similarClaims.docs.find(doc => {
+        const claim = doc.data();
+        return doc.id !== lower && claim['uid'] !== uid && !isExpiredRedirect(claim, now);
+      });
+      if (lookalike) {
+        throw new ConflictError('Username is too similar to an existing username');
+      }
+
+      tx.set(claimRef, { uid, username: requested, skeleton, createdAt: now });
+
+      if (currentLower) {
+        // Keep the old handle pointing here so existing links and mentions still work
+        tx.set(firestore.collection('usernames').doc(currentLower), {
+          uid,
+          username: currentUsername,
+          skeleton: usernameSkeleton(currentLower),
+          redirectTo: lower,
+          releasedAt: now,
+          expiresAt: new Date(now.getTime() + redirectGraceDays * DAY_MS),
+        });
+      }
+
+      tx.update(userRef, {
+        username: requested,
+        usernameLower: lower,
+        usernameChangedAt: now,
+        updatedAt: now,
+        ...(currentUsername && { previousUsernames: FieldValue.arrayUnion(currentUsername) }),
+      });
+
+      return currentUsername;
+    });
+
+    // The new handle may still be cached as pointing at its previous owner
+    await Promise.all([
+      cacheService.del(`user:by-username:${lower}`),
+      cacheService.invalidateTags([cacheTags.user(uid)]),
+    ]);
+
+    logger.info('Username changed', { uid, username: requested, previous });
+
+    return { username: requested, previous };
+  }
+
+  public async resolve(username: string, now: Date = new Date()): Promise<UsernameResolution | null> {
+    const firestore = firebaseService.getFirestore();
+    const lower = username.toLowerCase();
+
+    const claimDoc = await firestore.collection('usernames').doc(lower).get();
+    if (claimDoc.exists) {
+      const claim = claimDoc.data()!;
+      if (isExpiredRedirect(claim, now)) {
+        return null;
+      }
+      return { uid: claim['uid'], redirected: Boolean(claim['redirectTo']) };
+    }
+
+    // Accounts that picked a handle before claims existed. Ones the backfill has
+    // not reached yet have no usernameLower, so the handle is also tried as written.
+    const users = firestore.collection('users');
+    const [byLower, byHandle] = await Promise.all([
+      users.where('usernameLower', '==', lower).limit(1).get(),
+      users.where('username', 'in', [...new Set([username, lower])]).limit(1).get(),
+    ]);
+
+    const legacy = byLower.docs[0] ?? byHandle.docs[0];
+    return legacy ? { uid: legacy.id, redirected: false } : null;
+  }
+}
+
+export const usernameService = UsernameService.getInstance();
@@ -0,0 +1,325 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { config } from '../config';
+import { firebaseService } from './firebase.service';
+import { cacheService, cacheTags } from './cache.service';
+import { searchService } from './search.service';
+import { storageBackend, StorageBackend } from './storage.service';
+import { createTranscoder, selectRenditions, buildMasterPlaylist, Transcoder, RenditionOutput } from './transcoder';
+import { toDate } from './ranking.service';
+import { JobQueue } from '../jobs/queue';
+import { ApiError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+export type VideoStatus = 'uploaded' | 'processing' | 'ready' | 'published' | 'failed';
+
+export type ProcessingStage = 'queued' | 'probing' | 'thumbnail' | 'transcoding' | 'finalizing' | 'done' | 'failed';
+
+export const VIDEO_STATUS_TRANSITIONS: Record<VideoStatus, VideoStatus[]> = {
+  uploaded: ['processing'],
+  processing: ['ready', 'failed'],
+  ready: ['published'],
+  published: [],
+  // Failed videos go back through the pipeline on retry
+  failed: ['processing'],
+};
+
+export const canTransition = (from: VideoStatus, to: VideoStatus): boolean =>
+  (VIDEO_STATUS_TRANSITIONS[from] || []).includes(to);
+
+export const assertTransition = (from: VideoStatus, to: VideoStatus): void => {
+  if (!canTransition(from, to)) {
+    throw new ApiError(409, `Video cannot move from ${from} to ${to}`, 'INVALID_STATUS_TRANSITION', { from, to });
+  }
+};
+
+export interface ProcessingStore {
+  get(videoId: string): Promise<Record<string, any> | null>;
+  update(videoId: string, patch: Record<string, any>): Promise<void>;
+  // Moves the video to `to` only if it is still in `from`; false when another worker won
+  transition(videoId: string, from: VideoStatus, to: VideoStatus, patch: Record<string, any>): Promise<boolean>;
+  findByStatus(status: VideoStatus, limit: number): Promise<Array<{ id: string; data: Record<string, any> }>>;
+}
+
+export class FirestoreProcessingStore implements ProcessingStore {
+  private get videos() {
+    return firebaseService.getFirestore().collection('videos');
+  }
+
+  public async get(videoId: string): Promise<Record<string, any> | null> {
+    const doc = await this.videos.doc(videoId).get();
+    return doc.exists ? doc.data()! : null;
+  }
+
+  public async update(videoId: string, patch: Record<string, any>): Promise<void> {
+    await this.videos.doc(videoId).update(patch);
+  }
+
+  public async transition(videoId: string, from: VideoStatus, to: VideoStatus, patch: Record<string, any>): Promise<boolean> {
+    assertTransition(from, to);
+    const ref = this.videos.doc(videoId);
+
+    return firebaseService.getFirestore().runTransaction(async (tx) => {
+      const doc = await tx.get(ref);
+      if (!doc.exists || doc.data()!['status'] !== from) {
+        return false;
+      }
+      tx.update(ref, { ...patch, status: to });
+      return true;
+    });
+  }
+
+  public async findByStatus(status: VideoStatus, limit: number): Promise<Array<{ id: string; data: Record<string, any> }>> {
+    const snapshot = await this.videos.where('status', '==', status).limit(limit).get();
+    return snapshot.docs.map(doc => ({ id: doc.id, data: doc.data() }));
+  }
+}
+
+// Share of the progress bar each stage accounts for
+const PROBE_WEIGHT = 0.05;
+const THUMBNAIL_WEIGHT = 0.05;
+const TRANSCODE_WEIGHT = 0.85;
+// Avoid a Firestore write for every ffmpeg progress line
+const PROGRESS_WRITE_STEP = 0.05;
+const SWEEP_BATCH_SIZE = 50;
+
+const HLS_CONTENT_TYPE = 'application/vnd.apple.mpegurl';
+
+const contentTypeFor = (filename: string): string => {
+  if (filename.endsWith('.m3u8')) return HLS_CONTENT_TYPE;
+  if (filename.endsWith('.ts')) return 'video/mp2t';
+  if (filename.endsWith('.jpg')) return 'image/jpeg';
+  return 'application/octet-stream';
+};
+
+export class VideoProcessingService {
+  private queue: JobQueue<string>;
+  private readonly maxAttempts: number;
+
+  constructor(
+    private readonly store: ProcessingStore,
+    private readonly storage: StorageBackend,
+    private readonly transcoder: Transcoder,
+    options: { concurrency: number; maxAttempts: number; retryBackoffMs: number } = config.processing
+  ) {
+    this.queue = new JobQueue('video-processing', (videoId, attempt) => this.process(videoId, attempt), options);
+    this.maxAttempts = options.maxAttempts;
+  }
+
+  public enqueue(videoId: string, attempt: number = 1): boolean {
+    return this.queue.enqueue(videoId, videoId, attempt);
+  }
+
+  public onIdle(): Promise<void> {
+    return this.queue.onIdle();
+  }
+
+  public stop(): void {
+    this.queue.stop();
+  }
+
+  // Picks up uploads no worker has claimed (e.g. enqueued on an instance that
+  // restarted) and fails processing runs that stopped reporting progress
+  public async recoverStalled(now: Date = new Date()): Promise<void> {
+    const [uploaded, processing] = await Promise.all([
+      this.store.findByStatus('uploaded', SWEEP_BATCH_SIZE),
+      this.store.findByStatus('processing', SWEEP_BATCH_SIZE),
+    ]);
+
+    uploaded.forEach(({ id }) => this.enqueue(id));
+
+    for (const { id, data } of processing) {
+      const lastUpdate = toDate(data['processing']?.['updatedAt']).getTime();
+      if (this.queue.has(id) || now.getTime() - lastUpdate < config.processing.staleAfterMs) {
+        continue;
+      }
+
+      // A stalled run counts as an attempt, so a video that keeps killing workers stops being retried
+      const attempts = Number(data['processing']?.['attempts']) || 1;
+      const exhausted = attempts >= this.maxAttempts;
+      const failed = await this.store.transition(id, 'processing', 'failed', {
+        'processing.stage': 'failed',
+        'processing.error': exhausted ? 'Processing stalled too many times' : 'Processing stalled',
+        'processing.updatedAt': now,
+      });
+      if (!failed) {
+        continue;
+      }
+
+      if (exhausted) {
+        logger.error('Video processing stalled on its last attempt', { videoId: id, attempts });
+        await this.afterStatusChange(id);
+      } else {
+        logger.warn('Requeued stalled video processing', { videoId: id, attempts });
+        this.enqueue(id, attempts + 1);
+      }
+    }
+  }
+
+  public async process(videoId: string, attempt: number = 1): Promise<void> {
+    const video = await this.store.get(videoId);
+    if (!video) {
+      logger.warn('Skipping processing for missing video', { videoId });
+      return;
+    }
+
+    const from = video['status'] as VideoStatus;
+    if (from !== 'uploaded' && from !== 'failed') {
+      return;
+    }
+
+    const startedAt = new Date();
+    const claimed = await this.store.transition(videoId, from, 'processing', {
+      processing: {
+        stage: 'probing',
+        progress: 0,
+        attempts: attempt,
+        error: null,
+        startedAt,
+        updatedAt: startedAt,
+      },
+    });
+    if (!claimed) {
+      return;
+    }
+
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), `video-${videoId}-`));
+    let lastWrittenProgress = 0;
+
+    const report = async (stage: ProcessingStage, progress: number, force: boolean = false) => {
+      if (!force && progress - lastWrittenProgress < PROGRESS_WRITE_STEP) {
+        return;
+      }
+      lastWrittenProgress = progress;
+      await this.store.update(videoId, {
+        'processing.stage': stage,
+        'processing.progress': Math.round(progress * 1000) / 1000,
+        'processing.updatedAt': new Date(),
+      });
+    };
+
+    try {
+      const input = await this.storage.getReadUrl(video['storagePath'], new Date(Date.now() + 6 * 60 * 60 * 1000));
+
+      const probe = await this.transcoder.probe(input);
+      await this.store.update(videoId, {
+        duration: Math.round(probe.durationSeconds),
+        resolution: { width: probe.width, height: probe.height },
+      });
+      await report('thumbnail', PROBE_WEIGHT, true);
+
+      const thumbnailPath = `videos/${videoId}/thumbnail.jpg`;
+      const thumbnailFile = path.join(workDir, 'thumbnail.jpg');
+      await this.transcoder.createThumbnail(input, thumbnailFile, Math.min(3, probe.durationSeconds / 4));
+      await this.storage.writeObject(thumbnailPath, await fs.readFile(thumbnailFile), 'image/jpeg');
+      await report('transcoding', PROBE_WEIGHT + THUMBNAIL_WEIGHT, true);
+
+      const ladder = selectRenditions(probe);
+      const outputs: Array<RenditionOutput & { uri: string }> = [];
+
+      for (const [index, rendition] of ladder.entries()) {
+        const outputDir = path.join(workDir, rendition.spec.name);
+        const base = PROBE_WEIGHT + THUMBNAIL_WEIGHT + (TRANSCODE_WEIGHT * index) / ladder.length;
+
+        const output = await this.transcoder.createHlsRendition(
+          input,
+          outputDir,
+          { ...rendition, durationSeconds: probe.durationSeconds },
+          fraction => {
+            report('transcoding', base + (TRANSCODE_WEIGHT * fraction) / ladder.length).catch(error => {
+              logger.warn('Failed to record processing progress', { videoId, error });
+            });
+          }
+        );
+
+        await this.uploadDirectory(outputDir, `videos/${videoId}/hls/${rendition.spec.name}`);
+        outputs.push({ ...output, uri: `${rendition.spec.name}/${output.playlist}` });
+      }
+
+      await report('finalizing', PROBE_WEIGHT + THUMBNAIL_WEIGHT + TRANSCODE_WEIGHT, true);
+
+      const masterPath = `videos/${videoId}/hls/master.m3u8`;
+      await this.storage.writeObject(masterPath, buildMasterPlaylist(outputs), HLS_CONTENT_TYPE);
+
+      const completedAt = new Date();
+      await this.store.transition(videoId, 'processing', 'ready', {
+        hlsUrl: this.storage.getPublicUrl(masterPath),
+        renditions: outputs.map(output => ({
+          name: output.spec.name,
+          width: output.width,
+          height: output.height,
+          bandwidth: output.bandwidth,
+          playlistUrl: this.storage.getPublicUrl(`videos/${videoId}/hls/${output.uri}`),
+        })),
+        // Keep a thumbnail the creator picked themselves
+        ...(!video['thumbnailUrl'] && { thumbnailUrl: this.storage.getPublicUrl(thumbnailPath) }),
+        'processing.stage': 'done',
+        'processing.progress': 1,
+        'processing.updatedAt': completedAt,
+        'processing.completedAt': completedAt,
+        updatedAt: completedAt,
+      });
+
+      if (video['publishWhenReady'] !== false) {
+        await this.publish(videoId);
+      } else {
+        await this.afterStatusChange(videoId);
+      }
+
+      logger.info('Video processed', { videoId, renditions: outputs.length, durationMs: Date.now() - startedAt.getTime() });
+    } catch (error: any) {
+      await this.store.transition(videoId, 'processing', 'failed', {
+        'processing.stage': 'failed',
+        'processing.error': error?.message || 'Processing failed',
+        'processing.updatedAt': new Date(),
+      });
+      await this.afterStatusChange(videoId);
+      logger.error('Video processing failed', { videoId, attempt, error: error?.message });
+      // Let the queue decide whether to retry
+      throw error;
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  // ready → published; also reached from updateVideo when the creator held the video
+  // back, with the edits made in the same request applied in the same write
+  public async publish(videoId: string, edits: Record<string, any> = {}): Promise<void> {
+    const now = new Date();
+    const published = await this.store.transition(videoId, 'ready', 'published', { ...edits, publishedAt: now, updatedAt: now });
+    if (!published) {
+      const current = await this.store.get(videoId);
+      assertTransition((current?.['status'] || 'uploaded') as VideoStatus, 'published');
+    }
+    await this.afterStatusChange(videoId);
+  }
+
+  private async uploadDirectory(localDir: string, prefix: string): Promise<void> {
+    const entries = await fs.readdir(localDir);
+    for (const entry of entries) {
+      await this.storage.writeObject(`${prefix}/${entry}`, await fs.readFile(path.join(localDir, entry)), contentTypeFor(entry));
+    }
+  }
+
+  private async afterStatusChange(videoId: string): Promise<void> {
+    const video = await this.store.get(videoId);
+
+    try {
+      await searchService.syncVideo(videoId, video);
+      await cacheService.invalidateTags([
+        cacheTags.video(videoId),
+        cacheTags.videoLists(),
+        ...(video ? [cacheTags.userVideos(video['userId'])] : []),
+      ]);
+    } catch (error) {
+      logger.warn('Failed to refresh caches after status change', { videoId, error });
+    }
+  }
+}
+
+export const videoProcessingService = new VideoProcessingService(
+  new FirestoreProcessingStore(),
+  storageBackend,
+  createTranscoder(config.processing.transcoder)
+);
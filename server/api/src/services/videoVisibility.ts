@@ -0,0 +1,10 @@
+// `status` is the processing lifecycle. Moderators take a video down through
+// `moderationStatus` instead, which is unset while the video is in good standing.
+export type VideoModerationStatus = 'hidden' | 'removed';
+
+export const isTakenDown = (data: Record<string, any>): boolean =>
+  data['moderationStatus'] === 'hidden' || data['moderationStatus'] === 'removed';
+
+// Whether anyone other than the owner may see the video in feeds, search and on its page
+export const isPubliclyVisible = (data: Record<string, any>): boolean =>
+  data['visibility'] === 'public' && data['status'] === 'published' && !isTakenDown(data);
@@ -0,0 +1,497 @@
+import type Redis from 'ioredis';
+import { config } from '../config';
+import { firebaseService, FieldValue } from './firebase.service';
+import { cacheService, cacheTags } from './cache.service';
+import { isTakenDown } from './videoVisibility';
+import { NotFoundError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+// Where the viewer found the video, as reported by the player
+export const TRAFFIC_SOURCES = ['for_you', 'following', 'search', 'profile', 'share', 'other'] as const;
+export type TrafficSource = typeof TRAFFIC_SOURCES[number];
+
+// Retention is sampled at every tenth of the video, 0% through 100%
+export const RETENTION_POINTS = 11;
+
+// Counters accumulated for one video on one (UTC) day between flushes
+export interface ViewDelta {
+  views: number;
+  // Counted once per viewer per day, however many windows they watch in
+  uniqueViewers: number;
+  watchSeconds: number;
+  completions: number;
+  loops: number;
+  // retention[i] counts plays that reached i/10 of the video
+  retention: number[];
+  // Counted views by traffic source
+  sources: Partial<Record<TrafficSource, number>>;
+  // Rewinds by the whole second of the video they jumped back to
+  replays: Record<string, number>;
+}
+
+export interface BufferedViews {
+  videoId: string;
+  // YYYY-MM-DD, the day the watch events arrived
+  day: string;
+  delta: ViewDelta;
+}
+
+export interface WatchEvent {
+  videoId: string;
+  // 'user:{uid}' for signed-in viewers, 'ip:{address}' otherwise
+  viewerKey: string;
+  userId?: string | undefined;
+  watchedSeconds: number;
+  // Fraction of the video reached on the last pass, 0-1
+  completion: number;
+  loops: number;
+  source?: TrafficSource | undefined;
+  // Positions, in seconds, the viewer seeked back to during the play
+  replayedFrom?: number[] | undefined;
+}
+
+export interface VideoViewInfo {
+  userId: string;
+  durationSeconds: number;
+  countable: boolean;
+}
+
+// A pass that reaches this far counts as finishing the video
+export const COMPLETION_THRESHOLD = 0.9;
+export const MAX_LOOPS_PER_EVENT = 50;
+export const MAX_REPLAYS_PER_EVENT = 20;
+const DAY_SECONDS = 24 * 60 * 60;
+
+// Firestore rejects batches above 500 writes; an entry takes up to three
+// (video totals, daily stats, rewind moments)
+export const MAX_ENTRIES_PER_APPLY = Math.floor(500 / 3);
+
+const COUNTER_FIELDS = ['views', 'uniqueViewers', 'watchSeconds', 'completions', 'loops'] as const;
+
+export const emptyDelta = (): ViewDelta => ({
+  views: 0,
+  uniqueViewers: 0,
+  watchSeconds: 0,
+  completions: 0,
+  loops: 0,
+  retention: new Array(RETENTION_POINTS).fill(0),
+  sources: {},
+  replays: {},
+});
+
+export const addDelta = (target: ViewDelta, delta: ViewDelta): ViewDelta => {
+  COUNTER_FIELDS.forEach(field => {
+    target[field] += delta[field];
+  });
+  delta.retention.forEach((count, index) => {
+    target.retention[index] = (target.retention[index] || 0) + count;
+  });
+  Object.entries(delta.sources).forEach(([source, count]) => {
+    target.sources[source as TrafficSource] = (target.sources[source as TrafficSource] || 0) + count;
+  });
+  Object.entries(delta.replays).forEach(([second, count]) => {
+    target.replays[second] = (target.replays[second] || 0) + count;
+  });
+  return target;
+};
+
+// Flat hash fields for Redis: counters by name, 'r{i}' for retention,
+// 'src:{source}' for sources and 'rp:{second}' for replays
+const toHashFields = (delta: ViewDelta): Array<[string, number]> => [
+  ...COUNTER_FIELDS.map((field): [string, number] => [field, delta[field]]),
+  ...delta.retention.map((count, index): [string, number] => [`r${index}`, count]),
+  ...Object.entries(delta.sources).map(([source, count]): [string, number] => [`src:${source}`, count]),
+  ...Object.entries(delta.replays).map(([second, count]): [string, number] => [`rp:${second}`, count]),
+].filter(([, value]) => value !== 0);
+
+const fromHashFields = (fields: string[]): ViewDelta => {
+  const delta = emptyDelta();
+  for (let i = 0; i < fields.length; i += 2) {
+    const field = fields[i]!;
+    const value = Number(fields[i + 1]) || 0;
+    if (field.startsWith('src:')) {
+      delta.sources[field.slice(4) as TrafficSource] = value;
+    } else if (field.startsWith('rp:')) {
+      delta.replays[field.slice(3)] = value;
+    } else if (/^r\d+$/.test(field)) {
+      delta.retention[Number(field.slice(1))] = value;
+    } else if ((COUNTER_FIELDS as readonly string[]).includes(field)) {
+      delta[field as typeof COUNTER_FIELDS[number]] = value;
+    }
+  }
+  return delta;
+};
+
+// Nested increments for a videoStats document; zero counters are left out
+const toStatsIncrements = (delta: ViewDelta): Record<string, any> => {
+  const increments: Record<string, any> = {};
+  COUNTER_FIELDS.forEach(field => {
+    increments[field] = FieldValue.increment(delta[field]);
+  });
+  increments['retention'] = Object.fromEntries(delta.retention
+    .map((count, index): [string, number] => [`r${index}`, count])
+    .filter(([, count]) => count > 0)
+    .map(([key, count]) => [key, FieldValue.increment(count)]));
+  increments['sources'] = Object.fromEntries(Object.entries(delta.sources)
+    .map(([source, count]) => [source, FieldValue.increment(count)]));
+  return increments;
+};
+
+export const dayKey = (at: Date): string => at.toISOString().slice(0, 10);
+
+// Pops up to ARGV[1] members from the pending set and returns each one's
+// counters, deleting them in the same step so two flushers never both apply them.
+// KEYS[1] pending set; ARGV: count, hash key prefix.
+const DRAIN_SCRIPT = `
+local members = redis.call('SPOP', KEYS[1], ARGV[1])
+local out = {}
+for _, member in ipairs(members) do
+  local key = ARGV[2] .. member
+  table.insert(out, member)
+  table.insert(out, redis.call('HGETALL', key))
+  redis.call('DEL', key)
+end
+return out
+`;
+
+// In-process buffer, used when Redis is down and in tests
+export class InMemoryViewBuffer {
+  private seen = new Map<string, number>();
+  private pending = new Map<string, ViewDelta>();
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  public markSeen(key: string, windowSeconds: number): boolean {
+    const now = this.now();
+    const expiresAt = this.seen.get(key);
+    if (expiresAt !== undefined && expiresAt > now) {
+      return false;
+    }
+    this.seen.set(key, now + windowSeconds * 1000);
+    return true;
+  }
+
+  public add(member: string, delta: ViewDelta): void {
+    this.pending.set(member, addDelta(this.pending.get(member) || emptyDelta(), delta));
+  }
+
+  public drain(limit: number): Array<[string, ViewDelta]> {
+    const taken = [...this.pending.entries()].slice(0, limit);
+    taken.forEach(([member]) => this.pending.delete(member));
+    return taken;
+  }
+
+  public sweep(): void {
+    const now = this.now();
+    this.seen.forEach((expiresAt, key) => {
+      if (expiresAt <= now) {
+        this.seen.delete(key);
+      }
+    });
+  }
+}
+
+// Holds dedupe markers and pending counters in Redis so every instance shares
+// them, falling back to the process when Redis is unavailable. Counters left in
+// memory are lost if the process dies before the next flush.
+export class ViewBuffer {
+  private readonly memory: InMemoryViewBuffer;
+  private readonly redis: () => Redis | null;
+  private readonly prefix: string;
+
+  constructor(options: { prefix?: string; redis?: () => Redis | null; now?: () => number } = {}) {
+    this.prefix = options.prefix || 'views:';
+    this.redis = options.redis || (() => cacheService.getRedisClient());
+    this.memory = new InMemoryViewBuffer(options.now);
+  }
+
+  private get pendingSetKey(): string {
+    return `${this.prefix}pending`;
+  }
+
+  // True the first time a viewer is seen for a video within the window
+  public async markSeen(videoId: string, viewerKey: string, windowSeconds: number): Promise<boolean> {
+    const key = `${this.prefix}seen:${videoId}:${viewerKey}`;
+    const redis = this.redis();
+    if (redis) {
+      try {
+        return await redis.set(key, '1', 'EX', windowSeconds, 'NX') === 'OK';
+      } catch (error) {
+        logger.error('View dedupe check failed', { key, error });
+      }
+    }
+    return this.memory.markSeen(key, windowSeconds);
+  }
+
+  public async add(entry: BufferedViews): Promise<void> {
+    const member = `${entry.videoId}:${entry.day}`;
+    const redis = this.redis();
+    if (redis) {
+      try {
+        const key = `${this.prefix}delta:${member}`;
+        const transaction = redis.multi();
+        toHashFields(entry.delta).forEach(([field, value]) => {
+          if (field === 'watchSeconds') {
+            transaction.hincrbyfloat(key, field, value);
+          } else {
+            transaction.hincrby(key, field, value);
+          }
+        });
+        await transaction.sadd(this.pendingSetKey, member).exec();
+        return;
+      } catch (error) {
+        logger.error('Failed to buffer views in Redis', { member, error });
+      }
+    }
+    this.memory.add(member, entry.delta);
+  }
+
+  // Takes up to `limit` buffered entries, from memory first and then Redis
+  public async drain(limit: number): Promise<BufferedViews[]> {
+    const drained: Array<[string, ViewDelta]> = this.memory.drain(limit);
+
+    const redis = this.redis();
+    const remaining = limit - drained.length;
+    if (redis && remaining > 0) {
+      try {
+        const reply = await redis.eval(DRAIN_SCRIPT, 1, this.pendingSetKey, remaining, `${this.prefix}delta:`) as Array<string | string[]>;
+        for (let i = 0; i < reply.length; i += 2) {
+          drained.push([reply[i] as string, fromHashFields(reply[i + 1] as string[])]);
+        }
+      } catch (error) {
+        logger.error('Failed to drain buffered views from Redis', error);
+      }
+    }
+
+    return drained.map(([member, delta]) => {
+      const separator = member.lastIndexOf(':');
+      return { videoId: member.slice(0, separator), day: member.slice(separator + 1), delta };
+    });
+  }
+
+  public sweep(): void {
+    this.memory.sweep();
+  }
+}
+
+export interface ViewStore {
+  getVideo(videoId: string): Promise<VideoViewInfo | null>;
+  // Watch history used by recommendations and trending
+  recordViewer(userId: string, videoId: string, at: Date): Promise<void>;
+  // Adds the counters to each video's totals and its daily stats document, all
+  // or nothing. Called with at most MAX_ENTRIES_PER_APPLY entries.
+  apply(entries: BufferedViews[], at: Date): Promise<void>;
+}
+
+export class FirestoreViewStore implements ViewStore {
+  private get firestore() {
+    return firebaseService.getFirestore();
+  }
+
+  public async getVideo(videoId: string): Promise<VideoViewInfo | null> {
+    const doc = await this.firestore.collection('videos').doc(videoId).get();
+    if (!doc.exists) {
+      return null;
+    }
+    const data = doc.data()!;
+    return {
+      userId: data['userId'],
+      durationSeconds: Number(data['duration']) || 0,
+      countable: data['status'] === 'published' && !isTakenDown(data),
+    };
+  }
+
+  public async recordViewer(userId: string, videoId: string, at: Date): Promise<void> {
+    await this.firestore.collection('views').doc(`${userId}_${videoId}`).set({
+      userId,
+      videoId,
+      viewedAt: at,
+    }, { merge: true });
+  }
+
+  public async apply(entries: BufferedViews[], at: Date): Promise<void> {
+    const videoIds = [...new Set(entries.map(entry => entry.videoId))];
+    const videos = await this.firestore.getAll(...videoIds.map(id => this.firestore.collection('videos').doc(id)));
+    const owners = new Map(videos.filter(doc => doc.exists).map(doc => [doc.id, doc.get('userId') as string]));
+
+    const batch = this.firestore.batch();
+    entries.forEach(({ videoId, day, delta }) => {
+      const creatorId = owners.get(videoId);
+      // Deleted since the views came in
+      if (!creatorId) {
+        return;
+      }
+
+      batch.update(this.firestore.collection('videos').doc(videoId), {
+        viewCount: FieldValue.increment(delta.views),
+        watchTimeSeconds: FieldValue.increment(delta.watchSeconds),
+        completionCount: FieldValue.increment(delta.completions),
+        loopCount: FieldValue.increment(delta.loops),
+      });
+      batch.set(this.firestore.collection('videoStats').doc(`${videoId}_${day}`), {
+        videoId,
+        creatorId,
+        date: day,
+        ...toStatsIncrements(delta),
+        updatedAt: at,
+      }, { merge: true });
+      // All-time rewind counts feed highlight detection
+      if (Object.keys(delta.replays).length > 0) {
+        batch.set(this.firestore.collection('videoMoments').doc(videoId), {
+          videoId,
+          replays: Object.fromEntries(Object.entries(delta.replays)
+            .map(([second, count]) => [second, FieldValue.increment(count)])),
+          updatedAt: at,
+        }, { merge: true });
+      }
+    });
+    await batch.commit();
+  }
+}
+
+export interface ViewCounterOptions {
+  dedupeWindowSeconds: number;
+  minWatchSeconds: number;
+  flushBatchSize: number;
+}
+
+// Counts views from player watch events. Within a dedupe window a viewer adds
+// at most one view, and only their first play and the one that counted as the
+// view add watch time, completions, loops, retention and rewinds; watch time is
+// also clamped to what the video's length and reported loops make possible.
+// Counters are buffered and written to Firestore in batches by the view-flush job.
+export class ViewCounterService {
+  constructor(
+    private readonly store: ViewStore,
+    private readonly buffer: ViewBuffer,
+    private readonly options: ViewCounterOptions = config.views
+  ) {}
+
+  private getVideo(videoId: string): Promise<VideoViewInfo | null> {
+    return cacheService.getOrCompute(
+      `video:view-info:${videoId}`,
+      config.cache.ttl,
+      () => this.store.getVideo(videoId),
+      { tags: [cacheTags.video(videoId)] }
+    );
+  }
+
+  public async record(event: WatchEvent, now: Date = new Date()): Promise<{ counted: boolean }> {
+    const video = await this.getVideo(event.videoId);
+
+    if (!video || !video.countable) {
+      throw new NotFoundError('Video');
+    }
+
+    const loops = Math.min(Math.max(0, Math.floor(event.loops)), MAX_LOOPS_PER_EVENT);
+    const ceiling = video.durationSeconds > 0 ? video.durationSeconds * (loops + 1) : Infinity;
+    const watchSeconds = Math.min(Math.max(0, event.watchedSeconds), ceiling);
+
+    // Creators rewatching their own upload don't inflate its numbers
+    if (event.userId !== undefined && event.userId === video.userId) {
+      return { counted: false };
+    }
+
+    const day = dayKey(now);
+    const counted = watchSeconds >= this.options.minWatchSeconds
+      && await this.buffer.markSeen(event.videoId, event.viewerKey, this.options.dedupeWindowSeconds);
+    const firstToday = counted
+      && await this.buffer.markSeen(event.videoId, `${day}:${event.viewerKey}`, DAY_SECONDS);
+    const firstPlay = await this.buffer.markSeen(
+      event.videoId,
+      `play:${event.viewerKey}`,
+      this.options.dedupeWindowSeconds
+    );
+
+    // Replayed events would otherwise inflate everything below
+    if (!counted && !firstPlay) {
+      return { counted };
+    }
+
+    const delta = emptyDelta();
+    delta.views = counted ? 1 : 0;
+    delta.uniqueViewers = firstToday ? 1 : 0;
+    delta.watchSeconds = Math.round(watchSeconds * 10) / 10;
+    delta.completions = event.completion >= COMPLETION_THRESHOLD ? 1 : 0;
+    delta.loops = loops;
+    // Every play feeds retention, including the glances that never became a view
+    const reached = Math.min(Math.max(0, event.completion), 1);
+    delta.retention = delta.retention.map((_, index) => (reached * 10 >= index - 1e-9 ? 1 : 0));
+    if (counted) {
+      delta.sources[event.source || 'other'] = 1;
+    }
+    // Each second counts once per play, however often the viewer went back to it
+    const seconds = new Set((event.replayedFrom || [])
+      .map(position => Math.floor(position))
+      .filter(second => second >= 0 && (video.durationSeconds <= 0 || second < video.durationSeconds)));
+    [...seconds].slice(0, MAX_REPLAYS_PER_EVENT).forEach(second => {
+      delta.replays[String(second)] = 1;
+    });
+
+    await this.buffer.add({ videoId: event.videoId, day, delta });
+
+    if (counted && event.userId) {
+      await this.store.recordViewer(event.userId, event.videoId, now);
+    }
+
+    return { counted };
+  }
+
+  // Counts opening a video as a view, for app versions whose player does not
+  // report watch events yet. It shares the dedupe window with `record`, so a
+  // watch event that follows the open is not counted a second time.
+  public async recordOpen(
+    event: Pick<WatchEvent, 'videoId' | 'viewerKey' | 'userId'>,
+    now: Date = new Date()
+  ): Promise<{ counted: boolean }> {
+    const video = await this.getVideo(event.videoId);
+    if (!video || !video.countable || (event.userId !== undefined && event.userId === video.userId)) {
+      return { counted: false };
+    }
+
+    const day = dayKey(now);
+    if (!await this.buffer.markSeen(event.videoId, event.viewerKey, this.options.dedupeWindowSeconds)) {
+      return { counted: false };
+    }
+    const firstToday = await this.buffer.markSeen(event.videoId, `${day}:${event.viewerKey}`, DAY_SECONDS);
+
+    const delta = emptyDelta();
+    delta.views = 1;
+    delta.uniqueViewers = firstToday ? 1 : 0;
+    delta.sources.other = 1;
+    await this.buffer.add({ videoId: event.videoId, day, delta });
+
+    if (event.userId) {
+      await this.store.recordViewer(event.userId, event.videoId, now);
+    }
+
+    return { counted: true };
+  }
+
+  // Writes buffered counters to Firestore. On failure the entries not yet
+  // written go back into the buffer for the next run rather than being dropped.
+  public async flush(now: Date = new Date()): Promise<number> {
+    const entries = await this.buffer.drain(this.options.flushBatchSize);
+    if (entries.length === 0) {
+      return 0;
+    }
+
+    for (let i = 0; i < entries.length; i += MAX_ENTRIES_PER_APPLY) {
+      try {
+        await this.store.apply(entries.slice(i, i + MAX_ENTRIES_PER_APPLY), now);
+      } catch (error) {
+        await Promise.all(entries.slice(i).map(entry => this.buffer.add(entry)));
+        throw error;
+      }
+    }
+
+    // Cached video pages are left alone: busy videos would otherwise lose their
+    // cache on every flush, and a view count a few minutes stale is fine
+    this.buffer.sweep();
+
+    logger.info('Flushed buffered views', { entries: entries.length });
+    return entries.length;
+  }
+}
+
+export const viewCounterService = new ViewCounterService(new FirestoreViewStore(), new ViewBuffer());
@@ -0,0 +1,201 @@
+import crypto from 'crypto';
+import { firestore } from 'firebase-admin';
+import { config } from '../config';
+import { FieldPath, Timestamp } from '../services/firebase.service';
+import { ValidationError } from './errors';
+
+export interface PaginationInfo {
+  page: number;
+  limit: number;
+  total: number;
+  hasMore: boolean;
+  nextCursor: string | null;
+}
+
+export interface CursorPayload {
+  values: unknown[];
+  id: string;
+}
+
+export interface CursorPageOptions {
+  // Binds the cursor to one list so it cannot be replayed against another
+  scope: string;
+  orderBy: Array<{ field: string; direction: firestore.OrderByDirection }>;
+  limit: number;
+  page?: number | undefined;
+  cursor?: string | undefined;
+  // Drops documents the viewer may not see. Skipped documents are replaced by
+  // further reads so pages still come back full; `total` still counts them.
+  filter?: ((doc: firestore.QueryDocumentSnapshot) => boolean) | undefined;
+}
+
+export interface CursorPage {
+  docs: firestore.QueryDocumentSnapshot[];
+  pagination: PaginationInfo;
+}
+
+const SIGNATURE_LENGTH = 22;
+
+const sign = (data: string): string =>
+  crypto
+    .createHmac('sha256', config.security.cursorSecret)
+    .update(data)
+    .digest('base64url')
+    .slice(0, SIGNATURE_LENGTH);
+
+// Firestore timestamps don't survive JSON, so they are tagged and rebuilt on decode
+interface SerializedTimestamp {
+  __ts: [number, number];
+}
+
+const isSerializedTimestamp = (value: unknown): value is SerializedTimestamp =>
+  typeof value === 'object' && value !== null && Array.isArray((value as Partial<SerializedTimestamp>).__ts);
+
+const serializeValue = (value: unknown): unknown => {
+  if (value instanceof Timestamp) {
+    return { __ts: [value.seconds, value.nanoseconds] } satisfies SerializedTimestamp;
+  }
+  if (value instanceof Date) {
+    return { __ts: [Math.floor(value.getTime() / 1000), (value.getTime() % 1000) * 1e6] } satisfies SerializedTimestamp;
+  }
+  return value ?? null;
+};
+
+const deserializeValue = (value: unknown): unknown => {
+  if (isSerializedTimestamp(value)) {
+    const [seconds, nanoseconds] = value.__ts;
+    return new Timestamp(Number(seconds), Number(nanoseconds));
+  }
+  return value;
+};
+
+// The signed cursor body: scope, serialized order values and document ID
+interface CursorBody {
+  s: string;
+  v: unknown[];
+  id: string;
+}
+
+const isCursorBodyFor = (scope: string, value: unknown): value is CursorBody => {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const body = value as Partial<CursorBody>;
+  return body.s === scope && Array.isArray(body.v) && typeof body.id === 'string';
+};
+
+export const encodeCursor = (scope: string, payload: CursorPayload): string => {
+  const body = Buffer.from(JSON.stringify({
+    s: scope,
+    v: payload.values.map(serializeValue),
+    id: payload.id,
+  } satisfies CursorBody)).toString('base64url');
+
+  return `${body}.${sign(body)}`;
+};
+
+export const decodeCursor = (scope: string, token: string): CursorPayload => {
+  const [body, signature] = token.split('.');
+
+  if (!body || !signature || signature.length !== SIGNATURE_LENGTH) {
+    throw new ValidationError('Invalid pagination cursor');
+  }
+
+  const expected = sign(body);
+  if (!crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+    throw new ValidationError('Invalid pagination cursor');
+  }
+
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+  } catch {
+    throw new ValidationError('Invalid pagination cursor');
+  }
+
+  if (!isCursorBodyFor(scope, decoded)) {
+    throw new ValidationError('Pagination cursor does not match this request');
+  }
+
+  return {
+    values: decoded.v.map(deserializeValue),
+    id: decoded.id,
+  };
+};
+
+// Reads in batches of `wanted`, past anything the filter drops, until `wanted`
+// documents match or the query runs out
+const collectMatching = async (
+  query: firestore.Query,
+  wanted: number,
+  filter: CursorPageOptions['filter']
+): Promise<firestore.QueryDocumentSnapshot[]> => {
+  if (!filter) {
+    return (await query.limit(wanted).get()).docs;
+  }
+
+  const matched: firestore.QueryDocumentSnapshot[] = [];
+  let batch = query;
+  for (;;) {
+    const snapshot = await batch.limit(wanted).get();
+    matched.push(...snapshot.docs.filter(filter));
+
+    const last = snapshot.docs[snapshot.size - 1];
+    if (matched.length >= wanted || snapshot.size < wanted || !last) {
+      return matched.slice(0, wanted);
+    }
+    batch = query.startAfter(last);
+  }
+};
+
+// Runs a keyset-paginated query. `baseQuery` must only carry filters: ordering is
+// applied here (with the document ID as tie-breaker) so the cursor can resume with
+// startAfter. `page` is still honoured via offset for clients that predate cursors.
+export const paginateQuery = async (
+  baseQuery: firestore.Query,
+  options: CursorPageOptions
+): Promise<CursorPage> => {
+  const { scope, orderBy, limit, page = 1, cursor, filter } = options;
+  const tieBreakDirection = orderBy[orderBy.length - 1]?.direction ?? 'asc';
+
+  let query = orderBy
+    .reduce((q, { field, direction }) => q.orderBy(field, direction), baseQuery)
+    .orderBy(FieldPath.documentId(), tieBreakDirection);
+
+  if (cursor) {
+    const { values, id } = decodeCursor(scope, cursor);
+    query = query.startAfter(...values, id);
+  } else if (page > 1 && !filter) {
+    query = query.offset((page - 1) * limit);
+  }
+
+  // A filtered offset would count dropped documents, so earlier pages are read and skipped instead
+  const skip = filter && !cursor ? (page - 1) * limit : 0;
+
+  // Fetch one extra document to know whether another page exists
+  const [matched, countSnapshot] = await Promise.all([
+    collectMatching(query, skip + limit + 1, filter),
+    baseQuery.count().get(),
+  ]);
+
+  const pageDocs = matched.slice(skip);
+  const docs = pageDocs.slice(0, limit);
+  const hasMore = pageDocs.length > limit;
+  const lastDoc = docs[docs.length - 1];
+
+  return {
+    docs,
+    pagination: {
+      page,
+      limit,
+      total: countSnapshot.data().count,
+      hasMore,
+      nextCursor: hasMore && lastDoc
+        ? encodeCursor(scope, {
+            values: orderBy.map(({ field }) => lastDoc.get(field)),
+            id: lastDoc.id,
+          })
+        : null,
+    },
+  };
+};
@@ -0,0 +1,72 @@
+// Scripts written without spaces between words. Han and Kana also get character
+// bigrams so partial phrases still match when the segmenter splits differently
+// for a short query than it did for the indexed text.
+const BIGRAM_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u;
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}]/u;
+const WORD_CHARS = /[\p{L}\p{N}_]+/gu;
+
+interface WordSegmenter {
+  segment(input: string): Iterable<{ segment: string; isWordLike?: boolean }>;
+}
+
+// Intl.Segmenter is newer than the ES2020 lib this project compiles against
+type IntlWithSegmenter = typeof Intl & {
+  Segmenter?: new (locale: string, options: { granularity: 'word' }) => WordSegmenter;
+};
+
+// Intl.Segmenter ships with full-ICU Node builds and knows Thai and CJK dictionaries
+const { Segmenter } = Intl as IntlWithSegmenter;
+const segmenter: WordSegmenter | null = typeof Segmenter === 'function'
+  ? new Segmenter('und', { granularity: 'word' })
+  : null;
+
+const bigrams = (word: string): string[] => {
+  const chars = [...word];
+  if (chars.length < 2) {
+    return [word];
+  }
+  const grams: string[] = [];
+  for (let i = 0; i < chars.length - 1; i++) {
+    grams.push(chars[i]! + chars[i + 1]!);
+  }
+  return grams;
+};
+
+const splitWords = (text: string): string[] => {
+  if (segmenter) {
+    return [...segmenter.segment(text)]
+      .filter(part => part.isWordLike)
+      .map(part => part.segment);
+  }
+
+  // Without ICU, fall back to bigrams for every unspaced run
+  return (text.match(WORD_CHARS) || []).flatMap(word =>
+    UNSPACED_SCRIPT.test(word) ? bigrams(word) : [word]
+  );
+};
+
+export const normalizeText = (text: string): string =>
+  text.normalize('NFKC').toLowerCase();
+
+export const tokenize = (text: string | null | undefined): string[] => {
+  if (!text) {
+    return [];
+  }
+
+  const tokens: string[] = [];
+
+  splitWords(normalizeText(text)).forEach(word => {
+    const cleaned = word.replace(/^_+|_+$/g, '');
+    if (!cleaned) {
+      return;
+    }
+
+    tokens.push(cleaned);
+
+    if (BIGRAM_SCRIPT.test(cleaned) && [...cleaned].length > 2) {
+      tokens.push(...bigrams(cleaned));
+    }
+  });
+
+  return tokens;
+};
@@ -1,4 +1,17 @@
 import { body, param, query, ValidationChain } from 'express-validator';
+import { config } from '../config';
+import { ROLES } from '../services/access.service';
+import { DANMU_SIZES } from '../services/danmuStream.service';
+import { DANMU_FORMATS } from '../services/danmuFormats';
+import { DEVICE_PLATFORMS } from '../services/device.service';
+import { TRAFFIC_SOURCES } from '../services/viewCounter.service';
+import { MODERATION_ACTIONS, REPORT_REASONS, REPORT_TARGET_TYPES } from '../services/moderation.service';
+import {
+  FILTER_ACTIONS,
+  MAX_BLOCKED_KEYWORDS,
+  MAX_BLOCKED_PATTERNS,
+  validatePattern,
+} from '../services/interactionSettings.service';
 
 // User validation schemas
 export const createUserValidation: ValidationChain[] = [
@@ -29,6 +42,11 @@ export const updateUserValidation: ValidationChain[] = [
     .isLength({ min: 2, max: 50 })
     .trim()
     .withMessage('Display name must be between 2 and 50 characters'),
+  body('username')
+    .optional()
+    .isLength({ min: 3, max: 30 })
+    .matches(/^[a-zA-Z0-9_]+$/)
+    .withMessage('Username must be 3-30 characters and contain only letters, numbers, and underscores'),
   body('bio')
     .optional()
     .isLength({ max: 500 })
@@ -41,6 +59,9 @@ export const updateUserValidation: ValidationChain[] = [
 
 // Video validation schemas
 export const createVideoValidation: ValidationChain[] = [
+  body('uploadId')
+    .isUUID()
+    .withMessage('A valid upload ID is required'),
   body('title')
     .isLength({ min: 1, max: 100 })
     .trim()
@@ -65,6 +86,15 @@ export const createVideoValidation: ValidationChain[] = [
     .optional()
     .isURL()
     .withMessage('Thumbnail URL must be a valid URL'),
+  body('region')
+    .optional()
+    .isIn(config.supportedRegions)
+    .withMessage('Region must be a supported market code'),
+  body('publishWhenReady')
+    .optional()
+    .isBoolean()
+    .withMessage('publishWhenReady must be a boolean')
+    .toBoolean(),
 ];
 
 export const updateVideoValidation: ValidationChain[] = [
@@ -88,6 +118,10 @@ export const updateVideoValidation: ValidationChain[] = [
     .optional()
     .isIn(['public', 'private', 'unlisted'])
     .withMessage('Visibility must be public, private, or unlisted'),
+  body('status')
+    .optional()
+    .equals('published')
+    .withMessage('Status can only be set to published'),
 ];
 
 // Comment validation schemas
@@ -115,33 +149,92 @@ export const updateCommentValidation: ValidationChain[] = [
     .withMessage('Comment content is required and must be less than 1000 characters'),
 ];
 
-// Danmu validation schemas
-export const createDanmuValidation: ValidationChain[] = [
-  param('videoId')
-    .isLength({ min: 1 })
-    .withMessage('Video ID is required'),
-  body('content')
+// Danmu validation schemas. The field rules are shared with imports, where
+// they apply to every entry of the parsed danmu array.
+const danmuFieldValidation = (field: (name: string) => ValidationChain): ValidationChain[] => [
+  field('content')
     .isLength({ min: 1, max: 100 })
     .trim()
     .withMessage('Danmu content is required and must be less than 100 characters'),
-  body('timestamp')
-    .isNumeric({ no_symbols: true })
+  // Imported files carry fractional seconds, so no_symbols (which rejects '.')
+  // is only applied to live danmu in createDanmuValidation
+  field('timestamp')
     .isFloat({ min: 0 })
     .withMessage('Timestamp must be a positive number'),
-  body('color')
+  field('color')
     .optional()
     .matches(/^#[0-9A-Fa-f]{6}$/)
     .withMessage('Color must be a valid hex color code'),
-  body('size')
+  field('size')
     .optional()
     .isIn(['small', 'medium', 'large'])
     .withMessage('Size must be small, medium, or large'),
-  body('position')
+  field('position')
     .optional()
     .isIn(['top', 'bottom', 'scroll'])
     .withMessage('Position must be top, bottom, or scroll'),
 ];
 
+export const createDanmuValidation: ValidationChain[] = [
+  param('videoId')
+    .isLength({ min: 1 })
+    .withMessage('Video ID is required'),
+  ...danmuFieldValidation(name => body(name)),
+  body('timestamp')
+    .isNumeric({ no_symbols: true })
+    .withMessage('Timestamp must be a positive number'),
+];
+
+export const MAX_DANMU_IMPORT = 5000;
+
+export const exportDanmuValidation: ValidationChain[] = [
+  param('videoId')
+    .isLength({ min: 1 })
+    .withMessage('Video ID is required'),
+  query('format')
+    .optional()
+    .isIn(DANMU_FORMATS)
+    .withMessage(`Format must be one of: ${DANMU_FORMATS.join(', ')}`),
+];
+
+// Runs after parseDanmuImport has turned the uploaded file into body.danmu
+export const importDanmuValidation: ValidationChain[] = [
+  param('videoId')
+    .isLength({ min: 1 })
+    .withMessage('Video ID is required'),
+  body('format')
+    .isIn(DANMU_FORMATS)
+    .withMessage(`Format must be one of: ${DANMU_FORMATS.join(', ')}`),
+  body('danmu')
+    .isArray({ min: 1, max: MAX_DANMU_IMPORT })
+    .withMessage(`Import must contain between 1 and ${MAX_DANMU_IMPORT} danmu`),
+  ...danmuFieldValidation(name => body(`danmu.*.${name}`)),
+];
+
+export const danmuSegmentValidation: ValidationChain[] = [
+  param('videoId')
+    .isLength({ min: 1 })
+    .withMessage('Video ID is required'),
+  param('segment')
+    .isInt({ min: 0, max: 10000 })
+    .withMessage('Segment must be a non-negative integer'),
+];
+
+export const danmuStreamValidation: ValidationChain[] = [
+  param('videoId')
+    .isLength({ min: 1 })
+    .withMessage('Video ID is required'),
+  query('minSize')
+    .optional()
+    .isIn(DANMU_SIZES)
+    .withMessage('Minimum size must be small, medium, or large'),
+  query('blocked')
+    .optional()
+    .isString()
+    .isLength({ max: 500 })
+    .withMessage('Blocked keywords must be a comma-separated list under 500 characters'),
+];
+
 // Query validation schemas
 export const paginationValidation: ValidationChain[] = [
   query('page')
@@ -154,6 +247,11 @@ export const paginationValidation: ValidationChain[] = [
     .isInt({ min: 1, max: 100 })
     .toInt()
     .withMessage('Limit must be between 1 and 100'),
+  query('cursor')
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: 1024 })
+    .withMessage('Cursor must be a valid pagination token'),
 ];
 
 export const searchValidation: ValidationChain[] = [
@@ -172,11 +270,96 @@ export const searchValidation: ValidationChain[] = [
     .withMessage('Order must be asc or desc'),
 ];
 
+export const userSearchValidation: ValidationChain[] = [
+  query('q')
+    .isLength({ min: 1, max: 50 })
+    .trim()
+    .withMessage('Search query must be between 1 and 50 characters'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 50 })
+    .toInt()
+    .withMessage('Limit must be between 1 and 50'),
+];
+
+export const usernameParamValidation: ValidationChain[] = [
+  param('username')
+    .matches(/^[a-zA-Z0-9_]{3,30}$/)
+    .withMessage('Username must be 3-30 characters and contain only letters, numbers, and underscores'),
+];
+
+export const trendingValidation: ValidationChain[] = [
+  query('region')
+    .optional()
+    .isIn(config.supportedRegions)
+    .withMessage('Region must be a supported market code'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .toInt()
+    .withMessage('Limit must be between 1 and 100'),
+  query('cursor')
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: 1024 })
+    .withMessage('Cursor must be a valid pagination token'),
+];
+
 // Like/Unlike validation
 export const likeValidation: ValidationChain[] = [
   param('videoId')
     .isLength({ min: 1 })
     .withMessage('Video ID is required'),
+  // Playback position when liked, used for highlight detection
+  body('positionSeconds')
+    .optional()
+    .isFloat({ min: 0, max: 24 * 60 * 60 })
+    .toFloat()
+    .withMessage('positionSeconds must be a number of seconds'),
+];
+
+export const recordViewValidation: ValidationChain[] = [
+  param('videoId')
+    .isLength({ min: 1 })
+    .withMessage('Video ID is required'),
+  body('watchedSeconds')
+    .isFloat({ min: 0, max: 24 * 60 * 60 })
+    .toFloat()
+    .withMessage('watchedSeconds must be a number of seconds'),
+  body('completion')
+    .optional()
+    .isFloat({ min: 0, max: 1 })
+    .toFloat()
+    .withMessage('completion must be between 0 and 1'),
+  body('loops')
+    .optional()
+    .isInt({ min: 0, max: 1000 })
+    .toInt()
+    .withMessage('loops must be a non-negative integer'),
+  body('source')
+    .optional()
+    .isIn(TRAFFIC_SOURCES)
+    .withMessage(`source must be one of: ${TRAFFIC_SOURCES.join(', ')}`),
+  body('replayedFrom')
+    .optional()
+    .isArray({ max: 100 })
+    .withMessage('replayedFrom must be an array of at most 100 positions'),
+  body('replayedFrom.*')
+    .isFloat({ min: 0, max: 24 * 60 * 60 })
+    .toFloat()
+    .withMessage('replayedFrom positions must be numbers of seconds'),
+];
+
+export const analyticsValidation: ValidationChain[] = [
+  query('days')
+    .optional()
+    .isInt({ min: 1, max: config.analytics.maxDays })
+    .toInt()
+    .withMessage(`days must be between 1 and ${config.analytics.maxDays}`),
+  query('format')
+    .optional()
+    .isIn(['json', 'csv'])
+    .withMessage('format must be json or csv'),
 ];
 
 // Follow/Unfollow validation
@@ -192,9 +375,170 @@ export const uploadValidation: ValidationChain[] = [
     .isLength({ min: 1, max: 255 })
     .withMessage('Filename is required and must be less than 255 characters'),
   body('contentType')
-    .isIn(['video/mp4', 'video/mov', 'video/avi', 'video/webm'])
+    .isIn(config.upload.allowedTypes)
     .withMessage('Content type must be a supported video format'),
   body('size')
-    .isInt({ min: 1, max: 100 * 1024 * 1024 }) // 100MB max
-    .withMessage('File size must be between 1 byte and 100MB'),
+    .isInt({ min: 1, max: config.upload.maxFileSizeBytes })
+    .withMessage(`File size must be between 1 byte and ${config.upload.maxFileSize}`),
+];
+
+// Admin role management
+export const grantRoleValidation: ValidationChain[] = [
+  param('userId')
+    .isLength({ min: 1, max: 128 })
+    .withMessage('User ID is required'),
+  body('role')
+    .isIn(ROLES)
+    .withMessage(`Role must be one of: ${ROLES.join(', ')}`),
+];
+
+export const revokeRoleValidation: ValidationChain[] = [
+  param('userId')
+    .isLength({ min: 1, max: 128 })
+    .withMessage('User ID is required'),
+  param('role')
+    .isIn(ROLES)
+    .withMessage(`Role must be one of: ${ROLES.join(', ')}`),
+];
+
+// Comment and danmu settings. Video settings also accept null to clear an override.
+const interactionSettingsRules = (optional: { values: 'undefined' | 'null' }): ValidationChain[] => [
+  body('allowComments')
+    .optional(optional)
+    .isBoolean({ strict: true })
+    .withMessage('allowComments must be a boolean'),
+  body('allowDanmu')
+    .optional(optional)
+    .isBoolean({ strict: true })
+    .withMessage('allowDanmu must be a boolean'),
+  body('blockedKeywords')
+    .optional(optional)
+    .isArray({ max: MAX_BLOCKED_KEYWORDS })
+    .withMessage(`blockedKeywords must be a list of at most ${MAX_BLOCKED_KEYWORDS} keywords`),
+  body('blockedKeywords.*')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Each blocked keyword must be 1-50 characters'),
+  body('blockedPatterns')
+    .optional(optional)
+    .isArray({ max: MAX_BLOCKED_PATTERNS })
+    .withMessage(`blockedPatterns must be a list of at most ${MAX_BLOCKED_PATTERNS} patterns`),
+  body('blockedPatterns.*')
+    .isString()
+    .custom((pattern: string) => {
+      const problem = validatePattern(pattern);
+      if (problem) {
+        throw new Error(problem);
+      }
+      return true;
+    }),
+  body('filterAction')
+    .optional(optional)
+    .isIn(FILTER_ACTIONS)
+    .withMessage(`filterAction must be one of: ${FILTER_ACTIONS.join(', ')}`),
+];
+
+export const creatorInteractionSettingsValidation: ValidationChain[] = interactionSettingsRules({ values: 'undefined' });
+
+export const videoInteractionSettingsValidation: ValidationChain[] = [
+  param('videoId')
+    .isLength({ min: 1 })
+    .withMessage('Video ID is required'),
+  ...interactionSettingsRules({ values: 'null' }),
+];
+
+export const MAX_NOTIFICATIONS_PER_READ = 100;
+
+// Either a list of notification IDs or { all: true }, never both
+export const markNotificationsReadValidation: ValidationChain[] = [
+  body('all')
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('all must be a boolean'),
+  body('ids')
+    .optional()
+    .isArray({ min: 1, max: MAX_NOTIFICATIONS_PER_READ })
+    .withMessage(`ids must be a list of 1-${MAX_NOTIFICATIONS_PER_READ} notification IDs`),
+  body('ids.*')
+    .isString()
+    .isLength({ min: 1, max: 128 })
+    .withMessage('Each notification ID must be a non-empty string'),
+  body()
+    .custom(value => {
+      const hasIds = Array.isArray(value?.ids);
+      const all = value?.all === true;
+      if (hasIds === all) {
+        throw new Error('Provide either ids or all: true');
+      }
+      return true;
+    }),
+];
+
+export const registerDeviceValidation: ValidationChain[] = [
+  body('token')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 4096 })
+    .withMessage('A push token is required'),
+  body('platform')
+    .isIn(DEVICE_PLATFORMS)
+    .withMessage(`Platform must be one of: ${DEVICE_PLATFORMS.join(', ')}`),
+  body('appVersion')
+    .optional()
+    .isString()
+    .matches(/^[0-9A-Za-z.+-]{1,32}$/)
+    .withMessage('App version must be up to 32 letters, digits, dots, plus or minus signs'),
+  body('locale')
+    .optional()
+    .isLocale()
+    .withMessage('Locale must be a valid locale tag, e.g. en-SG'),
+];
+
+export const deviceIdValidation: ValidationChain[] = [
+  param('deviceId')
+    .isLength({ min: 1, max: 64 })
+    .withMessage('Device ID is required'),
+];
+
+export const createReportValidation: ValidationChain[] = [
+  body('targetType')
+    .isIn(REPORT_TARGET_TYPES)
+    .withMessage(`targetType must be one of: ${REPORT_TARGET_TYPES.join(', ')}`),
+  body('targetId')
+    .isString()
+    .matches(/^[A-Za-z0-9_-]{1,128}$/)
+    .withMessage('targetId must be a valid ID'),
+  body('reason')
+    .isIn(REPORT_REASONS)
+    .withMessage(`reason must be one of: ${REPORT_REASONS.join(', ')}`),
+  body('details')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('details must be at most 500 characters'),
+];
+
+export const moderationQueueValidation: ValidationChain[] = [
+  ...paginationValidation,
+  query('targetType')
+    .optional()
+    .isIn(REPORT_TARGET_TYPES)
+    .withMessage(`targetType must be one of: ${REPORT_TARGET_TYPES.join(', ')}`),
+];
+
+export const moderationActionValidation: ValidationChain[] = [
+  param('caseId')
+    .isLength({ min: 1, max: 160 })
+    .withMessage('Case ID is required'),
+  body('action')
+    .isIn(MODERATION_ACTIONS)
+    .withMessage(`action must be one of: ${MODERATION_ACTIONS.join(', ')}`),
+  body('reason')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 500 })
+    .withMessage('reason must be 1-500 characters'),
 ];
@@ -0,0 +1,123 @@
+import {
+  AccessService,
+  AccessStore,
+  AuditEntry,
+  StoredAccess,
+  UserAccess,
+} from '../src/services/access.service';
+import { cacheService } from '../src/services/cache.service';
+import { SessionService } from '../src/services/session.service';
+import { DeviceService } from '../src/services/device.service';
+import { NotFoundError } from '../src/utils/errors';
+import { InMemoryDeviceStore } from './fakes/device';
+import { InMemorySessionStore } from './fakes/session';
+
+class InMemoryAccessStore implements AccessStore {
+  public readonly claims = new Map<string, Record<string, any>>();
+  public readonly users = new Map<string, Record<string, any>>();
+  public readonly audit: AuditEntry[] = [];
+
+  public async getClaims(uid: string): Promise<Record<string, any>> {
+    if (!this.claims.has(uid) && !this.users.has(uid)) {
+      throw new NotFoundError('User');
+    }
+    return { ...(this.claims.get(uid) || {}) };
+  }
+
+  public async setClaims(uid: string, claims: Record<string, any>): Promise<void> {
+    this.claims.set(uid, { ...claims });
+  }
+
+  public async getUserAccess(uid: string): Promise<StoredAccess | null> {
+    const user = this.users.get(uid);
+    return user ? { roles: user['roles'], tier: user['tier'] } : null;
+  }
+
+  public async setUserAccess(uid: string, access: UserAccess): Promise<void> {
+    this.users.set(uid, { ...(this.users.get(uid) || {}), ...access });
+  }
+
+  public async appendAudit(entry: AuditEntry): Promise<void> {
+    this.audit.push(entry);
+  }
+}
+
+describe('AccessService', () => {
+  let store: InMemoryAccessStore;
+  let sessions: InMemorySessionStore;
+  let service: AccessService;
+
+  beforeEach(async () => {
+    await cacheService.flush();
+    store = new InMemoryAccessStore();
+    sessions = new InMemorySessionStore();
+    service = new AccessService(store, new SessionService(sessions, new DeviceService(new InMemoryDeviceStore())));
+  });
+
+  test('uses custom claims without touching the user document', async () => {
+    const lookup = jest.spyOn(store, 'getUserAccess');
+
+    const access = await service.resolve('u1', { roles: ['moderator', 'bogus'], tier: 'pro' });
+
+    expect(access).toEqual({ roles: ['user', 'moderator'], tier: 'pro' });
+    expect(lookup).not.toHaveBeenCalled();
+  });
+
+  test('falls back to the cached user document', async () => {
+    store.users.set('u2', { roles: ['admin'], tier: 'premium' });
+    const lookup = jest.spyOn(store, 'getUserAccess');
+
+    expect(await service.resolve('u2', {})).toEqual({ roles: ['user', 'admin'], tier: 'premium' });
+    expect(await service.resolve('u2', {})).toEqual({ roles: ['user', 'admin'], tier: 'premium' });
+    expect(lookup).toHaveBeenCalledTimes(1);
+  });
+
+  test('defaults unknown users to a free user', async () => {
+    expect(await service.resolve('nobody')).toEqual({ roles: ['user'], tier: 'free' });
+  });
+
+  test('grant sets claims, mirrors the document and audits the change', async () => {
+    store.users.set('u3', { tier: 'premium' });
+    await service.resolve('u3');
+
+    const access = await service.grantRole('admin-1', 'u3', 'moderator');
+
+    expect(access).toEqual({ roles: ['user', 'moderator'], tier: 'premium' });
+    expect(store.claims.get('u3')).toEqual({ roles: ['user', 'moderator'], tier: 'premium' });
+    expect(store.users.get('u3')?.['roles']).toEqual(['user', 'moderator']);
+    expect(sessions.users.has('u3')).toBe(false);
+    expect(store.audit).toEqual([{
+      action: 'role.grant',
+      actorId: 'admin-1',
+      targetId: 'u3',
+      details: { role: 'moderator', before: ['user'], after: ['user', 'moderator'] },
+    }]);
+    // The cached fallback was dropped along with the change
+    expect(await service.resolve('u3')).toEqual(access);
+  });
+
+  test('granting an existing role is a no-op without an audit entry', async () => {
+    store.claims.set('u4', { roles: ['user', 'admin'], tier: 'free' });
+
+    await service.grantRole('admin-1', 'u4', 'admin');
+
+    expect(store.audit).toHaveLength(0);
+  });
+
+  test('revoke removes the role, signs the user out and guards base and self-admin roles', async () => {
+    store.claims.set('u5', { roles: ['user', 'admin', 'moderator'], tier: 'free' });
+
+    await expect(service.revokeRole('u5', 'u5', 'admin')).rejects.toMatchObject({ statusCode: 400 });
+    await expect(service.revokeRole('admin-1', 'u5', 'user')).rejects.toMatchObject({ statusCode: 400 });
+
+    const access = await service.revokeRole('admin-1', 'u5', 'admin');
+    expect(access.roles).toEqual(['user', 'moderator']);
+    expect(store.audit[0]?.action).toBe('role.revoke');
+    // Tokens issued before the revoke, which still carry the admin role, stop working
+    expect(sessions.users.get('u5')!.validAfterMs).toBeGreaterThan(0);
+  });
+
+  test('unknown users cannot be granted roles', async () => {
+    await expect(service.grantRole('admin-1', 'ghost', 'admin')).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
@@ -0,0 +1,190 @@
+import {
+  AnalyticsService,
+  AnalyticsStore,
+  DailyFollowerGrowth,
+  DailyVideoStats,
+  EngagementMetric,
+  reportToCsv,
+  toDailyStats,
+} from '../src/services/analytics.service';
+import { cacheService } from '../src/services/cache.service';
+
+// Rows keyed `${id}_${day}`, as in Firestore
+class InMemoryAnalyticsStore implements AnalyticsStore {
+  public readonly events = new Map<string, Array<{ videoId: string; at: Date; status?: string }>>();
+  public readonly follows: Array<{ followingId: string; at: Date }> = [];
+  public readonly videoOwners = new Map<string, string>();
+  public readonly stats = new Map<string, Record<string, any>>();
+  public readonly followerGrowth = new Map<string, Record<string, any>>();
+
+  public async countEngagement(collection: string, skipHidden: boolean, start: Date, end: Date): Promise<Map<string, number>> {
+    const counts = new Map<string, number>();
+    (this.events.get(collection) || [])
+      .filter(event => event.at >= start && event.at < end && !(skipHidden && event.status === 'hidden'))
+      .forEach(event => counts.set(event.videoId, (counts.get(event.videoId) || 0) + 1));
+    return counts;
+  }
+
+  public async countNewFollowers(start: Date, end: Date): Promise<Map<string, number>> {
+    const counts = new Map<string, number>();
+    this.follows
+      .filter(follow => follow.at >= start && follow.at < end)
+      .forEach(follow => counts.set(follow.followingId, (counts.get(follow.followingId) || 0) + 1));
+    return counts;
+  }
+
+  public async saveEngagement(day: string, counts: Map<string, Record<EngagementMetric, number>>): Promise<void> {
+    const zero: Record<EngagementMetric, number> = { likes: 0, comments: 0, danmu: 0 };
+    const stale = [...this.stats.values()]
+      .filter(data => data['date'] === day && !counts.has(data['videoId']))
+      .map(data => data['videoId'] as string);
+
+    [...counts.keys(), ...stale].forEach(videoId => {
+      const creatorId = this.videoOwners.get(videoId);
+      if (creatorId) {
+        const key = `${videoId}_${day}`;
+        this.stats.set(key, { ...this.stats.get(key), videoId, creatorId, date: day, ...(counts.get(videoId) ?? zero) });
+      }
+    });
+  }
+
+  public async saveFollowerGrowth(day: string, counts: Map<string, number>): Promise<void> {
+    [...this.followerGrowth.values()]
+      .filter(data => data['date'] === day && !counts.has(data['creatorId']))
+      .forEach(data => { data['newFollowers'] = 0; });
+    counts.forEach((newFollowers, creatorId) => {
+      this.followerGrowth.set(`${creatorId}_${day}`, { creatorId, date: day, newFollowers });
+    });
+  }
+
+  public async getVideoStats(videoId: string, from: string, to: string): Promise<DailyVideoStats[]> {
+    return [...this.stats.values()]
+      .filter(data => data['videoId'] === videoId && data['date'] >= from && data['date'] <= to)
+      .map(toDailyStats);
+  }
+
+  public async getCreatorVideoStats(creatorId: string, from: string, to: string): Promise<DailyVideoStats[]> {
+    return [...this.stats.values()]
+      .filter(data => data['creatorId'] === creatorId && data['date'] >= from && data['date'] <= to)
+      .map(toDailyStats);
+  }
+
+  public async getFollowerGrowth(creatorId: string, from: string, to: string): Promise<DailyFollowerGrowth[]> {
+    return [...this.followerGrowth.values()]
+      .filter(data => data['creatorId'] === creatorId && data['date'] >= from && data['date'] <= to)
+      .map(data => ({ date: data['date'], newFollowers: data['newFollowers'] }));
+  }
+}
+
+const now = new Date('2024-06-03T12:00:00Z');
+const at = (iso: string) => new Date(iso);
+
+describe('AnalyticsService', () => {
+  let store: InMemoryAnalyticsStore;
+  let service: AnalyticsService;
+
+  const stats = (videoId: string, date: string, data: Record<string, any>) =>
+    store.stats.set(`${videoId}_${date}`, { videoId, creatorId: 'creator', date, ...data });
+
+  beforeEach(async () => {
+    await cacheService.flush();
+    store = new InMemoryAnalyticsStore();
+    store.videoOwners.set('v1', 'creator');
+    store.videoOwners.set('v2', 'creator');
+    service = new AnalyticsService(store, { rollupDays: 2, cacheTtl: 60 });
+  });
+
+  test('rollup recounts engagement and follows for recent days', async () => {
+    store.events.set('likes', [
+      { videoId: 'v1', at: at('2024-06-03T01:00:00Z') },
+      { videoId: 'v1', at: at('2024-06-02T23:59:59Z') },
+      { videoId: 'v1', at: at('2024-06-01T10:00:00Z') },
+    ]);
+    store.events.set('comments', [
+      { videoId: 'v1', at: at('2024-06-03T02:00:00Z') },
+      { videoId: 'v1', at: at('2024-06-03T03:00:00Z'), status: 'hidden' },
+    ]);
+    store.follows.push({ followingId: 'creator', at: at('2024-06-02T08:00:00Z') });
+    stats('v1', '2024-06-03', { views: 4 });
+
+    expect(await service.rollup(now)).toEqual({ days: ['2024-06-03', '2024-06-02'], videos: 2, creators: 1 });
+    // Running again gives the same absolute counts
+    await service.rollup(now);
+
+    expect(store.stats.get('v1_2024-06-03')).toMatchObject({ views: 4, likes: 1, comments: 1, danmu: 0 });
+    expect(store.stats.get('v1_2024-06-02')).toMatchObject({ likes: 1, comments: 0 });
+    expect(store.stats.has('v1_2024-06-01')).toBe(false);
+    expect(store.followerGrowth.get('creator_2024-06-02')).toEqual({ creatorId: 'creator', date: '2024-06-02', newFollowers: 1 });
+  });
+
+  test('rollup zeroes a day whose likes and follows were all removed', async () => {
+    store.events.set('likes', [{ videoId: 'v1', at: at('2024-06-03T01:00:00Z') }]);
+    store.follows.push({ followingId: 'creator', at: at('2024-06-03T02:00:00Z') });
+    stats('v1', '2024-06-03', { views: 4 });
+    await service.rollup(now);
+
+    store.events.set('likes', []);
+    store.follows.length = 0;
+    await service.rollup(now);
+
+    expect(store.stats.get('v1_2024-06-03')).toMatchObject({ views: 4, likes: 0, comments: 0, danmu: 0 });
+    expect(store.followerGrowth.get('creator_2024-06-03')).toMatchObject({ newFollowers: 0 });
+  });
+
+  test('video report fills missing days and derives retention and sources', async () => {
+    stats('v1', '2024-06-01', {
+      views: 2, uniqueViewers: 2, watchSeconds: 30, completions: 1,
+      retention: { r0: 4, r1: 4, r2: 3, r5: 2, r10: 1 },
+      sources: { for_you: 1, search: 1 },
+    });
+    stats('v1', '2024-06-03', { views: 2, uniqueViewers: 1, watchSeconds: 10, likes: 3, sources: { for_you: 2 } });
+    stats('v2', '2024-06-03', { views: 50 });
+
+    const report = await service.getVideoReport('v1', 3, now);
+
+    expect(report.range).toEqual({ from: '2024-06-01', to: '2024-06-03', days: 3 });
+    expect(report.series.map(day => [day.date, day.views, day.averageWatchSeconds])).toEqual([
+      ['2024-06-01', 2, 15],
+      ['2024-06-02', 0, 0],
+      ['2024-06-03', 2, 5],
+    ]);
+    expect(report.totals).toMatchObject({ views: 4, watchSeconds: 40, averageWatchSeconds: 10, likes: 3, completionRate: 0.25 });
+    expect(report.retention.slice(0, 3)).toEqual([
+      { position: 0, retained: 1 },
+      { position: 10, retained: 1 },
+      { position: 20, retained: 0.75 },
+    ]);
+    expect(report.trafficSources).toEqual([
+      { source: 'for_you', views: 3, share: 0.75 },
+      { source: 'search', views: 1, share: 0.25 },
+    ]);
+  });
+
+  test('overview sums all videos and adds follower growth and top videos', async () => {
+    stats('v1', '2024-06-03', { views: 5, likes: 1 });
+    stats('v2', '2024-06-02', { views: 8 });
+    stats('v2', '2024-06-03', { views: 4 });
+    store.followerGrowth.set('creator_2024-06-03', { creatorId: 'creator', date: '2024-06-03', newFollowers: 7 });
+
+    const overview = await service.getCreatorOverview('creator', 2, now);
+
+    expect(overview.series.map(day => [day.date, day.views, day.newFollowers])).toEqual([
+      ['2024-06-02', 8, 0],
+      ['2024-06-03', 9, 7],
+    ]);
+    expect(overview.totals).toMatchObject({ views: 17, newFollowers: 7 });
+    expect(overview.topVideos.map(video => [video.videoId, video.views])).toEqual([['v2', 12], ['v1', 5]]);
+  });
+
+  test('exports the daily series as CSV', async () => {
+    stats('v1', '2024-06-03', { views: 3, watchSeconds: 12, likes: 1 });
+
+    const csv = reportToCsv(await service.getVideoReport('v1', 2, now));
+
+    expect(csv).toBe(
+      'date,views,uniqueViewers,watchSeconds,averageWatchSeconds,completions,likes,comments,danmu\n' +
+      '2024-06-02,0,0,0,0,0,0,0,0\n' +
+      '2024-06-03,3,0,12,4,0,1,0,0\n'
+    );
+  });
+});
@@ -0,0 +1,103 @@
+import express from 'express';
+import request from 'supertest';
+import type { DecodedIdToken } from 'firebase-admin/auth';
+import {
+  AuthenticatedRequest,
+  authenticateToken,
+  optionalAuth,
+  requireAdmin,
+} from '../src/middleware/auth.middleware';
+import { dynamicRateLimit } from '../src/middleware/rateLimiter.middleware';
+import { firebaseService } from '../src/services/firebase.service';
+import { sessionService } from '../src/services/session.service';
+import { config } from '../src/config';
+
+const token = (uid: string, claims: Record<string, unknown> = {}) => ({
+  uid,
+  auth_time: 1_700_000_000,
+  email: `${uid}@example.com`,
+  firebase: { sign_in_provider: 'password' },
+  ...claims,
+}) as unknown as DecodedIdToken;
+
+const tokens: Record<string, DecodedIdToken> = {
+  'admin-token': token('admin-1', { roles: ['user', 'admin'], tier: 'pro' }),
+  'user-token': token('user-1', { roles: ['user'], tier: 'free' }),
+  'revoked-token': token('revoked-1', { roles: ['user'], tier: 'free' }),
+};
+
+const buildApp = () => {
+  const app = express();
+  const echo = (req: AuthenticatedRequest, res: express.Response) => {
+    res.json({ user: req.user ?? null });
+  };
+
+  app.get('/private', authenticateToken, dynamicRateLimit, echo);
+  app.get('/public', optionalAuth, echo);
+  app.get('/admin', authenticateToken, requireAdmin, echo);
+  return app;
+};
+
+describe('auth middleware', () => {
+  const app = buildApp();
+
+  beforeEach(() => {
+    jest.spyOn(firebaseService, 'verifyIdToken').mockImplementation(async (idToken: string) => {
+      const decoded = tokens[idToken];
+      if (!decoded) {
+        throw new Error('invalid token');
+      }
+      return decoded;
+    });
+    jest.spyOn(sessionService, 'isRevoked').mockImplementation(async uid => uid === 'revoked-1');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('authenticateToken attaches roles and tier from custom claims', async () => {
+    const res = await request(app).get('/private').set('Authorization', 'Bearer admin-token');
+
+    expect(res.status).toBe(200);
+    expect(res.body.user).toMatchObject({ uid: 'admin-1', roles: ['user', 'admin'], tier: 'pro', provider: 'password' });
+  });
+
+  test('authenticateToken rejects missing, invalid and revoked tokens', async () => {
+    const missing = await request(app).get('/private');
+    const invalid = await request(app).get('/private').set('Authorization', 'Bearer nope');
+    const revoked = await request(app).get('/private').set('Authorization', 'Bearer revoked-token');
+
+    expect(missing.status).toBe(401);
+    expect(missing.body.code).toBe('AUTH_FAILED');
+    expect(invalid.status).toBe(401);
+    expect(revoked.status).toBe(401);
+    expect(revoked.body.code).toBe('TOKEN_REVOKED');
+  });
+
+  test('optionalAuth continues anonymously on a bad token', async () => {
+    const anonymous = await request(app).get('/public').set('Authorization', 'Bearer nope');
+    const signedIn = await request(app).get('/public').set('Authorization', 'Bearer user-token');
+
+    expect(anonymous.status).toBe(200);
+    expect(anonymous.body.user).toBeNull();
+    expect(signedIn.body.user).toMatchObject({ uid: 'user-1', roles: ['user'], tier: 'free' });
+  });
+
+  test('requireAdmin only admits admins', async () => {
+    const user = await request(app).get('/admin').set('Authorization', 'Bearer user-token');
+    const admin = await request(app).get('/admin').set('Authorization', 'Bearer admin-token');
+
+    expect(user.status).toBe(403);
+    expect(user.body.code).toBe('INSUFFICIENT_PERMISSIONS');
+    expect(admin.status).toBe(200);
+  });
+
+  test('dynamicRateLimit sizes the window by tier', async () => {
+    const free = await request(app).get('/private').set('Authorization', 'Bearer user-token');
+    const pro = await request(app).get('/private').set('Authorization', 'Bearer admin-token');
+
+    expect(free.headers['ratelimit-limit']).toBe(String(config.rateLimit.max));
+    expect(pro.headers['ratelimit-limit']).toBe(String(config.rateLimit.max * 5));
+  });
+});
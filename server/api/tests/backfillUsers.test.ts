@@ -0,0 +1,143 @@
+import type { Firestore } from 'firebase-admin/firestore';
+import { backfillUsers, searchFieldUpdates } from '../src/scripts/backfillUsers';
+
+type Data = Record<string, unknown>;
+
+interface FakeRef {
+  id: string;
+  collection: string;
+}
+
+// Just enough of Firestore for an id-ordered scan with batched writes
+class FakeFirestore {
+  public commits = 0;
+  public readonly collections = new Map<string, Map<string, Data>>();
+
+  public seed(collection: string, docs: Record<string, Data>): void {
+    this.collections.set(collection, new Map(Object.entries(docs)));
+  }
+
+  public docs(collection: string): Map<string, Data> {
+    if (!this.collections.has(collection)) {
+      this.collections.set(collection, new Map());
+    }
+    return this.collections.get(collection)!;
+  }
+
+  public collection(name: string) {
+    return this.query(name, 0, null);
+  }
+
+  public async getAll(...refs: FakeRef[]) {
+    return refs.map(ref => {
+      const data = this.docs(ref.collection).get(ref.id);
+      return { id: ref.id, exists: data !== undefined, get: (field: string) => data?.[field] };
+    });
+  }
+
+  public batch() {
+    const writes: Array<() => void> = [];
+    return {
+      create: (ref: FakeRef, data: Data) => {
+        writes.push(() => {
+          if (this.docs(ref.collection).has(ref.id)) {
+            throw new Error(`${ref.collection}/${ref.id} already exists`);
+          }
+          this.docs(ref.collection).set(ref.id, data);
+        });
+      },
+      update: (ref: FakeRef, data: Data) => {
+        writes.push(() => this.docs(ref.collection).set(ref.id, { ...this.docs(ref.collection).get(ref.id), ...data }));
+      },
+      commit: async () => {
+        this.commits++;
+        writes.forEach(write => write());
+      },
+    };
+  }
+
+  private query(collection: string, limit: number, afterId: string | null) {
+    return {
+      doc: (id: string): FakeRef => ({ id, collection }),
+      orderBy: () => this.query(collection, limit, afterId),
+      limit: (n: number) => this.query(collection, n, afterId),
+      startAfter: (doc: { id: string }) => this.query(collection, limit, doc.id),
+      get: async () => {
+        const docs = [...this.docs(collection).entries()]
+          .sort(([a], [b]) => a.localeCompare(b))
+          .filter(([id]) => afterId === null || id > afterId)
+          .slice(0, limit || undefined)
+          .map(([id, data]) => ({ id, ref: { id, collection }, data: () => ({ ...data }) }));
+        return { docs, size: docs.length };
+      },
+    };
+  }
+}
+
+describe('searchFieldUpdates', () => {
+  test('fills in missing or stale lowercase copies', () => {
+    expect(searchFieldUpdates({ username: 'Zoe_Dev', displayName: 'Zoe Q' })).toEqual({
+      usernameLower: 'zoe_dev',
+      displayNameLower: 'zoe q',
+    });
+    expect(searchFieldUpdates({ username: 'zoe', usernameLower: 'zoe', displayName: 'Zoe', displayNameLower: 'old' })).toEqual({
+      displayNameLower: 'zoe',
+    });
+  });
+
+  test('leaves documents without the source fields alone', () => {
+    expect(searchFieldUpdates({ displayName: '' })).toEqual({});
+    expect(searchFieldUpdates({ username: 42 })).toEqual({});
+  });
+});
+
+describe('backfillUsers', () => {
+  const seedUsers = (firestore: FakeFirestore, count: number) => {
+    firestore.seed('users', Object.fromEntries(
+      Array.from({ length: count }, (_, i) => [`u${String(i).padStart(3, '0')}`, { displayName: `User ${i}` }]),
+    ));
+  };
+
+  test('pages through every user and commits one batch per page', async () => {
+    const firestore = new FakeFirestore();
+    seedUsers(firestore, 5);
+    firestore.docs('users').set('u002', { displayName: 'User 2', displayNameLower: 'user 2' });
+
+    const result = await backfillUsers(firestore as unknown as Firestore, { dryRun: false, pageSize: 2 });
+
+    expect(result).toEqual({ scanned: 5, updated: 4, claimed: 0, conflicts: 0 });
+    expect(firestore.commits).toBe(3);
+    expect([...firestore.docs('users').values()].every(user => user['displayNameLower'] === String(user['displayName']).toLowerCase())).toBe(true);
+  });
+
+  test('reports without writing on a dry run', async () => {
+    const firestore = new FakeFirestore();
+    seedUsers(firestore, 3);
+
+    const result = await backfillUsers(firestore as unknown as Firestore, { dryRun: true, pageSize: 500 });
+
+    expect(result).toEqual({ scanned: 3, updated: 3, claimed: 0, conflicts: 0 });
+    expect(firestore.commits).toBe(0);
+    expect(firestore.docs('users').get('u000')).toEqual({ displayName: 'User 0' });
+  });
+
+  test('claims legacy handles and reports ones that are already taken', async () => {
+    const firestore = new FakeFirestore();
+    firestore.seed('users', {
+      a: { username: 'Zoe', displayName: 'Zoe' },
+      b: { username: 'zoe', displayName: 'Other Zoe' },
+      c: { username: 'max', usernameLower: 'max', displayName: 'Max', displayNameLower: 'max' },
+      d: { username: 'sam', usernameLower: 'sam', displayName: 'Sam', displayNameLower: 'sam' },
+    });
+    firestore.seed('usernames', {
+      max: { uid: 'c', username: 'max' },
+      sam: { uid: 'someone-else', username: 'Sam' },
+    });
+
+    const result = await backfillUsers(firestore as unknown as Firestore, { dryRun: false, pageSize: 1 });
+
+    expect(result).toEqual({ scanned: 4, updated: 2, claimed: 1, conflicts: 2 });
+    expect(firestore.docs('usernames').get('zoe')).toEqual(expect.objectContaining({ uid: 'a', username: 'Zoe', skeleton: 'zoe' }));
+    expect(firestore.docs('users').get('b')).toEqual(expect.objectContaining({ usernameLower: 'zoe' }));
+  });
+});
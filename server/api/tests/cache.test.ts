@@ -0,0 +1,100 @@
+import { cacheService } from '../src/services/cache.service';
+
+describe('CacheService tags', () => {
+  beforeEach(async () => {
+    await cacheService.flush();
+  });
+
+  test('invalidating a tag drops every entry set with it', async () => {
+    await cacheService.set('video:v1:anonymous', { likeCount: 1 }, 60, { tags: ['video:v1'] });
+    await cacheService.set('video:v1:u1', { likeCount: 1 }, 60, { tags: ['video:v1', 'user:u1'] });
+    await cacheService.set('video:v2:anonymous', { likeCount: 5 }, 60, { tags: ['video:v2'] });
+
+    expect(await cacheService.invalidateTags(['video:v1'])).toBe(2);
+
+    expect(await cacheService.get('video:v1:anonymous')).toBeNull();
+    expect(await cacheService.get('video:v1:u1')).toBeNull();
+    expect(await cacheService.get('video:v2:anonymous')).toEqual({ likeCount: 5 });
+  });
+
+  test('re-setting an entry replaces its tags', async () => {
+    await cacheService.set('profile', { name: 'a' }, 60, { tags: ['user:old'] });
+    await cacheService.set('profile', { name: 'b' }, 60, { tags: ['user:new'] });
+
+    expect(await cacheService.invalidateTags(['user:old'])).toBe(0);
+    expect(await cacheService.get('profile')).toEqual({ name: 'b' });
+
+    expect(await cacheService.invalidateTags(['user:new'])).toBe(1);
+    expect(await cacheService.get('profile')).toBeNull();
+  });
+
+  test('entries deleted directly leave no stale tag membership', async () => {
+    await cacheService.set('feed:1', [1], 60, { tags: ['video-lists'] });
+    await cacheService.del('feed:1');
+    await cacheService.set('feed:2', [2], 60);
+
+    expect(await cacheService.invalidateTags(['video-lists'])).toBe(0);
+    expect(await cacheService.get('feed:2')).toEqual([2]);
+  });
+});
+
+describe('CacheService.getOrCompute', () => {
+  beforeEach(async () => {
+    await cacheService.flush();
+  });
+
+  test('coalesces concurrent misses into one load', async () => {
+    let loads = 0;
+    const loader = async () => {
+      loads++;
+      await new Promise(resolve => setTimeout(resolve, 20));
+      return { value: loads };
+    };
+
+    const results = await Promise.all(
+      Array.from({ length: 10 }, () => cacheService.getOrCompute('hot', 60, loader))
+    );
+
+    expect(loads).toBe(1);
+    results.forEach(result => expect(result).toEqual({ value: 1 }));
+    expect(await cacheService.getOrCompute('hot', 60, loader)).toEqual({ value: 1 });
+  });
+
+  test('serves the stale value while a single refresh runs', async () => {
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    try {
+      await cacheService.getOrCompute('swr', 1, async () => 'v1', { staleTtl: 60 });
+
+      // Past the fresh window but inside staleTtl
+      clock.mockReturnValue(now + 2000);
+      let resolveRefresh!: (value: string) => void;
+      const refresh = jest.fn(() => new Promise<string>(resolve => { resolveRefresh = resolve; }));
+
+      expect(await cacheService.getOrCompute('swr', 1, refresh, { staleTtl: 60 })).toBe('v1');
+      expect(await cacheService.getOrCompute('swr', 1, refresh, { staleTtl: 60 })).toBe('v1');
+      expect(refresh).toHaveBeenCalledTimes(1);
+
+      resolveRefresh('v2');
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(await cacheService.getOrCompute('swr', 1, refresh, { staleTtl: 60 })).toBe('v2');
+    } finally {
+      clock.mockRestore();
+    }
+  });
+
+  test('does not cache failed loads and tags computed values', async () => {
+    await expect(cacheService.getOrCompute('flaky', 60, async () => {
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+
+    const value = await cacheService.getOrCompute('flaky', 60, async () => ({ owner: 'u1' }), {
+      tags: result => [`user:${result.owner}`],
+    });
+    expect(value).toEqual({ owner: 'u1' });
+
+    expect(await cacheService.invalidateTags(['user:u1'])).toBe(1);
+  });
+});
@@ -0,0 +1,248 @@
+import express, { NextFunction, Request, Response } from 'express';
+import request from 'supertest';
+import type { Firestore } from 'firebase-admin/firestore';
+import { ExportableDanmu, parseDanmu, serializeDanmu } from '../src/services/danmuFormats';
+import { handleValidationErrors, parseDanmuImport } from '../src/middleware/validation.middleware';
+import { createDanmuValidation, importDanmuValidation } from '../src/validators';
+import { errorHandler } from '../src/middleware/error.middleware';
+import { AuthenticatedRequest } from '../src/middleware/auth.middleware';
+import { DanmuController } from '../src/controllers/danmu.controller';
+import { firebaseService } from '../src/services/firebase.service';
+import { moderationService } from '../src/services/moderation.service';
+import { textModerationService } from '../src/services/textModeration.service';
+import { ApiError, ValidationError } from '../src/utils/errors';
+
+const sample: ExportableDanmu[] = [
+  {
+    id: 'd1',
+    userId: 'u1',
+    content: 'first <3 & "quotes"',
+    timestamp: 1.5,
+    color: '#FF0000',
+    size: 'large',
+    position: 'scroll',
+    speed: 2,
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+  },
+  {
+    id: 'd2',
+    userId: 'u2',
+    content: 'top, with commas',
+    timestamp: 10,
+    color: '#00FF00',
+    size: 'small',
+    position: 'top',
+    speed: 1,
+    createdAt: new Date('2024-01-01T00:00:05Z'),
+  },
+  {
+    id: 'd3',
+    userId: 'u1',
+    content: 'bottom',
+    timestamp: 12.25,
+    color: '#000000',
+    size: 'medium',
+    position: 'bottom',
+    speed: 1,
+    createdAt: new Date('2024-01-01T00:00:09Z'),
+  },
+];
+
+const portable = (items: ExportableDanmu[]) =>
+  items.map(({ content, timestamp, color, size, position }) => ({ content, timestamp, color, size, position }));
+
+describe('danmu formats', () => {
+  test('Bilibili XML round-trips content, colour, size and position', () => {
+    const { body, extension } = serializeDanmu('bilibili-xml', sample, { videoId: 'v1', title: 'Video' });
+
+    expect(extension).toBe('xml');
+    expect(body).toContain('<d p="1.5,1,36,16711680,1704067200,0,');
+    expect(body).not.toContain('u1');
+
+    const parsed = parseDanmu('bilibili-xml', body);
+    expect(parsed.map(({ speed: _speed, ...rest }) => rest)).toEqual(portable(sample));
+  });
+
+  test('Bilibili import skips scripted danmu and decodes entities', () => {
+    const xml = '<?xml version="1.0"?><i>'
+      + '<d p="3.2,7,25,16777215,0,0,abc,1">[0,0,"1-1",4,"code"]</d>'
+      + '<d p="4.0,5,25,255,0,0,abc,2">caf&#233; &amp; co</d>'
+      + '</i>';
+
+    expect(parseDanmu('bilibili-xml', xml)).toEqual([
+      { content: 'café & co', timestamp: 4, color: '#0000FF', size: 'medium', position: 'top', speed: 1 },
+    ]);
+  });
+
+  test('ASS round-trips positions, colours, sizes and scroll speed', () => {
+    const { body } = serializeDanmu('ass', sample, { videoId: 'v1', title: 'Video' });
+
+    expect(body).toContain('[Events]');
+    expect(body).toContain('\\c&H0000FF&');
+
+    const parsed = parseDanmu('ass', body);
+    expect(portable(parsed as ExportableDanmu[])).toEqual(portable(sample));
+    expect(parsed[0]?.speed).toBe(2);
+  });
+
+  test('JSON accepts exports and bare arrays, and rejects anything else', () => {
+    const { body } = serializeDanmu('json', sample, { videoId: 'v1', title: 'Video' });
+
+    expect(parseDanmu('json', body)).toHaveLength(3);
+    expect(parseDanmu('json', [{ content: ' hi ', timestamp: 1 }])).toEqual([
+      { content: 'hi', timestamp: 1, color: '#FFFFFF', size: 'medium', position: 'scroll', speed: 1 },
+    ]);
+    expect(() => parseDanmu('json', '{"nope": true}')).toThrow('Danmu JSON must be');
+    expect(() => parseDanmu('ass', 'not a subtitle file')).toThrow('Not an ASS subtitle file');
+  });
+
+  test('JSON fields of the wrong type are left for the validators to reject', () => {
+    expect(parseDanmu('json', [{ content: { text: 'hi' }, timestamp: [1], color: 255 }, 'loose'])).toEqual([
+      { content: '', timestamp: NaN, color: '', size: 'medium', position: 'scroll', speed: 1 },
+      { content: '', timestamp: NaN, color: '#FFFFFF', size: 'medium', position: 'scroll', speed: 1 },
+    ]);
+  });
+
+  test('XML character references outside Unicode are a validation error', () => {
+    const xml = (text: string) => `<i><d p="1,1,25,16777215,0,0,abc,1">${text}</d></i>`;
+
+    expect(parseDanmu('bilibili-xml', xml('&#x1F600;'))[0]?.content).toBe('\u{1F600}');
+    expect(() => parseDanmu('bilibili-xml', xml('&#x110000;'))).toThrow(ValidationError);
+    expect(() => parseDanmu('bilibili-xml', xml('&#99999999999999999999;'))).toThrow(ValidationError);
+    expect(() => parseDanmu('bilibili-xml', xml('&#xD800;'))).toThrow('Invalid character reference');
+  });
+});
+
+describe('danmu import validation', () => {
+  const app = express();
+  app.use(express.json());
+  app.post('/videos/:videoId/danmu/import',
+    parseDanmuImport,
+    importDanmuValidation,
+    handleValidationErrors,
+    (req: Request, res: Response) => {
+      res.json({ danmu: req.body.danmu });
+    }
+  );
+  app.use(errorHandler);
+
+  test('applies the createDanmu field rules to every parsed entry', async () => {
+    const res = await request(app)
+      .post('/videos/v1/danmu/import')
+      .send({
+        format: 'json',
+        data: [
+          { content: 'ok', timestamp: 1 },
+          { content: '', timestamp: -1, color: 'red' },
+        ],
+      });
+
+    expect(res.status).toBe(400);
+    const fields = res.body.details.map((detail: { field: string }) => detail.field);
+    expect(fields).toEqual(expect.arrayContaining(['danmu[1].content', 'danmu[1].timestamp', 'danmu[1].color']));
+    expect(fields.some((field: string) => field.startsWith('danmu[0]'))).toBe(false);
+  });
+
+  test('passes parsed XML through', async () => {
+    const { body } = serializeDanmu('bilibili-xml', sample, { videoId: 'v1', title: 'Video' });
+
+    const res = await request(app)
+      .post('/videos/v1/danmu/import')
+      .send({ format: 'bilibili-xml', data: body });
+
+    expect(res.status).toBe(200);
+    expect(res.body.danmu).toHaveLength(3);
+  });
+
+  test('fractional timestamps are accepted on import but not on createDanmu', async () => {
+    const create = express();
+    create.use(express.json());
+    create.post('/videos/:videoId/danmu', createDanmuValidation, handleValidationErrors, (_req: Request, res: Response) => {
+      res.json({ ok: true });
+    });
+    create.use(errorHandler);
+
+    const imported = await request(app)
+      .post('/videos/v1/danmu/import')
+      .send({ format: 'json', data: [{ content: 'ok', timestamp: 1.5 }] });
+    const whole = await request(create).post('/videos/v1/danmu').send({ content: 'ok', timestamp: '12' });
+    const fractional = await request(create).post('/videos/v1/danmu').send({ content: 'ok', timestamp: '1.5' });
+
+    expect(imported.status).toBe(200);
+    expect(whole.status).toBe(200);
+    expect(fractional.status).toBe(400);
+  });
+});
+
+describe('DanmuController.importDanmu', () => {
+  let written: Array<Record<string, any>>;
+
+  // The creator's own video, and batches that record what they commit
+  const fakeFirestore = {
+    collection: (name: string) => ({
+      doc: (id: string) => ({
+        id,
+        get: async () => ({ exists: name === 'videos', data: () => ({ userId: 'creator', duration: 60 }) }),
+      }),
+    }),
+    batch: () => {
+      const pending: Array<Record<string, any>> = [];
+      return {
+        set: (_ref: unknown, data: Record<string, any>) => pending.push(data),
+        commit: async () => {
+          written.push(...pending);
+        },
+      };
+    },
+  };
+
+  const app = express();
+  const signIn = (req: AuthenticatedRequest, _res: Response, next: NextFunction) => {
+    req.user = { uid: 'creator', roles: ['user'], tier: 'free' };
+    next();
+  };
+  app.use(express.json());
+  app.post('/videos/:videoId/danmu/import', signIn, new DanmuController().importDanmu);
+  app.use(errorHandler);
+
+  const importDanmu = (contents: string[]) => request(app)
+    .post('/videos/v1/danmu/import')
+    .send({ format: 'json', danmu: contents.map((content, index) => ({ content, timestamp: index })) });
+
+  beforeEach(() => {
+    written = [];
+    jest.spyOn(firebaseService, 'getFirestore').mockReturnValue(fakeFirestore as unknown as Firestore);
+    jest.spyOn(moderationService, 'holdForReview').mockResolvedValue();
+    jest.spyOn(textModerationService, 'enforce').mockImplementation(async ([input]) => {
+      if (input?.text === 'banned') {
+        throw new ApiError(400, 'This content breaks our community guidelines and can\'t be posted', 'CONTENT_REJECTED');
+      }
+      return input?.text === 'borderline' ? { outcome: 'hold', provider: 'lexicon' } : { outcome: 'allow' };
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('one rejected entry fails the import before anything is written', async () => {
+    const res = await importDanmu(['fine', 'banned', 'also fine']);
+
+    expect(res.status).toBe(400);
+    expect(res.body.code).toBe('CONTENT_REJECTED');
+    expect(res.body.details).toEqual({ index: 1 });
+    expect(written).toEqual([]);
+  });
+
+  test('held entries are stored hidden and queued for review', async () => {
+    const res = await importDanmu(['fine', 'borderline']);
+
+    expect(res.status).toBe(201);
+    expect(res.body.data).toMatchObject({ imported: 2, hidden: 1 });
+    expect(written.map(item => [item['content'], item['status'], item['heldForReview']])).toEqual([
+      ['fine', 'active', undefined],
+      ['borderline', 'hidden', true],
+    ]);
+    expect(moderationService.holdForReview).toHaveBeenCalledTimes(1);
+  });
+});
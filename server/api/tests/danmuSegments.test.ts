@@ -0,0 +1,34 @@
+import { capSegment, segmentBounds, segmentCount, segmentEtag, segmentIndexFor } from '../src/services/danmuSegments';
+
+describe('danmu segments', () => {
+  test('maps timestamps onto half-open fixed buckets', () => {
+    expect(segmentIndexFor(0, 60)).toBe(0);
+    expect(segmentIndexFor(59.9, 60)).toBe(0);
+    expect(segmentIndexFor(60, 60)).toBe(1);
+    expect(segmentIndexFor(-3, 60)).toBe(0);
+    expect(segmentBounds(2, 60)).toEqual({ start: 120, end: 180 });
+    expect(segmentCount(121, 60)).toBe(3);
+    expect(segmentCount(0, 60)).toBe(1);
+  });
+
+  test('keeps every danmu in playback order when under the cap', () => {
+    const items = [{ timestamp: 5 }, { timestamp: 1 }, { timestamp: 3 }];
+    expect(capSegment(items, 10).map(item => item.timestamp)).toEqual([1, 3, 5]);
+  });
+
+  test('keeps the most liked, then the newest, when a segment overflows', () => {
+    const items = [
+      { id: 'a', timestamp: 1, likeCount: 0, createdAt: new Date(1000) },
+      { id: 'b', timestamp: 2, likeCount: 5, createdAt: new Date(1000) },
+      { id: 'c', timestamp: 3, likeCount: 0, createdAt: new Date(3000) },
+      { id: 'd', timestamp: 4, likeCount: 0, createdAt: new Date(2000) },
+    ];
+
+    expect(capSegment(items, 2).map(item => item.id)).toEqual(['b', 'c']);
+  });
+
+  test('ETags change with content only', () => {
+    expect(segmentEtag([{ id: 'a' }])).toBe(segmentEtag([{ id: 'a' }]));
+    expect(segmentEtag([{ id: 'a' }])).not.toBe(segmentEtag([{ id: 'b' }]));
+  });
+});
@@ -0,0 +1,128 @@
+import { EventEmitter } from 'events';
+import {
+  DanmuStreamEvent,
+  DanmuStreamService,
+  matchesFilter,
+  parseStreamFilter,
+} from '../src/services/danmuStream.service';
+
+const created = (content: string, size = 'medium'): DanmuStreamEvent => ({
+  type: 'created',
+  videoId: 'v1',
+  danmuId: `d-${content}`,
+  danmu: {
+    id: `d-${content}`,
+    content,
+    timestamp: 12,
+    color: '#FFFFFF',
+    size,
+    position: 'scroll',
+    speed: 1,
+    createdAt: new Date(0).toISOString(),
+    user: { uid: 'u1' },
+  },
+});
+
+describe('danmu stream filters', () => {
+  test('parses sizes and comma-separated keywords', () => {
+    expect(parseStreamFilter({ minSize: 'large', blocked: ' Spoiler, ,LOL ' })).toEqual({
+      minSize: 'large',
+      blockedKeywords: ['spoiler', 'lol'],
+    });
+    expect(parseStreamFilter({ minSize: 'huge' })).toEqual({});
+  });
+
+  test('drops small or blocked danmu but always passes removals', () => {
+    const filter = parseStreamFilter({ minSize: 'medium', blocked: 'spoiler' });
+
+    expect(matchesFilter(created('hello', 'small'), filter)).toBe(false);
+    expect(matchesFilter(created('hello', 'large'), filter)).toBe(true);
+    expect(matchesFilter(created('big SPOILER ahead'), filter)).toBe(false);
+    expect(matchesFilter({ type: 'hidden', videoId: 'v1', danmuId: 'd-x' }, filter)).toBe(true);
+  });
+});
+
+describe('DanmuStreamService without Redis', () => {
+  let service: DanmuStreamService;
+
+  beforeEach(() => {
+    service = new DanmuStreamService(() => null);
+  });
+
+  afterEach(async () => {
+    await service.stop();
+  });
+
+  test('delivers events only to subscribers of that video', async () => {
+    const v1: DanmuStreamEvent[] = [];
+    const v2: DanmuStreamEvent[] = [];
+    await service.subscribe('v1', event => v1.push(event));
+    await service.subscribe('v2', event => v2.push(event));
+
+    await service.publish(created('hi'));
+    await service.publish({ type: 'deleted', videoId: 'v1', danmuId: 'd-hi' });
+
+    expect(v1.map(event => event.type)).toEqual(['created', 'deleted']);
+    expect(v2).toHaveLength(0);
+  });
+
+  test('unsubscribe stops delivery and releases the connection slot', async () => {
+    const received: DanmuStreamEvent[] = [];
+    const unsubscribe = await service.subscribe('v1', event => received.push(event));
+    expect(service.connectionCount('v1')).toBe(1);
+
+    unsubscribe();
+    await service.publish(created('late'));
+
+    expect(received).toHaveLength(0);
+    expect(service.connectionCount('v1')).toBe(0);
+  });
+});
+
+// Pub/sub where SUBSCRIBE takes a moment to be confirmed, like a real round trip
+class SlowRedis {
+  private subscribers: Array<EventEmitter & { channels: Set<string> }> = [];
+
+  public duplicate() {
+    const subscriber = Object.assign(new EventEmitter(), {
+      channels: new Set<string>(),
+      subscribe: async (channel: string) => {
+        await new Promise(resolve => setTimeout(resolve, 20));
+        subscriber.channels.add(channel);
+      },
+      unsubscribe: async (channel: string) => {
+        subscriber.channels.delete(channel);
+      },
+      quit: async () => undefined,
+    });
+    this.subscribers.push(subscriber);
+    return subscriber;
+  }
+
+  public async publish(channel: string, message: string) {
+    this.subscribers
+      .filter(subscriber => subscriber.channels.has(channel))
+      .forEach(subscriber => subscriber.emit('message', channel, message));
+    return 1;
+  }
+}
+
+describe('DanmuStreamService with Redis', () => {
+  test('subscribe resolves only once the channel receives events', async () => {
+    const redis = new SlowRedis();
+    const service = new DanmuStreamService(() => redis as any);
+    const first: DanmuStreamEvent[] = [];
+    const second: DanmuStreamEvent[] = [];
+
+    // The second viewer arrives while the first subscription is still in flight
+    await Promise.all([
+      service.subscribe('v1', event => first.push(event)),
+      service.subscribe('v1', event => second.push(event)),
+    ]);
+    await service.publish(created('right away'));
+
+    expect(first).toHaveLength(1);
+    expect(second).toHaveLength(1);
+    await service.stop();
+  });
+});
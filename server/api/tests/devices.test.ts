@@ -0,0 +1,101 @@
+import { DeviceService, MAX_DEVICES_PER_USER, deviceIdFor } from '../src/services/device.service';
+import { SessionService } from '../src/services/session.service';
+import { cacheService } from '../src/services/cache.service';
+import { InMemoryDeviceStore } from './fakes/device';
+import { InMemorySessionStore } from './fakes/session';
+
+describe('DeviceService', () => {
+  let store: InMemoryDeviceStore;
+  let service: DeviceService;
+
+  beforeEach(() => {
+    store = new InMemoryDeviceStore();
+    service = new DeviceService(store);
+  });
+
+  test('re-registering a token updates the same device', async () => {
+    const first = await service.register('u1', { token: 'tok', platform: 'ios', appVersion: '1.0.0' }, new Date(1000));
+    const second = await service.register('u1', { token: 'tok', platform: 'ios', appVersion: '1.1.0', locale: 'en-SG' }, new Date(2000));
+
+    expect(second.id).toBe(first.id);
+    expect(await service.list('u1')).toEqual([
+      { id: first.id, token: 'tok', platform: 'ios', appVersion: '1.1.0', locale: 'en-SG', createdAt: new Date(1000), lastSeenAt: new Date(2000) },
+    ]);
+  });
+
+  test('moves a token off the account it was previously registered to', async () => {
+    await service.register('u1', { token: 'shared', platform: 'android' });
+    await service.register('u2', { token: 'shared', platform: 'android' });
+
+    expect(await service.list('u1')).toEqual([]);
+    expect((await service.list('u2')).map(device => device.token)).toEqual(['shared']);
+  });
+
+  test('carries over the legacy deviceToken once', async () => {
+    store.legacyTokens.set('u1', 'legacy');
+
+    await service.register('u1', { token: 'new', platform: 'web' });
+
+    const devices = await service.list('u1');
+    expect(devices.map(device => [device.token, device.platform]).sort()).toEqual([['legacy', 'unknown'], ['new', 'web']]);
+    expect(store.legacyTokens.has('u1')).toBe(false);
+  });
+
+  test('evicts the least recently seen devices past the cap', async () => {
+    for (let i = 0; i < MAX_DEVICES_PER_USER + 2; i++) {
+      await service.register('u1', { token: `tok-${i}`, platform: 'ios' }, new Date(i * 1000));
+    }
+
+    const tokens = (await service.list('u1')).map(device => device.token);
+    expect(tokens).toHaveLength(MAX_DEVICES_PER_USER);
+    expect(tokens).not.toContain('tok-0');
+    expect(tokens).not.toContain('tok-1');
+  });
+
+  test('only removes devices the user owns', async () => {
+    await service.register('u1', { token: 'tok', platform: 'ios' });
+
+    await expect(service.remove('u2', deviceIdFor('tok'))).rejects.toThrow('Device not found');
+    await service.remove('u1', deviceIdFor('tok'));
+    expect(await service.list('u1')).toEqual([]);
+  });
+});
+
+describe('SessionService', () => {
+  let sessions: InMemorySessionStore;
+  let devices: InMemoryDeviceStore;
+  let service: SessionService;
+
+  beforeEach(async () => {
+    await cacheService.flush();
+    sessions = new InMemorySessionStore();
+    devices = new InMemoryDeviceStore();
+    service = new SessionService(sessions, new DeviceService(devices));
+  });
+
+  test('rejects tokens issued before the last revocation', async () => {
+    sessions.users.set('u1', { validAfterMs: 10_000, disabled: false });
+
+    expect(await service.isRevoked('u1', 9)).toBe(true);
+    expect(await service.isRevoked('u1', 10)).toBe(false);
+  });
+
+  test('rejects disabled and deleted accounts', async () => {
+    sessions.users.set('u1', { validAfterMs: 0, disabled: true });
+
+    expect(await service.isRevoked('u1', 100)).toBe(true);
+    expect(await service.isRevoked('ghost', 100)).toBe(true);
+  });
+
+  test('revoke-all takes effect immediately and drops devices', async () => {
+    sessions.users.set('u1', { validAfterMs: 0, disabled: false });
+    await new DeviceService(devices).register('u1', { token: 'stolen-phone', platform: 'ios' });
+
+    const issuedAt = Math.floor(Date.now() / 1000) - 60;
+    expect(await service.isRevoked('u1', issuedAt)).toBe(false);
+
+    expect(await service.revokeAll('u1')).toEqual({ devicesRemoved: 1 });
+    expect(await service.isRevoked('u1', issuedAt)).toBe(true);
+    expect(await devices.list('u1')).toEqual([]);
+  });
+});
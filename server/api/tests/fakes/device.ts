@@ -0,0 +1,47 @@
+import { Device, DeviceStore } from '../../src/services/device.service';
+
+export class InMemoryDeviceStore implements DeviceStore {
+  public readonly devices = new Map<string, Map<string, Device>>();
+  public readonly legacyTokens = new Map<string, string>();
+
+  private devicesOf(uid: string): Map<string, Device> {
+    if (!this.devices.has(uid)) {
+      this.devices.set(uid, new Map());
+    }
+    return this.devices.get(uid)!;
+  }
+
+  public async list(uid: string): Promise<Device[]> {
+    return [...this.devicesOf(uid).values()].map(device => ({ ...device }));
+  }
+
+  public async save(uid: string, device: Device): Promise<void> {
+    this.devicesOf(uid).set(device.id, { ...device });
+  }
+
+  public async remove(uid: string, deviceIds: string[]): Promise<void> {
+    deviceIds.forEach(id => this.devicesOf(uid).delete(id));
+  }
+
+  public async removeTokenFromOthers(token: string, uid: string): Promise<number> {
+    let removed = 0;
+    this.devices.forEach((devices, owner) => {
+      if (owner === uid) {
+        return;
+      }
+      devices.forEach((device, id) => {
+        if (device.token === token) {
+          devices.delete(id);
+          removed++;
+        }
+      });
+    });
+    return removed;
+  }
+
+  public async takeLegacyToken(uid: string): Promise<string | null> {
+    const token = this.legacyTokens.get(uid) ?? null;
+    this.legacyTokens.delete(uid);
+    return token;
+  }
+}
@@ -0,0 +1,73 @@
+import {
+  NewNotification,
+  NotificationPage,
+  NotificationStore,
+  StoredNotification,
+} from '../../src/services/notification.service';
+
+export class InMemoryNotificationStore implements NotificationStore {
+  public readonly users = new Map<string, Record<string, any>>();
+  public readonly notifications = new Map<string, StoredNotification>();
+  private nextId = 1;
+
+  public async getUser(uid: string): Promise<Record<string, any> | null> {
+    return this.users.get(uid) ?? null;
+  }
+
+  public async upsertGroup(
+    userId: string,
+    groupKey: string,
+    apply: (existing: StoredNotification | null) => NewNotification | null
+  ): Promise<void> {
+    const open = [...this.notifications.values()]
+      .find(item => item.userId === userId && item.groupKey === groupKey && !item.read);
+
+    const next = apply(open ? { ...open } : null);
+    if (next) {
+      const id = open?.id ?? `n${this.nextId++}`;
+      this.notifications.set(id, { ...open, ...next, id });
+    }
+  }
+
+  public async list(userId: string, limit: number, cursor?: string): Promise<NotificationPage> {
+    const all = [...this.notifications.values()]
+      .filter(item => item.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id.localeCompare(a.id));
+
+    const start = cursor ? all.findIndex(item => item.id === cursor) + 1 : 0;
+    const page = all.slice(start, start + limit);
+    const hasMore = start + limit < all.length;
+
+    return {
+      notifications: page,
+      pagination: {
+        page: 1,
+        limit,
+        total: all.length,
+        hasMore,
+        nextCursor: hasMore ? page[page.length - 1]!.id : null,
+      },
+    };
+  }
+
+  public async countUnread(userId: string): Promise<number> {
+    return [...this.notifications.values()].filter(item => item.userId === userId && !item.read).length;
+  }
+
+  public async markRead(userId: string, ids: string[]): Promise<number> {
+    let updated = 0;
+    ids.forEach(id => {
+      const item = this.notifications.get(id);
+      if (item && item.userId === userId && !item.read) {
+        item.read = true;
+        updated++;
+      }
+    });
+    return updated;
+  }
+
+  public async markAllRead(userId: string): Promise<number> {
+    const unread = [...this.notifications.values()].filter(item => item.userId === userId && !item.read);
+    return this.markRead(userId, unread.map(item => item.id));
+  }
+}
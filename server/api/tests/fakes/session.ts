@@ -0,0 +1,15 @@
+import { AuthState, SessionStore } from '../../src/services/session.service';
+
+export class InMemorySessionStore implements SessionStore {
+  public readonly users = new Map<string, AuthState>();
+
+  public async getAuthState(uid: string): Promise<AuthState | null> {
+    return this.users.get(uid) ?? null;
+  }
+
+  public async revokeRefreshTokens(uid: string): Promise<void> {
+    // Firebase records revocation with second precision
+    const now = Math.floor(Date.now() / 1000) * 1000;
+    this.users.set(uid, { disabled: false, ...this.users.get(uid), validAfterMs: now });
+  }
+}
@@ -0,0 +1,93 @@
+import { FeedDoc, FollowingFeedService, FollowingFeedStore } from '../src/services/followingFeed.service';
+import { CursorPayload } from '../src/utils/pagination';
+import { toDate } from '../src/services/ranking.service';
+import { cacheService } from '../src/services/cache.service';
+
+interface Video {
+  id: string;
+  userId: string;
+  createdAt: Date;
+}
+
+const toDoc = (video: Video): FeedDoc => ({
+  id: video.id,
+  get: ((field: string) => (video as unknown as Record<string, unknown>)[field]) as FeedDoc['get'],
+  data: () => ({ ...video }),
+});
+
+class FakeFeedStore implements FollowingFeedStore {
+  public videoQueries = 0;
+  public countQueries = 0;
+
+  constructor(private readonly follows: string[], private readonly videos: Video[]) {}
+
+  public async getFollowedUserIds(_userId: string, max: number): Promise<string[]> {
+    return this.follows.slice(0, max);
+  }
+
+  public async getRecentVideos(authorIds: string[], limit: number, after: CursorPayload | null): Promise<FeedDoc[]> {
+    this.videoQueries++;
+    const afterTime = after ? toDate(after.values[0]).getTime() : Infinity;
+    return this.videos
+      .filter(video => authorIds.includes(video.userId))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .filter(video => video.createdAt.getTime() < afterTime)
+      .slice(0, limit)
+      .map(toDoc);
+  }
+
+  public async countVideos(authorIds: string[]): Promise<number> {
+    this.countQueries++;
+    return this.videos.filter(video => authorIds.includes(video.userId)).length;
+  }
+}
+
+const minute = (n: number) => new Date(Date.UTC(2025, 0, 1, 12, n));
+
+describe('FollowingFeedService', () => {
+  beforeEach(async () => {
+    await cacheService.flush();
+  });
+
+  test('merges the newest videos across author chunks and pages with a cursor', async () => {
+    // 45 authors span two `in` chunks
+    const follows = Array.from({ length: 45 }, (_, i) => `u${i}`);
+    const videos = [
+      { id: 'a', userId: 'u0', createdAt: minute(1) },
+      { id: 'b', userId: 'u40', createdAt: minute(4) },
+      { id: 'c', userId: 'u3', createdAt: minute(3) },
+      { id: 'd', userId: 'u44', createdAt: minute(2) },
+      { id: 'x', userId: 'stranger', createdAt: minute(5) },
+    ];
+    const service = new FollowingFeedService(new FakeFeedStore(follows, videos));
+
+    const first = await service.getPage('me', 2);
+    expect(first.docs.map(doc => doc.id)).toEqual(['b', 'c']);
+    expect(first.pagination).toMatchObject({ total: 4, hasMore: true });
+
+    const second = await service.getPage('me', 2, first.pagination.nextCursor!);
+    expect(second.docs.map(doc => doc.id)).toEqual(['d', 'a']);
+    expect(second.pagination.hasMore).toBe(false);
+  });
+
+  test('counts the total once and reuses it for later pages', async () => {
+    const store = new FakeFeedStore(Array.from({ length: 61 }, (_, i) => `u${i}`), [
+      { id: 'a', userId: 'u0', createdAt: minute(1) },
+      { id: 'b', userId: 'u60', createdAt: minute(2) },
+    ]);
+    const service = new FollowingFeedService(store);
+
+    const first = await service.getPage('me', 1);
+    await service.getPage('me', 1, first.pagination.nextCursor!);
+
+    expect(store.countQueries).toBe(3);
+    expect(store.videoQueries).toBe(6);
+  });
+
+  test('reports when the follow list was cut off', async () => {
+    const service = new FollowingFeedService(new FakeFeedStore(['u1', 'u2', 'u3'], []), 2);
+
+    expect(await service.getFollowedUserIds('me')).toEqual({ ids: ['u1', 'u2'], truncated: true });
+    expect((await service.getPage('me', 10)).followsTruncated).toBe(true);
+  });
+});
@@ -0,0 +1,98 @@
+import {
+  HighlightService,
+  HighlightStore,
+  HighlightVideo,
+  MAX_CLIP_SECONDS,
+  MomentSignals,
+  binSecondsFor,
+  buildHighlightReport,
+  smooth,
+} from '../src/services/highlights.service';
+import { cacheService } from '../src/services/cache.service';
+
+class InMemoryHighlightStore implements HighlightStore {
+  public readonly videos = new Map<string, HighlightVideo>();
+  public readonly signals = new Map<string, MomentSignals>();
+
+  public async getVideo(videoId: string): Promise<HighlightVideo | null> {
+    return this.videos.get(videoId) ?? null;
+  }
+
+  public async getSignals(videoId: string): Promise<MomentSignals> {
+    return this.signals.get(videoId) || { danmu: [], replays: {}, likes: [] };
+  }
+}
+
+const options = { maxHighlights: 5, minSignalEvents: 10, cacheTtl: 60 };
+const repeat = (position: number, times: number) => new Array(times).fill(position);
+
+describe('highlight detection', () => {
+  test('uses one-second bins for short videos and caps long ones', () => {
+    expect(binSecondsFor(45)).toBe(1);
+    expect(binSecondsFor(120)).toBe(1);
+    expect(binSecondsFor(600)).toBe(5);
+  });
+
+  test('smoothing spreads a spike without losing mass at the edges', () => {
+    const smoothed = smooth([0, 0, 10, 0, 0], 1);
+
+    expect(smoothed[2]).toBeGreaterThan(smoothed[1]!);
+    expect(smoothed[1]).toBeCloseTo(smoothed[3]!);
+    smooth([5, 5, 5], 1.5).forEach(value => expect(value).toBeCloseTo(5));
+  });
+
+  test('finds the moments where danmu, rewinds and likes cluster', () => {
+    const report = buildHighlightReport('v1', 60, {
+      danmu: [...repeat(20.5, 12), ...repeat(45, 6), 3, 33, 51],
+      replays: { 20: 8, 44: 3 },
+      likes: [21, 21, 46],
+    }, options);
+
+    expect(report.binSeconds).toBe(1);
+    expect(report.heatmap).toHaveLength(60);
+    expect(report.heatmap[20]).toBe(1);
+    expect(report.totals).toEqual({ danmu: 21, replays: 11, likes: 3 });
+    expect(report.highlights.map(highlight => Math.floor(highlight.peak))).toEqual([20, 45]);
+
+    const [top] = report.highlights;
+    expect(top!.start).toBeLessThanOrEqual(20);
+    expect(top!.end).toBeGreaterThan(21);
+    expect(top!.end - top!.start).toBeLessThanOrEqual(MAX_CLIP_SECONDS);
+  });
+
+  test('keeps clips inside the video', () => {
+    const report = buildHighlightReport('v1', 30, { danmu: repeat(29.5, 15), replays: {}, likes: [] }, options);
+
+    expect(report.highlights).toHaveLength(1);
+    expect(report.highlights[0]!.end).toBeLessThanOrEqual(30);
+  });
+
+  test('returns a heatmap but no highlights from too few reactions', () => {
+    const report = buildHighlightReport('v1', 30, { danmu: [5, 5, 6], replays: {}, likes: [] }, options);
+
+    expect(Math.max(...report.heatmap)).toBe(1);
+    expect(report.highlights).toEqual([]);
+  });
+});
+
+describe('HighlightService', () => {
+  let store: InMemoryHighlightStore;
+  let service: HighlightService;
+
+  beforeEach(async () => {
+    await cacheService.flush();
+    store = new InMemoryHighlightStore();
+    service = new HighlightService(store, options);
+  });
+
+  test('only the creator sees highlights for a video that is not public', async () => {
+    store.videos.set('private', { userId: 'creator', publiclyVisible: false, durationSeconds: 20 });
+    store.videos.set('public', { userId: 'creator', publiclyVisible: true, durationSeconds: 20 });
+
+    await expect(service.getHighlights('private', 'someone')).rejects.toThrow('Video not found');
+    await expect(service.getHighlights('private')).rejects.toThrow('Video not found');
+    await expect(service.getHighlights('missing')).rejects.toThrow('Video not found');
+    expect((await service.getHighlights('private', 'creator')).heatmap).toHaveLength(20);
+    expect((await service.getHighlights('public', 'someone')).heatmap).toHaveLength(20);
+  });
+});
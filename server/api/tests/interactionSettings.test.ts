@@ -0,0 +1,57 @@
+import {
+  DEFAULT_INTERACTION_SETTINGS,
+  findBlockedTerm,
+  mergeSettings,
+  validatePattern,
+} from '../src/services/interactionSettings.service';
+
+describe('interaction settings', () => {
+  test('video overrides win for switches while blocked lists add up', () => {
+    const settings = mergeSettings(
+      { allowComments: false, allowDanmu: true, blockedKeywords: ['Spoiler'], filterAction: 'hide' },
+      { allowComments: true, blockedKeywords: ['leak', 'spoiler'] }
+    );
+
+    expect(settings).toEqual({
+      allowComments: true,
+      allowDanmu: true,
+      blockedKeywords: ['spoiler', 'leak'],
+      blockedPatterns: [],
+      filterAction: 'hide',
+    });
+    expect(mergeSettings(undefined, undefined)).toEqual(DEFAULT_INTERACTION_SETTINGS);
+  });
+
+  test('matches keywords case- and width-insensitively, then patterns', () => {
+    const settings = mergeSettings({ blockedKeywords: ['spoiler'], blockedPatterns: ['buy\\s+followers'] }, undefined);
+
+    expect(findBlockedTerm('Big ＳＰＯＩＬＥＲ here', settings)).toBe('spoiler');
+    expect(findBlockedTerm('BUY   followers now', settings)).toBe('buy\\s+followers');
+    expect(findBlockedTerm('nice video', settings)).toBeNull();
+  });
+
+  test('refuses patterns that are invalid or prone to backtracking', () => {
+    expect(validatePattern('free\\s+v-?bucks')).toBeNull();
+    expect(validatePattern('(?:spam|scam)\\s+link')).toBeNull();
+    expect(validatePattern('(a+)+$')).toMatch(/not groups/);
+    expect(validatePattern('(\\w*)*x')).toMatch(/not groups/);
+    expect(validatePattern('(a|a)*x')).toMatch(/not groups/);
+    expect(validatePattern('(\\w|\\d)+x')).toMatch(/not groups/);
+    expect(validatePattern('\\w*\\w*x')).toMatch(/one open-ended repeat/);
+    expect(validatePattern('a{0,9}a{0,9}x')).toMatch(/one open-ended repeat/);
+    expect(validatePattern('(a)\\1')).toMatch(/backreferences/);
+    expect(validatePattern('(?=a)b')).toMatch(/lookarounds/);
+    expect(validatePattern('[unclosed')).toMatch(/not a valid/);
+    expect(validatePattern('x'.repeat(101))).toMatch(/1-100 characters/);
+  });
+
+  test('accepted patterns stay fast on long hostile comments', () => {
+    const patterns = ['a?'.repeat(4) + 'a*x', '[a-z]+\\d!', '(?:a|aa)?\\w+$'];
+    patterns.forEach(pattern => expect(validatePattern(pattern)).toBeNull());
+
+    const settings = mergeSettings({ blockedPatterns: patterns }, undefined);
+    const started = Date.now();
+    expect(findBlockedTerm('a'.repeat(1000) + '!', settings)).toBeNull();
+    expect(Date.now() - started).toBeLessThan(500);
+  });
+});
@@ -0,0 +1,328 @@
+import {
+  CaseClaim,
+  caseIdFor,
+  ContentStatus,
+  ModerationCase,
+  ModerationQueuePage,
+  ModerationService,
+  ModerationStore,
+  priorityFor,
+  Report,
+  ReportTarget,
+  ReportTargetType,
+  TargetInfo,
+} from '../src/services/moderation.service';
+import { AuditEntry } from '../src/services/access.service';
+import { NotificationService } from '../src/services/notification.service';
+import { SessionService } from '../src/services/session.service';
+import { DeviceService } from '../src/services/device.service';
+import { cacheService } from '../src/services/cache.service';
+import { ConflictError, NotFoundError } from '../src/utils/errors';
+import { InMemoryDeviceStore } from './fakes/device';
+import { InMemoryNotificationStore } from './fakes/notification';
+import { InMemorySessionStore } from './fakes/session';
+
+class InMemoryModerationStore implements ModerationStore {
+  public readonly targets = new Map<string, TargetInfo>();
+  public readonly users = new Map<string, Record<string, any>>();
+  public readonly cases = new Map<string, ModerationCase>();
+  public readonly reports = new Map<string, Report>();
+  public readonly audit: AuditEntry[] = [];
+  private nextReportId = 1;
+
+  public async getTarget(target: ReportTarget): Promise<TargetInfo | null> {
+    const info = this.targets.get(caseIdFor(target));
+    return info ? { ...info } : null;
+  }
+
+  public async getUser(uid: string): Promise<Record<string, any> | null> {
+    return this.users.get(uid) ?? null;
+  }
+
+  public async fileReport(
+    report: Omit<Report, 'id'>,
+    apply: (existing: ModerationCase | null) => ModerationCase
+  ): Promise<{ report: Report; created: boolean }> {
+    const existing = [...this.reports.values()]
+      .find(item => item.caseId === report.caseId && item.reporterId === report.reporterId && item.status === 'open');
+    if (existing) {
+      return { report: existing, created: false };
+    }
+    this.cases.set(report.caseId, apply(this.cases.get(report.caseId) ?? null));
+    const stored = { ...report, id: `report-${this.nextReportId++}` };
+    this.reports.set(stored.id, stored);
+    return { report: stored, created: true };
+  }
+
+  public async getCase(caseId: string): Promise<ModerationCase | null> {
+    return this.cases.get(caseId) ?? null;
+  }
+
+  public async listQueue(limit: number, cursor?: string, targetType?: ReportTargetType): Promise<ModerationQueuePage> {
+    const all = [...this.cases.values()]
+      .filter(item => item.status === 'open' && (!targetType || item.targetType === targetType))
+      .sort((a, b) => b.priority - a.priority || a.firstReportedAt.getTime() - b.firstReportedAt.getTime());
+
+    const start = cursor ? all.findIndex(item => item.id === cursor) + 1 : 0;
+    const page = all.slice(start, start + limit);
+    const hasMore = start + limit < all.length;
+
+    return {
+      cases: page,
+      pagination: { page: 1, limit, total: all.length, hasMore, nextCursor: hasMore ? page[page.length - 1]!.id : null },
+    };
+  }
+
+  public async listReports(caseId: string, limit: number): Promise<Report[]> {
+    return [...this.reports.values()]
+      .filter(report => report.caseId === caseId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  public async claimCase(caseId: string, claim: CaseClaim, now: Date): Promise<void> {
+    const item = this.cases.get(caseId);
+    if (!item || item.status !== 'open') {
+      throw new ConflictError('This case has already been resolved');
+    }
+    if (item.claim && item.claim.expiresAt > now) {
+      throw new ConflictError('Another moderator is acting on this case');
+    }
+    this.cases.set(caseId, { ...item, claim });
+  }
+
+  public async releaseClaim(caseId: string, moderatorId: string): Promise<void> {
+    const item = this.cases.get(caseId);
+    if (item?.claim?.moderatorId === moderatorId) {
+      this.cases.set(caseId, { ...item, claim: null });
+    }
+  }
+
+  public async resolveCase(caseId: string, resolution: NonNullable<ModerationCase['resolution']>): Promise<Report[]> {
+    const item = this.cases.get(caseId);
+    if (!item || item.status !== 'open' || item.claim?.moderatorId !== resolution.moderatorId) {
+      throw new ConflictError('This case has already been resolved');
+    }
+    this.cases.set(caseId, { ...item, status: 'resolved', openReports: 0, reasons: {}, priority: 0, claim: null, resolution });
+
+    const closed = [...this.reports.values()].filter(report => report.caseId === caseId && report.status === 'open');
+    closed.forEach(report => this.reports.set(report.id, { ...report, status: 'closed', outcome: resolution.action }));
+    return closed;
+  }
+
+  public async setContentStatus(target: ReportTarget, status: ContentStatus): Promise<void> {
+    const info = this.targets.get(caseIdFor(target));
+    if (!info) {
+      throw new NotFoundError(target.type === 'danmu' ? 'Danmu' : 'Content');
+    }
+    info.status = status;
+    info.heldForReview = false;
+  }
+
+  public async releaseHold(target: ReportTarget): Promise<Record<string, any> | null> {
+    const info = this.targets.get(caseIdFor(target));
+    if (!info?.heldForReview) {
+      return null;
+    }
+    info.status = 'active';
+    info.heldForReview = false;
+    delete info.pendingUsername;
+    return { ...info };
+  }
+
+  public async recordWarning(uid: string): Promise<void> {
+    const user = this.users.get(uid) || {};
+    this.users.set(uid, { ...user, warningCount: (user['warningCount'] || 0) + 1 });
+  }
+
+  public async banUser(uid: string, moderatorId: string, reason: string): Promise<void> {
+    this.users.set(uid, { ...this.users.get(uid), status: 'banned', bannedBy: moderatorId, banReason: reason });
+  }
+
+  public async appendAudit(entry: AuditEntry): Promise<void> {
+    this.audit.push(entry);
+  }
+}
+
+describe('ModerationService', () => {
+  let store: InMemoryModerationStore;
+  let notifications: InMemoryNotificationStore;
+  let sessions: InMemorySessionStore;
+  let service: ModerationService;
+
+  const at = (minute: number) => new Date(Date.UTC(2024, 5, 1, 12, minute));
+  const inbox = (uid: string) => [...notifications.notifications.values()].filter(item => item.userId === uid);
+
+  beforeEach(async () => {
+    await cacheService.flush();
+    store = new InMemoryModerationStore();
+    notifications = new InMemoryNotificationStore();
+    sessions = new InMemorySessionStore();
+    ['owner', 'r1', 'r2', 'r3'].forEach(uid => notifications.users.set(uid, { displayName: uid }));
+    store.targets.set('comment_c1', { ownerId: 'owner', status: 'active', videoId: 'v1' });
+    store.targets.set('video_v1', { ownerId: 'owner', status: 'active' });
+    store.targets.set('user_owner', { ownerId: 'owner', status: 'active' });
+    service = new ModerationService(
+      store,
+      new NotificationService(notifications),
+      new SessionService(sessions, new DeviceService(new InMemoryDeviceStore()))
+    );
+  });
+
+  test('folds reports on one item into a single case and ignores repeats', async () => {
+    const first = await service.report('r1', { targetType: 'comment', targetId: 'c1', reason: 'spam' }, at(0));
+    const repeat = await service.report('r1', { targetType: 'comment', targetId: 'c1', reason: 'hate' }, at(1));
+    await service.report('r2', { targetType: 'comment', targetId: 'c1', reason: 'harassment' }, at(2));
+
+    expect(first.created).toBe(true);
+    expect(repeat).toEqual({ report: first.report, created: false });
+    expect(await store.getCase('comment_c1')).toMatchObject({
+      status: 'open',
+      openReports: 2,
+      reasons: { spam: 1, harassment: 1 },
+      priority: priorityFor({ harassment: 1 }, 2),
+      firstReportedAt: at(0),
+      lastReportedAt: at(2),
+    });
+  });
+
+  test('rejects reports on missing items and on your own content', async () => {
+    await expect(service.report('r1', { targetType: 'danmu', targetId: 'nope', reason: 'spam' })).rejects.toThrow('Danmu not found');
+    await expect(service.report('owner', { targetType: 'video', targetId: 'v1', reason: 'spam' })).rejects.toThrow('your own content');
+  });
+
+  test('orders the queue by severity, then report volume, then age', async () => {
+    await service.report('r1', { targetType: 'video', targetId: 'v1', reason: 'spam' }, at(0));
+    await service.report('r2', { targetType: 'video', targetId: 'v1', reason: 'spam' }, at(1));
+    await service.report('r1', { targetType: 'comment', targetId: 'c1', reason: 'hate' }, at(2));
+    await service.report('r1', { targetType: 'user', targetId: 'owner', reason: 'spam' }, at(3));
+
+    const { cases } = await service.getQueue(10);
+    expect(cases.map(item => item.id)).toEqual(['comment_c1', 'video_v1', 'user_owner']);
+    expect((await service.getQueue(10, undefined, 'video')).cases.map(item => item.id)).toEqual(['video_v1']);
+  });
+
+  test('hiding resolves the case, audits it and tells each reporter', async () => {
+    await service.report('r1', { targetType: 'comment', targetId: 'c1', reason: 'spam' }, at(0));
+    await service.report('r2', { targetType: 'comment', targetId: 'c1', reason: 'spam' }, at(1));
+
+    const resolved = await service.act('comment_c1', 'mod', { action: 'hide', reason: 'Spam links' }, at(5));
+
+    expect(resolved).toMatchObject({ status: 'resolved', openReports: 0, resolution: { action: 'hide', moderatorId: 'mod' } });
+    expect(store.targets.get('comment_c1')!.status).toBe('hidden');
+    expect(store.audit).toEqual([{
+      action: 'moderation.hide',
+      actorId: 'mod',
+      targetId: 'c1',
+      details: { targetType: 'comment', caseId: 'comment_c1', ownerId: 'owner', reason: 'Spam links', reports: 2 },
+    }]);
+    expect(inbox('r1')).toHaveLength(1);
+    expect(inbox('r1')[0]).toMatchObject({ type: 'system', title: 'Update on your report' });
+    expect(inbox('r1')[0]!.body).toContain('took action');
+    expect(inbox('r2')).toHaveLength(1);
+    expect(inbox('owner')).toEqual([]);
+
+    await expect(service.act('comment_c1', 'mod', { action: 'dismiss' })).rejects.toThrow('already been resolved');
+  });
+
+  test('a new report after resolution reopens the case', async () => {
+    await service.report('r1', { targetType: 'video', targetId: 'v1', reason: 'spam' }, at(0));
+    await service.act('video_v1', 'mod', { action: 'dismiss' }, at(1));
+    await service.report('r3', { targetType: 'video', targetId: 'v1', reason: 'violence' }, at(2));
+
+    expect(inbox('r1')[0]!.body).toContain("doesn't break");
+    expect(await store.getCase('video_v1')).toMatchObject({
+      status: 'open', openReports: 1, totalReports: 2, reasons: { violence: 1 }, firstReportedAt: at(2),
+    });
+  });
+
+  test('reporting again after a resolution keeps the earlier report', async () => {
+    const first = await service.report('r1', { targetType: 'video', targetId: 'v1', reason: 'spam' }, at(0));
+    await service.act('video_v1', 'mod', { action: 'dismiss' }, at(1));
+    const second = await service.report('r1', { targetType: 'video', targetId: 'v1', reason: 'violence' }, at(2));
+
+    expect(second.report.id).not.toBe(first.report.id);
+    expect((await service.getCase('video_v1')).reports.map(report => [report.reason, report.status, report.outcome])).toEqual([
+      ['violence', 'open', undefined],
+      ['spam', 'closed', 'dismiss'],
+    ]);
+  });
+
+  test('when two moderators act on one case only the first action takes effect', async () => {
+    await service.report('r1', { targetType: 'comment', targetId: 'c1', reason: 'harassment' }, at(0));
+
+    const results = await Promise.allSettled([
+      service.act('comment_c1', 'mod-a', { action: 'warn' }, at(1)),
+      service.act('comment_c1', 'mod-b', { action: 'hide' }, at(1)),
+    ]);
+
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected']);
+    expect(store.users.get('owner')).toMatchObject({ warningCount: 1 });
+    expect(store.targets.get('comment_c1')!.status).toBe('active');
+    expect(store.audit.map(entry => entry.actorId)).toEqual(['mod-a']);
+  });
+
+  test('a failed action leaves the case open for another moderator', async () => {
+    await service.report('r1', { targetType: 'comment', targetId: 'c1', reason: 'harassment' }, at(0));
+    jest.spyOn(store, 'recordWarning').mockRejectedValueOnce(new Error('write failed'));
+
+    await expect(service.act('comment_c1', 'mod-a', { action: 'warn' }, at(1))).rejects.toThrow('write failed');
+    expect(await store.getCase('comment_c1')).toMatchObject({ status: 'open', openReports: 1, claim: null });
+    expect(store.audit).toEqual([]);
+
+    await service.act('comment_c1', 'mod-b', { action: 'hide' }, at(2));
+    expect(store.targets.get('comment_c1')!.status).toBe('hidden');
+    expect(inbox('r1')).toHaveLength(1);
+  });
+
+  test('warn notifies the owner and ban signs them out', async () => {
+    sessions.users.set('owner', { validAfterMs: 0, disabled: false });
+    await service.report('r1', { targetType: 'comment', targetId: 'c1', reason: 'harassment' }, at(0));
+    await service.report('r1', { targetType: 'user', targetId: 'owner', reason: 'harassment' }, at(1));
+
+    await service.act('comment_c1', 'mod', { action: 'warn', reason: 'Personal attacks' }, at(2));
+    expect(store.users.get('owner')).toMatchObject({ warningCount: 1 });
+    expect(inbox('owner')[0]).toMatchObject({ type: 'system', title: 'Community guidelines warning' });
+
+    await service.act('user_owner', 'mod', { action: 'ban' }, at(3));
+    expect(store.users.get('owner')).toMatchObject({ status: 'banned', bannedBy: 'mod' });
+    expect(sessions.users.get('owner')!.validAfterMs).toBeGreaterThan(0);
+  });
+
+  test('held text is queued by the system and released when the case is dismissed', async () => {
+    store.targets.set('comment_c2', { ownerId: 'owner', status: 'hidden', videoId: 'v1', heldForReview: true });
+
+    await service.holdForReview({ type: 'comment', id: 'c2' }, { provider: 'links', reason: 'Shortened link (bit.ly)', category: 'spam' }, at(0));
+    expect(await store.getCase('comment_c2')).toMatchObject({ status: 'open', reasons: { spam: 1 } });
+
+    await service.act('comment_c2', 'mod', { action: 'dismiss' }, at(1));
+    expect(store.targets.get('comment_c2')).toMatchObject({ status: 'active', heldForReview: false });
+    expect(inbox('owner')).toEqual([]);
+  });
+
+  test('dismissing a held profile claims the handle that was waiting for review', async () => {
+    const changeUsername = jest.fn().mockResolvedValue({ username: 'fresh_name', previous: 'owner' });
+    service = new ModerationService(
+      store,
+      new NotificationService(notifications),
+      new SessionService(sessions, new DeviceService(new InMemoryDeviceStore())),
+      { changeUsername }
+    );
+    store.targets.set('user_owner', { ownerId: 'owner', status: 'active', heldForReview: true, pendingUsername: 'fresh_name' });
+
+    await service.holdForReview({ type: 'user', id: 'owner' }, { provider: 'lexicon', category: 'harassment' }, at(0));
+    await service.act('user_owner', 'mod', { action: 'dismiss' }, at(1));
+
+    expect(changeUsername).toHaveBeenCalledWith('owner', 'fresh_name');
+    expect(store.targets.get('user_owner')).toMatchObject({ heldForReview: false });
+  });
+
+  test('accounts cannot be hidden and staff cannot be banned from the queue', async () => {
+    store.users.set('owner', { roles: ['user', 'moderator'] });
+    await service.report('r1', { targetType: 'user', targetId: 'owner', reason: 'spam' });
+
+    await expect(service.act('user_owner', 'mod', { action: 'hide' })).rejects.toThrow('warned or banned');
+    await expect(service.act('user_owner', 'mod', { action: 'ban' })).rejects.toThrow('cannot be banned');
+    expect((await store.getCase('user_owner'))!.status).toBe('open');
+  });
+});
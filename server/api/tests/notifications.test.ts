@@ -0,0 +1,133 @@
+import express, { Request, Response } from 'express';
+import request from 'supertest';
+import { describeNotification, extractMentions, NotificationService } from '../src/services/notification.service';
+import { InMemoryNotificationStore } from './fakes/notification';
+import { handleValidationErrors } from '../src/middleware/validation.middleware';
+import { markNotificationsReadValidation } from '../src/validators';
+import { errorHandler } from '../src/middleware/error.middleware';
+
+describe('NotificationService', () => {
+  let store: InMemoryNotificationStore;
+  let service: NotificationService;
+
+  const like = (actorId: string, at: Date) => service.notify({
+    type: 'like',
+    recipientId: 'owner',
+    actorId,
+    groupKey: 'like:video:v1',
+    videoId: 'v1',
+  }, at);
+
+  beforeEach(() => {
+    store = new InMemoryNotificationStore();
+    service = new NotificationService(store);
+    store.users.set('owner', { displayName: 'Owner' });
+    ['bob', 'cat', 'dan'].forEach(uid => store.users.set(uid, { displayName: uid[0]!.toUpperCase() + uid.slice(1) }));
+  });
+
+  test('folds repeated activity into one unread entry', async () => {
+    await like('cat', new Date(1000));
+    await like('dan', new Date(2000));
+    await like('cat', new Date(3000));
+    await like('bob', new Date(4000));
+
+    const { notifications } = await service.list('owner', 10);
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0]).toMatchObject({
+      body: 'Bob and 2 others liked your video',
+      actorIds: ['bob', 'cat', 'dan'],
+      actorCount: 3,
+      relatedUserId: 'bob',
+      createdAt: new Date(1000),
+      updatedAt: new Date(4000),
+    });
+  });
+
+  test('starts a new entry once the group has been read', async () => {
+    await like('bob', new Date(1000));
+    await service.markAllRead('owner');
+    await like('cat', new Date(2000));
+
+    const { notifications } = await service.list('owner', 10);
+    expect(notifications.map(item => [item.body, item.read])).toEqual([
+      ['Cat liked your video', false],
+      ['Bob liked your video', true],
+    ]);
+    expect(await service.countUnread('owner')).toBe(1);
+  });
+
+  test('skips self-notifications and respects preferences', async () => {
+    expect(await service.notify({ type: 'like', recipientId: 'owner', actorId: 'owner', groupKey: 'like:video:v1' })).toBe(false);
+
+    store.users.set('owner', { settings: { notifications: { likes: false, comments: true, follows: true } } });
+    expect(await like('bob', new Date())).toBe(false);
+    expect(await service.notify({ type: 'follow', recipientId: 'owner', actorId: 'bob', groupKey: 'follow' })).toBe(true);
+
+    store.users.set('owner', { settings: { notificationsEnabled: false } });
+    expect(await service.notify({ type: 'follow', recipientId: 'owner', actorId: 'cat', groupKey: 'follow' })).toBe(false);
+    expect(await service.notify({ type: 'system', recipientId: 'owner', actorId: 'cat', groupKey: 'system:1' })).toBe(true);
+  });
+
+  test('only marks the caller\'s own notifications as read', async () => {
+    await like('bob', new Date());
+    store.users.set('other', {});
+    await service.notify({ type: 'follow', recipientId: 'other', actorId: 'bob', groupKey: 'follow' });
+
+    const [ownerNotification] = (await service.list('owner', 10)).notifications;
+    expect(await service.markRead('other', [ownerNotification!.id])).toBe(0);
+    expect(await service.markRead('owner', [ownerNotification!.id, ownerNotification!.id])).toBe(1);
+  });
+
+  test('pages through the inbox by cursor', async () => {
+    await service.notify({ type: 'follow', recipientId: 'owner', actorId: 'bob', groupKey: 'follow' }, new Date(1000));
+    await like('cat', new Date(2000));
+
+    const first = await service.list('owner', 1);
+    expect(first.notifications[0]?.type).toBe('like');
+    expect(first.pagination.hasMore).toBe(true);
+
+    const second = await service.list('owner', 1, first.pagination.nextCursor!);
+    expect(second.notifications[0]?.type).toBe('follow');
+    expect(second.pagination.hasMore).toBe(false);
+  });
+
+  test('keeps its place when a group picks up actors between pages', async () => {
+    await like('cat', new Date(1000));
+    await service.notify({ type: 'follow', recipientId: 'owner', actorId: 'bob', groupKey: 'follow' }, new Date(2000));
+
+    const first = await service.list('owner', 1);
+    await like('dan', new Date(3000));
+    const second = await service.list('owner', 1, first.pagination.nextCursor!);
+
+    expect(first.notifications[0]?.type).toBe('follow');
+    expect(second.notifications[0]).toMatchObject({ type: 'like', actorCount: 2 });
+  });
+});
+
+describe('notification helpers', () => {
+  test('extracts unique mentions, ignoring emails', () => {
+    expect(extractMentions('@Bob hi @bob and @cat_9, mail me@example.com @ab')).toEqual(['Bob', 'cat_9']);
+  });
+
+  test('quotes the comment only when there is a single actor', () => {
+    expect(describeNotification('comment', 'Bob', 1, { excerpt: 'nice' }).body).toBe('Bob commented on your video: "nice"');
+    expect(describeNotification('comment', 'Bob', 2, { excerpt: 'nice', isReply: true }).body)
+      .toBe('Bob and 1 other replied to your comment');
+  });
+});
+
+describe('mark read validation', () => {
+  const app = express();
+  app.use(express.json());
+  app.post('/notifications/read', markNotificationsReadValidation, handleValidationErrors, (_req: Request, res: Response) => {
+    res.json({ ok: true });
+  });
+  app.use(errorHandler);
+
+  test('requires exactly one of ids or all', async () => {
+    expect((await request(app).post('/notifications/read').send({ ids: ['n1'] })).status).toBe(200);
+    expect((await request(app).post('/notifications/read').send({ all: true })).status).toBe(200);
+    expect((await request(app).post('/notifications/read').send({})).status).toBe(400);
+    expect((await request(app).post('/notifications/read').send({ ids: ['n1'], all: true })).status).toBe(400);
+  });
+});
@@ -0,0 +1,112 @@
+import type { firestore } from 'firebase-admin';
+import { encodeCursor, decodeCursor, paginateQuery } from '../src/utils/pagination';
+import { Timestamp } from '../src/services/firebase.service';
+import { ValidationError } from '../src/utils/errors';
+
+describe('pagination cursors', () => {
+  test('round-trips values and timestamps', () => {
+    const createdAt = new Timestamp(1700000000, 123000000);
+    const token = encodeCursor('video:feed:createdAt:desc', { values: [createdAt], id: 'video-1' });
+
+    const decoded = decodeCursor('video:feed:createdAt:desc', token);
+    expect(decoded.id).toBe('video-1');
+    expect((decoded.values[0] as InstanceType<typeof Timestamp>).isEqual(createdAt)).toBe(true);
+  });
+
+  test('rejects tampered tokens', () => {
+    const token = encodeCursor('comments:v1:likeCount:desc', { values: [10], id: 'c1' });
+    const [, signature] = token.split('.');
+    const forgedBody = Buffer.from(JSON.stringify({ s: 'comments:v1:likeCount:desc', v: [0], id: 'c9' }))
+      .toString('base64url');
+
+    expect(() => decodeCursor('comments:v1:likeCount:desc', `${forgedBody}.${signature}`))
+      .toThrow(ValidationError);
+    expect(() => decodeCursor('comments:v1:likeCount:desc', 'not-a-cursor')).toThrow(ValidationError);
+  });
+
+  test('rejects cursors issued for another list', () => {
+    const token = encodeCursor('user:followers:u1', { values: [1], id: 'f1' });
+    expect(() => decodeCursor('user:following:u1', token)).toThrow(ValidationError);
+  });
+});
+
+interface FakeDoc {
+  id: string;
+  data: () => Record<string, unknown>;
+  get: (field: string) => unknown;
+}
+
+// Documents are already in query order; only the cursor operations are modelled
+class FakeQuery {
+  constructor(
+    private readonly docs: FakeDoc[],
+    private readonly start = 0,
+    private readonly max = Infinity
+  ) {}
+
+  public orderBy(): FakeQuery {
+    return this;
+  }
+
+  public startAfter(...args: unknown[]): FakeQuery {
+    const last = args[args.length - 1];
+    const id = typeof last === 'string' ? last : (last as FakeDoc).id;
+    return new FakeQuery(this.docs, this.docs.findIndex(doc => doc.id === id) + 1, this.max);
+  }
+
+  public offset(count: number): FakeQuery {
+    return new FakeQuery(this.docs, this.start + count, this.max);
+  }
+
+  public limit(count: number): FakeQuery {
+    return new FakeQuery(this.docs, this.start, count);
+  }
+
+  public async get() {
+    const docs = this.docs.slice(this.start, this.start + this.max);
+    return { docs, size: docs.length };
+  }
+
+  public count() {
+    return { get: async () => ({ data: () => ({ count: this.docs.length }) }) };
+  }
+}
+
+describe('paginateQuery with a filter', () => {
+  // Every third comment is hidden from the viewer
+  const docs: FakeDoc[] = Array.from({ length: 12 }, (_, index) => {
+    const data = { n: index, hidden: index % 3 === 0 };
+    return { id: `c${String(index).padStart(2, '0')}`, data: () => data, get: (field: string) => data[field as keyof typeof data] };
+  });
+  const visible = (doc: firestore.QueryDocumentSnapshot) => !doc.data()['hidden'];
+  const ids = (page: { docs: Array<{ id: string }> }) => page.docs.map(doc => doc.id);
+
+  const paginate = (query: FakeQuery, extra: { page?: number; cursor?: string }) =>
+    paginateQuery(query as unknown as firestore.Query, {
+      scope: 'comments:v1:n:asc',
+      orderBy: [{ field: 'n', direction: 'asc' }],
+      limit: 3,
+      filter: visible,
+      ...extra,
+    });
+
+  test('reads past hidden documents so pages come back full', async () => {
+    const first = await paginate(new FakeQuery(docs), {});
+    expect(ids(first)).toEqual(['c01', 'c02', 'c04']);
+    expect(first.pagination.hasMore).toBe(true);
+
+    const second = await paginate(new FakeQuery(docs), { cursor: first.pagination.nextCursor! });
+    expect(ids(second)).toEqual(['c05', 'c07', 'c08']);
+
+    const third = await paginate(new FakeQuery(docs), { cursor: second.pagination.nextCursor! });
+    expect(ids(third)).toEqual(['c10', 'c11']);
+    expect(third.pagination.hasMore).toBe(false);
+  });
+
+  test('page numbers skip visible documents rather than raw offsets', async () => {
+    const second = await paginate(new FakeQuery(docs), { page: 2 });
+
+    expect(ids(second)).toEqual(['c05', 'c07', 'c08']);
+    expect(second.pagination.page).toBe(2);
+  });
+});
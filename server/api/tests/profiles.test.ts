@@ -0,0 +1,80 @@
+import express, { NextFunction, Response } from 'express';
+import request from 'supertest';
+import type { Firestore } from 'firebase-admin/firestore';
+import { AuthenticatedRequest } from '../src/middleware/auth.middleware';
+import { errorHandler } from '../src/middleware/error.middleware';
+import { UserController } from '../src/controllers/user.controller';
+import { firebaseService } from '../src/services/firebase.service';
+import { cacheService, cacheTags } from '../src/services/cache.service';
+
+// Just enough Firestore to read documents by path
+class FakeFirestore {
+  public readonly docs = new Map<string, Record<string, any>>();
+
+  public collection(name: string) {
+    return {
+      doc: (id: string) => {
+        const path = `${name}/${id}`;
+        return {
+          get: async () => ({
+            id,
+            exists: this.docs.has(path),
+            data: () => this.docs.get(path),
+          }),
+        };
+      },
+    };
+  }
+}
+
+const buildApp = () => {
+  const app = express();
+  const controller = new UserController();
+  const maybeSignIn = (req: AuthenticatedRequest, _res: Response, next: NextFunction) => {
+    const uid = req.header('x-uid');
+    if (uid) {
+      req.user = { uid, roles: ['user'], tier: 'free' };
+    }
+    next();
+  };
+
+  app.get('/users/:userId', maybeSignIn, controller.getProfile);
+  app.use(errorHandler);
+  return app;
+};
+
+describe('UserController.getProfile', () => {
+  const app = buildApp();
+  let db: FakeFirestore;
+
+  beforeEach(async () => {
+    db = new FakeFirestore();
+    db.docs.set('users/alice', { displayName: 'Alice', email: 'alice@example.com', emailVerified: true });
+    db.docs.set('users/bob', { displayName: 'Bob' });
+    db.docs.set('follows/bob_alice', { followerId: 'bob', followingId: 'alice' });
+    jest.spyOn(firebaseService, 'getFirestore').mockReturnValue(db as unknown as Firestore);
+    await cacheService.invalidateTags([cacheTags.user('alice')]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('the owner\'s private fields and follow state are not served from the shared cache', async () => {
+    const owner = await request(app).get('/users/alice').set('x-uid', 'alice');
+    const follower = await request(app).get('/users/alice').set('x-uid', 'bob');
+    const anonymous = await request(app).get('/users/alice');
+
+    expect(owner.body.data).toMatchObject({ uid: 'alice', email: 'alice@example.com', emailVerified: true });
+    expect(follower.body.data).toMatchObject({ displayName: 'Alice', isFollowing: true });
+    expect(follower.body.data.email).toBeUndefined();
+    expect(anonymous.body.data).toMatchObject({ displayName: 'Alice', isFollowing: false });
+    expect(anonymous.body.data.email).toBeUndefined();
+  });
+
+  test('unknown users are not found', async () => {
+    const res = await request(app).get('/users/nobody');
+
+    expect(res.status).toBe(404);
+  });
+});
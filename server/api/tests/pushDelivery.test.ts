@@ -0,0 +1,200 @@
+import type { Firestore } from 'firebase-admin/firestore';
+import {
+  DueNotification,
+  FirestorePushDeliveryStore,
+  PushDeliveryService,
+  PushDeliveryStore,
+  quietHoursEnd,
+} from '../src/services/pushDelivery.service';
+import { RecordingPushTransport } from '../src/services/pushTransport';
+import { firebaseService } from '../src/services/firebase.service';
+import { toDate } from '../src/services/ranking.service';
+
+const isDue = (data: Record<string, any> | undefined, now: Date): boolean =>
+  Boolean(data) && data!['sent'] !== true && data!['deliverAfter'] != null
+  && toDate(data!['deliverAfter']).getTime() <= now.getTime();
+
+class InMemoryPushDeliveryStore implements PushDeliveryStore {
+  public readonly notifications = new Map<string, Record<string, any>>();
+  public readonly users = new Map<string, Record<string, any>>();
+  public readonly devices = new Map<string, string[]>();
+
+  public async findDue(now: Date, limit: number): Promise<DueNotification[]> {
+    return [...this.notifications.entries()]
+      .filter(([, data]) => isDue(data, now))
+      .sort(([, a], [, b]) => toDate(a['deliverAfter']).getTime() - toDate(b['deliverAfter']).getTime())
+      .slice(0, limit)
+      .map(([id, data]) => ({ id, data: { ...data } }));
+  }
+
+  public async claim(id: string, now: Date, leaseUntil: Date): Promise<boolean> {
+    const data = this.notifications.get(id);
+    if (!isDue(data, now)) {
+      return false;
+    }
+    data!['deliverAfter'] = leaseUntil;
+    return true;
+  }
+
+  public async update(id: string, patch: Record<string, any>): Promise<void> {
+    const data = this.notifications.get(id);
+    if (data) {
+      this.notifications.set(id, { ...data, ...patch });
+    }
+  }
+
+  public async getUser(uid: string): Promise<Record<string, any> | null> {
+    return this.users.get(uid) ?? null;
+  }
+
+  public async getDeviceTokens(uid: string): Promise<string[]> {
+    return [...(this.devices.get(uid) || [])];
+  }
+
+  public async removeDeviceTokens(uid: string, tokens: string[]): Promise<void> {
+    this.devices.set(uid, (this.devices.get(uid) || []).filter(token => !tokens.includes(token)));
+    const user = this.users.get(uid);
+    if (user && tokens.includes(user['deviceToken'])) {
+      delete user['deviceToken'];
+    }
+  }
+}
+
+const options = { batchSize: 10, maxAttempts: 3, retryBackoffMs: 1000, leaseMs: 60_000 };
+const now = new Date('2024-06-01T12:00:00Z');
+
+describe('PushDeliveryService', () => {
+  let store: InMemoryPushDeliveryStore;
+  let transport: RecordingPushTransport;
+  let service: PushDeliveryService;
+
+  const queue = (id: string, patch: Record<string, any> = {}) => {
+    store.notifications.set(id, {
+      userId: 'u1',
+      type: 'like',
+      title: 'New like',
+      body: 'Bob liked your video',
+      actionUrl: '/videos/v1',
+      read: false,
+      sent: false,
+      deliverAfter: new Date(now.getTime() - 1000),
+      ...patch,
+    });
+  };
+
+  beforeEach(() => {
+    store = new InMemoryPushDeliveryStore();
+    transport = new RecordingPushTransport();
+    service = new PushDeliveryService(store, transport, options);
+    store.users.set('u1', { settings: {} });
+  });
+
+  test('sends to every device and drops tokens FCM no longer knows', async () => {
+    store.devices.set('u1', ['phone', 'tablet', 'old']);
+    store.users.set('u1', { deviceToken: 'phone' });
+    transport.invalidTokens.add('old');
+    queue('n1');
+
+    expect(await service.deliverPending(now)).toMatchObject({ sent: 1 });
+
+    expect(transport.sent.map(push => push.token)).toEqual(['phone', 'tablet']);
+    expect(transport.sent[0]?.message.data).toEqual({ notificationId: 'n1', type: 'like', actionUrl: '/videos/v1' });
+    expect(store.devices.get('u1')).toEqual(['phone', 'tablet']);
+    expect(store.notifications.get('n1')).toMatchObject({ sent: true, sentAt: now, deliverAfter: null });
+  });
+
+  test('backs off on transient failures and gives up after maxAttempts', async () => {
+    store.devices.set('u1', ['phone']);
+    transport.failNext = 3;
+    queue('n1');
+
+    expect(await service.deliverPending(now)).toMatchObject({ retry: 1 });
+    expect(store.notifications.get('n1')).toMatchObject({ deliveryAttempts: 1, deliverAfter: new Date(now.getTime() + 1000) });
+
+    // Not due yet
+    expect(await service.deliverPending(now)).toMatchObject({ retry: 0 });
+
+    const later = new Date(now.getTime() + 1000);
+    await service.deliverPending(later);
+    expect(store.notifications.get('n1')?.['deliverAfter']).toEqual(new Date(later.getTime() + 2000));
+
+    await service.deliverPending(new Date(later.getTime() + 2000));
+    expect(store.notifications.get('n1')).toMatchObject({ deliveryStatus: 'failed', deliveryAttempts: 3, deliverAfter: null });
+    expect(transport.sent).toHaveLength(0);
+  });
+
+  test('holds pushes during quiet hours', async () => {
+    store.devices.set('u1', ['phone']);
+    // 12:00 UTC is 20:00 in Singapore
+    store.users.set('u1', { settings: { timezone: 'Asia/Singapore', quietHours: { start: '19:30', end: '08:00' } } });
+    queue('n1');
+
+    expect(await service.deliverPending(now)).toMatchObject({ deferred: 1 });
+    expect(store.notifications.get('n1')?.['deliverAfter']).toEqual(new Date('2024-06-02T00:00:00Z'));
+    expect(transport.sent).toHaveLength(0);
+  });
+
+  test('skips notifications that were read or have nowhere to go', async () => {
+    queue('read', { read: true });
+    queue('nodevice');
+
+    expect(await service.deliverPending(now)).toMatchObject({ skipped: 2 });
+    expect(store.notifications.get('read')?.['deliveryStatus']).toBe('read');
+    expect(store.notifications.get('nodevice')?.['deliveryStatus']).toBe('no-devices');
+  });
+
+  test('does not pick up a notification another worker has leased', async () => {
+    store.devices.set('u1', ['phone']);
+    queue('n1');
+    await store.claim('n1', now, new Date(now.getTime() + 60_000));
+
+    expect(await service.deliverPending(now)).toMatchObject({ sent: 0 });
+    expect(transport.sent).toHaveLength(0);
+  });
+});
+
+describe('FirestorePushDeliveryStore', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('looks tokens up in chunks Firestore accepts', async () => {
+    const tokens = Array.from({ length: 65 }, (_, index) => `token-${index}`);
+    const queries: string[][] = [];
+    const deleted: string[] = [];
+
+    const devices = {
+      where: (_field: string, _op: string, values: string[]) => ({
+        get: async () => {
+          queries.push(values);
+          return { docs: values.map(token => ({ ref: token })) };
+        },
+      }),
+    };
+    const fakeFirestore = {
+      collection: () => ({
+        doc: () => ({ get: async () => ({ get: () => undefined }), collection: () => devices }),
+      }),
+      batch: () => ({ delete: (ref: string) => deleted.push(ref), update: jest.fn(), commit: async () => undefined }),
+    };
+    jest.spyOn(firebaseService, 'getFirestore').mockReturnValue(fakeFirestore as unknown as Firestore);
+
+    await new FirestorePushDeliveryStore().removeDeviceTokens('u1', tokens);
+
+    expect(queries.map(values => values.length)).toEqual([30, 30, 5]);
+    expect(deleted).toEqual(tokens);
+  });
+});
+
+describe('quietHoursEnd', () => {
+  test('handles windows inside a single day', () => {
+    const settings = { quietHours: { start: '09:00', end: '17:00' } };
+    expect(quietHoursEnd(settings, new Date('2024-06-01T12:34:56Z'))).toEqual(new Date('2024-06-01T17:00:00Z'));
+    expect(quietHoursEnd(settings, new Date('2024-06-01T18:00:00Z'))).toBeNull();
+  });
+
+  test('ignores missing or malformed settings', () => {
+    expect(quietHoursEnd(undefined, now)).toBeNull();
+    expect(quietHoursEnd({ quietHours: { start: '25:00', end: '07:00' } }, now)).toBeNull();
+  });
+});
@@ -0,0 +1,110 @@
+import { RankableVideo, RankingDataSource, RankingService, toRankableVideo } from '../src/services/ranking.service';
+import { isPubliclyVisible } from '../src/services/videoVisibility';
+
+class InMemoryRankingDataSource implements RankingDataSource {
+  constructor(
+    private readonly data: {
+      videos: Array<{ id: string } & Record<string, any>>;
+      likes?: Array<{ userId: string; videoId: string }>;
+      views?: Array<{ userId: string; videoId: string }>;
+      follows?: Array<{ followerId: string; followingId: string }>;
+    }
+  ) {}
+
+  public async getCandidateVideos(limit: number): Promise<RankableVideo[]> {
+    return this.data.videos
+      .filter(isPubliclyVisible)
+      .map(video => toRankableVideo(video.id, video))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  public async getVideosByIds(ids: string[]): Promise<RankableVideo[]> {
+    const wanted = new Set(ids);
+    return this.data.videos
+      .filter(video => wanted.has(video.id))
+      .map(video => toRankableVideo(video.id, video));
+  }
+
+  public async getLikedVideoIds(userId: string, limit: number): Promise<string[]> {
+    return (this.data.likes || [])
+      .filter(like => like.userId === userId)
+      .slice(0, limit)
+      .map(like => like.videoId);
+  }
+
+  public async getViewedVideoIds(userId: string, limit: number): Promise<string[]> {
+    return (this.data.views || [])
+      .filter(view => view.userId === userId)
+      .slice(0, limit)
+      .map(view => view.videoId);
+  }
+
+  public async getFollowedUserIds(userId: string, limit: number): Promise<string[]> {
+    return (this.data.follows || [])
+      .filter(follow => follow.followerId === userId)
+      .slice(0, limit)
+      .map(follow => follow.followingId);
+  }
+}
+
+const now = new Date('2025-06-01T12:00:00Z');
+const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000);
+
+const video = (id: string, userId: string, tags: string[], overrides: Record<string, any> = {}) => ({
+  id,
+  userId,
+  tags,
+  visibility: 'public',
+  status: 'published',
+  likeCount: 0,
+  viewCount: 0,
+  commentCount: 0,
+  createdAt: hoursAgo(1),
+  ...overrides,
+});
+
+describe('RankingService', () => {
+  test('anonymous users get trending order', async () => {
+    const service = new RankingService(new InMemoryRankingDataSource({
+      videos: [
+        video('old-hit', 'a', [], { likeCount: 500, createdAt: hoursAgo(24 * 30) }),
+        video('fresh-hit', 'b', [], { likeCount: 100, createdAt: hoursAgo(2) }),
+        video('quiet', 'c', [], { likeCount: 1, createdAt: hoursAgo(1) }),
+      ],
+    }));
+
+    const ranked = await service.rankForUser(undefined, now);
+    expect(ranked.map(v => v.id)).toEqual(['fresh-hit', 'quiet', 'old-hit']);
+  });
+
+  test('boosts followed creators and liked tags, drops liked and own videos', async () => {
+    const service = new RankingService(new InMemoryRankingDataSource({
+      videos: [
+        video('liked-dance', 'x', ['dance']),
+        video('dance-2', 'y', ['dance']),
+        video('cooking', 'z', ['cooking']),
+        video('followed', 'friend', ['gaming']),
+        video('mine', 'me', ['dance']),
+      ],
+      likes: [{ userId: 'me', videoId: 'liked-dance' }],
+      follows: [{ followerId: 'me', followingId: 'friend' }],
+    }));
+
+    const ids = (await service.rankForUser('me', now)).map(v => v.id);
+    expect(ids).not.toContain('liked-dance');
+    expect(ids).not.toContain('mine');
+    expect(ids.indexOf('dance-2')).toBeLessThan(ids.indexOf('cooking'));
+    expect(ids.indexOf('followed')).toBeLessThan(ids.indexOf('cooking'));
+  });
+
+  test('never shows more than two videos from one creator in a row', async () => {
+    const service = new RankingService(new InMemoryRankingDataSource({ videos: [] }));
+    const ranked = ['a', 'a', 'a', 'a', 'b', 'c'].map((userId, i) =>
+      toRankableVideo(`v${i}`, video(`v${i}`, userId, []))
+    );
+
+    const diversified = service.applyDiversity(ranked);
+    expect(diversified.map(v => v.userId)).toEqual(['a', 'a', 'b', 'a', 'a', 'c']);
+  });
+});
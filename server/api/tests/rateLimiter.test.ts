@@ -0,0 +1,136 @@
+import express from 'express';
+import request from 'supertest';
+import rateLimit from 'express-rate-limit';
+import { InMemorySlidingWindowLog, SlidingWindowStore } from '../src/services/rateLimitStore';
+
+const buildApp = (store: SlidingWindowStore, limit: number, windowMs: number) => {
+  const app = express();
+  app.use(rateLimit({
+    windowMs,
+    limit,
+    standardHeaders: 'draft-7',
+    legacyHeaders: false,
+    keyGenerator: () => 'client',
+    store,
+  }));
+  app.get('/', (_req, res) => {
+    res.json({ ok: true });
+  });
+  return app;
+};
+
+describe('InMemorySlidingWindowLog', () => {
+  test('slides the window instead of resetting it all at once', () => {
+    let now = 1_000_000;
+    const log = new InMemorySlidingWindowLog(() => now);
+
+    expect(log.increment('k', 1000, 2)).toEqual({ totalHits: 1, resetTime: new Date(1_001_000) });
+    now += 600;
+    expect(log.increment('k', 1000, 2).totalHits).toBe(2);
+    now += 100;
+    expect(log.increment('k', 1000, 2).totalHits).toBe(3);
+
+    // The first hit has aged out, the second is still counted
+    now = 1_001_000;
+    const info = log.increment('k', 1000, 2);
+    expect(info.totalHits).toBe(2);
+    expect(info.resetTime).toEqual(new Date(1_001_600));
+  });
+
+  test('rejected hits do not extend the window', () => {
+    let now = 0;
+    const log = new InMemorySlidingWindowLog(() => now);
+
+    log.increment('k', 1000, 1);
+    for (let i = 0; i < 5; i++) {
+      now += 150;
+      expect(log.increment('k', 1000, 1).totalHits).toBe(2);
+    }
+
+    now = 1000;
+    expect(log.increment('k', 1000, 1).totalHits).toBe(1);
+  });
+
+  test('decrement removes the newest hit and sweep drops idle keys', () => {
+    let now = 0;
+    const log = new InMemorySlidingWindowLog(() => now);
+
+    log.increment('a', 1000, 0);
+    log.increment('a', 1000, 0);
+    log.decrement('a');
+    expect(log.get('a', 1000)?.totalHits).toBe(1);
+
+    now = 2000;
+    log.sweep(1000);
+    expect(log.get('a', 1000)).toBeUndefined();
+  });
+});
+
+describe('SlidingWindowStore', () => {
+  test('admits exactly the limit from a concurrent burst', async () => {
+    const store = new SlidingWindowStore({ prefix: 'test:burst:', redis: () => null });
+    const app = buildApp(store, 5, 60 * 1000);
+
+    const responses = await Promise.all(Array.from({ length: 20 }, () => request(app).get('/')));
+    const statuses = responses.map(res => res.status);
+
+    expect(statuses.filter(status => status === 200)).toHaveLength(5);
+    expect(statuses.filter(status => status === 429)).toHaveLength(15);
+    store.shutdown();
+  });
+
+  test('reports reset from the oldest hit in the window', async () => {
+    let now = 10_000;
+    const store = new SlidingWindowStore({ prefix: 'test:reset:', redis: () => null, now: () => now });
+    store.init({ windowMs: 60 * 1000, limit: 3 } as any);
+
+    await store.increment('client');
+    now += 20_000;
+    const info = await store.increment('client');
+
+    expect(info.totalHits).toBe(2);
+    expect(info.resetTime).toEqual(new Date(70_000));
+    store.shutdown();
+  });
+
+  test('decrement takes back the Redis hit this instance added', async () => {
+    const added: string[] = [];
+    const removed: string[] = [];
+    const redis = {
+      eval: async (...args: unknown[]) => {
+        added.push(String(args[args.length - 1]));
+        return [added.length, Date.now() + 1000];
+      },
+      zrem: async (_key: string, member: string) => {
+        removed.push(member);
+        return 1;
+      },
+    };
+    const store = new SlidingWindowStore({ prefix: 'test:own:', redis: () => redis as any });
+    store.init({ windowMs: 1000, limit: 1 } as any);
+
+    await store.increment('client');
+    // Over the limit, so the script did not log it
+    await store.increment('client');
+    await store.decrement('client');
+    await store.decrement('client');
+
+    expect(removed).toEqual([added[0]]);
+    store.shutdown();
+  });
+
+  test('keeps separate limiters apart by prefix', async () => {
+    const noRedis = () => null;
+    const first = new SlidingWindowStore({ prefix: 'test:a:', redis: noRedis });
+    const second = new SlidingWindowStore({ prefix: 'test:b:', redis: noRedis });
+    first.init({ windowMs: 1000, limit: 10 } as any);
+    second.init({ windowMs: 1000, limit: 10 } as any);
+
+    await Promise.all([first.increment('same'), first.increment('same'), second.increment('same')]);
+
+    expect((await first.get('same'))?.totalHits).toBe(2);
+    expect((await second.get('same'))?.totalHits).toBe(1);
+    first.shutdown();
+    second.shutdown();
+  });
+});
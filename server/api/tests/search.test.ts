@@ -0,0 +1,128 @@
+import { tokenize } from '../src/utils/tokenizer';
+import { EventEmitter } from 'events';
+import type Redis from 'ioredis';
+import { InvertedSearchIndex, SearchDocument } from '../src/services/searchIndex';
+import { SearchService } from '../src/services/search.service';
+
+const doc = (id: string, title: string, overrides: Partial<SearchDocument> = {}): SearchDocument => ({
+  id,
+  title,
+  description: '',
+  tags: [],
+  createdAt: 0,
+  viewCount: 0,
+  likeCount: 0,
+  ...overrides,
+});
+
+describe('tokenize', () => {
+  test('splits latin text and normalizes case and width', () => {
+    expect(tokenize('Summer ＤＡＮＣＥ Challenge!')).toEqual(['summer', 'dance', 'challenge']);
+  });
+
+  test('segments unspaced CJK and Thai text', () => {
+    expect(tokenize('我喜欢跳舞')).toEqual(expect.arrayContaining(['跳舞']));
+    expect(tokenize('ダンス動画')).toEqual(expect.arrayContaining(['ダンス', '動画']));
+    expect(tokenize('ฉันชอบเต้น')).toEqual(expect.arrayContaining(['ชอบ']));
+    expect(tokenize('춤 영상')).toEqual(['춤', '영상']);
+  });
+});
+
+describe('InvertedSearchIndex', () => {
+  const build = async () => {
+    const index = new InvertedSearchIndex();
+    await index.replaceAll([
+      doc('dance', 'Summer dance challenge', { tags: ['dance'], likeCount: 5 }),
+      doc('cooking', 'Quick ramen recipe', { description: 'a little dance at the end', likeCount: 50 }),
+      doc('jp', '夏のダンス動画', { tags: ['ダンス'] }),
+    ]);
+    return index;
+  };
+
+  test('ranks title matches above description matches', async () => {
+    const { hits, total } = await (await build()).search({ text: 'dance', offset: 0, limit: 10 });
+    expect(total).toBe(2);
+    expect(hits.map(h => h.id)).toEqual(['dance', 'cooking']);
+  });
+
+  test('matches the last term as a prefix', async () => {
+    const { hits } = await (await build()).search({ text: 'summer cha', offset: 0, limit: 10 });
+    expect(hits.map(h => h.id)).toEqual(['dance']);
+  });
+
+  test('finds CJK titles and honours tag filters and sort', async () => {
+    const index = await build();
+    expect((await index.search({ text: 'ダンス', offset: 0, limit: 10 })).hits.map(h => h.id)).toEqual(['jp']);
+
+    const byLikes = await index.search({ text: 'dance', sort: 'likes', offset: 0, limit: 10 });
+    expect(byLikes.hits.map(h => h.id)).toEqual(['cooking', 'dance']);
+
+    const tagged = await index.search({ text: 'dance', tags: ['DANCE'], offset: 0, limit: 10 });
+    expect(tagged.hits.map(h => h.id)).toEqual(['dance']);
+  });
+
+  test('browses by tag without text, matching tags that contain the filter', async () => {
+    const index = await build();
+    const { hits } = await index.search({ text: '', tags: ['DANC'], offset: 0, limit: 10 });
+    expect(hits.map(h => h.id)).toEqual(['dance']);
+  });
+
+  test('stays in sync on update and delete', async () => {
+    const index = await build();
+    await index.upsert(doc('dance', 'Winter skating'));
+    await index.remove('cooking');
+
+    expect((await index.search({ text: 'dance', offset: 0, limit: 10 })).total).toBe(0);
+    expect((await index.search({ text: 'skating', offset: 0, limit: 10 })).hits[0]?.id).toBe('dance');
+  });
+});
+
+// Just enough of ioredis for pub/sub between services in one process
+class FakeRedisBus {
+  private readonly bus = new EventEmitter();
+
+  public client(): Redis {
+    const emitter = new EventEmitter();
+    const client = {
+      publish: async (channel: string, message: string) => {
+        this.bus.emit('message', channel, message);
+        return 1;
+      },
+      duplicate: () => this.client(),
+      subscribe: async () => {
+        this.bus.on('message', (channel: string, message: string) => emitter.emit('message', channel, message));
+        return 1;
+      },
+      on: (event: string, listener: (...args: unknown[]) => void) => {
+        emitter.on(event, listener);
+        return client;
+      },
+      quit: async () => 'OK',
+    };
+    return client as unknown as Redis;
+  }
+}
+
+describe('SearchService across instances', () => {
+  test('applies writes made on another instance', async () => {
+    const bus = new FakeRedisBus();
+    const videos = [{ id: 'a', data: { title: 'Old title', visibility: 'public', status: 'published' } }];
+    const loadAll = async () => videos.map(video => doc(video.id, video.data.title));
+    const first = new SearchService(new InvertedSearchIndex(), loadAll, () => bus.client());
+    const second = new SearchService(new InvertedSearchIndex(), loadAll, () => bus.client());
+
+    await first.search({ text: 'old', offset: 0, limit: 10 });
+    await second.syncVideo('a', { title: 'Fresh title', visibility: 'public', status: 'published' });
+    await second.syncVideo('b', { title: 'Fresh upload', visibility: 'public', status: 'published' });
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect((await first.search({ text: 'fresh', offset: 0, limit: 10 })).hits.map(h => h.id).sort()).toEqual(['a', 'b']);
+    expect((await first.search({ text: 'old', offset: 0, limit: 10 })).total).toBe(0);
+
+    await second.syncVideo('b', { title: 'Fresh upload', visibility: 'private', status: 'published' });
+    await new Promise(resolve => setImmediate(resolve));
+    expect((await first.search({ text: 'upload', offset: 0, limit: 10 })).total).toBe(0);
+
+    await Promise.all([first.stop(), second.stop()]);
+  });
+});
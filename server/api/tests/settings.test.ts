@@ -0,0 +1,137 @@
+import express, { NextFunction, Response } from 'express';
+import request from 'supertest';
+import type { Firestore } from 'firebase-admin/firestore';
+import { AuthenticatedRequest } from '../src/middleware/auth.middleware';
+import { handleValidationErrors } from '../src/middleware/validation.middleware';
+import { errorHandler } from '../src/middleware/error.middleware';
+import { SettingsController } from '../src/controllers/settings.controller';
+import { creatorInteractionSettingsValidation, videoInteractionSettingsValidation } from '../src/validators';
+import { firebaseService } from '../src/services/firebase.service';
+
+// Just enough Firestore for get and update by document path, including dotted field paths
+class FakeFirestore {
+  public readonly docs = new Map<string, Record<string, any>>();
+
+  public collection(name: string) {
+    return {
+      doc: (id: string) => {
+        const path = `${name}/${id}`;
+        return {
+          get: async () => ({
+            exists: this.docs.has(path),
+            data: () => this.docs.get(path),
+          }),
+          update: async (fields: Record<string, unknown>) => {
+            const data = this.docs.get(path)!;
+            Object.entries(fields).forEach(([field, value]) => {
+              const keys = field.split('.');
+              const leaf = keys.pop()!;
+              const parent = keys.reduce((node, key) => (node[key] ??= {}), data);
+              parent[leaf] = value;
+            });
+          },
+        };
+      },
+    };
+  }
+}
+
+const buildApp = () => {
+  const app = express();
+  const controller = new SettingsController();
+  const signIn = (req: AuthenticatedRequest, _res: Response, next: NextFunction) => {
+    req.user = { uid: req.header('x-uid')!, roles: ['user'], tier: 'free' };
+    next();
+  };
+
+  app.use(express.json());
+  app.get('/me/settings/interactions', signIn, controller.getMyInteractionSettings);
+  app.put('/me/settings/interactions', signIn, creatorInteractionSettingsValidation, handleValidationErrors,
+    controller.updateMyInteractionSettings);
+  app.get('/videos/:videoId/settings/interactions', signIn, controller.getVideoInteractionSettings);
+  app.put('/videos/:videoId/settings/interactions', signIn, videoInteractionSettingsValidation, handleValidationErrors,
+    controller.updateVideoInteractionSettings);
+  app.use(errorHandler);
+  return app;
+};
+
+describe('SettingsController', () => {
+  const app = buildApp();
+  let db: FakeFirestore;
+
+  beforeEach(() => {
+    db = new FakeFirestore();
+    db.docs.set('users/creator', { settings: { allowComments: false, notifications: { likes: true } } });
+    db.docs.set('users/viewer', {});
+    db.docs.set('videos/v1', { userId: 'creator' });
+    jest.spyOn(firebaseService, 'getFirestore').mockReturnValue(db as unknown as Firestore);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('creator settings fill in defaults and updates leave other settings alone', async () => {
+    const current = await request(app).get('/me/settings/interactions').set('x-uid', 'creator');
+    expect(current.body.data).toEqual({
+      allowComments: false,
+      allowDanmu: true,
+      blockedKeywords: [],
+      blockedPatterns: [],
+      filterAction: 'reject',
+    });
+
+    const updated = await request(app)
+      .put('/me/settings/interactions')
+      .set('x-uid', 'creator')
+      .send({ blockedKeywords: ['Spoiler'], filterAction: 'hide', settings: { tier: 'pro' } });
+
+    expect(updated.status).toBe(200);
+    expect(updated.body.data).toMatchObject({ allowComments: false, blockedKeywords: ['spoiler'], filterAction: 'hide' });
+    expect(db.docs.get('users/creator')!['settings']['notifications']).toEqual({ likes: true });
+    expect(db.docs.get('users/creator')!['settings']['tier']).toBeUndefined();
+  });
+
+  test('rejects patterns prone to backtracking', async () => {
+    const res = await request(app)
+      .put('/me/settings/interactions')
+      .set('x-uid', 'creator')
+      .send({ blockedPatterns: ['(a|a)*x'] });
+
+    expect(res.status).toBe(400);
+    expect(db.docs.get('users/creator')!['settings']['blockedPatterns']).toBeUndefined();
+  });
+
+  test('only the owner can read or change a video\'s settings', async () => {
+    const read = await request(app).get('/videos/v1/settings/interactions').set('x-uid', 'viewer');
+    const write = await request(app)
+      .put('/videos/v1/settings/interactions')
+      .set('x-uid', 'viewer')
+      .send({ allowDanmu: false });
+    const missing = await request(app).get('/videos/nope/settings/interactions').set('x-uid', 'creator');
+
+    expect(read.status).toBe(403);
+    expect(write.status).toBe(403);
+    expect(db.docs.get('videos/v1')!['interactionSettings']).toBeUndefined();
+    expect(missing.status).toBe(404);
+  });
+
+  test('video overrides win over the creator and null clears them', async () => {
+    const set = await request(app)
+      .put('/videos/v1/settings/interactions')
+      .set('x-uid', 'creator')
+      .send({ allowComments: true, allowDanmu: false });
+
+    expect(set.status).toBe(200);
+    expect(set.body.data.overrides).toEqual({ allowComments: true, allowDanmu: false });
+    expect(set.body.data.effective).toMatchObject({ allowComments: true, allowDanmu: false });
+
+    const cleared = await request(app)
+      .put('/videos/v1/settings/interactions')
+      .set('x-uid', 'creator')
+      .send({ allowComments: null });
+
+    expect(cleared.body.data.overrides).toEqual({ allowDanmu: false });
+    expect(cleared.body.data.effective).toMatchObject({ allowComments: false, allowDanmu: false });
+  });
+});
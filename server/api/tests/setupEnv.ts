@@ -1,4 +1,10 @@
-process.env.FIREBASE_PROJECT_ID = 'test-project';
-process.env.GOOGLE_APPLICATION_CREDENTIALS = 'service-account-key.json';
-process.env.REDIS_URL = 'memory://localhost';
-process.env.NODE_ENV = 'test';
+import os from 'os';
+import path from 'path';
+
+process.env['FIREBASE_PROJECT_ID'] = 'test-project';
+process.env['GOOGLE_APPLICATION_CREDENTIALS'] = 'service-account-key.json';
+process.env['REDIS_URL'] = 'memory://localhost';
+process.env['NODE_ENV'] = 'test';
+process.env['STORAGE_BACKEND'] = 'local';
+process.env['LOCAL_STORAGE_ROOT'] = path.join(os.tmpdir(), 'genz-api-test-storage');
+process.env['TRANSCODER'] = 'fake';
@@ -0,0 +1,49 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { LocalStorageBackend } from '../src/services/storage.service';
+import { sanitizeFilename } from '../src/services/upload.service';
+
+describe('LocalStorageBackend', () => {
+  let root: string;
+  let storage: LocalStorageBackend;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'storage-test-'));
+    storage = new LocalStorageBackend(root);
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  test('reports no metadata until the object is written', async () => {
+    const target = await storage.createResumableUpload('uploads/u1/a/clip.mp4', {
+      contentType: 'video/mp4',
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+
+    expect(target.uploadUrl.startsWith('file://')).toBe(true);
+    expect(await storage.getMetadata('uploads/u1/a/clip.mp4')).toBeNull();
+
+    await storage.writeObject('uploads/u1/a/clip.mp4', Buffer.alloc(42), 'video/mp4');
+
+    expect(await storage.getMetadata('uploads/u1/a/clip.mp4')).toEqual({ size: 42, contentType: 'video/mp4' });
+  });
+
+  test('deletes objects and refuses paths outside the root', async () => {
+    await storage.writeObject('uploads/x.mp4', 'data', 'video/mp4');
+    await storage.deleteObject('uploads/x.mp4');
+
+    expect(await storage.getMetadata('uploads/x.mp4')).toBeNull();
+    await expect(storage.getMetadata('../escape.mp4')).rejects.toThrow('escapes storage root');
+  });
+});
+
+describe('sanitizeFilename', () => {
+  test('drops directories and unsafe characters', () => {
+    expect(sanitizeFilename('../../etc/passwd')).toBe('passwd');
+    expect(sanitizeFilename('my holiday (1).mp4')).toBe('my_holiday_1_.mp4');
+    expect(sanitizeFilename('.hidden')).toBe('hidden');
+  });
+});
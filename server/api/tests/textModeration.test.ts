@@ -0,0 +1,90 @@
+import {
+  LexiconProvider,
+  ModerationProvider,
+  SpamLinkProvider,
+  TextModerationService,
+  normalizeForModeration,
+} from '../src/services/textModeration.service';
+
+describe('normalizeForModeration', () => {
+  test('undoes leetspeak, accents, repeated letters and spaced-out words', () => {
+    expect(normalizeForModeration('Sh1t')).toBe('shit');
+    expect(normalizeForModeration('B!TCHHHH')).toBe('bitch');
+    expect(normalizeForModeration('cabrón')).toBe('cabron');
+    expect(normalizeForModeration('f u c k this')).toBe('fuck this');
+    expect(normalizeForModeration('top 10 clips')).toBe('top 10 clips');
+  });
+
+  test('drops zero-width characters and full-width forms', () => {
+    expect(normalizeForModeration('f\u200Bu\u200Dck')).toBe('fuck');
+    expect(normalizeForModeration('ｆｕｃｋ')).toBe('fuck');
+  });
+});
+
+describe('LexiconProvider', () => {
+  const lexicon = new LexiconProvider();
+  const check = (text: string) => lexicon.check(text);
+
+  test('rejects slurs and holds profanity, including inflected forms', async () => {
+    expect(await check('what a f@gg0t')).toMatchObject({ outcome: 'reject', category: 'hate' });
+    expect(await check('this is fucking great')).toMatchObject({ outcome: 'hold', category: 'harassment' });
+    expect(await check('k y s')).toMatchObject({ outcome: 'hold', category: 'self_harm' });
+  });
+
+  test('matches unspaced scripts inside longer text', async () => {
+    expect(await check('你这个傻逼吧')).toMatchObject({ outcome: 'hold' });
+    expect(await check('진짜 씨발놈')).toMatchObject({ outcome: 'hold' });
+  });
+
+  test('leaves words that merely contain a listed term alone', async () => {
+    expect(await check('Scunthorpe vs Shitake mushrooms, classic assessment')).toEqual({ outcome: 'allow' });
+    expect(await check('spicy food, spices and a bastardization')).toEqual({ outcome: 'allow' });
+  });
+});
+
+describe('SpamLinkProvider', () => {
+  const links = new SpamLinkProvider(2);
+
+  test('holds shorteners, invites and disguised links anywhere', async () => {
+    expect(await links.check('free skins bit.ly/abc', { field: 'comment' })).toMatchObject({ outcome: 'hold', category: 'spam' });
+    expect(await links.check('join discord.gg/xyz', { field: 'bio' })).toMatchObject({ outcome: 'hold' });
+    expect(await links.check('visit mysite dot com', { field: 'comment' })).toMatchObject({ outcome: 'hold', reason: 'Disguised link' });
+  });
+
+  test('allows a few links in long fields but none in names or danmu', async () => {
+    expect(await links.check('source: https://example.com/a', { field: 'comment' })).toEqual({ outcome: 'allow' });
+    expect(await links.check('a.com b.com c.com', { field: 'video_description' })).toMatchObject({ outcome: 'hold', reason: '3 links' });
+    expect(await links.check('example.com', { field: 'danmu' })).toMatchObject({ outcome: 'hold' });
+  });
+});
+
+describe('TextModerationService', () => {
+  const fixed = (name: string, outcome: 'allow' | 'hold' | 'reject'): ModerationProvider => ({
+    name,
+    check: async () => ({ outcome, provider: name }),
+  });
+  const broken: ModerationProvider = {
+    name: 'broken',
+    check: async () => { throw new Error('down'); },
+  };
+
+  test('a reject anywhere wins over earlier holds', async () => {
+    const service = new TextModerationService([fixed('a', 'hold'), fixed('b', 'reject')]);
+    expect(await service.review([{ field: 'comment', text: 'hi' }])).toMatchObject({ outcome: 'reject', provider: 'b' });
+  });
+
+  test('skips failing providers and empty fields', async () => {
+    const service = new TextModerationService([broken, fixed('a', 'hold')]);
+    expect(await service.review([{ field: 'bio', text: '  ' }, { field: 'username', text: undefined }])).toEqual({ outcome: 'allow' });
+    expect(await service.review([{ field: 'bio', text: 'hello' }])).toMatchObject({ outcome: 'hold', provider: 'a' });
+  });
+
+  test('enforce fails rejected text without naming the match', async () => {
+    const service = new TextModerationService([new LexiconProvider()]);
+    await expect(service.enforce([{ field: 'display_name', text: 'n1gg3r' }])).rejects.toMatchObject({
+      statusCode: 400,
+      code: 'CONTENT_REJECTED',
+    });
+    await expect(service.enforce([{ field: 'comment', text: 'nice video' }])).resolves.toEqual({ outcome: 'allow' });
+  });
+});
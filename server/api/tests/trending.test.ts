@@ -0,0 +1,94 @@
+import {
+  EligibleVideo,
+  EngagementEvent,
+  GLOBAL_BUCKET,
+  TrendingService,
+  TrendingSnapshot,
+  TrendingStore,
+  buildSnapshots,
+  scoreEvents,
+} from '../src/services/trending.service';
+import { cacheService } from '../src/services/cache.service';
+
+const now = new Date('2025-06-01T12:00:00Z');
+const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000);
+
+class FakeTrendingStore implements TrendingStore {
+  public snapshots = new Map<string, TrendingSnapshot>();
+  public computeCount = 0;
+
+  constructor(private readonly events: EngagementEvent[], private readonly videos: Map<string, EligibleVideo>) {}
+
+  public async getSnapshot(bucket: string): Promise<TrendingSnapshot | null> {
+    return this.snapshots.get(bucket) || null;
+  }
+
+  public async loadEvents(): Promise<EngagementEvent[]> {
+    this.computeCount++;
+    return this.events;
+  }
+
+  public async loadEligibleVideos(ids: string[]): Promise<Map<string, EligibleVideo>> {
+    return new Map([...this.videos].filter(([id]) => ids.includes(id)));
+  }
+
+  public async saveSnapshots(snapshots: TrendingSnapshot[]): Promise<void> {
+    snapshots.forEach(snapshot => this.snapshots.set(snapshot.bucket, snapshot));
+  }
+}
+
+describe('trending scoring', () => {
+  test('weights engagement types and halves them every half-life', () => {
+    const scores = scoreEvents([
+      { videoId: 'a', type: 'comment', at: now },
+      { videoId: 'a', type: 'view', at: hoursAgo(6) },
+      { videoId: 'b', type: 'like', at: hoursAgo(12) },
+    ], now, 6);
+
+    expect(scores.get('a')).toBeCloseTo(6 + 0.5);
+    expect(scores.get('b')).toBeCloseTo(1);
+  });
+
+  test('buckets videos by region, drops ineligible ones and aggregates tags', () => {
+    const [global, hk] = buildSnapshots(
+      new Map([['a', 3], ['b', 5], ['gone', 100]]),
+      new Map([['a', { tags: ['Dance'], region: 'HK' }], ['b', { tags: ['dance', 'cats'] }]]),
+      now
+    );
+
+    expect(global!.bucket).toBe(GLOBAL_BUCKET);
+    expect(global!.videos.map(entry => entry.videoId)).toEqual(['b', 'a']);
+    expect(global!.tags[0]).toEqual({ tag: 'dance', score: 8, videoCount: 2 });
+    expect(hk).toMatchObject({ bucket: 'HK', videos: [{ videoId: 'a', score: 3 }] });
+  });
+});
+
+describe('TrendingService', () => {
+  beforeEach(async () => {
+    await cacheService.flush();
+  });
+
+  test('answers empty without waiting when nothing was computed yet, then fills in', async () => {
+    const store = new FakeTrendingStore(
+      [{ videoId: 'a', type: 'like', at: hoursAgo(1) }],
+      new Map([['a', { tags: [] }]])
+    );
+    const service = new TrendingService(store);
+
+    const [first, second] = await Promise.all([service.getSnapshot(), service.getSnapshot()]);
+    expect(first.videos).toEqual([]);
+    expect(second.videos).toEqual([]);
+
+    await service.recompute(now);
+    expect(store.computeCount).toBe(1);
+    expect((await service.getSnapshot()).videos.map(entry => entry.videoId)).toEqual(['a']);
+  });
+
+  test('stores empty snapshots for regions with nothing trending', async () => {
+    const store = new FakeTrendingStore([], new Map());
+    await new TrendingService(store).recompute(now);
+
+    expect(store.snapshots.get('JP')).toMatchObject({ bucket: 'JP', videos: [], tags: [] });
+    expect(store.snapshots.get(GLOBAL_BUCKET)).toMatchObject({ videos: [] });
+  });
+});
@@ -0,0 +1,103 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { LocalStorageBackend } from '../src/services/storage.service';
+import { UploadService, UploadStore } from '../src/services/upload.service';
+import { config } from '../src/config';
+import { ApiError, ForbiddenError, NotFoundError, ValidationError } from '../src/utils/errors';
+
+class FakeUploadStore implements UploadStore {
+  public readonly docs = new Map<string, Record<string, any>>();
+
+  public async create(uploadId: string, data: Record<string, unknown>): Promise<void> {
+    this.docs.set(uploadId, { ...data });
+  }
+
+  public async get(uploadId: string): Promise<Record<string, any> | null> {
+    return this.docs.get(uploadId) ?? null;
+  }
+}
+
+describe('UploadService', () => {
+  const now = new Date(Date.UTC(2025, 0, 1, 12));
+  let root: string;
+  let storage: LocalStorageBackend;
+  let store: FakeUploadStore;
+  let uploads: UploadService;
+
+  const openSession = async (contentType = 'video/mp4', size = 42) => {
+    const session = await uploads.createSession('u1', { filename: '../My Clip.mp4', contentType, size }, now);
+    return { ...session, storagePath: store.docs.get(session.uploadId)!['storagePath'] as string };
+  };
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'upload-test-'));
+    storage = new LocalStorageBackend(root);
+    store = new FakeUploadStore();
+    uploads = new UploadService(storage, store);
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  test('only video types are configured for upload', () => {
+    expect(config.upload.allowedTypes.length).toBeGreaterThan(0);
+    expect(config.upload.allowedTypes.every(type => type.startsWith('video/'))).toBe(true);
+  });
+
+  test('opens a pending session under a sanitised path', async () => {
+    const session = await openSession();
+
+    expect(session.method).toBe('PUT');
+    expect(session.storagePath).toBe(`uploads/u1/${session.uploadId}/My_Clip.mp4`);
+    expect(store.docs.get(session.uploadId)).toEqual(expect.objectContaining({
+      userId: 'u1',
+      contentType: 'video/mp4',
+      size: 42,
+      status: 'pending',
+      backend: 'local',
+    }));
+  });
+
+  test('refuses types and sizes outside the limits', async () => {
+    await expect(openSession('image/png')).rejects.toThrow(ValidationError);
+    await expect(openSession('video/mp4', config.upload.maxFileSizeBytes + 1)).rejects.toThrow(ValidationError);
+    expect(store.docs.size).toBe(0);
+  });
+
+  test('hands back an upload once the declared object is stored', async () => {
+    const session = await openSession();
+    await storage.writeObject(session.storagePath, Buffer.alloc(42), 'video/mp4');
+
+    const upload = await uploads.getCompletedUpload(session.uploadId, 'u1', now);
+
+    expect(upload).toEqual(expect.objectContaining({ id: session.uploadId, userId: 'u1', status: 'pending' }));
+  });
+
+  test('rejects uploads that are missing, foreign, used or expired', async () => {
+    const session = await openSession();
+    await storage.writeObject(session.storagePath, Buffer.alloc(42), 'video/mp4');
+
+    await expect(uploads.getCompletedUpload('missing', 'u1', now)).rejects.toThrow(NotFoundError);
+    await expect(uploads.getCompletedUpload(session.uploadId, 'u2', now)).rejects.toThrow(ForbiddenError);
+
+    const later = new Date(now.getTime() + config.upload.sessionTtlMinutes * 60 * 1000);
+    await expect(uploads.getCompletedUpload(session.uploadId, 'u1', later)).rejects.toMatchObject({ statusCode: 410 });
+
+    store.docs.get(session.uploadId)!['status'] = 'consumed';
+    await expect(uploads.getCompletedUpload(session.uploadId, 'u1', now)).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  test('rejects objects that are unfinished or differ from the session', async () => {
+    const session = await openSession();
+
+    await expect(uploads.getCompletedUpload(session.uploadId, 'u1', now)).rejects.toBeInstanceOf(ApiError);
+
+    await storage.writeObject(session.storagePath, Buffer.alloc(41), 'video/mp4');
+    await expect(uploads.getCompletedUpload(session.uploadId, 'u1', now)).rejects.toThrow('size does not match');
+
+    await storage.writeObject(session.storagePath, Buffer.alloc(42), 'text/html');
+    await expect(uploads.getCompletedUpload(session.uploadId, 'u1', now)).rejects.toThrow('type does not match');
+  });
+});
@@ -0,0 +1,80 @@
+import type { Firestore } from 'firebase-admin/firestore';
+import { usernameService, usernameSkeleton, validateUsername } from '../src/services/username.service';
+import { firebaseService } from '../src/services/firebase.service';
+import { ValidationError } from '../src/utils/errors';
+
+describe('usernameSkeleton', () => {
+  test('folds homoglyphs, digits that read as letters, case and underscores', () => {
+    expect(usernameSkeleton('Z0e_Dev')).toBe('zoedev');
+    expect(usernameSkeleton('paypa1')).toBe(usernameSkeleton('paypal'));
+    // Cyrillic а and о
+    expect(usernameSkeleton('аdmin')).toBe('admin');
+    expect(usernameSkeleton('zоe')).toBe('zoe');
+  });
+
+  test('keeps distinct letters and letter pairs apart', () => {
+    expect(usernameSkeleton('bill')).not.toBe(usernameSkeleton('blll'));
+    expect(usernameSkeleton('clay')).not.toBe(usernameSkeleton('day'));
+    expect(usernameSkeleton('barn')).not.toBe(usernameSkeleton('bam'));
+  });
+});
+
+describe('validateUsername', () => {
+  test('accepts ordinary handles', () => {
+    ['zoe_dev', 'bill', 'clara', 'barney', 'Fern42'].forEach(name => {
+      expect(() => validateUsername(name)).not.toThrow();
+    });
+  });
+
+  test('rejects bad characters and lengths', () => {
+    ['zo', 'a'.repeat(31), 'zoe dev', 'zoé'].forEach(name => {
+      expect(() => validateUsername(name)).toThrow(ValidationError);
+    });
+  });
+
+  test('rejects reserved handles and their look-alikes', () => {
+    ['admin', 'Admin', 'supp0rt_', 'm0d', 'r00t'].forEach(name => {
+      expect(() => validateUsername(name)).toThrow('This username is reserved');
+    });
+  });
+});
+
+describe('usernameService.resolve', () => {
+  const claims = new Map<string, Record<string, unknown>>([['zoe', { uid: 'u-zoe' }]]);
+  const users = new Map<string, Record<string, unknown>>([
+    ['u-zoe', { username: 'zoe', usernameLower: 'zoe' }],
+    ['u-old', { username: 'OldTimer' }],
+  ]);
+
+  // Claims by document id; users by a single equality or `in` filter
+  const fakeFirestore = {
+    collection: (name: string) => ({
+      doc: (id: string) => ({
+        get: async () => ({ exists: name === 'usernames' && claims.has(id), data: () => claims.get(id) }),
+      }),
+      where: (field: string, op: '==' | 'in', value: unknown) => ({
+        limit: () => ({
+          get: async () => ({
+            docs: [...users.entries()]
+              .filter(([, data]) => (op === 'in' ? (value as unknown[]).includes(data[field]) : data[field] === value))
+              .map(([id]) => ({ id })),
+          }),
+        }),
+      }),
+    }),
+  };
+
+  beforeEach(() => {
+    jest.spyOn(firebaseService, 'getFirestore').mockReturnValue(fakeFirestore as unknown as Firestore);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('finds claimed handles and legacy ones the backfill has not reached', async () => {
+    expect(await usernameService.resolve('ZOE')).toEqual({ uid: 'u-zoe', redirected: false });
+    expect(await usernameService.resolve('OldTimer')).toEqual({ uid: 'u-old', redirected: false });
+    expect(await usernameService.resolve('nobody')).toBeNull();
+  });
+});
@@ -0,0 +1,193 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { LocalStorageBackend } from '../src/services/storage.service';
+import { FakeTranscoder, selectRenditions, buildMasterPlaylist } from '../src/services/transcoder';
+import {
+  ProcessingStore,
+  VideoProcessingService,
+  VideoStatus,
+  assertTransition,
+  canTransition,
+} from '../src/services/videoProcessing.service';
+import { JobQueue } from '../src/jobs/queue';
+import { config } from '../src/config';
+
+// Mirrors Firestore update semantics, where 'a.b' writes a nested field
+const applyPatch = (target: Record<string, any>, patch: Record<string, any>): Record<string, any> => {
+  const result = { ...target };
+  Object.entries(patch).forEach(([key, value]) => {
+    const [head, ...rest] = key.split('.');
+    if (rest.length === 0) {
+      result[head!] = value;
+    } else {
+      result[head!] = applyPatch(result[head!] || {}, { [rest.join('.')]: value });
+    }
+  });
+  return result;
+};
+
+class InMemoryProcessingStore implements ProcessingStore {
+  constructor(public readonly videos: Map<string, Record<string, any>> = new Map()) {}
+
+  public async get(videoId: string): Promise<Record<string, any> | null> {
+    const video = this.videos.get(videoId);
+    return video ? { ...video } : null;
+  }
+
+  public async update(videoId: string, patch: Record<string, any>): Promise<void> {
+    const video = this.videos.get(videoId);
+    if (video) {
+      this.videos.set(videoId, applyPatch(video, patch));
+    }
+  }
+
+  public async transition(videoId: string, from: VideoStatus, to: VideoStatus, patch: Record<string, any>): Promise<boolean> {
+    assertTransition(from, to);
+    const video = this.videos.get(videoId);
+    if (!video || video['status'] !== from) {
+      return false;
+    }
+    this.videos.set(videoId, applyPatch(video, { ...patch, status: to }));
+    return true;
+  }
+
+  public async findByStatus(status: VideoStatus, limit: number): Promise<Array<{ id: string; data: Record<string, any> }>> {
+    return [...this.videos.entries()]
+      .filter(([, data]) => data['status'] === status)
+      .slice(0, limit)
+      .map(([id, data]) => ({ id, data: { ...data } }));
+  }
+}
+
+const queueOptions = { concurrency: 1, maxAttempts: 2, retryBackoffMs: 1 };
+
+describe('video status transitions', () => {
+  test('follow the uploaded → processing → ready → published lifecycle', () => {
+    expect(canTransition('uploaded', 'processing')).toBe(true);
+    expect(canTransition('processing', 'ready')).toBe(true);
+    expect(canTransition('ready', 'published')).toBe(true);
+    expect(canTransition('failed', 'processing')).toBe(true);
+    expect(canTransition('uploaded', 'published')).toBe(false);
+    expect(canTransition('published', 'processing')).toBe(false);
+  });
+});
+
+describe('selectRenditions', () => {
+  test('never upscales and keeps portrait aspect ratio', () => {
+    const ladder = selectRenditions({ durationSeconds: 10, width: 720, height: 1280 });
+
+    expect(ladder.map(r => r.spec.name)).toEqual(['720p', '480p', '360p']);
+    expect(ladder[1]).toMatchObject({ width: 480, height: 854 });
+  });
+
+  test('falls back to the smallest rung for tiny sources', () => {
+    const ladder = selectRenditions({ durationSeconds: 10, width: 320, height: 240 });
+    expect(ladder.map(r => r.spec.name)).toEqual(['360p']);
+    expect(ladder[0]).toMatchObject({ width: 320, height: 240 });
+  });
+
+  test('master playlist lists renditions from highest bandwidth down', () => {
+    const ladder = selectRenditions({ durationSeconds: 10, width: 1080, height: 1920 }).slice(0, 2);
+    const playlist = buildMasterPlaylist(ladder.map(r => ({
+      ...r,
+      bandwidth: r.spec.videoBitrate,
+      playlist: 'index.m3u8',
+      uri: `${r.spec.name}/index.m3u8`,
+    })).reverse());
+
+    const uris = playlist.split('\n').filter(line => line.endsWith('.m3u8'));
+    expect(uris).toEqual(['1080p/index.m3u8', '720p/index.m3u8']);
+  });
+});
+
+describe('VideoProcessingService', () => {
+  let root: string;
+  let storage: LocalStorageBackend;
+  let store: InMemoryProcessingStore;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'processing-test-'));
+    storage = new LocalStorageBackend(root);
+    await storage.writeObject('uploads/u1/v1/clip.mp4', Buffer.alloc(16), 'video/mp4');
+    store = new InMemoryProcessingStore(new Map([
+      ['v1', { userId: 'u1', status: 'uploaded', storagePath: 'uploads/u1/v1/clip.mp4', thumbnailUrl: '' }],
+    ]));
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  test('probes, writes HLS outputs and publishes', async () => {
+    const service = new VideoProcessingService(store, storage, new FakeTranscoder(), queueOptions);
+
+    service.enqueue('v1');
+    await service.onIdle();
+
+    const video = store.videos.get('v1')!;
+    expect(video['status']).toBe('published');
+    expect(video['duration']).toBe(30);
+    expect(video['resolution']).toEqual({ width: 1080, height: 1920 });
+    expect(video['processing']).toMatchObject({ stage: 'done', progress: 1, attempts: 1 });
+    expect(video['renditions'].map((r: any) => r.name)).toEqual(['1080p', '720p', '480p', '360p']);
+    expect(video['thumbnailUrl']).toContain('videos/v1/thumbnail.jpg');
+
+    const master = await fs.readFile(path.join(root, 'videos/v1/hls/master.m3u8'), 'utf8');
+    expect(master).toContain('#EXT-X-STREAM-INF');
+    expect(await storage.getMetadata('videos/v1/hls/720p/segment_0004.ts')).not.toBeNull();
+  });
+
+  test('stops at ready when the creator holds the video back', async () => {
+    store.videos.set('v1', { ...store.videos.get('v1')!, publishWhenReady: false });
+    const service = new VideoProcessingService(store, storage, new FakeTranscoder(), queueOptions);
+
+    await service.process('v1');
+    expect(store.videos.get('v1')!['status']).toBe('ready');
+
+    await service.publish('v1');
+    expect(store.videos.get('v1')!['status']).toBe('published');
+  });
+
+  test('records failure after the last retry', async () => {
+    const transcoder = new FakeTranscoder(undefined, new Error('corrupt input'));
+    const service = new VideoProcessingService(store, storage, transcoder, queueOptions);
+
+    service.enqueue('v1');
+    await service.onIdle();
+
+    const video = store.videos.get('v1')!;
+    expect(video['status']).toBe('failed');
+    expect(video['processing']).toMatchObject({ stage: 'failed', error: 'corrupt input', attempts: 2 });
+  });
+
+  test('requeues stalled runs without resetting attempts and fails them at the limit', async () => {
+    const stalled = { attempts: 1, updatedAt: new Date(Date.now() - config.processing.staleAfterMs - 1000) };
+    store.videos.set('v1', { ...store.videos.get('v1')!, status: 'processing', processing: stalled });
+    store.videos.set('v2', { ...store.videos.get('v1')!, processing: { ...stalled, attempts: 2 } });
+    const service = new VideoProcessingService(store, storage, new FakeTranscoder(), queueOptions);
+
+    await service.recoverStalled();
+    await service.onIdle();
+
+    expect(store.videos.get('v1')!['status']).toBe('published');
+    expect(store.videos.get('v1')!['processing']).toMatchObject({ attempts: 2 });
+    expect(store.videos.get('v2')!['status']).toBe('failed');
+    expect(store.videos.get('v2')!['processing']).toMatchObject({ attempts: 2, error: 'Processing stalled too many times' });
+  });
+});
+
+describe('JobQueue', () => {
+  test('does not queue a key twice while it is pending', async () => {
+    const seen: string[] = [];
+    const queue = new JobQueue<string>('test', async payload => {
+      seen.push(payload);
+    }, queueOptions);
+
+    expect(queue.enqueue('a', 'first')).toBe(true);
+    expect(queue.enqueue('a', 'second')).toBe(false);
+    await queue.onIdle();
+
+    expect(seen).toEqual(['first']);
+  });
+});
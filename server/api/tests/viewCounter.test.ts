@@ -0,0 +1,210 @@
+import {
+  addDelta,
+  BufferedViews,
+  emptyDelta,
+  MAX_ENTRIES_PER_APPLY,
+  VideoViewInfo,
+  ViewBuffer,
+  ViewCounterService,
+  ViewDelta,
+  ViewStore,
+  WatchEvent,
+} from '../src/services/viewCounter.service';
+import type Redis from 'ioredis';
+import { cacheService } from '../src/services/cache.service';
+
+class InMemoryViewStore implements ViewStore {
+  public readonly videos = new Map<string, VideoViewInfo>();
+  public readonly totals = new Map<string, ViewDelta>();
+  public readonly daily = new Map<string, ViewDelta>();
+  public readonly viewers = new Map<string, Date>();
+
+  public async getVideo(videoId: string): Promise<VideoViewInfo | null> {
+    return this.videos.get(videoId) ?? null;
+  }
+
+  public async recordViewer(userId: string, videoId: string, at: Date): Promise<void> {
+    this.viewers.set(`${userId}_${videoId}`, at);
+  }
+
+  public async apply(entries: BufferedViews[]): Promise<void> {
+    entries.forEach(({ videoId, day, delta }) => {
+      if (!this.videos.has(videoId)) {
+        return;
+      }
+      this.totals.set(videoId, addDelta(this.totals.get(videoId) || emptyDelta(), delta));
+      this.daily.set(`${videoId}_${day}`, addDelta(this.daily.get(`${videoId}_${day}`) || emptyDelta(), delta));
+    });
+  }
+}
+
+const options = { dedupeWindowSeconds: 60, minWatchSeconds: 3, flushBatchSize: 100 };
+const day = new Date('2024-06-01T12:00:00Z');
+
+describe('ViewCounterService', () => {
+  let clock: number;
+  let store: InMemoryViewStore;
+  let service: ViewCounterService;
+
+  const watch = (patch: Partial<WatchEvent> = {}) => service.record({
+    videoId: 'v1',
+    viewerKey: 'ip:1.2.3.4',
+    watchedSeconds: 10,
+    completion: 1,
+    loops: 0,
+    ...patch,
+  }, day);
+
+  beforeEach(async () => {
+    await cacheService.flush();
+    clock = day.getTime();
+    store = new InMemoryViewStore();
+    store.videos.set('v1', { userId: 'creator', durationSeconds: 20, countable: true });
+    service = new ViewCounterService(store, new ViewBuffer({ redis: () => null, now: () => clock }), options);
+  });
+
+  test('counts one view and one play\'s engagement per viewer per window', async () => {
+    expect(await watch()).toEqual({ counted: true });
+    expect(await watch({ completion: 0.5 })).toEqual({ counted: false });
+    expect(await watch({ loops: 3, replayedFrom: [2] })).toEqual({ counted: false });
+    expect(await watch({ viewerKey: 'ip:5.6.7.8' })).toEqual({ counted: true });
+
+    clock += 61_000;
+    expect(await watch({ loops: 1 })).toEqual({ counted: true });
+
+    expect(await service.flush(day)).toBe(1);
+    expect(store.totals.get('v1')).toMatchObject({
+      views: 3,
+      uniqueViewers: 2,
+      watchSeconds: 30,
+      completions: 3,
+      loops: 1,
+      replays: {},
+    });
+    expect(store.daily.get('v1_2024-06-01')).toEqual(store.totals.get('v1'));
+  });
+
+  test('clamps watch time to the video length and reported loops', async () => {
+    await watch({ watchedSeconds: 500, loops: 2 });
+    await service.flush(day);
+
+    expect(store.totals.get('v1')).toMatchObject({ watchSeconds: 60, loops: 2 });
+  });
+
+  test('ignores glances and the creator\'s own plays', async () => {
+    expect(await watch({ watchedSeconds: 1 })).toEqual({ counted: false });
+    // The glance did not use up the viewer's dedupe slot
+    expect(await watch()).toEqual({ counted: true });
+    expect(await watch({ viewerKey: 'user:creator', userId: 'creator' })).toEqual({ counted: false });
+
+    await service.flush(day);
+    expect(store.totals.get('v1')).toMatchObject({ views: 1, watchSeconds: 11 });
+  });
+
+  test('feeds retention from every play and sources from counted views', async () => {
+    await watch({ completion: 0.35, source: 'search' });
+    await watch({ viewerKey: 'ip:5.6.7.8', watchedSeconds: 1, completion: 0.05, source: 'for_you' });
+    await service.flush(day);
+
+    const totals = store.totals.get('v1')!;
+    expect(totals.retention).toEqual([2, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0]);
+    expect(totals.sources).toEqual({ search: 1 });
+  });
+
+  test('counts each rewound second once per play within the video', async () => {
+    await watch({ replayedFrom: [4.2, 4.9, 12, 25] });
+    await watch({ viewerKey: 'ip:5.6.7.8', replayedFrom: [4] });
+    await service.flush(day);
+
+    expect(store.totals.get('v1')!.replays).toEqual({ 4: 2, 12: 1 });
+  });
+
+  test('records watch history for signed-in viewers', async () => {
+    await watch({ viewerKey: 'user:u1', userId: 'u1' });
+
+    expect(store.viewers.get('u1_v1')).toEqual(day);
+  });
+
+  test('rejects unpublished videos', async () => {
+    store.videos.set('draft', { userId: 'creator', durationSeconds: 20, countable: false });
+
+    await expect(watch({ videoId: 'draft' })).rejects.toThrow('Video not found');
+    await expect(watch({ videoId: 'missing' })).rejects.toThrow('Video not found');
+  });
+
+  test('counts opening a video once, sharing the window with watch events', async () => {
+    expect(await service.recordOpen({ videoId: 'v1', viewerKey: 'user:u1', userId: 'u1' }, day)).toEqual({ counted: true });
+    expect(await service.recordOpen({ videoId: 'v1', viewerKey: 'user:u1', userId: 'u1' }, day)).toEqual({ counted: false });
+    expect(await watch({ viewerKey: 'user:u1', userId: 'u1' })).toEqual({ counted: false });
+    expect(await service.recordOpen({ videoId: 'v1', viewerKey: 'user:creator', userId: 'creator' }, day))
+      .toEqual({ counted: false });
+    expect(await service.recordOpen({ videoId: 'missing', viewerKey: 'ip:1.2.3.4' }, day)).toEqual({ counted: false });
+
+    await service.flush(day);
+    expect(store.totals.get('v1')).toMatchObject({ views: 1, uniqueViewers: 1, watchSeconds: 10, sources: { other: 1 } });
+    expect(store.viewers.get('u1_v1')).toEqual(day);
+  });
+
+  test('drains at most the batch size and applies it in Firestore-sized chunks', async () => {
+    const small = new ViewCounterService(store, new ViewBuffer({ redis: () => null, now: () => clock }), {
+      ...options,
+      flushBatchSize: MAX_ENTRIES_PER_APPLY + 10,
+    });
+    const videoIds = Array.from({ length: MAX_ENTRIES_PER_APPLY + 20 }, (_, index) => `v${index + 2}`);
+    for (const videoId of videoIds) {
+      store.videos.set(videoId, { userId: 'creator', durationSeconds: 20, countable: true });
+      await small.record({ videoId, viewerKey: 'ip:1.2.3.4', watchedSeconds: 10, completion: 1, loops: 0 }, day);
+    }
+    const apply = jest.spyOn(store, 'apply');
+
+    expect(await small.flush(day)).toBe(MAX_ENTRIES_PER_APPLY + 10);
+    expect(apply.mock.calls.map(([entries]) => entries.length)).toEqual([MAX_ENTRIES_PER_APPLY, 10]);
+    expect(await small.flush(day)).toBe(10);
+  });
+
+  test('puts back only the chunks that were not written', async () => {
+    const big = new ViewCounterService(store, new ViewBuffer({ redis: () => null, now: () => clock }), {
+      ...options,
+      flushBatchSize: MAX_ENTRIES_PER_APPLY + 1,
+    });
+    const videoIds = Array.from({ length: MAX_ENTRIES_PER_APPLY + 1 }, (_, index) => `v${index + 2}`);
+    for (const videoId of videoIds) {
+      store.videos.set(videoId, { userId: 'creator', durationSeconds: 20, countable: true });
+      await big.record({ videoId, viewerKey: 'ip:1.2.3.4', watchedSeconds: 10, completion: 1, loops: 0 }, day);
+    }
+    jest.spyOn(store, 'apply')
+      .mockImplementationOnce(InMemoryViewStore.prototype.apply.bind(store))
+      .mockRejectedValueOnce(new Error('firestore down'));
+
+    await expect(big.flush(day)).rejects.toThrow('firestore down');
+    expect(await big.flush(day)).toBe(1);
+    expect(videoIds.every(videoId => store.totals.get(videoId)?.views === 1)).toBe(true);
+  });
+
+  test('puts counters back when the flush fails', async () => {
+    await watch();
+    jest.spyOn(store, 'apply').mockRejectedValueOnce(new Error('firestore down'));
+
+    await expect(service.flush(day)).rejects.toThrow('firestore down');
+    expect(await service.flush(day)).toBe(1);
+    expect(store.totals.get('v1')).toMatchObject({ views: 1 });
+  });
+});
+
+describe('ViewBuffer', () => {
+  test('caps a drain at the limit across memory and Redis', async () => {
+    let redis: Redis | null = null;
+    const buffer = new ViewBuffer({ redis: () => redis });
+    for (const videoId of ['a', 'b', 'c']) {
+      await buffer.add({ videoId, day: '2024-06-01', delta: emptyDelta() });
+    }
+
+    const evalCalls: unknown[][] = [];
+    redis = { eval: async (...args: unknown[]) => { evalCalls.push(args); return []; } } as unknown as Redis;
+
+    expect(await buffer.drain(2)).toHaveLength(2);
+    expect(evalCalls).toHaveLength(0);
+    expect(await buffer.drain(5)).toHaveLength(1);
+    expect(evalCalls[0]?.[3]).toBe(4);
+  });
+});